@@ -96,6 +96,14 @@ export class StacksApiSocketClient {
     this.handleSubscription('mempool', false);
   }
 
+  subscribeReorgs() {
+    return this.handleSubscription('reorg', true);
+  }
+
+  unsubscribeReorgs() {
+    this.handleSubscription('reorg', false);
+  }
+
   subscribeAddressTransactions(address: string) {
     return this.handleSubscription(`address-transaction:${address}` as const, true);
   }
@@ -14,6 +14,8 @@ import {
   Transaction,
   RpcMicroblockSubscriptionParams,
   RpcMempoolSubscriptionParams,
+  RpcReorgSubscriptionParams,
+  RpcReorgNotificationParams,
 } from '@stacks/stacks-blockchain-api-types';
 import { BASE_PATH } from '../generated/runtime';
 
@@ -23,6 +25,12 @@ interface Subscription {
   unsubscribe(): Promise<void>;
 }
 
+/** Position to backfill missed notifications from before live notifications are delivered. */
+interface SubscriptionBackfill {
+  from_block_height?: number;
+  from_microblock_hash?: string;
+}
+
 export class StacksApiWebSocketClient {
   webSocket: IWebSocket;
   idCursor = 0;
@@ -38,6 +46,7 @@ export class StacksApiWebSocketClient {
     txUpdate: (event: RpcTxUpdateNotificationParams) => any;
     addressTxUpdate: (event: RpcAddressTxNotificationParams) => void;
     addressBalanceUpdate: (event: RpcAddressBalanceNotificationParams) => void;
+    reorg: (event: RpcReorgNotificationParams) => void;
   }>();
 
   public static async connect(url: string = BASE_PATH): Promise<StacksApiWebSocketClient> {
@@ -113,6 +122,9 @@ export class StacksApiWebSocketClient {
       case 'mempool':
         this.eventEmitter.emit('mempool', data.params as Transaction);
         break;
+      case 'reorg':
+        this.eventEmitter.emit('reorg', data.params as RpcReorgNotificationParams);
+        break;
     }
   }
 
@@ -124,8 +136,11 @@ export class StacksApiWebSocketClient {
     });
   }
 
-  async subscribeBlocks(update: (event: Block) => any): Promise<Subscription> {
-    const params: RpcBlockSubscriptionParams = { event: 'block' };
+  async subscribeBlocks(
+    update: (event: Block) => any,
+    backfill?: SubscriptionBackfill
+  ): Promise<Subscription> {
+    const params: RpcBlockSubscriptionParams = { event: 'block', ...backfill };
     await this.rpcCall('subscribe', params);
     const listener = (event: Block) => {
       update(event);
@@ -139,8 +154,11 @@ export class StacksApiWebSocketClient {
     };
   }
 
-  async subscribeMicroblocks(update: (event: Microblock) => any): Promise<Subscription> {
-    const params: RpcMicroblockSubscriptionParams = { event: 'microblock' };
+  async subscribeMicroblocks(
+    update: (event: Microblock) => any,
+    backfill?: SubscriptionBackfill
+  ): Promise<Subscription> {
+    const params: RpcMicroblockSubscriptionParams = { event: 'microblock', ...backfill };
     await this.rpcCall('subscribe', params);
     const listener = (event: Microblock) => {
       update(event);
@@ -154,6 +172,21 @@ export class StacksApiWebSocketClient {
     };
   }
 
+  async subscribeReorgs(update: (event: RpcReorgNotificationParams) => any): Promise<Subscription> {
+    const params: RpcReorgSubscriptionParams = { event: 'reorg' };
+    await this.rpcCall('subscribe', params);
+    const listener = (event: RpcReorgNotificationParams) => {
+      update(event);
+    };
+    this.eventEmitter.addListener('reorg', listener);
+    return {
+      unsubscribe: () => {
+        this.eventEmitter.removeListener('reorg', listener);
+        return this.rpcCall('unsubscribe', params);
+      },
+    };
+  }
+
   async subscribeMempool(update: (event: Transaction) => any): Promise<Subscription> {
     const params: RpcMempoolSubscriptionParams = { event: 'mempool' };
     await this.rpcCall('subscribe', params);
@@ -191,9 +224,14 @@ export class StacksApiWebSocketClient {
 
   async subscribeAddressTransactions(
     address: string,
-    update: (event: RpcAddressTxNotificationParams) => any
+    update: (event: RpcAddressTxNotificationParams) => any,
+    backfill?: SubscriptionBackfill
   ): Promise<Subscription> {
-    const params: RpcAddressTxSubscriptionParams = { event: 'address_tx_update', address };
+    const params: RpcAddressTxSubscriptionParams = {
+      event: 'address_tx_update',
+      address,
+      ...backfill,
+    };
     const subscribed = await this.rpcCall<{ address: string }>('subscribe', params);
     const listener = (event: RpcAddressTxNotificationParams) => {
       if (event.address === subscribed.address) {
@@ -211,11 +249,13 @@ export class StacksApiWebSocketClient {
 
   async subscribeAddressBalanceUpdates(
     address: string,
-    update: (event: RpcAddressBalanceNotificationParams) => any
+    update: (event: RpcAddressBalanceNotificationParams) => any,
+    backfill?: SubscriptionBackfill
   ): Promise<Subscription> {
     const params: RpcAddressBalanceSubscriptionParams = {
       event: 'address_balance_update',
       address,
+      ...backfill,
     };
     const subscribed = await this.rpcCall<{ address: string }>('subscribe', params);
     const listener = (event: RpcAddressBalanceNotificationParams) => {
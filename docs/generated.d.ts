@@ -5,8 +5,10 @@
 */
 
 export type SchemaMergeRootStub =
+  | AddressActivityListResponse
   | AddressAssetsListResponse
   | AddressBalanceResponse
+  | AddressMempoolTransactionListResponse
   | AddressNftListResponse
   | AddressStxBalanceResponse
   | AddressStxInboundListResponse
@@ -17,14 +19,23 @@ export type SchemaMergeRootStub =
   | BnsFetchFileZoneResponse
   | BnsGetAllNamesResponse
   | BnsGetAllSubdomainsResponse
+  | BnsGetExpiringNamesResponse
   | BnsFetchHistoricalZoneFileResponse
+  | BnsGetNameHistoryResponse
   | BnsGetNameInfoResponse
   | BnsGetNamePriceResponse
+  | BnsGetNamePricesRequest
+  | BnsGetNamePricesResponse
+  | BnsGetNameRecordsResponse
   | BnsNamesOwnByAddressResponse
+  | BnsGetPrimaryNameResponse
+  | BnsGetPrimaryNamesRequest
+  | BnsGetPrimaryNamesResponse
   | BnsGetSubdomainAtTx
   | BnsGetAllNamespacesNamesResponse
   | BnsGetAllNamespacesResponse
   | BnsGetNamespacePriceResponse
+  | BnsGetNamespaceResponse
   | GetAllSubdomainsInName
   | BurnchainRewardSlotHolderListResponse
   | BurnchainRewardListResponse
@@ -51,6 +62,8 @@ export type SchemaMergeRootStub =
   | GetStxSupplyResponse
   | MicroblockListResponse
   | UnanchoredTransactionListResponse
+  | PoxCycleStackerListResponse
+  | PoxCycleListResponse
   | RosettaAccountBalanceRequest
   | RosettaAccountBalanceResponse
   | RosettaBlockRequest
@@ -87,23 +100,43 @@ export type SchemaMergeRootStub =
   | BlockSearchResult
   | ContractSearchResult
   | SearchErrorResult
+  | SearchMatch
+  | SearchMatchList
   | MempoolTxSearchResult
   | SearchSuccessResult
+  | TermMatchesSearchResult
   | TxSearchResult
   | SearchResult
   | {
       [k: string]: unknown | undefined;
     }
+  | FungibleTokenHolderList
+  | FungibleTokenSupply
   | FungibleTokensMetadataList
   | NonFungibleTokenHistoryEventList
   | NonFungibleTokenHoldingsList
   | NonFungibleTokenMintList
   | NonFungibleTokensMetadataList
+  | TokenMetadataRefreshRequest
+  | TokenMetadataRefreshResponse
+  | MempoolTransactionStatsResponse
   | MempoolTransactionListResponse
   | GetRawTransactionResult
   | TransactionEventsResponse
   | TransactionResults
   | PostCoreNodeTransactionsError
+  | WebhookDeliveryListResponse
+  | WebhookListResponse
+  | WebhookCreateRequest
+  | WebhookCreateResponse
+  | AbstractAddressActivity
+  | AddressActivityBnsName
+  | AddressActivityContractCall
+  | AddressActivityFungibleToken
+  | AddressActivityNonFungibleToken
+  | AddressActivityStacking
+  | AddressActivityStx
+  | AddressActivity
   | AddressNonces
   | AddressTokenOfferingLocked
   | AddressTransactionWithTransfers
@@ -112,14 +145,20 @@ export type SchemaMergeRootStub =
   | NftBalance
   | StxBalance
   | Block
+  | BnsNameHistoryEntry
+  | BnsZoneFileRecords
   | BurnchainRewardSlotHolder
   | BurnchainReward
   | BurnchainRewardsTotal
+  | DecodedClarityValue
   | ReadOnlyFunctionArgs
   | SmartContract
   | TargetBlockTime
   | ChainTip
+  | FeeRateTiers
   | AbstractMempoolTransaction
+  | MempoolTransactionStatsByType
+  | MempoolTransactionStatsPercentiles
   | MempoolTokenTransferTransaction
   | MempoolSmartContractTransaction
   | MempoolContractCallTransaction
@@ -139,6 +178,8 @@ export type SchemaMergeRootStub =
   | PostConditionPrincipal
   | PostConditionType
   | PostCondition
+  | PoxCycle
+  | PoxStacker
   | RosettaAccountIdentifier
   | RosettaAccount
   | RosettaMaxFeeAmount
@@ -172,6 +213,7 @@ export type SchemaMergeRootStub =
   | RosettaSyncStatus
   | TransactionIdentifier
   | RosettaTransaction
+  | FungibleTokenHolder
   | FungibleTokenMetadata
   | NonFungibleTokenHistoryEventWithTxId
   | NonFungibleTokenHistoryEventWithTxMetadata
@@ -179,6 +221,7 @@ export type SchemaMergeRootStub =
   | NonFungibleTokenHoldingWithTxId
   | NonFungibleTokenHoldingWithTxMetadata
   | NonFungibleTokenHolding
+  | NonFungibleTokenInstanceMetadata
   | NonFungibleTokenMintWithTxId
   | NonFungibleTokenMintWithTxMetadata
   | NonFungibleTokenMint
@@ -214,6 +257,8 @@ export type SchemaMergeRootStub =
   | TransactionType
   | Transaction
   | InboundStxTransfer
+  | WebhookDelivery
+  | Webhook
   | RpcAddressBalanceNotificationParams
   | RpcAddressBalanceNotificationResponse
   | RpcAddressBalanceSubscriptionParams
@@ -231,11 +276,103 @@ export type SchemaMergeRootStub =
   | RpcMicroblockNotificationResponse
   | RpcMicroblockSubscriptionParams
   | RpcMicroblockSubscriptionRequest
+  | RpcReorgNotificationParams
+  | RpcReorgNotificationResponse
+  | RpcReorgSubscriptionParams
+  | RpcReorgSubscriptionRequest
   | RpcSubscriptionType
   | RpcTxUpdateNotificationParams
   | RpcTxUpdateNotificationResponse
   | RpcTxUpdateSubscriptionParams
   | RpcTxUpdateSubscriptionRequest;
+/**
+ * Entry of a principal's activity timeline
+ */
+export type AddressActivity =
+  | AddressActivityStx
+  | AddressActivityFungibleToken
+  | AddressActivityNonFungibleToken
+  | AddressActivityContractCall
+  | AddressActivityStacking
+  | AddressActivityBnsName;
+/**
+ * STX transferred, minted or burned
+ */
+export type AddressActivityStx = AbstractAddressActivity & {
+  activity_type: "stx_sent" | "stx_received";
+  asset_event_type: "transfer" | "mint" | "burn";
+  /**
+   * Amount in micro-STX
+   */
+  amount: string;
+  sender?: string;
+  recipient?: string;
+};
+/**
+ * Fungible tokens transferred, minted or burned
+ */
+export type AddressActivityFungibleToken = AbstractAddressActivity & {
+  activity_type: "ft_sent" | "ft_received";
+  asset_event_type: "transfer" | "mint" | "burn";
+  asset_identifier: string;
+  amount: string;
+  sender?: string;
+  recipient?: string;
+};
+/**
+ * Non-fungible token transferred, minted or burned
+ */
+export type AddressActivityNonFungibleToken = AbstractAddressActivity & {
+  activity_type: "nft_sent" | "nft_received";
+  asset_event_type: "transfer" | "mint" | "burn";
+  asset_identifier: string;
+  /**
+   * Identifier of the NFT
+   */
+  value: {
+    hex: string;
+    repr: string;
+  };
+  sender?: string;
+  recipient?: string;
+};
+/**
+ * Contract function called by the principal
+ */
+export type AddressActivityContractCall = AbstractAddressActivity & {
+  activity_type: "contract_call";
+  contract_id: string;
+  function_name: string;
+};
+/**
+ * STX locked for stacking, or unlocked at the end of the stacking period
+ */
+export type AddressActivityStacking = AbstractAddressActivity & {
+  activity_type: "stx_lock" | "stx_unlock";
+  /**
+   * Amount in micro-STX
+   */
+  locked_amount: string;
+  /**
+   * Burn block height at which the STX are unlocked
+   */
+  unlock_height: number;
+};
+/**
+ * BNS name registered by, or transferred from or to the principal
+ */
+export type AddressActivityBnsName = AbstractAddressActivity & {
+  activity_type: "bns_name_registration" | "bns_name_transfer";
+  name: string;
+  /**
+   * Previous owner of a transferred name
+   */
+  sender?: string;
+  /**
+   * Owner of the name after the activity
+   */
+  recipient: string;
+};
 export type TransactionEvent =
   | TransactionEventSmartContractLog
   | TransactionEventStxLock
@@ -254,6 +391,7 @@ export type TransactionEventSmartContractLog = AbstractTransactionEvent & {
     value: {
       hex: string;
       repr: string;
+      decoded?: DecodedClarityValue;
     };
   };
 };
@@ -300,9 +438,144 @@ export type TransactionEventNonFungibleAsset = AbstractTransactionEvent & {
     value: {
       hex: string;
       repr: string;
+      decoded?: DecodedClarityValue;
     };
   };
 };
+/**
+ * Describes all transaction types on Stacks 2.0 blockchain
+ */
+export type MempoolTransaction =
+  | MempoolTokenTransferTransaction
+  | MempoolSmartContractTransaction
+  | MempoolContractCallTransaction
+  | MempoolPoisonMicroblockTransaction
+  | MempoolCoinbaseTransaction;
+/**
+ * Describes representation of a Type-0 Stacks 2.0 transaction. https://github.com/blockstack/stacks-blockchain/blob/master/sip/sip-005-blocks-and-transactions.md#type-0-transferring-an-asset
+ */
+export type MempoolTokenTransferTransaction = AbstractMempoolTransaction & TokenTransferTransactionMetadata;
+/**
+ * Abstract transaction. This schema makes up all properties common between all Stacks 2.0 transaction types
+ */
+export type AbstractMempoolTransaction = BaseTransaction & {
+  tx_status: MempoolTransactionStatus;
+  /**
+   * A unix timestamp (in seconds) indicating when the transaction broadcast was received by the node.
+   */
+  receipt_time: number;
+  /**
+   * An ISO 8601 (YYYY-MM-DDTHH:mm:ss.sssZ) timestamp indicating when the transaction broadcast was received by the node.
+   */
+  receipt_time_iso: string;
+  /**
+   * Transaction ID of the transaction that replaced this one. Only set for transactions dropped with a `dropped_replace_by_fee` or `dropped_replace_across_fork` status, once the replacing transaction is known.
+   */
+  replaced_by_tx_id?: string;
+};
+export type PostConditionMode = "allow" | "deny";
+/**
+ * Post-conditionscan limit the damage done to a user's assets
+ */
+export type PostCondition = PostConditionStx | PostConditionFungible | PostConditionNonFungible;
+export type PostConditionStx = {
+  principal: PostConditionPrincipal;
+} & {
+  condition_code: PostConditionFungibleConditionCode;
+  amount: string;
+  type: "stx";
+};
+export type PostConditionPrincipal =
+  | {
+      /**
+       * String literal of type `PostConditionPrincipalType`
+       */
+      type_id: "principal_origin";
+    }
+  | {
+      /**
+       * String literal of type `PostConditionPrincipalType`
+       */
+      type_id: "principal_standard";
+      address: string;
+    }
+  | {
+      /**
+       * String literal of type `PostConditionPrincipalType`
+       */
+      type_id: "principal_contract";
+      address: string;
+      contract_name: string;
+    };
+/**
+ * A fungible condition code encodes a statement being made for either STX or a fungible token, with respect to the originating account.
+ */
+export type PostConditionFungibleConditionCode =
+  | "sent_equal_to"
+  | "sent_greater_than"
+  | "sent_greater_than_or_equal_to"
+  | "sent_less_than"
+  | "sent_less_than_or_equal_to";
+export type PostConditionFungible = {
+  principal: PostConditionPrincipal;
+} & {
+  condition_code: PostConditionFungibleConditionCode;
+  type: "fungible";
+  amount: string;
+  asset: {
+    asset_name: string;
+    contract_address: string;
+    contract_name: string;
+  };
+};
+export type PostConditionNonFungible = {
+  principal: PostConditionPrincipal;
+} & {
+  condition_code: PostConditionNonFungibleConditionCode;
+  type: "non_fungible";
+  asset_value: {
+    hex: string;
+    repr: string;
+  };
+  asset: {
+    asset_name: string;
+    contract_address: string;
+    contract_name: string;
+  };
+};
+/**
+ * A non-fungible condition code encodes a statement being made about a non-fungible token, with respect to whether or not the particular non-fungible token is owned by the account.
+ */
+export type PostConditionNonFungibleConditionCode = "sent" | "not_sent";
+/**
+ * `on_chain_only`: the transaction MUST be included in an anchored block, `off_chain_only`: the transaction MUST be included in a microblock, `any`: the leader can choose where to include the transaction.
+ */
+export type TransactionAnchorModeType = "on_chain_only" | "off_chain_only" | "any";
+/**
+ * Status of the transaction
+ */
+export type MempoolTransactionStatus =
+  | "pending"
+  | "dropped_replace_by_fee"
+  | "dropped_replace_across_fork"
+  | "dropped_too_expensive"
+  | "dropped_stale_garbage_collect";
+/**
+ * Describes representation of a Type-1 Stacks 2.0 transaction. https://github.com/blockstack/stacks-blockchain/blob/master/sip/sip-005-blocks-and-transactions.md#type-1-instantiating-a-smart-contract
+ */
+export type MempoolSmartContractTransaction = AbstractMempoolTransaction & SmartContractTransactionMetadata;
+/**
+ * Describes representation of a Type 2 Stacks 2.0 transaction: Contract Call
+ */
+export type MempoolContractCallTransaction = AbstractMempoolTransaction & ContractCallTransactionMetadata;
+/**
+ * Describes representation of a Type 3 Stacks 2.0 transaction: Poison Microblock
+ */
+export type MempoolPoisonMicroblockTransaction = AbstractMempoolTransaction & PoisonMicroblockTransactionMetadata;
+/**
+ * Describes representation of a Type 3 Stacks 2.0 transaction: Poison Microblock
+ */
+export type MempoolCoinbaseTransaction = AbstractMempoolTransaction & CoinbaseTransactionMetadata;
 /**
  * GET request that returns address balances
  */
@@ -371,6 +644,7 @@ export type AbstractTransaction = BaseTransaction & {
      * Readable string of the transaction result
      */
     repr: string;
+    decoded?: DecodedClarityValue;
   };
   /**
    * Number of transaction events
@@ -421,84 +695,6 @@ export type AbstractTransaction = BaseTransaction & {
    */
   events: TransactionEvent[];
 };
-export type PostConditionMode = "allow" | "deny";
-/**
- * Post-conditionscan limit the damage done to a user's assets
- */
-export type PostCondition = PostConditionStx | PostConditionFungible | PostConditionNonFungible;
-export type PostConditionStx = {
-  principal: PostConditionPrincipal;
-} & {
-  condition_code: PostConditionFungibleConditionCode;
-  amount: string;
-  type: "stx";
-};
-export type PostConditionPrincipal =
-  | {
-      /**
-       * String literal of type `PostConditionPrincipalType`
-       */
-      type_id: "principal_origin";
-    }
-  | {
-      /**
-       * String literal of type `PostConditionPrincipalType`
-       */
-      type_id: "principal_standard";
-      address: string;
-    }
-  | {
-      /**
-       * String literal of type `PostConditionPrincipalType`
-       */
-      type_id: "principal_contract";
-      address: string;
-      contract_name: string;
-    };
-/**
- * A fungible condition code encodes a statement being made for either STX or a fungible token, with respect to the originating account.
- */
-export type PostConditionFungibleConditionCode =
-  | "sent_equal_to"
-  | "sent_greater_than"
-  | "sent_greater_than_or_equal_to"
-  | "sent_less_than"
-  | "sent_less_than_or_equal_to";
-export type PostConditionFungible = {
-  principal: PostConditionPrincipal;
-} & {
-  condition_code: PostConditionFungibleConditionCode;
-  type: "fungible";
-  amount: string;
-  asset: {
-    asset_name: string;
-    contract_address: string;
-    contract_name: string;
-  };
-};
-export type PostConditionNonFungible = {
-  principal: PostConditionPrincipal;
-} & {
-  condition_code: PostConditionNonFungibleConditionCode;
-  type: "non_fungible";
-  asset_value: {
-    hex: string;
-    repr: string;
-  };
-  asset: {
-    asset_name: string;
-    contract_address: string;
-    contract_name: string;
-  };
-};
-/**
- * A non-fungible condition code encodes a statement being made about a non-fungible token, with respect to whether or not the particular non-fungible token is owned by the account.
- */
-export type PostConditionNonFungibleConditionCode = "sent" | "not_sent";
-/**
- * `on_chain_only`: the transaction MUST be included in an anchored block, `off_chain_only`: the transaction MUST be included in a microblock, `any`: the leader can choose where to include the transaction.
- */
-export type TransactionAnchorModeType = "on_chain_only" | "off_chain_only" | "any";
 /**
  * Status of the transaction
  */
@@ -519,64 +715,13 @@ export type PoisonMicroblockTransaction = AbstractTransaction & PoisonMicroblock
  * Describes representation of a Type 3 Stacks 2.0 transaction: Poison Microblock
  */
 export type CoinbaseTransaction = AbstractTransaction & CoinbaseTransactionMetadata;
-/**
- * Describes all transaction types on Stacks 2.0 blockchain
- */
-export type MempoolTransaction =
-  | MempoolTokenTransferTransaction
-  | MempoolSmartContractTransaction
-  | MempoolContractCallTransaction
-  | MempoolPoisonMicroblockTransaction
-  | MempoolCoinbaseTransaction;
-/**
- * Describes representation of a Type-0 Stacks 2.0 transaction. https://github.com/blockstack/stacks-blockchain/blob/master/sip/sip-005-blocks-and-transactions.md#type-0-transferring-an-asset
- */
-export type MempoolTokenTransferTransaction = AbstractMempoolTransaction & TokenTransferTransactionMetadata;
-/**
- * Abstract transaction. This schema makes up all properties common between all Stacks 2.0 transaction types
- */
-export type AbstractMempoolTransaction = BaseTransaction & {
-  tx_status: MempoolTransactionStatus;
-  /**
-   * A unix timestamp (in seconds) indicating when the transaction broadcast was received by the node.
-   */
-  receipt_time: number;
-  /**
-   * An ISO 8601 (YYYY-MM-DDTHH:mm:ss.sssZ) timestamp indicating when the transaction broadcast was received by the node.
-   */
-  receipt_time_iso: string;
-};
-/**
- * Status of the transaction
- */
-export type MempoolTransactionStatus =
-  | "pending"
-  | "dropped_replace_by_fee"
-  | "dropped_replace_across_fork"
-  | "dropped_too_expensive"
-  | "dropped_stale_garbage_collect";
-/**
- * Describes representation of a Type-1 Stacks 2.0 transaction. https://github.com/blockstack/stacks-blockchain/blob/master/sip/sip-005-blocks-and-transactions.md#type-1-instantiating-a-smart-contract
- */
-export type MempoolSmartContractTransaction = AbstractMempoolTransaction & SmartContractTransactionMetadata;
-/**
- * Describes representation of a Type 2 Stacks 2.0 transaction: Contract Call
- */
-export type MempoolContractCallTransaction = AbstractMempoolTransaction & ContractCallTransactionMetadata;
-/**
- * Describes representation of a Type 3 Stacks 2.0 transaction: Poison Microblock
- */
-export type MempoolPoisonMicroblockTransaction = AbstractMempoolTransaction & PoisonMicroblockTransactionMetadata;
-/**
- * Describes representation of a Type 3 Stacks 2.0 transaction: Poison Microblock
- */
-export type MempoolCoinbaseTransaction = AbstractMempoolTransaction & CoinbaseTransactionMetadata;
 /**
  * Fetch a user's raw zone file. This only works for RFC-compliant zone files. This method returns an error for names that have non-standard zone files.
  */
 export type BnsFetchFileZoneResponse =
   | {
       zonefile?: string;
+      records?: BnsZoneFileRecords;
     }
   | {
       error?: string;
@@ -589,6 +734,21 @@ export type BnsGetAllNamesResponse = string[];
  * Fetch a list of all subdomains known to the node.
  */
 export type BnsGetAllSubdomainsResponse = string[];
+/**
+ * Names expiring within the requested number of blocks, soonest first
+ */
+export type BnsGetExpiringNamesResponse = {
+  name: string;
+  /**
+   * Current owner of the name
+   */
+  address: string;
+  namespace_id: string;
+  /**
+   * Block height at which the name expires
+   */
+  expire_block: number;
+}[];
 /**
  * Fetches the historical zonefile specified by the username and zone hash.
  */
@@ -599,6 +759,10 @@ export type BnsFetchHistoricalZoneFileResponse =
   | {
       error?: string;
     };
+/**
+ * Operations on a name, in chronological order
+ */
+export type BnsGetNameHistoryResponse = BnsNameHistoryEntry[];
 /**
  * Fetches the list of subdomain operations processed by a given transaction. The returned array includes subdomain operations that have not yet been accepted as part of any subdomain’s history (checkable via the accepted field). If the given transaction ID does not correspond to a Stacks transaction that introduced new subdomain operations, and empty array will be returned.
  */
@@ -630,6 +794,10 @@ export type GetAllSubdomainsInName = string[];
  * GET fee estimates
  */
 export type CoreNodeFeeResponse = string;
+/**
+ * String literal of all Stacks 2.0 transaction types
+ */
+export type TransactionType = "token_transfer" | "smart_contract" | "contract_call" | "poison_microblock" | "coinbase";
 /**
  * GET request that returns network target block times
  */
@@ -663,7 +831,8 @@ export type SearchSuccessResult =
   | BlockSearchResult
   | ContractSearchResult
   | MempoolTxSearchResult
-  | TxSearchResult;
+  | TxSearchResult
+  | TermMatchesSearchResult;
 /**
  * complete search result for terms
  */
@@ -682,8 +851,6 @@ export type NonFungibleTokenHolding = NonFungibleTokenHoldingWithTxId | NonFungi
  * Describes the minting of a Non-Fungible Token
  */
 export type NonFungibleTokenMint = NonFungibleTokenMintWithTxId | NonFungibleTokenMintWithTxMetadata;
-export type PostConditionPrincipalType = "principal_origin" | "principal_standard" | "principal_contract";
-export type PostConditionType = "stx" | "non_fungible" | "fungible";
 /**
  * Events types
  */
@@ -693,24 +860,65 @@ export type TransactionEventType =
   | "stx_asset"
   | "fungible_token_asset"
   | "non_fungible_token_asset";
+/**
+ * Registered webhook, including the secret used to sign its deliveries
+ */
+export type WebhookCreateResponse = Webhook & {
+  /**
+   * Key used to sign delivery request bodies with HMAC-SHA256. It is only returned when the webhook is registered.
+   */
+  secret: string;
+  [k: string]: unknown | undefined;
+};
+export type PostConditionPrincipalType = "principal_origin" | "principal_standard" | "principal_contract";
+export type PostConditionType = "stx" | "non_fungible" | "fungible";
 export type TransactionMetadata =
   | TokenTransferTransactionMetadata
   | SmartContractTransactionMetadata
   | ContractCallTransactionMetadata
   | PoisonMicroblockTransactionMetadata
   | CoinbaseTransactionMetadata;
-/**
- * String literal of all Stacks 2.0 transaction types
- */
-export type TransactionType = "token_transfer" | "smart_contract" | "contract_call" | "poison_microblock" | "coinbase";
 export type RpcSubscriptionType =
   | "tx_update"
   | "address_tx_update"
   | "address_balance_update"
   | "block"
   | "microblock"
-  | "mempool";
+  | "mempool"
+  | "reorg";
 
+/**
+ * GET request that returns a page of the activity timeline of a principal
+ */
+export interface AddressActivityListResponse {
+  limit: number;
+  /**
+   * Cursor of the next page of older entries, `null` on the last page
+   */
+  next_cursor: string;
+  results: AddressActivity[];
+}
+/**
+ * Properties common to every entry of a principal's activity timeline
+ */
+export interface AbstractAddressActivity {
+  /**
+   * Transaction that caused the activity. Not set for `stx_unlock` entries.
+   */
+  tx_id?: string;
+  /**
+   * Height of the block containing the activity
+   */
+  block_height: number;
+  /**
+   * Unix timestamp (in seconds) of the burn block of the block containing the activity
+   */
+  burn_block_time: number;
+  /**
+   * An ISO 8601 (YYYY-MM-DDTHH:mm:ss.sssZ) timestamp of the burn block of the block containing the activity
+   */
+  burn_block_time_iso: string;
+}
 /**
  * GET request that returns address assets
  */
@@ -723,6 +931,30 @@ export interface AddressAssetsListResponse {
 export interface AbstractTransactionEvent {
   event_index: number;
 }
+/**
+ * JSON representation of a Clarity value, returned when requested with the `decode=json` query parameter
+ */
+export interface DecodedClarityValue {
+  /**
+   * Clarity type signature of the value, e.g. `(tuple (amount uint))`. Taken from the contract ABI when available, otherwise inferred from the value.
+   */
+  type: string;
+  /**
+   * Only set for `response` values. `true` for an `ok` response, `false` for an `err` response.
+   */
+  success?: boolean;
+  /**
+   * Decoded value. Integers are returned as strings, buffers as hex strings, principals as strings, lists as arrays and tuples as objects. The inner value of `optional` and `response` values is wrapped in its own decoded value, `optional` values are `null` when `none`. Nested values (list items, tuple entries and inner values) are decoded values with the same `type` and `value` structure.
+   */
+  value:
+    | string
+    | boolean
+    | null
+    | unknown[]
+    | {
+        [k: string]: unknown | undefined;
+      };
+}
 export interface TransactionEventAsset {
   asset_event_type?: TransactionEventAssetType;
   asset_id?: string;
@@ -805,6 +1037,150 @@ export interface AddressUnlockSchedule {
   amount: string;
   block_height: number;
 }
+/**
+ * GET request that returns the mempool transactions of an address, along with nonce issues of the pending transactions it sent
+ */
+export interface AddressMempoolTransactionListResponse {
+  limit: number;
+  offset: number;
+  total: number;
+  results: MempoolTransaction[];
+  /**
+   * Nonces used by more than one pending transaction sent or sponsored by this address. Only one of those transactions can be mined.
+   */
+  nonce_conflicts: {
+    nonce: number;
+    /**
+     * IDs of the conflicting transactions, highest fee first
+     */
+    tx_ids: string[];
+  }[];
+  /**
+   * Nonces missing between the last executed and the last pending transaction sent by this address. Pending transactions after a missing nonce can't be mined until it is used.
+   */
+  detected_missing_nonces: number[];
+}
+/**
+ * Transaction properties that are available from a raw serialized transactions. These are available for transactions in the mempool as well as mined transactions.
+ */
+export interface BaseTransaction {
+  /**
+   * Transaction ID
+   */
+  tx_id: string;
+  /**
+   * Used for ordering the transactions originating from and paying from an account. The nonce ensures that a transaction is processed at most once. The nonce counts the number of times an account's owner(s) have authorized a transaction. The first transaction from an account will have a nonce value equal to 0, the second will have a nonce value equal to 1, and so on.
+   */
+  nonce: number;
+  /**
+   * Transaction fee as Integer string (64-bit unsigned integer).
+   */
+  fee_rate: string;
+  /**
+   * Address of the transaction initiator
+   */
+  sender_address: string;
+  sponsor_nonce?: number;
+  /**
+   * Denotes whether the originating account is the same as the paying account
+   */
+  sponsored: boolean;
+  sponsor_address?: string;
+  post_condition_mode: PostConditionMode;
+  post_conditions: PostCondition[];
+  anchor_mode: TransactionAnchorModeType;
+}
+/**
+ * Metadata associated with token-transfer type transactions
+ */
+export interface TokenTransferTransactionMetadata {
+  tx_type: "token_transfer";
+  token_transfer: {
+    recipient_address: string;
+    /**
+     * Transfer amount as Integer string (64-bit unsigned integer)
+     */
+    amount: string;
+    /**
+     * Hex encoded arbitrary message, up to 34 bytes length (should try decoding to an ASCII string)
+     */
+    memo: string;
+  };
+}
+/**
+ * Metadata associated with a contract-deploy type transaction. https://github.com/blockstack/stacks-blockchain/blob/master/sip/sip-005-blocks-and-transactions.md#type-1-instantiating-a-smart-contract
+ */
+export interface SmartContractTransactionMetadata {
+  tx_type: "smart_contract";
+  smart_contract: {
+    /**
+     * Contract identifier formatted as `<principaladdress>.<contract_name>`
+     */
+    contract_id: string;
+    /**
+     * Clarity code of the smart contract being deployed
+     */
+    source_code: string;
+  };
+}
+/**
+ * Metadata associated with a contract-call type transaction
+ */
+export interface ContractCallTransactionMetadata {
+  tx_type: "contract_call";
+  contract_call: {
+    /**
+     * Contract identifier formatted as `<principaladdress>.<contract_name>`
+     */
+    contract_id: string;
+    /**
+     * Name of the Clarity function to be invoked
+     */
+    function_name: string;
+    /**
+     * Function definition, including function name and type as well as parameter names and types
+     */
+    function_signature: string;
+    /**
+     * List of arguments used to invoke the function
+     */
+    function_args?: {
+      hex: string;
+      repr: string;
+      name: string;
+      type: string;
+      decoded?: DecodedClarityValue;
+    }[];
+  };
+}
+/**
+ * Metadata associated with a poison-microblock type transaction
+ */
+export interface PoisonMicroblockTransactionMetadata {
+  tx_type: "poison_microblock";
+  poison_microblock: {
+    /**
+     * Hex encoded microblock header
+     */
+    microblock_header_1: string;
+    /**
+     * Hex encoded microblock header
+     */
+    microblock_header_2: string;
+  };
+}
+/**
+ * Describes representation of a Type 3 Stacks 2.0 transaction: Poison Microblock
+ */
+export interface CoinbaseTransactionMetadata {
+  tx_type: "coinbase";
+  coinbase_payload: {
+    /**
+     * Hex encoded 32-byte scratch space for block leader's use
+     */
+    data: string;
+  };
+}
 export interface AddressNftListResponse {
   limit: number;
   offset: number;
@@ -915,159 +1291,39 @@ export interface AddressTransactionWithTransfers {
      */
     asset_identifier: string;
     /**
-     * Amount transferred as an integer string. This balance does not factor in possible SIP-010 decimals.
-     */
-    amount: string;
-    /**
-     * Principal that sent the asset.
-     */
-    sender?: string;
-    /**
-     * Principal that received the asset.
-     */
-    recipient?: string;
-  }[];
-  nft_transfers?: {
-    /**
-     * Non Fungible Token asset identifier.
-     */
-    asset_identifier: string;
-    /**
-     * Non Fungible Token asset value.
-     */
-    value: {
-      hex: string;
-      repr: string;
-    };
-    /**
-     * Principal that sent the asset.
-     */
-    sender?: string;
-    /**
-     * Principal that received the asset.
-     */
-    recipient?: string;
-  }[];
-}
-/**
- * Transaction properties that are available from a raw serialized transactions. These are available for transactions in the mempool as well as mined transactions.
- */
-export interface BaseTransaction {
-  /**
-   * Transaction ID
-   */
-  tx_id: string;
-  /**
-   * Used for ordering the transactions originating from and paying from an account. The nonce ensures that a transaction is processed at most once. The nonce counts the number of times an account's owner(s) have authorized a transaction. The first transaction from an account will have a nonce value equal to 0, the second will have a nonce value equal to 1, and so on.
-   */
-  nonce: number;
-  /**
-   * Transaction fee as Integer string (64-bit unsigned integer).
-   */
-  fee_rate: string;
-  /**
-   * Address of the transaction initiator
-   */
-  sender_address: string;
-  sponsor_nonce?: number;
-  /**
-   * Denotes whether the originating account is the same as the paying account
-   */
-  sponsored: boolean;
-  sponsor_address?: string;
-  post_condition_mode: PostConditionMode;
-  post_conditions: PostCondition[];
-  anchor_mode: TransactionAnchorModeType;
-}
-/**
- * Metadata associated with token-transfer type transactions
- */
-export interface TokenTransferTransactionMetadata {
-  tx_type: "token_transfer";
-  token_transfer: {
-    recipient_address: string;
-    /**
-     * Transfer amount as Integer string (64-bit unsigned integer)
-     */
-    amount: string;
-    /**
-     * Hex encoded arbitrary message, up to 34 bytes length (should try decoding to an ASCII string)
-     */
-    memo: string;
-  };
-}
-/**
- * Metadata associated with a contract-deploy type transaction. https://github.com/blockstack/stacks-blockchain/blob/master/sip/sip-005-blocks-and-transactions.md#type-1-instantiating-a-smart-contract
- */
-export interface SmartContractTransactionMetadata {
-  tx_type: "smart_contract";
-  smart_contract: {
-    /**
-     * Contract identifier formatted as `<principaladdress>.<contract_name>`
-     */
-    contract_id: string;
-    /**
-     * Clarity code of the smart contract being deployed
-     */
-    source_code: string;
-  };
-}
-/**
- * Metadata associated with a contract-call type transaction
- */
-export interface ContractCallTransactionMetadata {
-  tx_type: "contract_call";
-  contract_call: {
-    /**
-     * Contract identifier formatted as `<principaladdress>.<contract_name>`
+     * Amount transferred as an integer string. This balance does not factor in possible SIP-010 decimals.
      */
-    contract_id: string;
+    amount: string;
     /**
-     * Name of the Clarity function to be invoked
+     * Principal that sent the asset.
      */
-    function_name: string;
+    sender?: string;
     /**
-     * Function definition, including function name and type as well as parameter names and types
+     * Principal that received the asset.
      */
-    function_signature: string;
+    recipient?: string;
+  }[];
+  nft_transfers?: {
     /**
-     * List of arguments used to invoke the function
+     * Non Fungible Token asset identifier.
      */
-    function_args?: {
-      hex: string;
-      repr: string;
-      name: string;
-      type: string;
-    }[];
-  };
-}
-/**
- * Metadata associated with a poison-microblock type transaction
- */
-export interface PoisonMicroblockTransactionMetadata {
-  tx_type: "poison_microblock";
-  poison_microblock: {
+    asset_identifier: string;
     /**
-     * Hex encoded microblock header
+     * Non Fungible Token asset value.
      */
-    microblock_header_1: string;
+    value: {
+      hex: string;
+      repr: string;
+    };
     /**
-     * Hex encoded microblock header
+     * Principal that sent the asset.
      */
-    microblock_header_2: string;
-  };
-}
-/**
- * Describes representation of a Type 3 Stacks 2.0 transaction: Poison Microblock
- */
-export interface CoinbaseTransactionMetadata {
-  tx_type: "coinbase";
-  coinbase_payload: {
+    sender?: string;
     /**
-     * Hex encoded 32-byte scratch space for block leader's use
+     * Principal that received the asset.
      */
-    data: string;
-  };
+    recipient?: string;
+  }[];
 }
 /**
  * GET request that returns account transactions
@@ -1187,6 +1443,69 @@ export interface Block {
 export interface BnsError {
   error?: string;
 }
+/**
+ * Records parsed from a zonefile. Zonefiles that can't be parsed have no records.
+ */
+export interface BnsZoneFileRecords {
+  uri: {
+    name: string;
+    priority: number;
+    weight: number;
+    target: string;
+  }[];
+  txt: {
+    name: string;
+    /**
+     * Character strings of the record
+     */
+    txt: string[];
+  }[];
+  a: {
+    name: string;
+    ip: string;
+  }[];
+  aaaa: {
+    name: string;
+    ip: string;
+  }[];
+  /**
+   * Target of the `_resolver` URI record, used to look up subdomains that aren't on-chain
+   */
+  resolver: string;
+}
+/**
+ * An operation on a BNS name
+ */
+export interface BnsNameHistoryEntry {
+  /**
+   * BNS contract operation, e.g. `name-register`, `name-transfer`, `name-renewal`, `name-update` or `name-revoke`
+   */
+  operation: string;
+  /**
+   * ID of the transaction that performed the operation
+   */
+  tx_id: string;
+  /**
+   * Height of the block that includes the operation
+   */
+  block_height: number;
+  /**
+   * Owner of the name before the operation, `null` for the first operation on the name
+   */
+  old_owner: string;
+  /**
+   * Owner of the name after the operation
+   */
+  new_owner: string;
+  /**
+   * Hash of the name's zonefile after the operation
+   */
+  zonefile_hash: string;
+  /**
+   * Block height at which the name expires after the operation
+   */
+  expire_block: number;
+}
 /**
  * Get name details
  */
@@ -1208,12 +1527,83 @@ export interface BnsGetNamePriceResponse {
   units: string;
   amount: string;
 }
+/**
+ * Names to quote prices for
+ */
+export interface BnsGetNamePricesRequest {
+  /**
+   * Fully-qualified names, at most 100
+   */
+  names: string[];
+}
+/**
+ * Prices of a list of names
+ */
+export interface BnsGetNamePricesResponse {
+  /**
+   * Price of each requested name, in request order
+   */
+  prices: {
+    name: string;
+    units: string;
+    /**
+     * Price in the smallest units of the currency, `null` if the name's namespace doesn't exist or the BNS contract can't price the name
+     */
+    amount: string;
+  }[];
+}
+/**
+ * Profile URL and addresses declared in the zonefile of a name
+ */
+export interface BnsGetNameRecordsResponse {
+  /**
+   * Target of the `_http._tcp` or `_https._tcp` URI record with the lowest priority
+   */
+  profile_url: string;
+  /**
+   * Value of the `_btc._addr` TXT record
+   */
+  btc_address: string;
+  /**
+   * Value of the `_stx._addr` TXT record
+   */
+  stx_address: string;
+}
 /**
  * Retrieves a list of names owned by the address provided.
  */
 export interface BnsNamesOwnByAddressResponse {
   names: string[];
 }
+/**
+ * Primary name of a principal
+ */
+export interface BnsGetPrimaryNameResponse {
+  /**
+   * Name or subdomain owned by the principal that it most recently registered or received, `null` if it doesn't own any
+   */
+  name: string;
+}
+/**
+ * Principals to resolve primary names for
+ */
+export interface BnsGetPrimaryNamesRequest {
+  /**
+   * Addresses or contract principals, at most 300
+   */
+  addresses: string[];
+}
+/**
+ * Primary names of a list of principals
+ */
+export interface BnsGetPrimaryNamesResponse {
+  /**
+   * Primary name of each requested principal, `null` for principals that don't own any name
+   */
+  names: {
+    [k: string]: string | undefined;
+  };
+}
 /**
  * Fetch a list of all namespaces known to the node.
  */
@@ -1227,6 +1617,50 @@ export interface BnsGetNamespacePriceResponse {
   units: string;
   amount: string;
 }
+/**
+ * Details of a namespace
+ */
+export interface BnsGetNamespaceResponse {
+  namespace_id: string;
+  /**
+   * Principal allowed to import names into the namespace
+   */
+  address: string;
+  status: string;
+  /**
+   * Block height at which the namespace was launched
+   */
+  launched_at: number;
+  /**
+   * Block height at which the namespace was revealed
+   */
+  reveal_block: number;
+  /**
+   * Block height at which the namespace became ready
+   */
+  ready_block: number;
+  /**
+   * Number of blocks a name registration or renewal lasts, `0` if names never expire
+   */
+  lifetime: number;
+  /**
+   * Parameters used by the BNS contract to price names in the namespace
+   */
+  price_function: {
+    base: string;
+    coeff: string;
+    /**
+     * Price exponents by name length
+     */
+    buckets: number[];
+    nonalpha_discount: number;
+    no_vowel_discount: number;
+  };
+  /**
+   * ID of the transaction that made the namespace ready
+   */
+  tx_id: string;
+}
 /**
  * GET request that returns reward slot holders
  */
@@ -1531,19 +1965,42 @@ export interface RunFaucetResponse {
   txRaw?: string;
 }
 /**
- * Request to fetch fee for a transaction
+ * Request to fetch fee for a transaction. Either a serialized `transaction` or its `estimated_len` must be provided.
  */
 export interface FeeRateRequest {
   /**
    * A serialized transaction
    */
-  transaction: string;
+  transaction?: string;
+  /**
+   * Estimated byte length of the serialized transaction. Ignored if `transaction` is provided.
+   */
+  estimated_len?: number;
+  tx_type?: TransactionType;
 }
 /**
  * Get fee rate information.
  */
 export interface FeeRate {
+  /**
+   * Medium fee rate in micro-STX per byte. Kept for backwards compatibility, see `fee_rates`.
+   */
   fee_rate: number;
+  tx_type?: TransactionType;
+  /**
+   * Byte length of the transaction used to calculate `fees`
+   */
+  estimated_len?: number;
+  fee_rates?: FeeRateTiers;
+  fees?: FeeRateTiers;
+}
+/**
+ * Low, medium and high fee estimations
+ */
+export interface FeeRateTiers {
+  low: number;
+  medium: number;
+  high: number;
 }
 /**
  * GET request that target block time for a given network
@@ -1739,6 +2196,112 @@ export interface UnanchoredTransactionListResponse {
   total: number;
   results: Transaction[];
 }
+/**
+ * GET request that returns the stackers of a PoX reward cycle
+ */
+export interface PoxCycleStackerListResponse {
+  /**
+   * The number of items to return
+   */
+  limit: number;
+  /**
+   * The number of items to skip (starting at `0`)
+   */
+  offset: number;
+  /**
+   * Total number of available items
+   */
+  total: number;
+  results: PoxStacker[];
+}
+/**
+ * Address with STX locked during a PoX reward cycle
+ */
+export interface PoxStacker {
+  /**
+   * Address with locked STX
+   */
+  stx_address: string;
+  /**
+   * Amount of locked micro-STX
+   */
+  locked_amount: string;
+  /**
+   * ID of the transaction that locked the STX
+   */
+  lock_tx_id: string;
+  /**
+   * Height of the Stacks block containing the lock transaction
+   */
+  lock_height: number;
+  /**
+   * Height of the burnchain block at which the STX were locked
+   */
+  burn_block_lock_height: number;
+  /**
+   * Height of the burnchain block at which the STX are unlocked
+   */
+  burn_block_unlock_height: number;
+  /**
+   * First reward cycle the STX are locked for
+   */
+  first_reward_cycle: number;
+  /**
+   * Last reward cycle the STX are locked for
+   */
+  last_reward_cycle: number;
+}
+/**
+ * GET request that returns PoX reward cycles
+ */
+export interface PoxCycleListResponse {
+  /**
+   * The number of items to return
+   */
+  limit: number;
+  /**
+   * The number of items to skip (starting at `0`)
+   */
+  offset: number;
+  /**
+   * Total number of available items
+   */
+  total: number;
+  results: PoxCycle[];
+}
+/**
+ * Stacking summary of a PoX reward cycle
+ */
+export interface PoxCycle {
+  /**
+   * Reward cycle number
+   */
+  cycle_number: number;
+  /**
+   * Height of the first burnchain block in the reward cycle
+   */
+  burn_block_start_height: number;
+  /**
+   * Height of the last burnchain block in the reward cycle
+   */
+  burn_block_end_height: number;
+  /**
+   * Total amount of micro-STX locked for the reward cycle
+   */
+  total_stacked: string;
+  /**
+   * Number of addresses with micro-STX locked for the reward cycle
+   */
+  stacker_count: number;
+  /**
+   * Number of reward slots assigned during the reward cycle
+   */
+  reward_slot_holder_count: number;
+  /**
+   * Total burnchain rewards paid out during the reward cycle, in the smallest unit of the burnchain (e.g. satoshis)
+   */
+  burnchain_reward_amount: string;
+}
 /**
  * An AccountBalanceRequest is utilized to make a balance request on the /account/balance endpoint. If the block_identifier is populated, a historical balance query should be performed.
  */
@@ -2286,6 +2849,10 @@ export interface RosettaOptions {
    * The reward address for stacking transaction. It should be a valid Bitcoin address
    */
   pox_addr?: string;
+  /**
+   * Asset identifier of the fungible token to transfer e.g `SP2H8PY27SEZ03MWRKS5XABZYQN17ETGQS3527SA5.newyorkcitycoin-token::newyorkcitycoin`
+   */
+  asset_identifier?: string;
 }
 /**
  * The ConstructionMetadataResponse returns network-specific metadata used for transaction construction. Optionally, the implementer can return the suggested fee associated with the transaction being constructed. The caller may use this info to adjust the intent of the transaction or to create a transaction with a different account that can pay the suggested fee. Suggested fee is an array in case fee payment must occur in multiple currencies.
@@ -2734,20 +3301,60 @@ export interface ContractSearchResult {
   };
 }
 /**
- * Error search result
+ * Error search result
+ */
+export interface SearchErrorResult {
+  /**
+   * Indicates if the requested object was found or not
+   */
+  found: boolean;
+  result: {
+    /**
+     * Shows the currenty category of entity it is searched in.
+     */
+    entity_type: "standard_address" | "unknown_hash" | "contract_address" | "invalid_term";
+  };
+  error: string;
+}
+/**
+ * Contract, BNS name or token matching a search term
+ */
+export interface SearchMatch {
+  entity_type: "contract_address" | "bns_name" | "bns_subdomain" | "fungible_token" | "non_fungible_token";
+  /**
+   * Contract ID for contracts and tokens, fully qualified name for BNS names and subdomains
+   */
+  entity_id: string;
+  /**
+   * Name of the token
+   */
+  name?: string;
+  /**
+   * Symbol of the fungible token
+   */
+  symbol?: string;
+  /**
+   * Relevance of the match, higher is better. Exact matches rank above prefix matches, which rank above substring and fuzzy matches
+   */
+  score: number;
+}
+/**
+ * Contracts, BNS names and tokens matching a search term, ranked by relevance
  */
-export interface SearchErrorResult {
+export interface SearchMatchList {
   /**
-   * Indicates if the requested object was found or not
+   * The number of matches to return
    */
-  found: boolean;
-  result: {
-    /**
-     * Shows the currenty category of entity it is searched in.
-     */
-    entity_type: "standard_address" | "unknown_hash" | "contract_address" | "invalid_term";
-  };
-  error: string;
+  limit: number;
+  /**
+   * The number of matches to skip (starting at `0`)
+   */
+  offset: number;
+  /**
+   * The number of matches available
+   */
+  total: number;
+  results: SearchMatch[];
 }
 /**
  * Contract search result
@@ -2811,6 +3418,85 @@ export interface TxSearchResult {
     metadata?: Transaction;
   };
 }
+/**
+ * Contracts, BNS names and tokens matching a term that is not a hash or principal
+ */
+export interface TermMatchesSearchResult {
+  /**
+   * Indicates if the requested object was found or not
+   */
+  found: boolean;
+  /**
+   * This object carries the search result
+   */
+  result: {
+    entity_type: "term_matches";
+    /**
+     * The number of matches available. Use `/extended/v1/search` to page through all of them
+     */
+    total: number;
+    /**
+     * Best matches for the term, ranked by relevance
+     */
+    matches: SearchMatch[];
+  };
+}
+/**
+ * List of principals holding a Fungible Token, ranked by balance
+ */
+export interface FungibleTokenHolderList {
+  /**
+   * Fully qualified identifier of the token
+   */
+  asset_identifier: string;
+  /**
+   * The number of holders to return
+   */
+  limit: number;
+  /**
+   * The number of holders to skip (starting at `0`)
+   */
+  offset: number;
+  /**
+   * The number of principals with a positive balance
+   */
+  total: number;
+  results: FungibleTokenHolder[];
+}
+/**
+ * Principal holding a Fungible Token and its balance
+ */
+export interface FungibleTokenHolder {
+  /**
+   * Principal holding the token
+   */
+  address: string;
+  /**
+   * Balance of the token held by the principal
+   */
+  balance: string;
+}
+/**
+ * Supply of a Fungible Token, derived from its mint and burn events
+ */
+export interface FungibleTokenSupply {
+  /**
+   * Fully qualified identifier of the token
+   */
+  asset_identifier: string;
+  /**
+   * Total amount of the token ever minted
+   */
+  minted: string;
+  /**
+   * Total amount of the token ever burned
+   */
+  burned: string;
+  /**
+   * Amount of the token currently in circulation, i.e. minted minus burned
+   */
+  circulating_supply: string;
+}
 /**
  * List of fungible tokens metadata
  */
@@ -2942,8 +3628,46 @@ export interface NonFungibleTokenHoldingWithTxId {
     repr: string;
   };
   block_height: number;
+  metadata?: NonFungibleTokenInstanceMetadata;
   tx_id: string;
 }
+/**
+ * Metadata of a single Non-Fungible Token, resolved from its SIP-009 token URI
+ */
+export interface NonFungibleTokenInstanceMetadata {
+  /**
+   * Contract that defines the token
+   */
+  contract_id: string;
+  /**
+   * Token id, the `uint` that identifies the token in its contract
+   */
+  token_id: string;
+  /**
+   * URI returned by the contract's `get-token-uri` for this token, which resolves to its metadata
+   */
+  token_uri: string;
+  /**
+   * Identifies the asset to which this token represents
+   */
+  name: string;
+  /**
+   * Describes the asset to which this token represents
+   */
+  description: string;
+  /**
+   * A URI pointing to a resource with mime type image/* representing the asset to which this token represents. The API may provide a URI to a cached resource, dependending on configuration. Otherwise, this can be the same value as the canonical image URI.
+   */
+  image_uri: string;
+  /**
+   * The original image URI specified by the token metadata
+   */
+  image_canonical_uri: string;
+  /**
+   * `attributes` of the token metadata, e.g. traits of a collection item. Omitted if the metadata doesn't include them.
+   */
+  attributes?: unknown[];
+}
 /**
  * Ownership of a Non-Fungible Token with transaction metadata
  */
@@ -2963,6 +3687,7 @@ export interface NonFungibleTokenHoldingWithTxMetadata {
     repr: string;
   };
   block_height: number;
+  metadata?: NonFungibleTokenInstanceMetadata;
   tx: Transaction;
 }
 /**
@@ -3073,6 +3798,84 @@ export interface NonFungibleTokenMetadata {
    */
   sender_address: string;
 }
+/**
+ * Request to refresh the token metadata of a contract. Give both `token_id_start` and `token_id_end` to only refresh a range of NFTs.
+ */
+export interface TokenMetadataRefreshRequest {
+  /**
+   * First NFT id of the inclusive range to refresh
+   */
+  token_id_start?: string;
+  /**
+   * Last NFT id of the inclusive range to refresh
+   */
+  token_id_end?: string;
+}
+/**
+ * Token metadata queue entry that will process the refresh
+ */
+export interface TokenMetadataRefreshResponse {
+  /**
+   * ID of the entry in the token metadata processing queue
+   */
+  queue_id: number;
+  /**
+   * Contract whose token metadata will be refreshed
+   */
+  contract_id: string;
+  /**
+   * First NFT id of the refreshed range, if the refresh is limited to a range
+   */
+  token_id_start?: string;
+  /**
+   * Last NFT id of the refreshed range, if the refresh is limited to a range
+   */
+  token_id_end?: string;
+}
+/**
+ * Statistics of the pending transactions in the mempool. `tx_fee_rates` are fees in micro-STX, `tx_ages` are seconds elapsed since the transactions were received and `tx_byte_sizes` are serialized transaction sizes.
+ */
+export interface MempoolTransactionStatsResponse {
+  /**
+   * Number of pending transactions
+   */
+  tx_count: number;
+  /**
+   * Number of pending transactions of each type
+   */
+  tx_type_counts: {
+    token_transfer: number;
+    smart_contract: number;
+    contract_call: number;
+    poison_microblock: number;
+  };
+  /**
+   * Combined size in bytes of every pending transaction
+   */
+  tx_total_byte_size: number;
+  tx_fee_rates: MempoolTransactionStatsByType;
+  tx_ages: MempoolTransactionStatsByType;
+  tx_byte_sizes: MempoolTransactionStatsByType;
+}
+/**
+ * Percentiles of a statistic over every pending mempool transaction and over the transactions of each type
+ */
+export interface MempoolTransactionStatsByType {
+  all: MempoolTransactionStatsPercentiles;
+  token_transfer: MempoolTransactionStatsPercentiles;
+  smart_contract: MempoolTransactionStatsPercentiles;
+  contract_call: MempoolTransactionStatsPercentiles;
+  poison_microblock: MempoolTransactionStatsPercentiles;
+}
+/**
+ * Percentiles of a statistic over pending mempool transactions. All zero if there are no transactions.
+ */
+export interface MempoolTransactionStatsPercentiles {
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
 /**
  * GET request that returns transactions
  */
@@ -3140,6 +3943,139 @@ export interface PostCoreNodeTransactionsError {
    */
   txid: string;
 }
+/**
+ * GET request that returns the deliveries of a webhook
+ */
+export interface WebhookDeliveryListResponse {
+  /**
+   * The number of items to return
+   */
+  limit: number;
+  /**
+   * The number of items to skip (starting at `0`)
+   */
+  offset: number;
+  /**
+   * Total number of available items
+   */
+  total: number;
+  results: WebhookDelivery[];
+}
+/**
+ * Delivery of a transaction to a webhook
+ */
+export interface WebhookDelivery {
+  /**
+   * Delivery id, sent in the `X-Webhook-Delivery-Id` request header
+   */
+  id: number;
+  /**
+   * Webhook id
+   */
+  webhook_id: number;
+  /**
+   * Transaction id
+   */
+  tx_id: string;
+  /**
+   * Deliveries are pending until a 2xx response is received, or failed once every retry has been attempted
+   */
+  status: "pending" | "delivered" | "failed";
+  /**
+   * Number of delivery attempts made
+   */
+  attempts: number;
+  /**
+   * An ISO 8601 (YYYY-MM-DDTHH:mm:ss.sssZ) formatted date of the next delivery attempt. Only set for pending deliveries.
+   */
+  next_attempt_at?: string;
+  /**
+   * HTTP status of the response to the last delivery attempt
+   */
+  response_status?: number;
+  /**
+   * Error of the last failed delivery attempt
+   */
+  error?: string;
+  /**
+   * An ISO 8601 (YYYY-MM-DDTHH:mm:ss.sssZ) formatted date of when the delivery was created
+   */
+  created_at: string;
+  /**
+   * An ISO 8601 (YYYY-MM-DDTHH:mm:ss.sssZ) formatted date of the successful delivery attempt
+   */
+  delivered_at?: string;
+}
+/**
+ * GET request that returns registered webhooks
+ */
+export interface WebhookListResponse {
+  /**
+   * The number of items to return
+   */
+  limit: number;
+  /**
+   * The number of items to skip (starting at `0`)
+   */
+  offset: number;
+  /**
+   * Total number of available items
+   */
+  total: number;
+  results: Webhook[];
+}
+/**
+ * Webhook registration. Confirmed transactions matching every filter set on the webhook are POSTed to its URL.
+ */
+export interface Webhook {
+  /**
+   * Webhook id
+   */
+  id: number;
+  /**
+   * URL that matching transactions are POSTed to
+   */
+  url: string;
+  /**
+   * Matches transactions sent by or involving this principal, and events transferring assets to or from it
+   */
+  address?: string;
+  /**
+   * Matches transactions deploying or calling this contract, and events emitted by it or for its assets
+   */
+  contract_id?: string;
+  event_type?: TransactionEventType;
+  /**
+   * Matches `print` events of tuple values with this `topic` or `event` field
+   */
+  print_topic?: string;
+  /**
+   * An ISO 8601 (YYYY-MM-DDTHH:mm:ss.sssZ) formatted date of when the webhook was registered
+   */
+  created_at: string;
+}
+/**
+ * Request to register a webhook. At least one of `address`, `contract_id`, `event_type` or `print_topic` must be provided.
+ */
+export interface WebhookCreateRequest {
+  /**
+   * Absolute http or https URL that matching transactions are POSTed to
+   */
+  url: string;
+  /**
+   * Matches transactions sent by or involving this principal, and events transferring assets to or from it
+   */
+  address?: string;
+  /**
+   * Matches transactions deploying or calling this contract, and events emitted by it or for its assets
+   */
+  contract_id?: string;
+  event_type?: TransactionEventType;
+  /**
+   * Matches `print` events of tuple values with this `topic` or `event` field
+   */
+  print_topic?: string;
+}
 /**
  * The latest nonce values used by an account by inspecting the mempool, microblock transactions, and anchored transactions
  */
@@ -3243,6 +4179,14 @@ export interface RpcAddressBalanceNotificationResponse {
 export interface RpcAddressBalanceSubscriptionParams {
   event: "address_balance_update";
   address: string;
+  /**
+   * Backfill notifications starting at this block height before delivering live notifications
+   */
+  from_block_height?: number;
+  /**
+   * Backfill notifications starting at this microblock before delivering live notifications. Ignored if `from_block_height` is specified
+   */
+  from_microblock_hash?: string;
 }
 export interface RpcAddressBalanceSubscriptionRequest {
   jsonrpc: "2.0";
@@ -3264,6 +4208,14 @@ export interface RpcAddressTxNotificationResponse {
 export interface RpcAddressTxSubscriptionParams {
   event: "address_tx_update";
   address: string;
+  /**
+   * Backfill notifications starting at this block height before delivering live notifications
+   */
+  from_block_height?: number;
+  /**
+   * Backfill notifications starting at this microblock before delivering live notifications. Ignored if `from_block_height` is specified
+   */
+  from_microblock_hash?: string;
 }
 export interface RpcAddressTxSubscriptionRequest {
   jsonrpc: "2.0";
@@ -3278,6 +4230,14 @@ export interface RpcBlockNotificationResponse {
 }
 export interface RpcBlockSubscriptionParams {
   event: "block";
+  /**
+   * Backfill notifications starting at this block height before delivering live notifications
+   */
+  from_block_height?: number;
+  /**
+   * Backfill notifications starting at this microblock before delivering live notifications. Ignored if `from_block_height` is specified
+   */
+  from_microblock_hash?: string;
 }
 export interface RpcBlockSubscriptionRequest {
   jsonrpc: "2.0";
@@ -3306,6 +4266,14 @@ export interface RpcMicroblockNotificationResponse {
 }
 export interface RpcMicroblockSubscriptionParams {
   event: "microblock";
+  /**
+   * Backfill notifications starting at this block height before delivering live notifications
+   */
+  from_block_height?: number;
+  /**
+   * Backfill notifications starting at this microblock before delivering live notifications. Ignored if `from_block_height` is specified
+   */
+  from_microblock_hash?: string;
 }
 export interface RpcMicroblockSubscriptionRequest {
   jsonrpc: "2.0";
@@ -3313,6 +4281,45 @@ export interface RpcMicroblockSubscriptionRequest {
   method: "microblock";
   params: RpcMicroblockSubscriptionParams;
 }
+/**
+ * Blocks, microblocks and transactions orphaned by a chain reorg
+ */
+export interface RpcReorgNotificationParams {
+  /**
+   * Height of the most recent anchor block shared by the orphaned and the new canonical fork
+   */
+  fork_block_height: number;
+  /**
+   * Index block hash of the most recent anchor block shared by the orphaned and the new canonical fork
+   */
+  fork_index_block_hash: string;
+  /**
+   * Index block hashes of the anchor blocks that are no longer canonical
+   */
+  orphaned_index_block_hashes: string[];
+  /**
+   * Hashes of the microblocks that are no longer canonical
+   */
+  orphaned_microblock_hashes: string[];
+  /**
+   * IDs of the transactions included in the orphaned blocks and microblocks. These may since have been mined again in the canonical fork or returned to the mempool.
+   */
+  orphaned_tx_ids: string[];
+}
+export interface RpcReorgNotificationResponse {
+  jsonrpc: "2.0";
+  method: "reorg";
+  params: RpcReorgNotificationParams;
+}
+export interface RpcReorgSubscriptionParams {
+  event: "reorg";
+}
+export interface RpcReorgSubscriptionRequest {
+  jsonrpc: "2.0";
+  id: number | string;
+  method: "reorg";
+  params: RpcReorgSubscriptionParams;
+}
 export interface RpcTxUpdateNotificationParams {
   tx_id: string;
   tx_type: TransactionType;
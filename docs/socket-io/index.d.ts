@@ -4,7 +4,8 @@ import type {
   Block,
   Microblock,
   Transaction,
-  MempoolTransaction
+  MempoolTransaction,
+  RpcReorgNotificationParams
 } from '..';
 
 export type AddressTransactionTopic = `address-transaction:${string}`;
@@ -14,6 +15,7 @@ export type Topic =
   | 'block'
   | 'microblock'
   | 'mempool'
+  | 'reorg'
   | AddressTransactionTopic
   | AddressStxBalanceTopic
   | TransactionTopic;
@@ -28,6 +30,7 @@ export interface ServerToClientMessages {
   microblock: (microblock: Microblock) => void;
   mempool: (transaction: MempoolTransaction) => void;
   transaction: (transaction: Transaction | MempoolTransaction) => void;
+  reorg: (reorg: RpcReorgNotificationParams) => void;
 
   // @ts-ignore scheduled for support in TS v4.3 https://github.com/microsoft/TypeScript/pull/26797
   [key: AddressTransactionTopic]: (address: string, stxBalance: AddressTransactionWithTransfers) => void;
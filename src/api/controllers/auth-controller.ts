@@ -0,0 +1,22 @@
+import * as express from 'express';
+import * as crypto from 'crypto';
+
+/**
+ * Returns a middleware that rejects requests which don't carry the given token as a bearer token in
+ * their `Authorization` header.
+ */
+export function getBearerAuthHandler(authToken: string): express.RequestHandler {
+  const expected = crypto.createHash('sha256').update(authToken).digest();
+  return (req, res, next) => {
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ', 2);
+    const received = crypto
+      .createHash('sha256')
+      .update(token ?? '')
+      .digest();
+    if (scheme?.toLowerCase() !== 'bearer' || !crypto.timingSafeEqual(expected, received)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    next();
+  };
+}
@@ -242,6 +242,18 @@ export function getETagCacheHandler(
   return requestHandler;
 }
 
+/**
+ * Returns the ETag representing the current chain tip, which changes with every new block or microblock.
+ */
+export async function getChainTipETag(db: DataStore): Promise<string | undefined> {
+  const chainTip = await db.getUnanchoredChainTip();
+  if (!chainTip.found) {
+    // This should never happen unless the API is serving requests before it has synced any blocks.
+    return;
+  }
+  return chainTip.result.microblockHash ?? chainTip.result.indexBlockHash;
+}
+
 async function calculateETag(
   db: DataStore,
   etagType: ETagType,
@@ -249,12 +261,7 @@ async function calculateETag(
 ): Promise<ETag | undefined> {
   switch (etagType) {
     case ETagType.chainTip:
-      const chainTip = await db.getUnanchoredChainTip();
-      if (!chainTip.found) {
-        // This should never happen unless the API is serving requests before it has synced any blocks.
-        return;
-      }
-      return chainTip.result.microblockHash ?? chainTip.result.indexBlockHash;
+      return await getChainTipETag(db);
 
     case ETagType.mempool:
       const digest = await db.getMempoolTxDigest();
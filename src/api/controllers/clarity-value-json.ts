@@ -0,0 +1,240 @@
+import {
+  ClarityAbi,
+  ClarityAbiType,
+  getTypeString,
+  isClarityAbiList,
+  isClarityAbiOptional,
+  isClarityAbiResponse,
+  isClarityAbiTuple,
+} from '@stacks/transactions';
+import {
+  ClarityTypeID,
+  ClarityValue,
+  decodeClarityValue,
+  decodeClarityValueToTypeName,
+} from 'stacks-encoding-native-js';
+import {
+  DecodedClarityValue,
+  MempoolTransaction,
+  Transaction,
+  TransactionEvent,
+} from '@stacks/stacks-blockchain-api-types';
+import { DataStore } from '../../datastore/common';
+
+/**
+ * Returns the ABI type of a value if it's structurally compatible with the decoded value, so that
+ * malformed or outdated ABIs fall back to the type inferred from the value itself.
+ */
+function getMatchingAbiType(
+  value: ClarityValue,
+  abiType?: ClarityAbiType
+): ClarityAbiType | undefined {
+  if (abiType === undefined) {
+    return undefined;
+  }
+  switch (value.type_id) {
+    case ClarityTypeID.Int:
+      return abiType === 'int128' ? abiType : undefined;
+    case ClarityTypeID.UInt:
+      return abiType === 'uint128' ? abiType : undefined;
+    case ClarityTypeID.BoolTrue:
+    case ClarityTypeID.BoolFalse:
+      return abiType === 'bool' ? abiType : undefined;
+    case ClarityTypeID.PrincipalStandard:
+    case ClarityTypeID.PrincipalContract:
+      return abiType === 'principal' || abiType === 'trait_reference' ? abiType : undefined;
+    case ClarityTypeID.Buffer:
+      return typeof abiType === 'object' && 'buffer' in abiType ? abiType : undefined;
+    case ClarityTypeID.StringAscii:
+      return typeof abiType === 'object' && 'string-ascii' in abiType ? abiType : undefined;
+    case ClarityTypeID.StringUtf8:
+      return typeof abiType === 'object' && 'string-utf8' in abiType ? abiType : undefined;
+    case ClarityTypeID.List:
+      return isClarityAbiList(abiType) ? abiType : undefined;
+    case ClarityTypeID.Tuple:
+      return isClarityAbiTuple(abiType) ? abiType : undefined;
+    case ClarityTypeID.OptionalNone:
+    case ClarityTypeID.OptionalSome:
+      return isClarityAbiOptional(abiType) ? abiType : undefined;
+    case ClarityTypeID.ResponseOk:
+    case ClarityTypeID.ResponseError:
+      return isClarityAbiResponse(abiType) ? abiType : undefined;
+  }
+}
+
+function clarityValueToJson(value: ClarityValue, abiType?: ClarityAbiType): DecodedClarityValue {
+  const matchingAbiType = getMatchingAbiType(value, abiType);
+  const type = matchingAbiType
+    ? getTypeString(matchingAbiType)
+    : decodeClarityValueToTypeName(value.hex);
+  switch (value.type_id) {
+    case ClarityTypeID.Int:
+    case ClarityTypeID.UInt:
+      return { type, value: value.value };
+    case ClarityTypeID.BoolTrue:
+    case ClarityTypeID.BoolFalse:
+      return { type, value: value.value };
+    case ClarityTypeID.Buffer:
+      return { type, value: value.buffer };
+    case ClarityTypeID.StringAscii:
+    case ClarityTypeID.StringUtf8:
+      return { type, value: value.data };
+    case ClarityTypeID.PrincipalStandard:
+      return { type, value: value.address };
+    case ClarityTypeID.PrincipalContract:
+      return { type, value: `${value.address}.${value.contract_name}` };
+    case ClarityTypeID.List: {
+      const itemType =
+        matchingAbiType && isClarityAbiList(matchingAbiType)
+          ? matchingAbiType.list.type
+          : undefined;
+      return { type, value: value.list.map(item => clarityValueToJson(item, itemType)) };
+    }
+    case ClarityTypeID.Tuple: {
+      const tupleValue: Record<string, DecodedClarityValue> = {};
+      for (const [key, entry] of Object.entries(value.data)) {
+        const entryType =
+          matchingAbiType && isClarityAbiTuple(matchingAbiType)
+            ? matchingAbiType.tuple.find(t => t.name === key)?.type
+            : undefined;
+        tupleValue[key] = clarityValueToJson(entry, entryType);
+      }
+      return { type, value: tupleValue };
+    }
+    case ClarityTypeID.OptionalNone:
+      return { type, value: null };
+    case ClarityTypeID.OptionalSome: {
+      const someType =
+        matchingAbiType && isClarityAbiOptional(matchingAbiType)
+          ? matchingAbiType.optional
+          : undefined;
+      return { type, value: { ...clarityValueToJson(value.value, someType) } };
+    }
+    case ClarityTypeID.ResponseOk:
+    case ClarityTypeID.ResponseError: {
+      const success = value.type_id === ClarityTypeID.ResponseOk;
+      let innerType: ClarityAbiType | undefined;
+      if (matchingAbiType && isClarityAbiResponse(matchingAbiType)) {
+        innerType = success ? matchingAbiType.response.ok : matchingAbiType.response.error;
+      }
+      return { type, success, value: { ...clarityValueToJson(value.value, innerType) } };
+    }
+  }
+}
+
+/**
+ * Decodes a serialized Clarity value into a typed JSON tree.
+ * @param hex - serialized Clarity value
+ * @param abiType - declared type of the value in a contract ABI, used instead of the type inferred from
+ * the value when compatible. Inferred types can't describe e.g. the `ok` type of an `err` response.
+ */
+export function decodeClarityValueToJson(
+  hex: string,
+  abiType?: ClarityAbiType
+): DecodedClarityValue {
+  return clarityValueToJson(decodeClarityValue(hex), abiType);
+}
+
+/**
+ * Loads and caches contract ABIs for the lifetime of a single request.
+ */
+class ContractAbiLookup {
+  private readonly db: DataStore;
+  private readonly abis = new Map<string, Promise<ClarityAbi | undefined>>();
+
+  constructor(db: DataStore) {
+    this.db = db;
+  }
+
+  get(contractId: string): Promise<ClarityAbi | undefined> {
+    let abi = this.abis.get(contractId);
+    if (abi === undefined) {
+      abi = this.fetchAbi(contractId);
+      this.abis.set(contractId, abi);
+    }
+    return abi;
+  }
+
+  private async fetchAbi(contractId: string): Promise<ClarityAbi | undefined> {
+    const contractQuery = await this.db.getSmartContract(contractId);
+    if (!contractQuery.found || !contractQuery.result.abi) {
+      return undefined;
+    }
+    try {
+      const abi: ClarityAbi | null = JSON.parse(contractQuery.result.abi);
+      if (!abi || !Array.isArray(abi.functions) || !Array.isArray(abi.non_fungible_tokens)) {
+        return undefined;
+      }
+      return abi;
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
+
+async function addDecodedEventValues(
+  abiLookup: ContractAbiLookup,
+  events: TransactionEvent[]
+): Promise<void> {
+  for (const event of events) {
+    switch (event.event_type) {
+      case 'smart_contract_log':
+        // `print` values aren't declared in contract ABIs, so their type is always inferred.
+        event.contract_log.value.decoded = decodeClarityValueToJson(event.contract_log.value.hex);
+        break;
+      case 'non_fungible_token_asset': {
+        const [contractId, assetName] = event.asset.asset_id.split('::');
+        const abi = await abiLookup.get(contractId);
+        const assetType = abi?.non_fungible_tokens.find(nft => nft.name === assetName)?.type;
+        event.asset.value.decoded = decodeClarityValueToJson(event.asset.value.hex, assetType);
+        break;
+      }
+    }
+  }
+}
+
+async function addDecodedTxValues(
+  abiLookup: ContractAbiLookup,
+  tx: Transaction | MempoolTransaction
+): Promise<void> {
+  let functionArgTypes: (ClarityAbiType | undefined)[] = [];
+  let outputType: ClarityAbiType | undefined;
+  if (tx.tx_type === 'contract_call') {
+    const abi = await abiLookup.get(tx.contract_call.contract_id);
+    const functionAbi = abi?.functions.find(fn => fn.name === tx.contract_call.function_name);
+    functionArgTypes = functionAbi?.args.map(arg => arg.type) ?? [];
+    outputType = functionAbi?.outputs.type;
+    tx.contract_call.function_args?.forEach((arg, index) => {
+      arg.decoded = decodeClarityValueToJson(arg.hex, functionArgTypes[index]);
+    });
+  }
+  if ('tx_result' in tx) {
+    tx.tx_result.decoded = decodeClarityValueToJson(tx.tx_result.hex, outputType);
+    await addDecodedEventValues(abiLookup, tx.events);
+  }
+}
+
+/**
+ * Adds the `decoded` JSON representation to every Clarity value of the given txs, in place. Used to
+ * serve requests with the `decode=json` query parameter.
+ */
+export async function addDecodedClarityValuesToTxs(
+  db: DataStore,
+  txs: (Transaction | MempoolTransaction)[]
+): Promise<void> {
+  const abiLookup = new ContractAbiLookup(db);
+  for (const tx of txs) {
+    await addDecodedTxValues(abiLookup, tx);
+  }
+}
+
+/**
+ * Adds the `decoded` JSON representation to every Clarity value of the given events, in place. Used to
+ * serve requests with the `decode=json` query parameter.
+ */
+export async function addDecodedClarityValuesToEvents(
+  db: DataStore,
+  events: TransactionEvent[]
+): Promise<void> {
+  await addDecodedEventValues(new ContractAbiLookup(db), events);
+}
@@ -12,7 +12,9 @@ import {
 } from 'stacks-encoding-native-js';
 
 import {
+  AbstractAddressActivity,
   AbstractMempoolTransaction,
+  AddressActivity,
   AbstractTransaction,
   BaseTransaction,
   Block,
@@ -50,6 +52,7 @@ import {
 import {
   BlockIdentifier,
   DataStore,
+  DbAddressActivity,
   DbAssetEventTypeId,
   DbBlock,
   DbEvent,
@@ -300,6 +303,81 @@ export function parseDbEvent(dbEvent: DbEvent): TransactionEvent {
   }
 }
 
+export function parseDbAddressActivity(activity: DbAddressActivity): AddressActivity {
+  const base: AbstractAddressActivity = {
+    block_height: activity.block_height,
+    burn_block_time: activity.burn_block_time,
+    burn_block_time_iso: unixEpochToIso(activity.burn_block_time),
+  };
+  if (activity.tx_id) {
+    base.tx_id = activity.tx_id;
+  }
+  const assetTransfer = () => ({
+    asset_event_type: getAssetEventTypeString(unwrapOptional(activity.asset_event_type_id)),
+    ...(activity.sender ? { sender: activity.sender } : {}),
+    ...(activity.recipient ? { recipient: activity.recipient } : {}),
+  });
+  switch (activity.activity_type) {
+    case 'stx_sent':
+    case 'stx_received':
+      return {
+        ...base,
+        activity_type: activity.activity_type,
+        amount: unwrapOptional(activity.amount).toString(),
+        ...assetTransfer(),
+      };
+    case 'ft_sent':
+    case 'ft_received':
+      return {
+        ...base,
+        activity_type: activity.activity_type,
+        asset_identifier: unwrapOptional(activity.asset_identifier),
+        amount: unwrapOptional(activity.amount).toString(),
+        ...assetTransfer(),
+      };
+    case 'nft_sent':
+    case 'nft_received': {
+      const value = unwrapOptional(activity.value);
+      return {
+        ...base,
+        activity_type: activity.activity_type,
+        asset_identifier: unwrapOptional(activity.asset_identifier),
+        value: {
+          hex: bufferToHexPrefixString(value),
+          repr: decodeClarityValueToRepr(value),
+        },
+        ...assetTransfer(),
+      };
+    }
+    case 'contract_call':
+      return {
+        ...base,
+        activity_type: activity.activity_type,
+        contract_id: unwrapOptional(activity.contract_id),
+        function_name: unwrapOptional(activity.function_name),
+      };
+    case 'stx_lock':
+    case 'stx_unlock':
+      return {
+        ...base,
+        activity_type: activity.activity_type,
+        locked_amount: unwrapOptional(activity.amount).toString(),
+        unlock_height: unwrapOptional(activity.unlock_height),
+      };
+    case 'bns_name_registration':
+    case 'bns_name_transfer':
+      return {
+        ...base,
+        activity_type: activity.activity_type,
+        name: unwrapOptional(activity.name),
+        ...(activity.sender ? { sender: activity.sender } : {}),
+        recipient: unwrapOptional(activity.recipient),
+      };
+    default:
+      throw new Error(`Unexpected activity_type in: ${JSON.stringify(activity)}`);
+  }
+}
+
 /**
  * Fetch block from datastore by blockHash or blockHeight (index)
  * If both blockHeight and blockHash are provided, blockHeight is used.
@@ -826,6 +904,9 @@ function parseDbAbstractMempoolTx(
     receipt_time: dbMempoolTx.receipt_time,
     receipt_time_iso: unixEpochToIso(dbMempoolTx.receipt_time),
   };
+  if (dbMempoolTx.replaced_by_tx_id) {
+    abstractMempoolTx.replaced_by_tx_id = dbMempoolTx.replaced_by_tx_id;
+  }
   return abstractMempoolTx;
 }
 
@@ -0,0 +1,122 @@
+import * as crypto from 'crypto';
+import * as LruCache from 'lru-cache';
+import * as prom from 'prom-client';
+
+const DEFAULT_READ_ONLY_CALL_CACHE_SIZE = 1000;
+export const READ_ONLY_CALL_CACHE_SIZE_ENV_VAR = 'STACKS_API_READ_ONLY_CALL_CACHE_SIZE';
+
+export interface CachedReadOnlyCallResponse {
+  status: number;
+  contentType?: string;
+  body: Buffer;
+}
+
+interface ReadOnlyCallCacheMetrics {
+  readOnlyCallCacheHits: prom.Counter<string>;
+  readOnlyCallCacheMisses: prom.Counter<string>;
+}
+
+let _readOnlyCallMetrics: ReadOnlyCallCacheMetrics | undefined;
+function getReadOnlyCallMetrics(): ReadOnlyCallCacheMetrics {
+  if (_readOnlyCallMetrics !== undefined) {
+    return _readOnlyCallMetrics;
+  }
+  const metrics: ReadOnlyCallCacheMetrics = {
+    readOnlyCallCacheHits: new prom.Counter({
+      name: 'read_only_call_cache_hits',
+      help: 'Total count of contract read-only calls served from the cache',
+    }),
+    readOnlyCallCacheMisses: new prom.Counter({
+      name: 'read_only_call_cache_misses',
+      help: 'Total count of cacheable contract read-only calls proxied to the stacks node',
+    }),
+  };
+  _readOnlyCallMetrics = metrics;
+  return _readOnlyCallMetrics;
+}
+
+/**
+ * Returns the cache key of a `POST /v2/contracts/call-read/{address}/{contract}/{function}` request, or
+ * `undefined` if the request body isn't a valid read-only call and should not be cached.
+ */
+export function getReadOnlyCallCacheKey(args: {
+  contractAddress: string;
+  contractName: string;
+  functionName: string;
+  /** Value of the `tip` query param, if any. */
+  tip?: string;
+  body: Buffer;
+}): string | undefined {
+  let body: { sender?: unknown; arguments?: unknown };
+  try {
+    body = JSON.parse(args.body.toString('utf8'));
+  } catch (error) {
+    return undefined;
+  }
+  if (
+    typeof body !== 'object' ||
+    body === null ||
+    typeof body.sender !== 'string' ||
+    !Array.isArray(body.arguments) ||
+    !body.arguments.every(arg => typeof arg === 'string')
+  ) {
+    return undefined;
+  }
+  const key = JSON.stringify([
+    `${args.contractAddress}.${args.contractName}`,
+    args.functionName,
+    body.sender,
+    body.arguments,
+    args.tip ?? null,
+  ]);
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * LRU cache of read-only call responses computed at the current chain tip. Every entry is dropped once
+ * the chain tip moves, since any call result may change with a new block or microblock.
+ */
+export class ReadOnlyCallCache {
+  private readonly cache: LruCache<string, CachedReadOnlyCallResponse>;
+  /** Chain tip ETag of the cached responses. */
+  private chainTip?: string;
+
+  constructor(maxEntries: number) {
+    this.cache = new LruCache({ max: maxEntries });
+  }
+
+  get(chainTip: string, key: string): CachedReadOnlyCallResponse | undefined {
+    const metrics = getReadOnlyCallMetrics();
+    if (chainTip !== this.chainTip) {
+      this.cache.reset();
+      this.chainTip = chainTip;
+    }
+    const response = this.cache.get(key);
+    if (response) {
+      metrics.readOnlyCallCacheHits.inc();
+    } else {
+      metrics.readOnlyCallCacheMisses.inc();
+    }
+    return response;
+  }
+
+  set(chainTip: string, key: string, response: CachedReadOnlyCallResponse) {
+    // Skip responses that were computed at a chain tip that is no longer current.
+    if (chainTip === this.chainTip) {
+      this.cache.set(key, response);
+    }
+  }
+}
+
+/**
+ * Creates the read-only call cache with the size configured by `STACKS_API_READ_ONLY_CALL_CACHE_SIZE`.
+ * @returns `undefined` if caching is disabled with a size of `0`
+ */
+export function createReadOnlyCallCache(): ReadOnlyCallCache | undefined {
+  let cacheSize = DEFAULT_READ_ONLY_CALL_CACHE_SIZE;
+  const envCacheSize = process.env[READ_ONLY_CALL_CACHE_SIZE_ENV_VAR];
+  if (envCacheSize) {
+    cacheSize = Number.parseInt(envCacheSize);
+  }
+  return cacheSize > 0 ? new ReadOnlyCallCache(cacheSize) : undefined;
+}
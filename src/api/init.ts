@@ -27,6 +27,7 @@ import { createRosettaConstructionRouter } from './routes/rosetta/construction';
 import { apiDocumentationUrl, isProdEnv, logError, logger, LogLevel, waiter } from '../helpers';
 import { InvalidRequestError } from '../errors';
 import { createWsRpcRouter } from './routes/ws/ws-rpc';
+import { createTxStreamWsServer } from './routes/ws/tx-stream';
 import { createSocketIORouter } from './routes/ws/socket-io';
 import { createBurnchainRouter } from './routes/burnchain';
 import { createBnsNamespacesRouter } from './routes/bns/namespaces';
@@ -43,6 +44,9 @@ import { createMicroblockRouter } from './routes/microblock';
 import { createStatusRouter } from './routes/status';
 import { createTokenRouter } from './routes/tokens/tokens';
 import { createFeeRateRouter } from './routes/fee-rate';
+import { createPoxRouter } from './routes/pox';
+import { createWebhookRouter } from './routes/webhooks';
+import { isWebhooksEnabled } from '../webhooks/helpers';
 import { setResponseNonCacheable } from './controllers/cache-controller';
 
 import * as path from 'path';
@@ -193,6 +197,7 @@ export async function startApiServer(opts: {
       router.use('/block', createBlockRouter(datastore));
       router.use('/microblock', createMicroblockRouter(datastore));
       router.use('/burnchain', createBurnchainRouter(datastore));
+      router.use('/pox', createPoxRouter(datastore));
       router.use('/contract', createContractRouter(datastore));
       // same here, exclude account nonce route
       router.use('/address', createAddressRouter(datastore, chainId));
@@ -204,6 +209,9 @@ export async function startApiServer(opts: {
       router.use('/fee_rate', createFeeRateRouter(datastore));
       router.use('/faucets', createFaucetRouter(datastore));
       router.use('/tokens', createTokenRouter(datastore));
+      if (isWebhooksEnabled()) {
+        router.use('/webhooks', createWebhookRouter(datastore));
+      }
       return router;
     })()
   );
@@ -349,6 +357,9 @@ export async function startApiServer(opts: {
   // Setup websockets RPC endpoint
   const wss = createWsRpcRouter(datastore, server);
 
+  // Setup websocket protocol for the tx stream endpoint
+  const txStreamWss = createTxStreamWsServer(datastore, server);
+
   await new Promise<void>((resolve, reject) => {
     try {
       server.once('error', error => {
@@ -387,6 +398,18 @@ export async function startApiServer(opts: {
         }
       });
     });
+    await new Promise<void>((resolve, reject) => {
+      logger.info('Closing tx stream WebSocket server...');
+      txStreamWss.close(error => {
+        if (error) {
+          logError('Failed to gracefully close tx stream WebSocket server.');
+          reject(error);
+        } else {
+          logger.info('Tx stream WebSocket server closed.');
+          resolve();
+        }
+      });
+    });
     for (const socket of serverSockets) {
       socket.destroy();
     }
@@ -401,14 +424,25 @@ export async function startApiServer(opts: {
 
   const forceKill = async () => {
     logger.info('Force closing API server...');
-    const [ioClosePromise, wssClosePromise, serverClosePromise] = [waiter(), waiter(), waiter()];
+    const [ioClosePromise, wssClosePromise, txStreamWssClosePromise, serverClosePromise] = [
+      waiter(),
+      waiter(),
+      waiter(),
+      waiter(),
+    ];
     io.close(() => ioClosePromise.finish());
     wss.close(() => wssClosePromise.finish());
+    txStreamWss.close(() => txStreamWssClosePromise.finish());
     server.close(() => serverClosePromise.finish());
     for (const socket of serverSockets) {
       socket.destroy();
     }
-    await Promise.allSettled([ioClosePromise, wssClosePromise, serverClosePromise]);
+    await Promise.allSettled([
+      ioClosePromise,
+      wssClosePromise,
+      txStreamWssClosePromise,
+      serverClosePromise,
+    ]);
   };
 
   const addr = server.address();
@@ -59,6 +59,29 @@ export function isUnanchoredRequest(
   return booleanValueForParam(req, res, next, paramName);
 }
 
+/**
+ * Determines if the query parameters of a request ask for Clarity values to be decoded into JSON with
+ * `decode=json`. If the param has any other value then a 400 response with an error message is sent.
+ */
+export function isDecodeJsonRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): boolean | never {
+  const paramVal = req.query.decode;
+  if (paramVal === undefined) {
+    return false;
+  }
+  if (paramVal === 'json') {
+    return true;
+  }
+  handleBadRequest(
+    res,
+    next,
+    `Unexpected value for 'decode' parameter: ${JSON.stringify(paramVal)}`
+  );
+}
+
 /**
  * Determines if the query parameters of a request are intended to include data for a specific block height,
  * or if the request intended to include unanchored tx data. If neither a block height parameter or an unanchored
@@ -286,6 +309,25 @@ export function parseEventTypeFilter(
 
   return eventTypeFilter;
 }
+/**
+ * Parses the optional `topic` query param used to filter smart contract logs by the topic of their print
+ * event. If the param is not a single non-empty string then a 400 response with an error message is sent.
+ */
+export function parsePrintTopicQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): string | undefined | never {
+  const topic = req.query.topic;
+  if (topic === undefined) {
+    return undefined;
+  }
+  if (typeof topic !== 'string' || topic.length === 0) {
+    handleBadRequest(res, next, `Unexpected value for 'topic' parameter: ${JSON.stringify(topic)}`);
+  }
+  return topic;
+}
+
 export function isValidTxId(tx_id: string) {
   try {
     validateRequestHexInput(tx_id);
@@ -44,6 +44,9 @@ export enum RosettaOperationType {
   StackStx = 'stack_stx',
   DelegateStx = 'delegate_stx',
   RevokeDelegateStx = 'revoke_delegate_stx',
+  FtTransfer = 'ft_transfer',
+  FtMint = 'ft_mint',
+  FtBurn = 'ft_burn',
 }
 
 export const RosettaOperationTypes = [
@@ -61,6 +64,9 @@ export const RosettaOperationTypes = [
   RosettaOperationType.StackStx, // PoX contract function
   RosettaOperationType.DelegateStx, // PoX contract function
   RosettaOperationType.RevokeDelegateStx, // PoX contract function
+  RosettaOperationType.FtTransfer, // ft event
+  RosettaOperationType.FtMint, // ft event
+  RosettaOperationType.FtBurn, // ft event
 ];
 
 export const RosettaOperationStatuses = [
@@ -128,6 +134,7 @@ export enum RosettaErrorsTypes {
   missingNonce,
   missingContractAddress,
   missingContractName,
+  invalidMemo,
 }
 
 export const RosettaErrors: Record<RosettaErrorsTypes, Readonly<RosettaErrorNoDetails>> = {
@@ -356,6 +363,11 @@ export const RosettaErrors: Record<RosettaErrorsTypes, Readonly<RosettaErrorNoDe
     message: 'Missing contract name',
     retriable: false,
   },
+  [RosettaErrorsTypes.invalidMemo]: {
+    code: 646,
+    message: 'Invalid memo, memos must be at most 34 bytes',
+    retriable: false,
+  },
 };
 
 // All request types, used to validate input.
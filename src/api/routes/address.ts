@@ -1,7 +1,7 @@
 import * as express from 'express';
 import { asyncHandler } from '../async-handler';
 import * as Bluebird from 'bluebird';
-import { BlockIdentifier, DataStore } from '../../datastore/common';
+import { BlockIdentifier, DataStore, DbAddressActivityPosition } from '../../datastore/common';
 import { parseLimitQuery, parsePagingQueryInput } from '../pagination';
 import {
   isUnanchoredRequest,
@@ -21,6 +21,7 @@ import {
 } from '../../helpers';
 import {
   getTxFromDataStore,
+  parseDbAddressActivity,
   parseDbEvent,
   parseDbMempoolTx,
   parseDbTx,
@@ -34,10 +35,11 @@ import {
   AddressStxInboundListResponse,
   InboundStxTransfer,
   AddressNftListResponse,
-  MempoolTransactionListResponse,
+  AddressMempoolTransactionListResponse,
   AddressTransactionWithTransfers,
   AddressTransactionsWithTransfersListResponse,
   AddressNonces,
+  AddressActivityListResponse,
 } from '@stacks/stacks-blockchain-api-types';
 import { ChainID } from '@stacks/transactions';
 import { decodeClarityValueToRepr } from 'stacks-encoding-native-js';
@@ -52,6 +54,7 @@ import {
 const MAX_TX_PER_REQUEST = 50;
 const MAX_ASSETS_PER_REQUEST = 50;
 const MAX_STX_INBOUND_PER_REQUEST = 500;
+const MAX_ACTIVITY_PER_REQUEST = 50;
 
 const parseTxQueryLimit = parseLimitQuery({
   maxItems: MAX_TX_PER_REQUEST,
@@ -68,6 +71,44 @@ const parseStxInboundLimit = parseLimitQuery({
   errorMsg: '`limit` must be equal to or less than ' + MAX_STX_INBOUND_PER_REQUEST,
 });
 
+const parseActivityQueryLimit = parseLimitQuery({
+  maxItems: MAX_ACTIVITY_PER_REQUEST,
+  errorMsg: '`limit` must be equal to or less than ' + MAX_ACTIVITY_PER_REQUEST,
+});
+
+/**
+ * Activity cursors are the colon separated position of the last entry of a page, the next page
+ * starts right after it.
+ */
+function formatActivityCursor(position: DbAddressActivityPosition): string {
+  const { block_height, microblock_sequence, tx_index, sub_index, source_index } = position;
+  return `${block_height}:${microblock_sequence}:${tx_index}:${sub_index}:${source_index}`;
+}
+
+function parseActivityCursor(cursor: unknown): DbAddressActivityPosition | undefined {
+  if (cursor === undefined) {
+    return undefined;
+  }
+  const match =
+    typeof cursor === 'string' ? /^(\d+):(\d+):(-?\d+):(-?\d+):(\d+)$/.exec(cursor) : null;
+  if (!match) {
+    throw new InvalidRequestError(
+      `Invalid cursor: ${cursor}`,
+      InvalidRequestErrorType.invalid_query
+    );
+  }
+  const [blockHeight, microblockSequence, txIndex, subIndex, sourceIndex] = match
+    .slice(1)
+    .map(Number);
+  return {
+    block_height: blockHeight,
+    microblock_sequence: microblockSequence,
+    tx_index: txIndex,
+    sub_index: subIndex,
+    source_index: sourceIndex,
+  };
+}
+
 async function getBlockHeight(
   untilBlock: number | string | undefined,
   req: Request,
@@ -79,13 +120,24 @@ async function getBlockHeight(
   if (typeof untilBlock === 'number') {
     blockHeight = untilBlock;
   } else if (typeof untilBlock === 'string') {
-    const block = await db.getBlock({ hash: untilBlock });
+    // The hash can either be a block hash or an index block hash
+    let block = await db.getBlock({ hash: untilBlock });
+    if (!block.found) {
+      block = await db.getBlock({ indexBlockHash: untilBlock });
+    }
     if (!block.found) {
       const error = `block not found with hash ${untilBlock}`;
       res.status(404).json({ error: error });
       next(error);
       throw new Error(error);
     }
+    // Balances of forks are not tracked, only those of the canonical chain
+    if (!block.result.canonical) {
+      const error = `block with hash ${untilBlock} is not canonical`;
+      res.status(404).json({ error: error });
+      next(error);
+      throw new Error(error);
+    }
     blockHeight = block.result.block_height;
   } else {
     const includeUnanchored = isUnanchoredRequest(req, res, next);
@@ -160,16 +212,15 @@ export function createAddressRouter(db: DataStore, chainId: ChainID): express.Ro
       const untilBlock = parseUntilBlockQuery(req, res, next);
       const blockHeight = await getBlockHeight(untilBlock, req, res, next, db);
 
-      // Get balance info for STX token
-      const stxBalanceResult = await db.getStxBalanceAtBlock(stxAddress, blockHeight);
+      const balances = await db.getPrincipalBalancesAtBlock({
+        principal: stxAddress,
+        blockHeight,
+      });
+      const stxBalanceResult = balances.stx;
       const tokenOfferingLocked = await db.getTokenOfferingLocked(stxAddress, blockHeight);
 
       // Get balances for fungible tokens
-      const ftBalancesResult = await db.getFungibleTokenBalances({
-        stxAddress,
-        untilBlock: blockHeight,
-      });
-      const ftBalances = formatMapToObject(ftBalancesResult, val => {
+      const ftBalances = formatMapToObject(balances.fungibleTokens, val => {
         return {
           balance: val.balance.toString(),
           total_sent: val.totalSent.toString(),
@@ -178,11 +229,7 @@ export function createAddressRouter(db: DataStore, chainId: ChainID): express.Ro
       });
 
       // Get counts for non-fungible tokens
-      const nftBalancesResult = await db.getNonFungibleTokenCounts({
-        stxAddress,
-        untilBlock: blockHeight,
-      });
-      const nftBalances = formatMapToObject(nftBalancesResult, val => {
+      const nftBalances = formatMapToObject(balances.nonFungibleTokens, val => {
         return {
           count: val.count.toString(),
           total_sent: val.totalSent.toString(),
@@ -407,6 +454,33 @@ export function createAddressRouter(db: DataStore, chainId: ChainID): express.Ro
     })
   );
 
+  router.get(
+    '/:principal/activity',
+    cacheHandler,
+    asyncHandler(async (req, res, next) => {
+      const principal = req.params['principal'];
+      validatePrincipal(principal);
+      const limit = parseActivityQueryLimit(req.query.limit ?? 20);
+      const before = parseActivityCursor(req.query.cursor);
+      const blockHeight = await getBlockHeight(undefined, req, res, next, db);
+      const { results: activity, hasMore } = await db.getAddressActivity({
+        principal,
+        blockHeight,
+        limit,
+        before,
+      });
+      const lastEntry = activity[activity.length - 1];
+      const response: AddressActivityListResponse = {
+        limit,
+        // Note: OpenAPI type generator doesn't support `nullable: true` so force cast it here
+        next_cursor: hasMore ? formatActivityCursor(lastEntry) : ((null as unknown) as string),
+        results: activity.map(entry => parseDbAddressActivity(entry)),
+      };
+      setETagCacheHeaders(res);
+      res.json(response);
+    })
+  );
+
   router.get(
     '/:stx_address/stx_inbound',
     cacheHandler,
@@ -547,10 +621,19 @@ export function createAddressRouter(db: DataStore, chainId: ChainID): express.Ro
       });
 
       const results = txResults.map(tx => parseDbMempoolTx(tx));
-      const response: MempoolTransactionListResponse = { limit, offset, total, results };
+      const nonceConflicts = await db.getAddressMempoolNonceConflicts({ stxAddress: address });
+      const { detectedMissingNonces } = await db.getAddressNonces({ stxAddress: address });
+      const response: AddressMempoolTransactionListResponse = {
+        limit,
+        offset,
+        total,
+        results,
+        nonce_conflicts: nonceConflicts,
+        detected_missing_nonces: detectedMissingNonces,
+      };
       if (!isProdEnv) {
         const schemaPath =
-          '@stacks/stacks-blockchain-api-types/api/transaction/get-mempool-transactions.schema.json';
+          '@stacks/stacks-blockchain-api-types/api/address/get-address-mempool-transactions.schema.json';
         await validate(schemaPath, response);
       }
       setETagCacheHeaders(res, ETagType.mempool);
@@ -3,16 +3,24 @@ import { asyncHandler } from '../../async-handler';
 import { DataStore } from '../../../datastore/common';
 import { isUnanchoredRequest } from '../../query-helpers';
 import { ChainID } from '@stacks/transactions';
+import {
+  BnsGetPrimaryNameResponse,
+  BnsGetPrimaryNamesRequest,
+  BnsGetPrimaryNamesResponse,
+} from '@stacks/stacks-blockchain-api-types';
+import { isValidPrincipal } from '../../../helpers';
 import {
   getETagCacheHandler,
   setETagCacheHeaders,
 } from '../../../api/controllers/cache-controller';
 
 const SUPPORTED_BLOCKCHAINS = ['stacks'];
+const MAX_PRIMARY_NAME_PRINCIPALS_PER_REQUEST = 300;
 
 export function createBnsAddressesRouter(db: DataStore, chainId: ChainID): express.Router {
   const router = express.Router();
   const cacheHandler = getETagCacheHandler(db);
+  router.use(express.json());
 
   router.get(
     '/:blockchain/:address',
@@ -39,5 +47,73 @@ export function createBnsAddressesRouter(db: DataStore, chainId: ChainID): expre
     })
   );
 
+  router.get(
+    '/:blockchain/:address/primary_name',
+    cacheHandler,
+    asyncHandler(async (req, res, next) => {
+      const { blockchain, address } = req.params;
+      if (!SUPPORTED_BLOCKCHAINS.includes(blockchain)) {
+        res.status(404).json({ error: 'Unsupported blockchain' });
+        return;
+      }
+      if (!isValidPrincipal(address)) {
+        res.status(400).json({ error: `Invalid principal ${address}` });
+        return;
+      }
+      const includeUnanchored = isUnanchoredRequest(req, res, next);
+      const primaryNames = await db.getPrimaryNames({ principals: [address], includeUnanchored });
+      const response: BnsGetPrimaryNameResponse = {
+        // Note: OpenAPI type generator doesn't support `nullable: true` so force cast it here
+        name: primaryNames.get(address) ?? ((null as unknown) as string),
+      };
+      setETagCacheHeaders(res);
+      res.json(response);
+    })
+  );
+
+  router.post(
+    '/:blockchain/primary_names',
+    asyncHandler(async (req, res, next) => {
+      // Batched variant of `/:blockchain/:address/primary_name`, used to label many principals at once.
+      const { blockchain } = req.params;
+      if (!SUPPORTED_BLOCKCHAINS.includes(blockchain)) {
+        res.status(404).json({ error: 'Unsupported blockchain' });
+        return;
+      }
+      const body = req.body as BnsGetPrimaryNamesRequest | undefined;
+      const addresses = body?.addresses;
+      if (!Array.isArray(addresses) || addresses.length === 0) {
+        res.status(400).json({ error: '`addresses` must be a non-empty array of principals' });
+        return;
+      }
+      if (addresses.length > MAX_PRIMARY_NAME_PRINCIPALS_PER_REQUEST) {
+        res.status(400).json({
+          error: `\`addresses\` must contain at most ${MAX_PRIMARY_NAME_PRINCIPALS_PER_REQUEST} principals`,
+        });
+        return;
+      }
+      if (addresses.some(address => typeof address !== 'string')) {
+        res.status(400).json({ error: '`addresses` must only contain principal strings' });
+        return;
+      }
+      const invalidAddress = addresses.find(address => !isValidPrincipal(address));
+      if (invalidAddress !== undefined) {
+        res.status(400).json({ error: `Invalid principal ${invalidAddress}` });
+        return;
+      }
+      const includeUnanchored = isUnanchoredRequest(req, res, next);
+      const primaryNames = await db.getPrimaryNames({
+        principals: [...new Set(addresses)],
+        includeUnanchored,
+      });
+      const response: BnsGetPrimaryNamesResponse = { names: {} };
+      for (const address of addresses) {
+        // Note: OpenAPI type generator doesn't support `nullable: true` so force cast it here
+        response.names[address] = primaryNames.get(address) ?? ((null as unknown) as string);
+      }
+      res.json(response);
+    })
+  );
+
   return router;
 }
@@ -2,15 +2,43 @@ import * as express from 'express';
 import { asyncHandler } from '../../async-handler';
 import { DataStore } from '../../../datastore/common';
 import { parsePagingQueryInput } from '../../../api/pagination';
-import { isUnanchoredRequest } from '../../query-helpers';
+import { booleanValueForParam, isUnanchoredRequest } from '../../query-helpers';
 import { bnsBlockchain, BnsErrors } from '../../../event-stream/bns/bns-constants';
-import { BnsGetNameInfoResponse } from '@stacks/stacks-blockchain-api-types';
+import {
+  getZoneFileDeclaredRecords,
+  parseZoneFileRecords,
+} from '../../../event-stream/bns/bns-helpers';
+import {
+  BnsGetNameHistoryResponse,
+  BnsGetNameInfoResponse,
+  BnsGetExpiringNamesResponse,
+  BnsGetNameRecordsResponse,
+  BnsNameHistoryEntry,
+  BnsZoneFileRecords,
+} from '@stacks/stacks-blockchain-api-types';
 import { ChainID } from '@stacks/transactions';
 import {
   getETagCacheHandler,
   setETagCacheHeaders,
 } from '../../../api/controllers/cache-controller';
 
+function formatZoneFileRecords(zonefile: string): BnsZoneFileRecords {
+  const records = parseZoneFileRecords(zonefile);
+  return {
+    uri: records.uri.map(({ name, priority, weight, target }) => ({
+      name,
+      priority,
+      weight,
+      target,
+    })),
+    txt: records.txt.map(({ name, txt }) => ({ name, txt: ([] as string[]).concat(txt) })),
+    a: records.a.map(({ name, ip }) => ({ name, ip })),
+    aaaa: records.aaaa.map(({ name, ip }) => ({ name, ip })),
+    // Note: OpenAPI type generator doesn't support `nullable: true` so force cast it here
+    resolver: records.resolver ?? ((null as unknown) as string),
+  };
+}
+
 export function createBnsNamesRouter(db: DataStore, chainId: ChainID): express.Router {
   const router = express.Router();
   const cacheHandler = getETagCacheHandler(db);
@@ -53,16 +81,113 @@ export function createBnsNamesRouter(db: DataStore, chainId: ChainID): express.R
     asyncHandler(async (req, res, next) => {
       const { name } = req.params;
       const includeUnanchored = isUnanchoredRequest(req, res, next);
+      const parsed = booleanValueForParam(req, res, next, 'parsed');
       const zonefile = await db.getLatestZoneFile({ name: name, includeUnanchored });
       if (zonefile.found) {
         setETagCacheHeaders(res);
-        res.json(zonefile.result);
+        if (parsed) {
+          res.json({
+            zonefile: zonefile.result.zonefile,
+            records: formatZoneFileRecords(zonefile.result.zonefile),
+          });
+        } else {
+          res.json(zonefile.result);
+        }
       } else {
         res.status(404).json({ error: 'No such name or zonefile does not exist' });
       }
     })
   );
 
+  router.get(
+    '/:name/records',
+    cacheHandler,
+    asyncHandler(async (req, res, next) => {
+      const { name } = req.params;
+      const includeUnanchored = isUnanchoredRequest(req, res, next);
+      const zonefile = await db.getLatestZoneFile({ name: name, includeUnanchored });
+      if (!zonefile.found) {
+        res.status(404).json({ error: 'No such name or zonefile does not exist' });
+        return;
+      }
+      const declared = getZoneFileDeclaredRecords(parseZoneFileRecords(zonefile.result.zonefile));
+      // Note: OpenAPI type generator doesn't support `nullable: true` so force cast it here
+      const response: BnsGetNameRecordsResponse = {
+        profile_url: declared.profileUrl ?? ((null as unknown) as string),
+        btc_address: declared.btcAddress ?? ((null as unknown) as string),
+        stx_address: declared.stxAddress ?? ((null as unknown) as string),
+      };
+      setETagCacheHeaders(res);
+      res.json(response);
+    })
+  );
+
+  router.get(
+    '/:name/history',
+    cacheHandler,
+    asyncHandler(async (req, res, next) => {
+      const { name } = req.params;
+      // History is only recorded for names, subdomain operations aren't tracked in the `names` table.
+      if (name.split('.').length !== 2) {
+        res.status(400).json(BnsErrors.InvalidNameOrSubdomain);
+        return;
+      }
+      const page = parsePagingQueryInput(req.query.page ?? 0);
+      const includeUnanchored = isUnanchoredRequest(req, res, next);
+      const { results } = await db.getNameHistory({ name, page, includeUnanchored });
+      if (results.length === 0) {
+        if (req.query.page) {
+          res.status(400).json(BnsErrors.InvalidPageNumber);
+        } else {
+          res.status(404).json(BnsErrors.NoSuchName);
+        }
+        return;
+      }
+      const response: BnsGetNameHistoryResponse = results.map(entry => {
+        const historyEntry: BnsNameHistoryEntry = {
+          operation: entry.operation,
+          tx_id: entry.tx_id,
+          block_height: entry.block_height,
+          // Note: OpenAPI type generator doesn't support `nullable: true` so force cast it here
+          old_owner: entry.old_owner ?? ((null as unknown) as string),
+          new_owner: entry.new_owner,
+          zonefile_hash: entry.zonefile_hash,
+          expire_block: entry.expire_block,
+        };
+        return historyEntry;
+      });
+      setETagCacheHeaders(res);
+      res.json(response);
+    })
+  );
+
+  router.get(
+    '/expiring',
+    cacheHandler,
+    asyncHandler(async (req, res, next) => {
+      const withinBlocks = Number(req.query.within_blocks);
+      if (!Number.isInteger(withinBlocks) || withinBlocks < 1) {
+        res.status(400).json({ error: '`within_blocks` must be a positive integer' });
+        return;
+      }
+      const page = parsePagingQueryInput(req.query.page ?? 0);
+      const includeUnanchored = isUnanchoredRequest(req, res, next);
+      const { results } = await db.getExpiringNames({ withinBlocks, page, includeUnanchored });
+      if (results.length === 0 && req.query.page) {
+        res.status(400).json(BnsErrors.InvalidPageNumber);
+        return;
+      }
+      const response: BnsGetExpiringNamesResponse = results.map(result => ({
+        name: result.name,
+        address: result.address,
+        namespace_id: result.namespace_id,
+        expire_block: result.expire_block,
+      }));
+      setETagCacheHeaders(res);
+      res.json(response);
+    })
+  );
+
   router.get(
     '/',
     cacheHandler,
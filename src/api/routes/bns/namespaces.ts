@@ -4,7 +4,10 @@ import { DataStore } from '../../../datastore/common';
 import { parsePagingQueryInput } from '../../../api/pagination';
 import { isUnanchoredRequest } from '../../query-helpers';
 import { BnsErrors } from '../../../event-stream/bns/bns-constants';
-import { BnsGetAllNamespacesResponse } from '@stacks/stacks-blockchain-api-types';
+import {
+  BnsGetAllNamespacesResponse,
+  BnsGetNamespaceResponse,
+} from '@stacks/stacks-blockchain-api-types';
 import {
   getETagCacheHandler,
   setETagCacheHeaders,
@@ -29,6 +32,41 @@ export function createBnsNamespacesRouter(db: DataStore): express.Router {
     })
   );
 
+  router.get(
+    '/:tld',
+    cacheHandler,
+    asyncHandler(async (req, res, next) => {
+      const { tld } = req.params;
+      const includeUnanchored = isUnanchoredRequest(req, res, next);
+      const namespaceQuery = await db.getNamespace({ namespace: tld, includeUnanchored });
+      if (!namespaceQuery.found) {
+        res.status(404).json(BnsErrors.NoSuchNamespace);
+        return;
+      }
+      const namespace = namespaceQuery.result;
+      const response: BnsGetNamespaceResponse = {
+        namespace_id: namespace.namespace_id,
+        address: namespace.address,
+        status: namespace.status ?? '',
+        // Note: OpenAPI type generator doesn't support `nullable: true` so force cast it here
+        launched_at: namespace.launched_at ?? ((null as unknown) as number),
+        reveal_block: namespace.reveal_block,
+        ready_block: namespace.ready_block,
+        lifetime: namespace.lifetime,
+        price_function: {
+          base: namespace.base.toString(),
+          coeff: namespace.coeff.toString(),
+          buckets: namespace.buckets.split(',').map(bucket => parseInt(bucket)),
+          nonalpha_discount: namespace.nonalpha_discount,
+          no_vowel_discount: namespace.no_vowel_discount,
+        },
+        tx_id: namespace.tx_id ? namespace.tx_id : '',
+      };
+      setETagCacheHeaders(res);
+      res.json(response);
+    })
+  );
+
   router.get(
     '/:tld/names',
     cacheHandler,
@@ -16,13 +16,38 @@ import {
 } from '@stacks/transactions';
 import {
   BnsGetNamePriceResponse,
+  BnsGetNamePricesRequest,
+  BnsGetNamePricesResponse,
   BnsGetNamespacePriceResponse,
 } from '@stacks/stacks-blockchain-api-types';
 import { isValidPrincipal, logger } from './../../../helpers';
-import { getBnsContractID, GetStacksNetwork } from '../../../event-stream/bns/bns-helpers';
+import {
+  computeBnsNamePrice,
+  getBnsContractID,
+  GetStacksNetwork,
+} from '../../../event-stream/bns/bns-helpers';
+
+const MAX_NAME_PRICES_PER_REQUEST = 100;
+
+/** Splits a fully-qualified name into the `name` and `namespace` buffers of the BNS contract. */
+function parseFullyQualifiedName(input: string): { name: string; namespace: string } | undefined {
+  if (typeof input !== 'string') {
+    return;
+  }
+  const split = input.split('.');
+  if (split.length !== 2 || split[0].length === 0 || split[1].length === 0) {
+    return;
+  }
+  const [name, namespace] = split;
+  if (Buffer.byteLength(name) > 48 || Buffer.byteLength(namespace) > 20) {
+    return;
+  }
+  return { name, namespace };
+}
 
 export function createBnsPriceRouter(db: DataStore, chainId: ChainID): express.Router {
   const router = express.Router();
+  router.use(express.json());
   const stacksNetwork = GetStacksNetwork(chainId);
 
   router.get(
@@ -74,49 +99,20 @@ export function createBnsPriceRouter(db: DataStore, chainId: ChainID): express.R
   router.get(
     '/names/:name',
     asyncHandler(async (req, res) => {
-      const input = req.params.name;
-      if (!input.includes('.')) {
+      const fqn = parseFullyQualifiedName(req.params.name);
+      if (!fqn) {
         res.status(400).json({ error: 'Invalid name' });
         return;
       }
-      const split = input.split('.');
-      if (split.length != 2) {
-        res.status(400).json({ error: 'Invalid name' });
-        return;
-      }
-      const name = split[0];
-      const namespace = split[1];
-      const randomPrivKey = makeRandomPrivKey();
-      const address = getAddressFromPrivateKey(
-        randomPrivKey.data,
-        chainId === ChainID.Mainnet ? TransactionVersion.Mainnet : TransactionVersion.Testnet
-      );
-
-      const bnsContractIdentifier = getBnsContractID(chainId);
-      if (!bnsContractIdentifier || !isValidPrincipal(bnsContractIdentifier)) {
-        logger.error('BNS contract ID not properly configured');
-        res.status(500).json({ error: 'BNS contract ID not properly configured' });
-        return;
-      }
-
-      const [bnsContractAddress, bnsContractName] = bnsContractIdentifier.split('.');
-      const txOptions: ReadOnlyFunctionOptions = {
-        senderAddress: address,
-        contractAddress: bnsContractAddress,
-        contractName: bnsContractName,
-        functionName: 'get-name-price',
-        functionArgs: [bufferCVFromString(namespace), bufferCVFromString(name)],
-        network: stacksNetwork,
-      };
-
-      const contractCall = await callReadOnlyFunction(txOptions);
-      if (
-        contractCall.type == ClarityType.ResponseOk &&
-        contractCall.value.type == ClarityType.UInt
-      ) {
+      const namespace = await db.getNamespace({
+        namespace: fqn.namespace,
+        includeUnanchored: false,
+      });
+      const price = namespace.found ? computeBnsNamePrice(fqn.name, namespace.result) : undefined;
+      if (price !== undefined) {
         const response: BnsGetNamePriceResponse = {
           units: 'STX',
-          amount: contractCall.value.value.toString(10),
+          amount: price.toString(10),
         };
         res.json(response);
       } else {
@@ -125,5 +121,52 @@ export function createBnsPriceRouter(db: DataStore, chainId: ChainID): express.R
     })
   );
 
+  router.post(
+    '/names',
+    asyncHandler(async (req, res) => {
+      const body = req.body as BnsGetNamePricesRequest | undefined;
+      const names = body?.names;
+      if (!Array.isArray(names) || names.length === 0) {
+        res.status(400).json({ error: '`names` must be a non-empty array of names' });
+        return;
+      }
+      if (names.length > MAX_NAME_PRICES_PER_REQUEST) {
+        res.status(400).json({
+          error: `\`names\` must contain at most ${MAX_NAME_PRICES_PER_REQUEST} names`,
+        });
+        return;
+      }
+      const fqns = names.map(input => ({ input, fqn: parseFullyQualifiedName(input) }));
+      const invalidName = fqns.find(entry => !entry.fqn);
+      if (invalidName) {
+        res.status(400).json({ error: `Invalid name ${invalidName.input}` });
+        return;
+      }
+      const namespaces = new Map<string, DbBnsNamespace | undefined>();
+      for (const { fqn } of fqns) {
+        if (fqn && !namespaces.has(fqn.namespace)) {
+          const namespace = await db.getNamespace({
+            namespace: fqn.namespace,
+            includeUnanchored: false,
+          });
+          namespaces.set(fqn.namespace, namespace.found ? namespace.result : undefined);
+        }
+      }
+      const response: BnsGetNamePricesResponse = {
+        prices: fqns.map(({ input, fqn }) => {
+          const namespace = fqn ? namespaces.get(fqn.namespace) : undefined;
+          const price = fqn && namespace ? computeBnsNamePrice(fqn.name, namespace) : undefined;
+          return {
+            name: input,
+            units: 'STX',
+            // Note: OpenAPI type generator doesn't support `nullable: true` so force cast it here
+            amount: price !== undefined ? price.toString(10) : ((null as unknown) as string),
+          };
+        }),
+      };
+      res.json(response);
+    })
+  );
+
   return router;
 }
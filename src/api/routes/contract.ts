@@ -1,10 +1,27 @@
 import * as express from 'express';
 import { asyncHandler } from '../async-handler';
-import { DataStore } from '../../datastore/common';
+import { DataStore, DbTxStatus, getTxDbStatus } from '../../datastore/common';
 import { parseLimitQuery, parsePagingQueryInput } from '../pagination';
-import { parseDbEvent } from '../controllers/db-controller';
+import { parseDbEvent, parseDbTx } from '../controllers/db-controller';
 import { ClarityAbi, ClarityAbiTypeId } from '@stacks/transactions';
-import { parseTraitAbi } from '../query-helpers';
+import {
+  isDecodeJsonRequest,
+  isUnanchoredRequest,
+  parsePrintTopicQuery,
+  parseTraitAbi,
+} from '../query-helpers';
+import {
+  addDecodedClarityValuesToEvents,
+  addDecodedClarityValuesToTxs,
+} from '../controllers/clarity-value-json';
+import { InvalidRequestError, InvalidRequestErrorType } from '../../errors';
+import { isValidC32Address, isValidPrincipal } from '../../helpers';
+import {
+  ETagType,
+  getETagCacheHandler,
+  setETagCacheHeaders,
+} from '../controllers/cache-controller';
+import { TransactionResults } from '@stacks/stacks-blockchain-api-types';
 
 const MAX_EVENTS_PER_REQUEST = 50;
 const parseContractEventsQueryLimit = parseLimitQuery({
@@ -12,8 +29,46 @@ const parseContractEventsQueryLimit = parseLimitQuery({
   errorMsg: '`limit` must be equal to or less than ' + MAX_EVENTS_PER_REQUEST,
 });
 
+const MAX_CALLS_PER_REQUEST = 50;
+const parseContractCallsQueryLimit = parseLimitQuery({
+  maxItems: MAX_CALLS_PER_REQUEST,
+  errorMsg: '`limit` must be equal to or less than ' + MAX_CALLS_PER_REQUEST,
+});
+
+const CONTRACT_CALL_STATUSES = ['success', 'abort_by_response', 'abort_by_post_condition'] as const;
+
+function parseBlockHeightQuery(name: string, value: unknown): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    throw new InvalidRequestError(
+      `\`${name}\` must be a non-negative integer`,
+      InvalidRequestErrorType.invalid_query
+    );
+  }
+  return parseInt(value, 10);
+}
+
+function parseContractCallStatusQuery(value: unknown): DbTxStatus[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const statuses = Array.isArray(value) ? value : [value];
+  return statuses.map(status => {
+    if (!CONTRACT_CALL_STATUSES.includes(status)) {
+      throw new InvalidRequestError(
+        `Invalid status "${status}", must be one of ${CONTRACT_CALL_STATUSES.join(', ')}`,
+        InvalidRequestErrorType.invalid_query
+      );
+    }
+    return getTxDbStatus(status as typeof CONTRACT_CALL_STATUSES[number]);
+  });
+}
+
 export function createContractRouter(db: DataStore): express.Router {
   const router = express.Router();
+  const cacheHandler = getETagCacheHandler(db);
 
   router.get(
     '/by_trait',
@@ -57,12 +112,14 @@ export function createContractRouter(db: DataStore): express.Router {
 
   router.get(
     '/:contract_id/events',
-    asyncHandler(async (req, res) => {
+    asyncHandler(async (req, res, next) => {
       const { contract_id } = req.params;
       const limit = parseContractEventsQueryLimit(req.query.limit ?? 20);
       const offset = parsePagingQueryInput(req.query.offset ?? 0);
+      const printTopic = parsePrintTopicQuery(req, res, next);
       const eventsQuery = await db.getSmartContractEvents({
         contractId: contract_id,
+        printTopic,
         limit,
         offset,
       });
@@ -71,9 +128,76 @@ export function createContractRouter(db: DataStore): express.Router {
         return;
       }
       const parsedEvents = eventsQuery.result.map(event => parseDbEvent(event));
+      if (isDecodeJsonRequest(req, res, next)) {
+        await addDecodedClarityValuesToEvents(db, parsedEvents);
+      }
       res.json({ limit, offset, results: parsedEvents });
     })
   );
 
+  router.get(
+    '/:contract_id/calls',
+    cacheHandler,
+    asyncHandler(async (req, res, next) => {
+      const { contract_id } = req.params;
+      if (!contract_id.includes('.') || !isValidPrincipal(contract_id)) {
+        throw new InvalidRequestError(
+          `Invalid contract ID "${contract_id}"`,
+          InvalidRequestErrorType.invalid_param
+        );
+      }
+      const limit = parseContractCallsQueryLimit(req.query.limit ?? 20);
+      const offset = parsePagingQueryInput(req.query.offset ?? 0);
+      const functionName = req.query.function_name;
+      if (functionName !== undefined && (typeof functionName !== 'string' || !functionName)) {
+        throw new InvalidRequestError(
+          '`function_name` must be a non-empty string',
+          InvalidRequestErrorType.invalid_query
+        );
+      }
+      const senderAddress = req.query.sender_address;
+      if (
+        senderAddress !== undefined &&
+        (typeof senderAddress !== 'string' || !isValidC32Address(senderAddress))
+      ) {
+        throw new InvalidRequestError(
+          `Invalid sender address "${senderAddress}"`,
+          InvalidRequestErrorType.invalid_query
+        );
+      }
+      const status = parseContractCallStatusQuery(req.query.status);
+      const fromBlockHeight = parseBlockHeightQuery(
+        'from_block_height',
+        req.query.from_block_height
+      );
+      let toBlockHeight = parseBlockHeightQuery('to_block_height', req.query.to_block_height);
+      if (toBlockHeight === undefined) {
+        const includeUnanchored = isUnanchoredRequest(req, res, next);
+        const currentBlockHeight = await db.getCurrentBlockHeight();
+        toBlockHeight = currentBlockHeight.found
+          ? currentBlockHeight.result + (includeUnanchored ? 1 : 0)
+          : 0;
+      }
+
+      const { results: txResults, total } = await db.getContractCalls({
+        contractId: contract_id,
+        functionName,
+        senderAddress,
+        status,
+        fromBlockHeight,
+        blockHeight: toBlockHeight,
+        limit,
+        offset,
+      });
+      const results = txResults.map(dbTx => parseDbTx(dbTx));
+      if (isDecodeJsonRequest(req, res, next)) {
+        await addDecodedClarityValuesToTxs(db, results);
+      }
+      const response: TransactionResults = { limit, offset, total, results };
+      setETagCacheHeaders(res);
+      res.json(response);
+    })
+  );
+
   return router;
 }
@@ -8,8 +8,14 @@ import * as path from 'path';
 import { asyncHandler } from '../async-handler';
 import * as chokidar from 'chokidar';
 import * as jsoncParser from 'jsonc-parser';
-import fetch, { RequestInit } from 'node-fetch';
+import fetch, { RequestInit, Response } from 'node-fetch';
 import { DataStore } from '../../datastore/common';
+import { getChainTipETag } from '../controllers/cache-controller';
+import {
+  CachedReadOnlyCallResponse,
+  createReadOnlyCallCache,
+  getReadOnlyCallCacheKey,
+} from '../controllers/read-only-call-cache';
 
 function GetStacksNodeProxyEndpoint() {
   // Use STACKS_CORE_PROXY env vars if available, otherwise fallback to `STACKS_CORE_RPC
@@ -238,6 +244,72 @@ export function createCoreNodeRpcProxyRouter(db: DataStore): express.Router {
     })
   );
 
+  const readOnlyCallCache = createReadOnlyCallCache();
+  if (readOnlyCallCache) {
+    router.post(
+      '/contracts/call-read/:contract_address/:contract_name/:function_name',
+      asyncHandler(async (req, res) => {
+        const maxBodySize = 1_000_000; // 1 MB max POST body size
+        const reqBody = await readRequestBody(req, maxBodySize);
+        const tip = typeof req.query.tip === 'string' ? req.query.tip : undefined;
+        const cacheKey = getReadOnlyCallCacheKey({
+          contractAddress: req.params.contract_address,
+          contractName: req.params.contract_name,
+          functionName: req.params.function_name,
+          tip,
+          body: reqBody,
+        });
+        const chainTip = cacheKey ? await getChainTipETag(db) : undefined;
+        if (cacheKey && chainTip) {
+          const cachedResponse = readOnlyCallCache.get(chainTip, cacheKey);
+          if (cachedResponse) {
+            sendReadOnlyCallResponse(req, res, cachedResponse);
+            return;
+          }
+        }
+
+        let proxyResp: Response;
+        try {
+          proxyResp = await fetch(`http://${stacksNodeRpcEndpoint}${req.originalUrl}`, {
+            method: 'POST',
+            agent: httpAgent,
+            body: reqBody,
+            headers: { 'Content-Type': req.headers['content-type'] ?? 'application/json' },
+          });
+        } catch (error) {
+          logError(`Error proxying read-only call ${req.originalUrl}: ${error}`, error);
+          res.status(502).json({ message: 'cannot connect to core node', error: error });
+          return;
+        }
+        const response: CachedReadOnlyCallResponse = {
+          status: proxyResp.status,
+          contentType: proxyResp.headers.get('content-type') ?? undefined,
+          body: await proxyResp.buffer(),
+        };
+        if (cacheKey && chainTip && response.status === 200) {
+          readOnlyCallCache.set(chainTip, cacheKey, response);
+        }
+        sendReadOnlyCallResponse(req, res, response);
+      })
+    );
+  }
+
+  function sendReadOnlyCallResponse(
+    req: express.Request,
+    res: express.Response,
+    response: CachedReadOnlyCallResponse
+  ) {
+    res.status(response.status);
+    if (response.contentType) {
+      res.setHeader('Content-Type', response.contentType);
+    }
+    const cacheControl = getCacheControlHeader(response.status, req.originalUrl);
+    if (cacheControl) {
+      res.setHeader('Cache-Control', cacheControl);
+    }
+    res.send(response.body);
+  }
+
   const proxyOptions: Options = {
     agent: httpAgent,
     target: `http://${stacksNodeRpcEndpoint}`,
@@ -1,19 +1,148 @@
 import * as express from 'express';
-import { DataStore } from '../../datastore/common';
-import { FeeRate } from '@stacks/stacks-blockchain-api-types';
+import { decodeTransaction } from 'stacks-encoding-native-js';
+import { asyncHandler } from '../async-handler';
+import {
+  DataStore,
+  DbFeeRateBlockCost,
+  DbFeeRatePercentiles,
+  DbTxTypeId,
+} from '../../datastore/common';
+import {
+  FeeRate,
+  FeeRateRequest,
+  FeeRateTiers,
+  TransactionType,
+} from '@stacks/stacks-blockchain-api-types';
+import { parseEnum } from '../../helpers';
+import { InvalidRequestError, InvalidRequestErrorType } from '../../errors';
+import { getTxTypeId, getTxTypeString, parseTxTypeStrings } from '../controllers/db-controller';
 
+/** Fee rate returned for every tier when there are no recent txs to sample from. */
 export const FEE_RATE = 400;
 
-export function createFeeRateRouter(_: DataStore): express.Router {
+/** Minimum fee rate (micro-STX per byte) accepted by the stacks node mempool. */
+const MIN_FEE_RATE = 1;
+
+/** Number of recent blocks used to sample confirmed tx fee rates and block fullness. */
+const FEE_RATE_SAMPLE_BLOCK_COUNT = 20;
+
+/**
+ * Block execution cost and size limits, used to determine how full recent blocks were.
+ * See https://github.com/stacks-network/stacks-blockchain/blob/master/src/core/mod.rs
+ */
+const BLOCK_LIMITS = {
+  read_count: 15_000,
+  read_length: 100_000_000,
+  runtime: 5_000_000_000,
+  write_count: 15_000,
+  write_length: 15_000_000,
+  size: 2 * 1024 * 1024,
+};
+
+/**
+ * Returns a value between 0 and 1 representing how close a block got to any of its limits.
+ */
+export function getBlockFullness(block: DbFeeRateBlockCost): number {
+  const ratios = [
+    block.execution_cost_read_count / BLOCK_LIMITS.read_count,
+    block.execution_cost_read_length / BLOCK_LIMITS.read_length,
+    block.execution_cost_runtime / BLOCK_LIMITS.runtime,
+    block.execution_cost_write_count / BLOCK_LIMITS.write_count,
+    block.execution_cost_write_length / BLOCK_LIMITS.write_length,
+    block.tx_total_size / BLOCK_LIMITS.size,
+  ];
+  return Math.min(1, Math.max(0, ...ratios));
+}
+
+/**
+ * Estimates low, medium and high fee rates from the 25th, 50th and 75th fee-per-byte percentiles of
+ * confirmed and pending txs. The sampled rates are scaled down towards the minimum fee rate when recent
+ * blocks had spare capacity, since any tx paying the minimum is likely to be mined in that case.
+ */
+export function estimateFeeRates(args: {
+  confirmed: DbFeeRatePercentiles;
+  mempool: DbFeeRatePercentiles;
+  blocks: DbFeeRateBlockCost[];
+}): FeeRateTiers {
+  const samples = [args.confirmed, args.mempool].filter(s => s.count > 0);
+  if (samples.length === 0) {
+    return { low: FEE_RATE, medium: FEE_RATE, high: FEE_RATE };
+  }
+  const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const fullness = args.blocks.length > 0 ? average(args.blocks.map(b => getBlockFullness(b))) : 1;
+  const estimate = (percentile: (s: DbFeeRatePercentiles) => number) => {
+    const sampled = average(samples.map(percentile));
+    const weighted = MIN_FEE_RATE + (sampled - MIN_FEE_RATE) * fullness;
+    return Math.max(MIN_FEE_RATE, Math.ceil(weighted));
+  };
+  return {
+    low: estimate(s => s.p25),
+    medium: estimate(s => s.p50),
+    high: estimate(s => s.p75),
+  };
+}
+
+function parseFeeRateRequest(
+  body: FeeRateRequest | undefined
+): { estimatedLen: number; txType?: TransactionType } {
+  if (body?.transaction) {
+    try {
+      const decoded = decodeTransaction(body.transaction);
+      return {
+        estimatedLen: Buffer.from(body.transaction.replace(/^0x/i, ''), 'hex').byteLength,
+        txType: getTxTypeString(parseEnum(DbTxTypeId, decoded.payload.type_id as number)),
+      };
+    } catch (error) {
+      throw new InvalidRequestError(
+        `Invalid serialized transaction: ${error}`,
+        InvalidRequestErrorType.invalid_param
+      );
+    }
+  }
+  const estimatedLen = body?.estimated_len;
+  if (estimatedLen === undefined || !Number.isInteger(estimatedLen) || estimatedLen < 1) {
+    throw new InvalidRequestError(
+      'Either `transaction` or a positive integer `estimated_len` must be specified',
+      InvalidRequestErrorType.invalid_param
+    );
+  }
+  if (body?.tx_type !== undefined) {
+    try {
+      return { estimatedLen, txType: parseTxTypeStrings([body.tx_type])[0] };
+    } catch (error) {
+      throw new InvalidRequestError(`${error}`, InvalidRequestErrorType.invalid_param);
+    }
+  }
+  return { estimatedLen };
+}
+
+export function createFeeRateRouter(db: DataStore): express.Router {
   const router = express.Router();
+  router.use(express.json());
 
-  router.post('/', (req, res) => {
-    //validate and use req.body.transaction when we want to use it
-    const response: FeeRate = {
-      fee_rate: FEE_RATE,
-    };
-    res.json(response);
-  });
+  router.post(
+    '/',
+    asyncHandler(async (req, res) => {
+      const { estimatedLen, txType } = parseFeeRateRequest(req.body as FeeRateRequest | undefined);
+      const stats = await db.getFeeRateStats({
+        blockCount: FEE_RATE_SAMPLE_BLOCK_COUNT,
+        txTypeId: txType ? getTxTypeId(txType) : undefined,
+      });
+      const feeRates = estimateFeeRates(stats);
+      const response: FeeRate = {
+        fee_rate: feeRates.medium,
+        tx_type: txType,
+        estimated_len: estimatedLen,
+        fee_rates: feeRates,
+        fees: {
+          low: feeRates.low * estimatedLen,
+          medium: feeRates.medium * estimatedLen,
+          high: feeRates.high * estimatedLen,
+        },
+      };
+      res.json(response);
+    })
+  );
 
   return router;
 }
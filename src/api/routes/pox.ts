@@ -0,0 +1,145 @@
+import * as express from 'express';
+import { asyncHandler } from '../async-handler';
+import { DataStore, DbPoxCycle, DbPoxCycleStacker, DbPoxParams } from '../../datastore/common';
+import { parseLimitQuery, parsePagingQueryInput } from '../pagination';
+import { InvalidRequestError, InvalidRequestErrorType } from '../../errors';
+import { StacksCoreRpcClient } from '../../core-rpc/client';
+import {
+  PoxCycle,
+  PoxCycleListResponse,
+  PoxCycleStackerListResponse,
+  PoxStacker,
+} from '@stacks/stacks-blockchain-api-types';
+import { getETagCacheHandler, setETagCacheHeaders } from '../controllers/cache-controller';
+
+const MAX_CYCLES_PER_REQUEST = 200;
+const parseCyclesQueryLimit = parseLimitQuery({
+  maxItems: MAX_CYCLES_PER_REQUEST,
+  errorMsg: '`limit` must be equal to or less than ' + MAX_CYCLES_PER_REQUEST,
+});
+
+const MAX_STACKERS_PER_REQUEST = 200;
+const parseStackersQueryLimit = parseLimitQuery({
+  maxItems: MAX_STACKERS_PER_REQUEST,
+  errorMsg: '`limit` must be equal to or less than ' + MAX_STACKERS_PER_REQUEST,
+});
+
+function parseDbPoxCycle(cycle: DbPoxCycle): PoxCycle {
+  return {
+    cycle_number: cycle.cycle_number,
+    burn_block_start_height: cycle.burn_block_start_height,
+    burn_block_end_height: cycle.burn_block_end_height,
+    total_stacked: cycle.total_stacked.toString(),
+    stacker_count: cycle.stacker_count,
+    reward_slot_holder_count: cycle.reward_slot_holder_count,
+    burnchain_reward_amount: cycle.burnchain_reward_amount.toString(),
+  };
+}
+
+function parseDbPoxCycleStacker(stacker: DbPoxCycleStacker): PoxStacker {
+  return {
+    stx_address: stacker.locked_address,
+    locked_amount: stacker.locked_amount.toString(),
+    lock_tx_id: stacker.tx_id,
+    lock_height: stacker.block_height,
+    burn_block_lock_height: stacker.burn_block_height,
+    burn_block_unlock_height: stacker.unlock_height,
+    first_reward_cycle: stacker.first_cycle,
+    last_reward_cycle: stacker.unlock_cycle - 1,
+  };
+}
+
+function parseCycleNumberParam(value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new InvalidRequestError(
+      '`cycle_number` must be a non-negative integer',
+      InvalidRequestErrorType.invalid_param
+    );
+  }
+  return parseInt(value, 10);
+}
+
+export function createPoxRouter(db: DataStore): express.Router {
+  const router = express.Router();
+  const cacheHandler = getETagCacheHandler(db);
+
+  // PoX parameters are fixed for the lifetime of the chain, so they're only fetched once from the stacks node.
+  let poxParams: DbPoxParams | undefined;
+  const getPoxParams = async (): Promise<DbPoxParams> => {
+    if (poxParams === undefined) {
+      const poxInfo = await new StacksCoreRpcClient().getPox();
+      poxParams = {
+        firstBurnchainBlockHeight: poxInfo.first_burnchain_block_height,
+        rewardCycleLength: poxInfo.reward_cycle_length,
+      };
+    }
+    return poxParams;
+  };
+
+  router.get(
+    '/cycles',
+    cacheHandler,
+    asyncHandler(async (req, res) => {
+      const limit = parseCyclesQueryLimit(req.query.limit ?? 20);
+      const offset = parsePagingQueryInput(req.query.offset ?? 0);
+      const pox = await getPoxParams();
+      const { results, total } = await db.getPoxCycles({ pox, limit, offset });
+      const response: PoxCycleListResponse = {
+        limit,
+        offset,
+        total,
+        results: results.map(cycle => parseDbPoxCycle(cycle)),
+      };
+      setETagCacheHeaders(res);
+      res.json(response);
+    })
+  );
+
+  router.get(
+    '/cycles/:cycle_number',
+    cacheHandler,
+    asyncHandler(async (req, res) => {
+      const cycleNumber = parseCycleNumberParam(req.params.cycle_number);
+      const pox = await getPoxParams();
+      const cycleQuery = await db.getPoxCycle({ pox, cycleNumber });
+      if (!cycleQuery.found) {
+        res.status(404).json({ error: `cannot find reward cycle ${cycleNumber}` });
+        return;
+      }
+      setETagCacheHeaders(res);
+      res.json(parseDbPoxCycle(cycleQuery.result));
+    })
+  );
+
+  router.get(
+    '/cycles/:cycle_number/stackers',
+    cacheHandler,
+    asyncHandler(async (req, res) => {
+      const cycleNumber = parseCycleNumberParam(req.params.cycle_number);
+      const limit = parseStackersQueryLimit(req.query.limit ?? 100);
+      const offset = parsePagingQueryInput(req.query.offset ?? 0);
+      const pox = await getPoxParams();
+      const cycleQuery = await db.getPoxCycle({ pox, cycleNumber });
+      if (!cycleQuery.found) {
+        res.status(404).json({ error: `cannot find reward cycle ${cycleNumber}` });
+        return;
+      }
+      const { results, total } = await db.getPoxCycleStackers({
+        pox,
+        cycleNumber,
+        limit,
+        offset,
+      });
+      const response: PoxCycleStackerListResponse = {
+        limit,
+        offset,
+        total,
+        results: results.map(stacker => parseDbPoxCycleStacker(stacker)),
+      };
+      setETagCacheHeaders(res);
+      res.json(response);
+    })
+  );
+
+  return router;
+}
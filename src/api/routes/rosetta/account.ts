@@ -15,7 +15,7 @@ import {
 import { RosettaErrors, RosettaConstants, RosettaErrorsTypes } from '../../rosetta-constants';
 import { rosettaValidateRequest, ValidSchema, makeRosettaError } from '../../rosetta-validate';
 import { ChainID } from '@stacks/transactions';
-import { getValidatedFtMetadata } from '../../../rosetta-helpers';
+import { getFtCurrencyMetadata, getValidatedFtMetadata } from '../../../rosetta-helpers';
 import { isFtMetadataEnabled } from '../../../token-metadata/helpers';
 
 export function createRosettaAccountRouter(db: DataStore, chainId: ChainID): express.Router {
@@ -66,10 +66,12 @@ export function createRosettaAccountRouter(db: DataStore, chainId: ChainID): exp
         return;
       }
 
-      const stxBalance = await db.getStxBalanceAtBlock(
-        accountIdentifier.address,
-        block.block_height
-      );
+      // STX and FT balances are read from the same snapshot so they always describe the same block.
+      const principalBalances = await db.getPrincipalBalancesAtBlock({
+        principal: accountIdentifier.address,
+        blockHeight: block.block_height,
+      });
+      const stxBalance = principalBalances.stx;
       // return spendable balance (liquid) if no sub-account is specified
       let balance = (stxBalance.balance - stxBalance.locked).toString();
 
@@ -126,19 +128,12 @@ export function createRosettaAccountRouter(db: DataStore, chainId: ChainID): exp
 
       // Add Fungible Token balances.
       if (isFtMetadataEnabled()) {
-        const ftBalances = await db.getFungibleTokenBalances({
-          stxAddress: accountIdentifier.address,
-          untilBlock: block.block_height,
-        });
-        for (const [ftAssetIdentifier, ftBalance] of ftBalances) {
+        for (const [ftAssetIdentifier, ftBalance] of principalBalances.fungibleTokens) {
           const ftMetadata = await getValidatedFtMetadata(db, ftAssetIdentifier);
           if (ftMetadata) {
             balances.push({
               value: ftBalance.balance.toString(),
-              currency: {
-                symbol: ftMetadata.symbol,
-                decimals: ftMetadata.decimals,
-              },
+              currency: getFtCurrencyMetadata(ftAssetIdentifier, ftMetadata),
             });
           }
         }
@@ -48,12 +48,23 @@ import {
   OptionalCV,
   someCV,
   AnchorMode,
+  contractPrincipalCV,
+  bufferCVFromString,
+  makeStandardFungiblePostCondition,
+  FungibleConditionCode,
+  createAssetInfo,
 } from '@stacks/transactions';
 import { decodeBtcAddress } from '@stacks/stacking';
 import * as express from 'express';
 import { StacksCoreRpcClient } from '../../../core-rpc/client';
 import { DataStore, DbBlock } from '../../../datastore/common';
-import { FoundOrNot, hexToBuffer, isValidC32Address, has0xPrefix } from '../../../helpers';
+import {
+  FoundOrNot,
+  hexToBuffer,
+  isValidC32Address,
+  has0xPrefix,
+  isValidPrincipal,
+} from '../../../helpers';
 import {
   RosettaConstants,
   RosettaErrors,
@@ -74,6 +85,7 @@ import {
   makePresignHash,
   verifySignature,
   parseTransactionMemo,
+  isValidTransferMemo,
 } from './../../../rosetta-helpers';
 import { makeRosettaError, rosettaValidateRequest, ValidSchema } from './../../rosetta-validate';
 import { bitcoinToStacksAddress } from 'stacks-encoding-native-js';
@@ -185,6 +197,11 @@ export function createRosettaConstructionRouter(db: DataStore, chainId: ChainID)
         }
       }
 
+      if (req.body.metadata?.memo && !isValidTransferMemo(req.body.metadata.memo)) {
+        res.status(400).json(RosettaErrors[RosettaErrorsTypes.invalidMemo]);
+        return;
+      }
+
       let transaction: StacksTransaction;
       switch (options.type) {
         case RosettaOperationType.TokenTransfer:
@@ -293,6 +310,45 @@ export function createRosettaConstructionRouter(db: DataStore, chainId: ChainID)
           transaction = await makeUnsignedContractCall(dummyStackingTx);
           break;
         }
+        case RosettaOperationType.FtTransfer: {
+          const token = parseSip010AssetIdentifier(options.asset_identifier);
+          if (!token) {
+            res.status(400).json(RosettaErrors[RosettaErrorsTypes.invalidOperation]);
+            return;
+          }
+          const ftMetadata = await db.getFtMetadata(token.contractId);
+          if (!ftMetadata.found || ftMetadata.result.symbol !== options.symbol) {
+            res.status(400).json(RosettaErrors[RosettaErrorsTypes.invalidCurrencySymbol]);
+            return;
+          }
+          if (ftMetadata.result.decimals !== options.decimals) {
+            res.status(400).json(RosettaErrors[RosettaErrorsTypes.invalidCurrencyDecimals]);
+            return;
+          }
+          if (
+            !options.amount ||
+            !options.sender_address ||
+            !isValidC32Address(options.sender_address) ||
+            !options.token_transfer_recipient_address ||
+            !isValidPrincipal(options.token_transfer_recipient_address)
+          ) {
+            res.status(400).json(RosettaErrors[RosettaErrorsTypes.invalidOperation]);
+            return;
+          }
+          // dummy transaction to calculate size
+          const dummyFtTransferTx = makeSip010TransferOptions({
+            token,
+            amount: options.amount,
+            senderAddress: options.sender_address,
+            recipientAddress: options.token_transfer_recipient_address,
+            memo: req.body.metadata?.memo,
+            publicKey: '000000000000000000000000000000000000000000000000000000000000000000',
+            fee: new BN(0),
+            nonce: new BN(0),
+          });
+          transaction = await makeUnsignedContractCall(dummyFtTransferTx);
+          break;
+        }
         default:
           res.status(400).json(RosettaErrors[RosettaErrorsTypes.invalidOperation]);
           return;
@@ -335,7 +391,11 @@ export function createRosettaConstructionRouter(db: DataStore, chainId: ChainID)
         res.status(400).json(RosettaErrors[RosettaErrorsTypes.invalidSender]);
         return;
       }
-      if (options?.symbol !== RosettaConstants.symbol) {
+      // Fungible token transfers move the token's own currency, validated during /preprocess
+      if (
+        options?.type !== RosettaOperationType.FtTransfer &&
+        options?.symbol !== RosettaConstants.symbol
+      ) {
         res.status(400).json(RosettaErrors[RosettaErrorsTypes.invalidCurrencySymbol]);
         return;
       }
@@ -377,6 +437,18 @@ export function createRosettaConstructionRouter(db: DataStore, chainId: ChainID)
           options.contract_name = contractInfo[1];
           break;
         }
+        case RosettaOperationType.FtTransfer: {
+          const recipientAddress = options.token_transfer_recipient_address;
+          if (!parseSip010AssetIdentifier(options.asset_identifier)) {
+            res.status(400).json(RosettaErrors[RosettaErrorsTypes.invalidOperation]);
+            return;
+          }
+          if (recipientAddress == null || !isValidPrincipal(recipientAddress)) {
+            res.status(400).json(RosettaErrors[RosettaErrorsTypes.invalidRecipient]);
+            return;
+          }
+          break;
+        }
         default:
           res.status(400).json(RosettaErrors[RosettaErrorsTypes.invalidTransactionType]);
           return;
@@ -642,6 +714,11 @@ export function createRosettaConstructionRouter(db: DataStore, chainId: ChainID)
         publicKeys[0].hex_bytes = publicKeys[0].hex_bytes.slice(2);
       }
 
+      if (req.body.metadata?.memo && !isValidTransferMemo(req.body.metadata.memo)) {
+        res.status(400).json(RosettaErrors[RosettaErrorsTypes.invalidMemo]);
+        return;
+      }
+
       let transaction: StacksTransaction;
       switch (options.type) {
         case RosettaOperationType.TokenTransfer: {
@@ -777,6 +854,30 @@ export function createRosettaConstructionRouter(db: DataStore, chainId: ChainID)
           transaction = await makeUnsignedContractCall(stackingTx);
           break;
         }
+        case RosettaOperationType.FtTransfer: {
+          const token = parseSip010AssetIdentifier(options.asset_identifier);
+          if (!token) {
+            res.status(400).json(RosettaErrors[RosettaErrorsTypes.invalidOperation]);
+            return;
+          }
+          const recipientAddress = options.token_transfer_recipient_address;
+          if (!recipientAddress || !isValidPrincipal(recipientAddress)) {
+            res.status(400).json(RosettaErrors[RosettaErrorsTypes.invalidRecipient]);
+            return;
+          }
+          const ftTransferTx = makeSip010TransferOptions({
+            token,
+            amount,
+            senderAddress,
+            recipientAddress,
+            memo: req.body.metadata?.memo,
+            publicKey: publicKeys[0].hex_bytes,
+            fee: new BN(fee),
+            nonce: nonce,
+          });
+          transaction = await makeUnsignedContractCall(ftTransferTx);
+          break;
+        }
         default:
           res.status(400).json(RosettaErrors[RosettaErrorsTypes.invalidOperation]);
           return;
@@ -901,3 +1002,69 @@ export function createRosettaConstructionRouter(db: DataStore, chainId: ChainID)
 
   return router;
 }
+
+interface Sip010Token {
+  contractId: string;
+  contractAddress: string;
+  contractName: string;
+  assetName: string;
+}
+
+/**
+ * Splits a fungible token asset identifier, e.g. `SP000.token-contract::token-name`, into its parts.
+ * @returns `undefined` if the identifier is malformed
+ */
+function parseSip010AssetIdentifier(assetIdentifier?: string): Sip010Token | undefined {
+  const [contractId, assetName] = assetIdentifier?.split('::') ?? [];
+  const principal = isValidPrincipal(contractId);
+  if (!assetName || !principal || principal.type !== 'contractAddress') {
+    return undefined;
+  }
+  const [contractAddress, contractName] = contractId.split('.');
+  return { contractId, contractAddress, contractName, assetName };
+}
+
+/**
+ * Builds a call to the SIP-010 `transfer` function of a token contract. The transaction carries a
+ * post condition for the transferred amount, without which the default deny mode would abort it.
+ */
+function makeSip010TransferOptions(args: {
+  token: Sip010Token;
+  amount: string;
+  senderAddress: string;
+  recipientAddress: string;
+  memo?: string;
+  publicKey: string;
+  fee: BN;
+  nonce: BN;
+}): UnsignedContractCallOptions {
+  const [recipientAddress, recipientContractName] = args.recipientAddress.split('.');
+  const recipientCV = recipientContractName
+    ? contractPrincipalCV(recipientAddress, recipientContractName)
+    : standardPrincipalCV(recipientAddress);
+  return {
+    contractAddress: args.token.contractAddress,
+    contractName: args.token.contractName,
+    functionName: 'transfer',
+    publicKey: args.publicKey,
+    functionArgs: [
+      uintCV(args.amount),
+      standardPrincipalCV(args.senderAddress),
+      recipientCV,
+      args.memo ? someCV(bufferCVFromString(args.memo)) : noneCV(),
+    ],
+    postConditions: [
+      makeStandardFungiblePostCondition(
+        args.senderAddress,
+        FungibleConditionCode.Equal,
+        args.amount,
+        createAssetInfo(args.token.contractAddress, args.token.contractName, args.token.assetName)
+      ),
+    ],
+    validateWithAbi: false,
+    network: getStacksNetwork(),
+    fee: args.fee,
+    nonce: args.nonce,
+    anchorMode: AnchorMode.Any,
+  };
+}
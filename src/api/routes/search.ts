@@ -7,6 +7,8 @@ import {
   DbMempoolTx,
   DbSearchResult,
   DbSearchResultWithMetadata,
+  DbSearchMatch,
+  DbSearchMatchEntityType,
 } from '../../datastore/common';
 import { isValidPrincipal, has0xPrefix, FoundOrNot } from '../../helpers';
 import {
@@ -20,6 +22,9 @@ import {
   AddressSearchResult,
   SearchErrorResult,
   AddressStxBalanceResponse,
+  SearchMatch,
+  SearchMatchList,
+  TermMatchesSearchResult,
 } from '@stacks/stacks-blockchain-api-types';
 import {
   getTxTypeString,
@@ -29,6 +34,8 @@ import {
 } from '../controllers/db-controller';
 import { address } from 'bitcoinjs-lib';
 import { booleanValueForParam } from '../query-helpers';
+import { parseLimitQuery, parsePagingQueryInput } from '../pagination';
+import { InvalidRequestError, InvalidRequestErrorType } from '../../errors';
 
 const enum SearchResultType {
   TxId = 'tx_id',
@@ -37,9 +44,53 @@ const enum SearchResultType {
   StandardAddress = 'standard_address',
   ContractAddress = 'contract_address',
   UnknownHash = 'unknown_hash',
+  TermMatches = 'term_matches',
   InvalidTerm = 'invalid_term',
 }
 
+const SEARCH_MATCH_ENTITY_TYPES: DbSearchMatchEntityType[] = [
+  'contract_address',
+  'bns_name',
+  'bns_subdomain',
+  'fungible_token',
+  'non_fungible_token',
+];
+
+const MIN_SEARCH_TERM_LENGTH = 2;
+
+const DEFAULT_SEARCH_MATCHES_PER_REQUEST = 20;
+const MAX_SEARCH_MATCHES_PER_REQUEST = 50;
+const parseSearchMatchesQueryLimit = parseLimitQuery({
+  maxItems: MAX_SEARCH_MATCHES_PER_REQUEST,
+  errorMsg: '`limit` must be equal to or less than ' + MAX_SEARCH_MATCHES_PER_REQUEST,
+});
+
+function parseSearchMatchTypeQuery(value: unknown): DbSearchMatchEntityType[] {
+  if (value === undefined) {
+    return SEARCH_MATCH_ENTITY_TYPES;
+  }
+  const entityTypes = new Set(Array.isArray(value) ? value : [value]);
+  return [...entityTypes].map(entityType => {
+    if (!SEARCH_MATCH_ENTITY_TYPES.includes(entityType)) {
+      throw new InvalidRequestError(
+        `Invalid type "${entityType}", must be one of ${SEARCH_MATCH_ENTITY_TYPES.join(', ')}`,
+        InvalidRequestErrorType.invalid_query
+      );
+    }
+    return entityType as DbSearchMatchEntityType;
+  });
+}
+
+function parseSearchMatch(match: DbSearchMatch): SearchMatch {
+  return {
+    entity_type: match.entity_type,
+    entity_id: match.entity_id,
+    name: match.name,
+    symbol: match.symbol,
+    score: match.score,
+  };
+}
+
 export function createSearchRouter(db: DataStore): express.Router {
   const router = express.Router();
 
@@ -263,6 +314,29 @@ export function createSearchRouter(db: DataStore): express.Router {
       }
     }
 
+    // Otherwise look for contracts, BNS names and tokens with a matching name, e.g.:
+    //   `alex`
+    //   `swap-helper`
+    if (term.length >= MIN_SEARCH_TERM_LENGTH) {
+      const { results, total } = await db.searchTerm({
+        term,
+        entityTypes: SEARCH_MATCH_ENTITY_TYPES,
+        limit: DEFAULT_SEARCH_MATCHES_PER_REQUEST,
+        offset: 0,
+      });
+      if (total > 0) {
+        const matchesResult: TermMatchesSearchResult = {
+          found: true,
+          result: {
+            entity_type: SearchResultType.TermMatches,
+            total,
+            matches: results.map(match => parseSearchMatch(match)),
+          },
+        };
+        return matchesResult;
+      }
+    }
+
     return {
       found: false,
       result: { entity_type: SearchResultType.InvalidTerm },
@@ -270,6 +344,32 @@ export function createSearchRouter(db: DataStore): express.Router {
     };
   };
 
+  router.get(
+    '/',
+    asyncHandler(async (req, res) => {
+      const term = typeof req.query.term === 'string' ? req.query.term.trim() : undefined;
+      if (term === undefined || term.length < MIN_SEARCH_TERM_LENGTH) {
+        throw new InvalidRequestError(
+          `\`term\` must be at least ${MIN_SEARCH_TERM_LENGTH} characters long`,
+          InvalidRequestErrorType.invalid_query
+        );
+      }
+      const entityTypes = parseSearchMatchTypeQuery(req.query.type);
+      const limit = parseSearchMatchesQueryLimit(
+        req.query.limit ?? DEFAULT_SEARCH_MATCHES_PER_REQUEST
+      );
+      const offset = parsePagingQueryInput(req.query.offset ?? 0);
+      const { results, total } = await db.searchTerm({ term, entityTypes, limit, offset });
+      const response: SearchMatchList = {
+        limit,
+        offset,
+        total,
+        results: results.map(match => parseSearchMatch(match)),
+      };
+      res.json(response);
+    })
+  );
+
   router.get(
     '/:term',
     asyncHandler(async (req, res, next) => {
@@ -1,25 +1,42 @@
 import { asyncHandler } from '../../async-handler';
 import * as express from 'express';
-import { DataStore } from '../../../datastore/common';
+import { DataStore, DbNftTokenMetadata } from '../../../datastore/common';
 import {
+  FungibleTokenHolder,
+  FungibleTokenHolderList,
   FungibleTokenMetadata,
+  FungibleTokenSupply,
   FungibleTokensMetadataList,
   NonFungibleTokenHistoryEvent,
   NonFungibleTokenHistoryEventList,
   NonFungibleTokenHolding,
   NonFungibleTokenHoldingsList,
+  NonFungibleTokenInstanceMetadata,
   NonFungibleTokenMetadata,
   NonFungibleTokenMint,
   NonFungibleTokenMintList,
   NonFungibleTokensMetadataList,
+  TokenMetadataRefreshRequest,
+  TokenMetadataRefreshResponse,
 } from '@stacks/stacks-blockchain-api-types';
 import { parseLimitQuery, parsePagingQueryInput } from './../../pagination';
-import { isFtMetadataEnabled, isNftMetadataEnabled } from '../../../token-metadata/helpers';
+import {
+  getTokenMetadataRefreshAuthToken,
+  isFtMetadataEnabled,
+  isNftMetadataEnabled,
+  parseTokenIdRange,
+} from '../../../token-metadata/helpers';
 import { bufferToHexPrefixString, has0xPrefix, isValidPrincipal } from '../../../helpers';
 import { booleanValueForParam, isUnanchoredRequest } from '../../../api/query-helpers';
-import { decodeClarityValueToRepr } from 'stacks-encoding-native-js';
+import {
+  ClarityTypeID,
+  decodeClarityValue,
+  decodeClarityValueToRepr,
+} from 'stacks-encoding-native-js';
 import { getAssetEventTypeString, parseDbTx } from '../../controllers/db-controller';
 import { getETagCacheHandler, setETagCacheHeaders } from '../../controllers/cache-controller';
+import { getBearerAuthHandler } from '../../controllers/auth-controller';
+import { getTokenImageCache, isValidTokenImageKey } from '../../../token-metadata/image-cache';
 
 const MAX_TOKENS_PER_REQUEST = 200;
 const parseTokenQueryLimit = parseLimitQuery({
@@ -27,6 +44,68 @@ const parseTokenQueryLimit = parseLimitQuery({
   errorMsg: '`limit` must be equal to or less than ' + MAX_TOKENS_PER_REQUEST,
 });
 
+/**
+ * Resolves the asset identifier of a fungible token from either its fully qualified identifier or the
+ * ID of the contract defining it, if the contract defines a single token. Sends an error response and
+ * returns `undefined` if the token can't be resolved.
+ */
+async function resolveFtAssetIdentifier(
+  db: DataStore,
+  res: express.Response,
+  token: string
+): Promise<string | undefined> {
+  const [contractId, tokenName] = token.split('::');
+  if (!contractId.includes('.') || !isValidPrincipal(contractId)) {
+    res.status(400).json({ error: `Invalid contract ID or asset identifier ${token}` });
+    return;
+  }
+  const assetIdentifiers = await db.getFtAssetIdentifiers(contractId);
+  if (tokenName !== undefined) {
+    if (!assetIdentifiers.includes(token)) {
+      res.status(404).json({ error: `Fungible token ${token} not found` });
+      return;
+    }
+    return token;
+  }
+  if (assetIdentifiers.length === 0) {
+    res.status(404).json({ error: `No fungible tokens found for contract ${contractId}` });
+    return;
+  }
+  if (assetIdentifiers.length > 1) {
+    res.status(400).json({
+      error: `Contract ${contractId} defines multiple fungible tokens, specify one of: ${assetIdentifiers.join(
+        ', '
+      )}`,
+    });
+    return;
+  }
+  return assetIdentifiers[0];
+}
+
+function parseNftTokenMetadata(metadata: DbNftTokenMetadata): NonFungibleTokenInstanceMetadata {
+  const result: NonFungibleTokenInstanceMetadata = {
+    contract_id: metadata.contract_id,
+    token_id: metadata.token_id.toString(),
+    token_uri: metadata.token_uri,
+    name: metadata.name,
+    description: metadata.description,
+    image_uri: metadata.image_uri,
+    image_canonical_uri: metadata.image_canonical_uri,
+  };
+  if (metadata.attributes) {
+    result.attributes = metadata.attributes;
+  }
+  return result;
+}
+
+/**
+ * Returns the SIP-009 token id of a serialized NFT value, or `undefined` if it isn't a `uint`.
+ */
+function getNftTokenId(value: Buffer): bigint | undefined {
+  const decoded = decodeClarityValue(value);
+  return decoded.type_id === ClarityTypeID.UInt ? BigInt(decoded.value) : undefined;
+}
+
 export function createTokenRouter(db: DataStore): express.Router {
   const router = express.Router();
   const cacheHandler = getETagCacheHandler(db);
@@ -62,6 +141,13 @@ export function createTokenRouter(db: DataStore): express.Router {
       const offset = parsePagingQueryInput(req.query.offset ?? 0);
       const includeUnanchored = isUnanchoredRequest(req, res, next);
       const includeTxMetadata = booleanValueForParam(req, res, next, 'tx_metadata');
+      const includeMetadata = booleanValueForParam(req, res, next, 'with_metadata');
+      if (includeMetadata && !isNftMetadataEnabled()) {
+        res.status(500).json({
+          error: 'NFT metadata processing is not enabled on this server',
+        });
+        return;
+      }
 
       const { results, total } = await db.getNftHoldings({
         principal: principal,
@@ -71,9 +157,26 @@ export function createTokenRouter(db: DataStore): express.Router {
         includeUnanchored: includeUnanchored,
         includeTxMetadata: includeTxMetadata,
       });
+      const tokenMetadata = new Map<string, NonFungibleTokenInstanceMetadata>();
+      if (includeMetadata) {
+        const tokens: { contractId: string; tokenId: bigint }[] = [];
+        for (const result of results) {
+          const tokenId = getNftTokenId(result.nft_holding_info.value);
+          if (tokenId !== undefined) {
+            const [contractId] = result.nft_holding_info.asset_identifier.split('::');
+            tokens.push({ contractId, tokenId });
+          }
+        }
+        for (const metadata of await db.getNftTokenMetadataBatch(tokens)) {
+          tokenMetadata.set(
+            `${metadata.contract_id}/${metadata.token_id}`,
+            parseNftTokenMetadata(metadata)
+          );
+        }
+      }
       const parsedResults: NonFungibleTokenHolding[] = results.map(result => {
         const parsedClarityValue = decodeClarityValueToRepr(result.nft_holding_info.value);
-        const parsedNftData = {
+        const parsedNftData: Omit<NonFungibleTokenHolding, 'tx' | 'tx_id'> = {
           asset_identifier: result.nft_holding_info.asset_identifier,
           value: {
             hex: bufferToHexPrefixString(result.nft_holding_info.value),
@@ -81,6 +184,14 @@ export function createTokenRouter(db: DataStore): express.Router {
           },
           block_height: result.nft_holding_info.block_height,
         };
+        if (includeMetadata) {
+          const [contractId] = result.nft_holding_info.asset_identifier.split('::');
+          const tokenId = getNftTokenId(result.nft_holding_info.value);
+          const metadata = tokenMetadata.get(`${contractId}/${tokenId}`);
+          if (metadata) {
+            parsedNftData.metadata = metadata;
+          }
+        }
         if (includeTxMetadata && result.tx) {
           return { ...parsedNftData, tx: parseDbTx(result.tx) };
         }
@@ -214,6 +325,58 @@ export function createTokenRouter(db: DataStore): express.Router {
     })
   );
 
+  router.get(
+    '/ft/:contractId/holders',
+    cacheHandler,
+    asyncHandler(async (req, res) => {
+      const assetIdentifier = await resolveFtAssetIdentifier(db, res, req.params.contractId);
+      if (assetIdentifier === undefined) {
+        return;
+      }
+      const limit = parseTokenQueryLimit(req.query.limit ?? 50);
+      const offset = parsePagingQueryInput(req.query.offset ?? 0);
+      const { results, total } = await db.getFtHolders({ assetIdentifier, limit, offset });
+      const parsedResults: FungibleTokenHolder[] = results.map(result => ({
+        address: result.address,
+        balance: result.balance.toString(),
+      }));
+      const response: FungibleTokenHolderList = {
+        asset_identifier: assetIdentifier,
+        limit: limit,
+        offset: offset,
+        total: total,
+        results: parsedResults,
+      };
+      setETagCacheHeaders(res);
+      res.status(200).json(response);
+    })
+  );
+
+  router.get(
+    '/ft/:contractId/supply',
+    cacheHandler,
+    asyncHandler(async (req, res) => {
+      const assetIdentifier = await resolveFtAssetIdentifier(db, res, req.params.contractId);
+      if (assetIdentifier === undefined) {
+        return;
+      }
+      const supply = await db.getFtSupply(assetIdentifier);
+      if (!supply.found) {
+        res.status(404).json({ error: `Fungible token ${assetIdentifier} not found` });
+        return;
+      }
+      const { minted, burned } = supply.result;
+      const response: FungibleTokenSupply = {
+        asset_identifier: assetIdentifier,
+        minted: minted.toString(),
+        burned: burned.toString(),
+        circulating_supply: (minted - burned).toString(),
+      };
+      setETagCacheHeaders(res);
+      res.status(200).json(response);
+    })
+  );
+
   router.get(
     '/ft/metadata',
     asyncHandler(async (req, res) => {
@@ -240,6 +403,33 @@ export function createTokenRouter(db: DataStore): express.Router {
     })
   );
 
+  router.get(
+    '/nft/:contractId/:tokenId/metadata',
+    asyncHandler(async (req, res) => {
+      if (!isNftMetadataEnabled()) {
+        res.status(500).json({
+          error: 'NFT metadata processing is not enabled on this server',
+        });
+        return;
+      }
+      const { contractId, tokenId } = req.params;
+      if (!contractId.includes('.') || !isValidPrincipal(contractId)) {
+        res.status(400).json({ error: `Invalid contract ID ${contractId}` });
+        return;
+      }
+      if (!/^\d+$/.test(tokenId)) {
+        res.status(400).json({ error: `Invalid token id ${tokenId}` });
+        return;
+      }
+      const metadata = await db.getNftTokenMetadata({ contractId, tokenId: BigInt(tokenId) });
+      if (!metadata.found) {
+        res.status(404).json({ error: `Metadata not found for ${contractId} token ${tokenId}` });
+        return;
+      }
+      res.status(200).json(parseNftTokenMetadata(metadata.result));
+    })
+  );
+
   router.get(
     '/nft/metadata',
     asyncHandler(async (req, res) => {
@@ -351,5 +541,71 @@ export function createTokenRouter(db: DataStore): express.Router {
     })
   );
 
+  const imageCache = getTokenImageCache();
+  if (imageCache) {
+    router.get(
+      '/images/:key',
+      asyncHandler(async (req, res) => {
+        const { key } = req.params;
+        const image = isValidTokenImageKey(key) ? await imageCache.storage.get(key) : undefined;
+        if (!image) {
+          res.status(404).json({ error: `Image ${key} not found` });
+          return;
+        }
+        // Keys are derived from the image content, so cached images never change.
+        res.set('Cache-Control', 'public, max-age=31536000, immutable');
+        res.set('Content-Type', image.contentType);
+        res.set('X-Content-Type-Options', 'nosniff');
+        // SVG images can embed scripts, which must not run in the context of the API origin.
+        res.set(
+          'Content-Security-Policy',
+          "default-src 'none'; style-src 'unsafe-inline'; sandbox"
+        );
+        res.status(200).send(image.data);
+      })
+    );
+  }
+
+  const refreshAuthToken = getTokenMetadataRefreshAuthToken();
+  if (refreshAuthToken) {
+    router.post(
+      '/:contractId/metadata/refresh',
+      getBearerAuthHandler(refreshAuthToken),
+      asyncHandler(async (req, res) => {
+        if (!isFtMetadataEnabled() && !isNftMetadataEnabled()) {
+          res.status(500).json({
+            error: 'FT and NFT metadata processing is not enabled on this server',
+          });
+          return;
+        }
+        const { contractId } = req.params;
+        if (!contractId.includes('.') || !isValidPrincipal(contractId)) {
+          res.status(400).json({ error: `Invalid contract ID ${contractId}` });
+          return;
+        }
+        const body: TokenMetadataRefreshRequest = req.body ?? {};
+        let tokenIdRange;
+        try {
+          tokenIdRange = parseTokenIdRange(body.token_id_start, body.token_id_end);
+        } catch (error: any) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+        const entry = await db.enqueueTokenMetadataRefresh({ contractId, tokenIdRange });
+        if (!entry.found) {
+          res.status(404).json({ error: `No token contract found for ${contractId}` });
+          return;
+        }
+        const response: TokenMetadataRefreshResponse = {
+          queue_id: entry.result.queueId,
+          contract_id: entry.result.contractId,
+          token_id_start: entry.result.tokenIdRange?.start.toString(),
+          token_id_end: entry.result.tokenIdRange?.end.toString(),
+        };
+        res.status(202).json(response);
+      })
+    );
+  }
+
   return router;
 }
@@ -1,6 +1,13 @@
 import * as express from 'express';
 import { asyncHandler } from '../async-handler';
-import { DataStore, DbTx, DbMempoolTx, DbEventTypeId } from '../../datastore/common';
+import {
+  DataStore,
+  DbTx,
+  DbMempoolTx,
+  DbEventTypeId,
+  DbMempoolTxStats,
+  DbTxTypeId,
+} from '../../datastore/common';
 import {
   getTxFromDataStore,
   parseTxTypeStrings,
@@ -28,21 +35,30 @@ import {
   validateRequestHexInput,
   parseAddressOrTxId,
   parseEventTypeFilter,
+  isDecodeJsonRequest,
+  parsePrintTopicQuery,
 } from '../query-helpers';
 import { parseLimitQuery, parsePagingQueryInput } from '../pagination';
 import { validate } from '../validate';
+import { parseTxStreamOptions, streamTxUpdates } from './ws/tx-stream';
 import {
   TransactionType,
   TransactionResults,
   MempoolTransactionListResponse,
   GetRawTransactionResult,
   Transaction,
+  MempoolTransactionStatsResponse,
+  MempoolTransactionStatsByType,
 } from '@stacks/stacks-blockchain-api-types';
 import {
   ETagType,
   getETagCacheHandler,
   setETagCacheHeaders,
 } from '../controllers/cache-controller';
+import {
+  addDecodedClarityValuesToEvents,
+  addDecodedClarityValuesToTxs,
+} from '../controllers/clarity-value-json';
 
 const MAX_TXS_PER_REQUEST = 200;
 const parseTxQueryLimit = parseLimitQuery({
@@ -96,6 +112,9 @@ export function createTxRouter(db: DataStore): express.Router {
         includeUnanchored,
       });
       const results = txResults.map(tx => parseDbTx(tx));
+      if (isDecodeJsonRequest(req, res, next)) {
+        await addDecodedClarityValuesToTxs(db, results);
+      }
       const response: TransactionResults = { limit, offset, total, results };
       if (!isProdEnv) {
         const schemaPath =
@@ -125,6 +144,10 @@ export function createTxRouter(db: DataStore): express.Router {
         eventOffset,
         includeUnanchored,
       });
+      if (isDecodeJsonRequest(req, res, next)) {
+        const foundTxs = Object.values(txQuery).flatMap(tx => (tx?.found ? [tx.result] : []));
+        await addDecodedClarityValuesToTxs(db, foundTxs);
+      }
       // TODO: this validation needs fixed now that the mempool-tx and mined-tx types no longer overlap
       /*
     const schemaPath = require.resolve(
@@ -191,6 +214,9 @@ export function createTxRouter(db: DataStore): express.Router {
       });
 
       const results = txResults.map(tx => parseDbMempoolTx(tx));
+      if (isDecodeJsonRequest(req, res, next)) {
+        await addDecodedClarityValuesToTxs(db, results);
+      }
       const response: MempoolTransactionListResponse = { limit, offset, total, results };
       setETagCacheHeaders(res, ETagType.mempool);
       res.json(response);
@@ -200,7 +226,7 @@ export function createTxRouter(db: DataStore): express.Router {
   router.get(
     '/mempool/dropped',
     mempoolCacheHandler,
-    asyncHandler(async (req, res) => {
+    asyncHandler(async (req, res, next) => {
       const limit = parseTxQueryLimit(req.query.limit ?? 96);
       const offset = parsePagingQueryInput(req.query.offset ?? 0);
       const { results: txResults, total } = await db.getDroppedTxs({
@@ -208,6 +234,9 @@ export function createTxRouter(db: DataStore): express.Router {
         limit,
       });
       const results = txResults.map(tx => parseDbMempoolTx(tx));
+      if (isDecodeJsonRequest(req, res, next)) {
+        await addDecodedClarityValuesToTxs(db, results);
+      }
       const response: MempoolTransactionListResponse = { limit, offset, total, results };
       setETagCacheHeaders(res, ETagType.mempool);
       res.json(response);
@@ -215,50 +244,79 @@ export function createTxRouter(db: DataStore): express.Router {
   );
 
   router.get(
-    '/stream',
+    '/mempool/stats',
+    mempoolCacheHandler,
     asyncHandler(async (req, res) => {
-      const protocol = req.query['protocol'];
-      const useEventSource = protocol === 'eventsource';
-      const useWebSocket = protocol === 'websocket';
-      if (!useEventSource && !useWebSocket) {
-        throw new Error(`Unsupported stream protocol "${protocol}"`);
-      }
+      const stats = await db.getMempoolStats();
+      // Tx types without pending txs are reported with zeroed stats.
+      const getTypeStats = (typeId: DbTxTypeId): DbMempoolTxStats =>
+        stats.by_type.get(typeId) ?? {
+          count: 0,
+          total_byte_size: 0,
+          fee_rate: { p25: 0, p50: 0, p75: 0, p95: 0 },
+          age: { p25: 0, p50: 0, p75: 0, p95: 0 },
+          byte_size: { p25: 0, p50: 0, p75: 0, p95: 0 },
+        };
+      const tokenTransfer = getTypeStats(DbTxTypeId.TokenTransfer);
+      const smartContract = getTypeStats(DbTxTypeId.SmartContract);
+      const contractCall = getTypeStats(DbTxTypeId.ContractCall);
+      const poisonMicroblock = getTypeStats(DbTxTypeId.PoisonMicroblock);
+      const byType = (stat: 'fee_rate' | 'age' | 'byte_size'): MempoolTransactionStatsByType => ({
+        all: stats.all[stat],
+        token_transfer: tokenTransfer[stat],
+        smart_contract: smartContract[stat],
+        contract_call: contractCall[stat],
+        poison_microblock: poisonMicroblock[stat],
+      });
+      const response: MempoolTransactionStatsResponse = {
+        tx_count: stats.all.count,
+        tx_type_counts: {
+          token_transfer: tokenTransfer.count,
+          smart_contract: smartContract.count,
+          contract_call: contractCall.count,
+          poison_microblock: poisonMicroblock.count,
+        },
+        tx_total_byte_size: stats.all.total_byte_size,
+        tx_fee_rates: byType('fee_rate'),
+        tx_ages: byType('age'),
+        tx_byte_sizes: byType('byte_size'),
+      };
+      setETagCacheHeaders(res, ETagType.mempool);
+      res.json(response);
+    })
+  );
 
-      if (useEventSource) {
-        res.writeHead(200, {
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          Connection: 'keep-alive',
-        });
-      } else if (useWebSocket) {
-        throw new Error('WebSocket stream not yet implemented');
+  router.get(
+    '/stream',
+    asyncHandler(async (req, res) => {
+      const options = parseTxStreamOptions(req.query, req.headers);
+      if (options.protocol === 'websocket') {
+        throw new InvalidRequestError(
+          'The websocket protocol requires a WebSocket upgrade request',
+          InvalidRequestErrorType.invalid_query
+        );
       }
 
-      const dbTxUpdate = async (txId: string): Promise<void> => {
-        try {
-          const txQuery = await searchTx(db, { txId, includeUnanchored: true });
-          if (!txQuery.found) {
-            throw new Error('error in tx stream, tx not found');
-          }
-          if (useEventSource) {
-            res.write(`event: tx\ndata: ${JSON.stringify(txQuery.result)}\n\n`);
-          }
-        } catch (error) {
-          // TODO: real error handling
-          logError('error streaming tx updates', error);
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      const stop = streamTxUpdates(db, options, update => {
+        const id = update.id !== undefined ? `id: ${update.id}\n` : '';
+        if (update.event === 'tx') {
+          res.write(`event: ${update.event}\n${id}data: ${JSON.stringify(update.tx)}\n\n`);
+        } else {
+          // EventSource clients reconnect on their own, resuming from the id of this event.
+          res.write(`event: ${update.event}\n${id}data: {}\n\n`);
+          res.end();
         }
-      };
-
-      // EventEmitters don't like being passed Promise functions so wrap the async handler
-      const onTxUpdate = (txId: string): void => {
-        void dbTxUpdate(txId);
-      };
+      });
 
       const endWaiter = waiter();
-      db.addListener('txUpdate', onTxUpdate);
       res.on('close', () => {
         endWaiter.finish();
-        db.removeListener('txUpdate', onTxUpdate);
+        stop();
       });
       await endWaiter;
     })
@@ -272,15 +330,31 @@ export function createTxRouter(db: DataStore): express.Router {
       const offset = parsePagingQueryInput(req.query['offset'] ?? 0);
 
       const principalOrTxId = parseAddressOrTxId(req, res, next);
-      const eventTypeFilter = parseEventTypeFilter(req, res, next);
+      let eventTypeFilter = parseEventTypeFilter(req, res, next);
+      const printTopic = parsePrintTopicQuery(req, res, next);
+      if (printTopic !== undefined) {
+        // Only smart contract logs have a print topic
+        if (!eventTypeFilter.includes(DbEventTypeId.SmartContractLog)) {
+          throw new InvalidRequestError(
+            `'topic' can only be used with the 'smart_contract_log' event type`,
+            InvalidRequestErrorType.invalid_query
+          );
+        }
+        eventTypeFilter = [DbEventTypeId.SmartContractLog];
+      }
 
       const { results } = await db.getTransactionEvents({
         addressOrTxId: principalOrTxId,
         eventTypeFilter,
+        printTopic,
         offset,
         limit,
       });
-      const response = { limit, offset, events: results.map(e => parseDbEvent(e)) };
+      const events = results.map(e => parseDbEvent(e));
+      if (isDecodeJsonRequest(req, res, next)) {
+        await addDecodedClarityValuesToEvents(db, events);
+      }
+      const response = { limit, offset, events };
       setETagCacheHeaders(res);
       res.status(200).json(response);
     })
@@ -310,6 +384,9 @@ export function createTxRouter(db: DataStore): express.Router {
         res.status(404).json({ error: `could not find transaction by ID ${tx_id}` });
         return;
       }
+      if (isDecodeJsonRequest(req, res, next)) {
+        await addDecodedClarityValuesToTxs(db, [txQuery.result]);
+      }
       setETagCacheHeaders(res, ETagType.transaction);
       res.json(txQuery.result);
     })
@@ -342,7 +419,7 @@ export function createTxRouter(db: DataStore): express.Router {
   router.get(
     '/block/:block_hash',
     cacheHandler,
-    asyncHandler(async (req, res) => {
+    asyncHandler(async (req, res, next) => {
       const { block_hash } = req.params;
       const limit = parseTxQueryEventsLimit(req.query['limit'] ?? 96);
       const offset = parsePagingQueryInput(req.query['offset'] ?? 0);
@@ -354,6 +431,9 @@ export function createTxRouter(db: DataStore): express.Router {
       }
       const dbTxs = result.result;
       const results = dbTxs.results.map(dbTx => parseDbTx(dbTx));
+      if (isDecodeJsonRequest(req, res, next)) {
+        await addDecodedClarityValuesToTxs(db, results);
+      }
 
       const response: TransactionResults = {
         limit: limit,
@@ -385,6 +465,9 @@ export function createTxRouter(db: DataStore): express.Router {
       }
       const dbTxs = result.result;
       const results = dbTxs.results.map(dbTx => parseDbTx(dbTx));
+      if (isDecodeJsonRequest(req, res, next)) {
+        await addDecodedClarityValuesToTxs(db, results);
+      }
 
       const response: TransactionResults = {
         limit: limit,
@@ -0,0 +1,250 @@
+import * as express from 'express';
+import * as crypto from 'crypto';
+import { asyncHandler } from '../async-handler';
+import { DataStore, DbWebhook, DbWebhookDelivery } from '../../datastore/common';
+import { parseLimitQuery, parsePagingQueryInput } from '../pagination';
+import { InvalidRequestError, InvalidRequestErrorType } from '../../errors';
+import { isValidPrincipal } from '../../helpers';
+import { getWebhookAuthToken } from '../../webhooks/helpers';
+import { getBearerAuthHandler } from '../controllers/auth-controller';
+import {
+  TransactionEventType,
+  Webhook,
+  WebhookCreateRequest,
+  WebhookCreateResponse,
+  WebhookDelivery,
+  WebhookDeliveryListResponse,
+  WebhookListResponse,
+} from '@stacks/stacks-blockchain-api-types';
+
+const MAX_WEBHOOKS_PER_REQUEST = 200;
+const parseWebhooksQueryLimit = parseLimitQuery({
+  maxItems: MAX_WEBHOOKS_PER_REQUEST,
+  errorMsg: '`limit` must be equal to or less than ' + MAX_WEBHOOKS_PER_REQUEST,
+});
+
+const MAX_DELIVERIES_PER_REQUEST = 200;
+const parseDeliveriesQueryLimit = parseLimitQuery({
+  maxItems: MAX_DELIVERIES_PER_REQUEST,
+  errorMsg: '`limit` must be equal to or less than ' + MAX_DELIVERIES_PER_REQUEST,
+});
+
+const WEBHOOK_EVENT_TYPES: TransactionEventType[] = [
+  'smart_contract_log',
+  'stx_lock',
+  'stx_asset',
+  'fungible_token_asset',
+  'non_fungible_token_asset',
+];
+
+function parseDbWebhook(webhook: DbWebhook): Webhook {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    address: webhook.address,
+    contract_id: webhook.contract_id,
+    event_type: webhook.event_type,
+    print_topic: webhook.print_topic,
+    created_at: new Date(webhook.created_at).toISOString(),
+  };
+}
+
+function parseDbWebhookDelivery(delivery: DbWebhookDelivery): WebhookDelivery {
+  return {
+    id: delivery.id,
+    webhook_id: delivery.webhook_id,
+    tx_id: delivery.tx_id,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    next_attempt_at:
+      delivery.status === 'pending' ? new Date(delivery.next_attempt_at).toISOString() : undefined,
+    response_status: delivery.response_status,
+    error: delivery.error,
+    created_at: new Date(delivery.created_at).toISOString(),
+    delivered_at:
+      delivery.delivered_at !== undefined
+        ? new Date(delivery.delivered_at).toISOString()
+        : undefined,
+  };
+}
+
+function parseWebhookIdParam(value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new InvalidRequestError(
+      '`webhook_id` must be a positive integer',
+      InvalidRequestErrorType.invalid_param
+    );
+  }
+  return parseInt(value, 10);
+}
+
+function parseOptionalString(body: Record<string, unknown>, name: string): string | undefined {
+  const value = body[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new InvalidRequestError(
+      `\`${name}\` must be a non-empty string`,
+      InvalidRequestErrorType.invalid_param
+    );
+  }
+  return value;
+}
+
+function parseWebhookCreateRequest(
+  body: WebhookCreateRequest | undefined
+): Omit<DbWebhook, 'id' | 'secret' | 'created_at'> {
+  if (typeof body !== 'object' || body === null) {
+    throw new InvalidRequestError('Invalid request body', InvalidRequestErrorType.invalid_param);
+  }
+  const params = (body as unknown) as Record<string, unknown>;
+  const url = parseOptionalString(params, 'url');
+  let parsedUrl: URL | undefined;
+  try {
+    parsedUrl = url ? new URL(url) : undefined;
+  } catch (error) {
+    // handled below
+  }
+  if (!parsedUrl || (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:')) {
+    throw new InvalidRequestError(
+      '`url` must be an absolute http or https URL',
+      InvalidRequestErrorType.invalid_param
+    );
+  }
+  const address = parseOptionalString(params, 'address');
+  if (address !== undefined && !isValidPrincipal(address)) {
+    throw new InvalidRequestError(
+      `Invalid address "${address}"`,
+      InvalidRequestErrorType.invalid_param
+    );
+  }
+  const contractId = parseOptionalString(params, 'contract_id');
+  if (contractId !== undefined && (!contractId.includes('.') || !isValidPrincipal(contractId))) {
+    throw new InvalidRequestError(
+      `Invalid contract id "${contractId}"`,
+      InvalidRequestErrorType.invalid_param
+    );
+  }
+  const eventType = parseOptionalString(params, 'event_type');
+  if (eventType !== undefined && !WEBHOOK_EVENT_TYPES.includes(eventType as TransactionEventType)) {
+    throw new InvalidRequestError(
+      `Invalid event type "${eventType}"`,
+      InvalidRequestErrorType.invalid_param
+    );
+  }
+  const printTopic = parseOptionalString(params, 'print_topic');
+  if (printTopic !== undefined && eventType !== undefined && eventType !== 'smart_contract_log') {
+    throw new InvalidRequestError(
+      '`print_topic` can only be combined with the `smart_contract_log` event type',
+      InvalidRequestErrorType.invalid_param
+    );
+  }
+  if (!address && !contractId && !eventType && !printTopic) {
+    throw new InvalidRequestError(
+      'At least one of `address`, `contract_id`, `event_type` or `print_topic` must be specified',
+      InvalidRequestErrorType.invalid_param
+    );
+  }
+  return {
+    url: parsedUrl.toString(),
+    address,
+    contract_id: contractId,
+    event_type: eventType as TransactionEventType | undefined,
+    print_topic: printTopic,
+  };
+}
+
+export function createWebhookRouter(db: DataStore): express.Router {
+  const authToken = getWebhookAuthToken();
+  if (!authToken) {
+    throw new Error('STACKS_API_WEBHOOK_AUTH_TOKEN must be set when webhooks are enabled');
+  }
+  const router = express.Router();
+  router.use(getBearerAuthHandler(authToken));
+  router.use(express.json());
+
+  router.post(
+    '/',
+    asyncHandler(async (req, res) => {
+      const filter = parseWebhookCreateRequest(req.body as WebhookCreateRequest | undefined);
+      const webhook = await db.insertWebhook({
+        ...filter,
+        secret: crypto.randomBytes(32).toString('hex'),
+        created_at: Date.now(),
+      });
+      // The secret is only ever returned here, when the webhook is registered.
+      const response: WebhookCreateResponse = {
+        ...parseDbWebhook(webhook),
+        secret: webhook.secret,
+      };
+      res.status(201).json(response);
+    })
+  );
+
+  router.get(
+    '/',
+    asyncHandler(async (req, res) => {
+      const limit = parseWebhooksQueryLimit(req.query.limit ?? 20);
+      const offset = parsePagingQueryInput(req.query.offset ?? 0);
+      const { results, total } = await db.getWebhooks({ limit, offset });
+      const response: WebhookListResponse = {
+        limit,
+        offset,
+        total,
+        results: results.map(webhook => parseDbWebhook(webhook)),
+      };
+      res.json(response);
+    })
+  );
+
+  router.get(
+    '/:webhook_id',
+    asyncHandler(async (req, res) => {
+      const webhookId = parseWebhookIdParam(req.params.webhook_id);
+      const webhookQuery = await db.getWebhook(webhookId);
+      if (!webhookQuery.found) {
+        res.status(404).json({ error: `cannot find webhook ${webhookId}` });
+        return;
+      }
+      res.json(parseDbWebhook(webhookQuery.result));
+    })
+  );
+
+  router.delete(
+    '/:webhook_id',
+    asyncHandler(async (req, res) => {
+      const webhookId = parseWebhookIdParam(req.params.webhook_id);
+      const deleted = await db.deleteWebhook(webhookId);
+      if (!deleted) {
+        res.status(404).json({ error: `cannot find webhook ${webhookId}` });
+        return;
+      }
+      res.status(204).end();
+    })
+  );
+
+  router.get(
+    '/:webhook_id/deliveries',
+    asyncHandler(async (req, res) => {
+      const webhookId = parseWebhookIdParam(req.params.webhook_id);
+      const limit = parseDeliveriesQueryLimit(req.query.limit ?? 20);
+      const offset = parsePagingQueryInput(req.query.offset ?? 0);
+      const webhookQuery = await db.getWebhook(webhookId);
+      if (!webhookQuery.found) {
+        res.status(404).json({ error: `cannot find webhook ${webhookId}` });
+        return;
+      }
+      const { results, total } = await db.getWebhookDeliveries({ webhookId, limit, offset });
+      const response: WebhookDeliveryListResponse = {
+        limit,
+        offset,
+        total,
+        results: results.map(delivery => parseDbWebhookDelivery(delivery)),
+      };
+      res.json(response);
+    })
+  );
+
+  return router;
+}
@@ -40,6 +40,7 @@ function getInvalidSubscriptionTopics(subscriptions: Topic | Topic[]): undefined
       case 'block':
       case 'mempool':
       case 'microblock':
+      case 'reorg':
         return undefined;
       default:
         return sub;
@@ -201,6 +202,14 @@ export function createSocketIORouter(db: DataStore, server: http.Server) {
     }
   });
 
+  db.on('reorg', reorg => {
+    const reorgTopic: Topic = 'reorg';
+    if (adapter.rooms.has(reorgTopic)) {
+      prometheus?.sendEvent('reorg');
+      io.to(reorgTopic).emit('reorg', reorg);
+    }
+  });
+
   db.on('addressUpdate', async (address, blockHeight) => {
     const addrTxTopic: AddressTransactionTopic = `address-transaction:${address}` as const;
     const addrStxBalanceTopic: AddressStxBalanceTopic = `address-stx-balance:${address}` as const;
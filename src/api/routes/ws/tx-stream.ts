@@ -0,0 +1,371 @@
+import * as WebSocket from 'ws';
+import * as http from 'http';
+import * as net from 'net';
+import * as querystring from 'querystring';
+import {
+  MempoolTransaction,
+  Transaction,
+  TransactionType,
+} from '@stacks/stacks-blockchain-api-types';
+import { DataStore, DbTxPosition, DbTxStatus } from '../../../datastore/common';
+import { isValidC32Address, isValidPrincipal, logError } from '../../../helpers';
+import { InvalidRequestError, InvalidRequestErrorType } from '../../../errors';
+import {
+  getTxStatusString,
+  parseTxTypeStrings,
+  searchTx,
+  searchTxs,
+} from '../../controllers/db-controller';
+
+/** Maximum number of missed txs replayed to a resuming client. */
+const MAX_REPLAY_TXS = 500;
+
+export type TxStreamProtocol = 'eventsource' | 'websocket';
+
+export interface TxStreamFilter {
+  senderAddress?: string;
+  txTypes: TransactionType[];
+  contractId?: string;
+  statuses: (Transaction | MempoolTransaction)['tx_status'][];
+}
+
+export interface TxStreamOptions {
+  protocol: TxStreamProtocol;
+  filter: TxStreamFilter;
+  /**
+   * Position of the last update received by a reconnecting client. Txs confirmed after it are replayed
+   * before live updates are streamed.
+   */
+  lastEventId?: DbTxPosition;
+}
+
+export type TxStreamUpdate =
+  | {
+      event: 'tx';
+      /**
+       * Position of confirmed txs as `block_height:microblock_sequence:tx_index`, used by clients to
+       * resume the stream. Not set for mempool txs.
+       */
+      id?: string;
+      tx: Transaction | MempoolTransaction;
+    }
+  | {
+      /**
+       * Sent instead of live updates when more missed txs were found than can be replayed at once. The
+       * stream ends after this update, clients should reconnect with `id` to replay the following txs.
+       */
+      event: 'replay_truncated';
+      /** Position of the last replayed tx. */
+      id: string;
+    };
+
+const TX_STATUS_IDS = Object.values(DbTxStatus).filter(
+  (s): s is DbTxStatus => typeof s === 'number'
+);
+
+function parseQueryList(query: Record<string, unknown>, name: string): string[] {
+  const value = query[name];
+  if (value === undefined) {
+    return [];
+  }
+  const values = Array.isArray(value) ? value : [value];
+  if (!values.every((v): v is string => typeof v === 'string')) {
+    throw new InvalidRequestError(
+      `Unexpected \`${name}\` query value: ${JSON.stringify(value)}`,
+      InvalidRequestErrorType.invalid_query
+    );
+  }
+  return values.flatMap(v => v.split(',')).filter(v => v);
+}
+
+function parseQueryString(query: Record<string, unknown>, name: string): string | undefined {
+  const value = query[name];
+  if (value !== undefined && typeof value !== 'string') {
+    throw new InvalidRequestError(
+      `Unexpected \`${name}\` query value: ${JSON.stringify(value)}`,
+      InvalidRequestErrorType.invalid_query
+    );
+  }
+  return value || undefined;
+}
+
+/**
+ * Parses the protocol, filters and resume point of a tx stream request. The resume point can be given
+ * either with the `Last-Event-ID` header sent by reconnecting EventSource clients or the `last_event_id`
+ * query param.
+ */
+export function parseTxStreamOptions(
+  query: Record<string, unknown>,
+  headers: http.IncomingHttpHeaders
+): TxStreamOptions {
+  const protocol = parseQueryString(query, 'protocol');
+  if (protocol !== 'eventsource' && protocol !== 'websocket') {
+    throw new InvalidRequestError(
+      `Unsupported stream protocol "${protocol}"`,
+      InvalidRequestErrorType.invalid_query
+    );
+  }
+
+  const senderAddress = parseQueryString(query, 'sender');
+  if (senderAddress !== undefined && !isValidC32Address(senderAddress)) {
+    throw new InvalidRequestError(
+      `Invalid sender address "${senderAddress}"`,
+      InvalidRequestErrorType.invalid_query
+    );
+  }
+  const contractId = parseQueryString(query, 'contract_id');
+  if (contractId !== undefined && (!contractId.includes('.') || !isValidPrincipal(contractId))) {
+    throw new InvalidRequestError(
+      `Invalid contract id "${contractId}"`,
+      InvalidRequestErrorType.invalid_query
+    );
+  }
+  let txTypes: TransactionType[];
+  try {
+    txTypes = parseTxTypeStrings(parseQueryList(query, 'type'));
+  } catch (error) {
+    throw new InvalidRequestError(`${error}`, InvalidRequestErrorType.invalid_query);
+  }
+  const validStatuses = new Set(TX_STATUS_IDS.map(s => getTxStatusString(s)));
+  const statuses = parseQueryList(query, 'status').map(status => {
+    if (!validStatuses.has(status as TxStreamFilter['statuses'][number])) {
+      throw new InvalidRequestError(
+        `Unexpected tx status: ${JSON.stringify(status)}`,
+        InvalidRequestErrorType.invalid_query
+      );
+    }
+    return status as TxStreamFilter['statuses'][number];
+  });
+
+  const lastEventIdValue = headers['last-event-id'] ?? parseQueryString(query, 'last_event_id');
+  let lastEventId: DbTxPosition | undefined;
+  if (lastEventIdValue !== undefined) {
+    const match =
+      typeof lastEventIdValue === 'string' ? /^(\d+):(\d+):(\d+)$/.exec(lastEventIdValue) : null;
+    if (!match) {
+      throw new InvalidRequestError(
+        '`last_event_id` must be a tx position formatted as `block_height:microblock_sequence:tx_index`',
+        InvalidRequestErrorType.invalid_query
+      );
+    }
+    const [blockHeight, microblockSequence, txIndex] = match.slice(1).map(Number);
+    lastEventId = {
+      block_height: blockHeight,
+      microblock_sequence: microblockSequence,
+      tx_index: txIndex,
+    };
+  }
+
+  return {
+    protocol,
+    filter: { senderAddress, txTypes, contractId, statuses },
+    lastEventId,
+  };
+}
+
+export function txMatchesStreamFilter(
+  filter: TxStreamFilter,
+  tx: Transaction | MempoolTransaction
+): boolean {
+  if (filter.senderAddress && tx.sender_address !== filter.senderAddress) {
+    return false;
+  }
+  if (filter.txTypes.length > 0 && !filter.txTypes.includes(tx.tx_type)) {
+    return false;
+  }
+  if (filter.contractId) {
+    const contractId =
+      tx.tx_type === 'contract_call'
+        ? tx.contract_call.contract_id
+        : tx.tx_type === 'smart_contract'
+        ? tx.smart_contract.contract_id
+        : undefined;
+    if (contractId !== filter.contractId) {
+      return false;
+    }
+  }
+  if (filter.statuses.length > 0 && !filter.statuses.includes(tx.tx_status)) {
+    return false;
+  }
+  return true;
+}
+
+function formatTxStreamEventId(position: DbTxPosition): string {
+  return `${position.block_height}:${position.microblock_sequence}:${position.tx_index}`;
+}
+
+function getTxStreamUpdate(tx: Transaction | MempoolTransaction): TxStreamUpdate {
+  return 'block_height' in tx
+    ? { event: 'tx', id: formatTxStreamEventId(tx), tx }
+    : { event: 'tx', tx };
+}
+
+/**
+ * Replays txs confirmed after the client's last event, up to `MAX_REPLAY_TXS`.
+ * @returns the tx ids and block hashes of the replayed txs, and the position of the last replayed tx
+ * if the replay was truncated
+ */
+async function replayTxUpdates(
+  db: DataStore,
+  options: TxStreamOptions,
+  send: (update: TxStreamUpdate) => void
+): Promise<{ replayedTxs: Map<string, string>; truncatedAt?: string }> {
+  const replayedTxs = new Map<string, string>();
+  if (options.lastEventId === undefined) {
+    return { replayedTxs };
+  }
+  const { filter } = options;
+  const dbTxs = await db.getTxsAfterPosition({
+    position: options.lastEventId,
+    limit: MAX_REPLAY_TXS,
+    filter: {
+      senderAddress: filter.senderAddress,
+      txTypeFilter: filter.txTypes,
+      contractId: filter.contractId,
+      statusFilter: TX_STATUS_IDS.filter(s => filter.statuses.includes(getTxStatusString(s))),
+    },
+  });
+  if (dbTxs.length === 0) {
+    return { replayedTxs };
+  }
+  const txs = await searchTxs(db, { txIds: dbTxs.map(tx => tx.tx_id), includeUnanchored: true });
+  for (const dbTx of dbTxs) {
+    const txQuery = txs[dbTx.tx_id];
+    if (txQuery?.found && txMatchesStreamFilter(filter, txQuery.result)) {
+      send(getTxStreamUpdate(txQuery.result));
+      replayedTxs.set(dbTx.tx_id, dbTx.block_hash);
+    }
+  }
+  // Hitting the limit means later txs may still have been missed.
+  const truncatedAt =
+    dbTxs.length >= MAX_REPLAY_TXS ? formatTxStreamEventId(dbTxs[dbTxs.length - 1]) : undefined;
+  return { replayedTxs, truncatedAt };
+}
+
+/**
+ * Sends tx updates matching the stream filters until the returned function is called. Missed updates
+ * are replayed first if the client is resuming a previous stream. Live updates for txs that were
+ * already replayed from the same block are skipped.
+ * @returns function that stops the stream
+ */
+export function streamTxUpdates(
+  db: DataStore,
+  options: TxStreamOptions,
+  send: (update: TxStreamUpdate) => void
+): () => void {
+  let closed = false;
+  const sendOpen = (update: TxStreamUpdate) => {
+    if (!closed) {
+      send(update);
+    }
+  };
+  // Txs confirmed while the replay query runs can be both replayed and received as live updates.
+  let replayedTxs = new Map<string, string>();
+
+  const dbTxUpdate = async (txId: string): Promise<void> => {
+    if (closed) {
+      return;
+    }
+    try {
+      const txQuery = await searchTx(db, { txId, includeUnanchored: true });
+      if (!txQuery.found) {
+        throw new Error('error in tx stream, tx not found');
+      }
+      const tx = txQuery.result;
+      const replayedBlockHash = replayedTxs.get(tx.tx_id);
+      if (replayedBlockHash !== undefined) {
+        replayedTxs.delete(tx.tx_id);
+        if ('block_hash' in tx && tx.block_hash === replayedBlockHash) {
+          return;
+        }
+      }
+      if (txMatchesStreamFilter(options.filter, tx)) {
+        sendOpen(getTxStreamUpdate(tx));
+      }
+    } catch (error) {
+      logError('error streaming tx updates', error);
+    }
+  };
+  // Updates are chained so live txs are only sent after the replay has finished, in the order received.
+  let pending: Promise<void> = Promise.resolve();
+  // EventEmitters don't like being passed Promise functions so wrap the async handler
+  const onTxUpdate = (txId: string): void => {
+    pending = pending.then(() => dbTxUpdate(txId));
+  };
+  const stop = () => {
+    closed = true;
+    db.removeListener('txUpdate', onTxUpdate);
+  };
+
+  pending = replayTxUpdates(db, options, sendOpen)
+    .then(replay => {
+      replayedTxs = replay.replayedTxs;
+      if (replay.truncatedAt !== undefined) {
+        sendOpen({ event: 'replay_truncated', id: replay.truncatedAt });
+        stop();
+      }
+    })
+    .catch(error => {
+      logError('error replaying tx stream updates', error);
+    });
+  db.addListener('txUpdate', onTxUpdate);
+  return stop;
+}
+
+/**
+ * Serves `GET /extended/v1/tx/stream?protocol=websocket` requests. Each update is sent as a JSON message
+ * with the same `event`, `id` and `data` fields used by the EventSource protocol.
+ */
+export function createTxStreamWsServer(db: DataStore, server: http.Server): WebSocket.Server {
+  const wsPath = '/extended/v1/tx/stream';
+  const wsServer = new WebSocket.Server({ noServer: true });
+  server.on('upgrade', (request: http.IncomingMessage, socket, head) => {
+    const [path, search] = (request.url ?? '').split('?', 2);
+    if (path !== wsPath && path !== `${wsPath}/`) {
+      return;
+    }
+    let options: TxStreamOptions;
+    try {
+      options = parseTxStreamOptions(querystring.parse(search ?? ''), request.headers);
+      if (options.protocol !== 'websocket') {
+        throw new InvalidRequestError(
+          'WebSocket upgrade requests must use `protocol=websocket`',
+          InvalidRequestErrorType.invalid_query
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : `${error}`;
+      socket.end(`HTTP/1.1 400 Bad Request\r\nContent-Type: text/plain\r\n\r\n${message}`);
+      return;
+    }
+    wsServer.handleUpgrade(request, socket as net.Socket, head, ws => {
+      wsServer.emit('connection', ws, request, options);
+    });
+  });
+
+  wsServer.on(
+    'connection',
+    (clientSocket: WebSocket, _: http.IncomingMessage, options: TxStreamOptions) => {
+      const stop = streamTxUpdates(db, options, update => {
+        if (clientSocket.readyState !== WebSocket.OPEN) {
+          return;
+        }
+        if (update.event === 'tx') {
+          clientSocket.send(
+            JSON.stringify({ event: update.event, id: update.id, data: update.tx })
+          );
+        } else {
+          clientSocket.send(JSON.stringify({ event: update.event, id: update.id }));
+          clientSocket.close();
+        }
+      });
+      clientSocket.on('close', () => stop());
+    }
+  );
+
+  wsServer.on('close', () => {
+    wsServer.clients.forEach(client => client.terminate());
+  });
+
+  return wsServer;
+}
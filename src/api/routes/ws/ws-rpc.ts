@@ -20,11 +20,13 @@ import {
   RpcBlockSubscriptionParams,
   RpcMicroblockSubscriptionParams,
   RpcMempoolSubscriptionParams,
+  RpcReorgNotificationParams,
+  RpcReorgSubscriptionParams,
   RpcTxUpdateNotificationParams,
   Transaction,
 } from '@stacks/stacks-blockchain-api-types';
 
-import { DataStore, DbTx, DbMempoolTx } from '../../../datastore/common';
+import { DataStore, DbTx, DbMempoolTx, DbReorg } from '../../../datastore/common';
 import { normalizeHashString, logError, isValidPrincipal, isProdEnv } from '../../../helpers';
 import {
   getBlockFromDataStore,
@@ -41,7 +43,31 @@ type Subscription =
   | RpcAddressBalanceSubscriptionParams
   | RpcBlockSubscriptionParams
   | RpcMicroblockSubscriptionParams
-  | RpcMempoolSubscriptionParams;
+  | RpcMempoolSubscriptionParams
+  | RpcReorgSubscriptionParams;
+
+/** Subscription params that can request missed notifications to be backfilled. */
+type BackfillParams =
+  | RpcAddressTxSubscriptionParams
+  | RpcAddressBalanceSubscriptionParams
+  | RpcBlockSubscriptionParams
+  | RpcMicroblockSubscriptionParams;
+
+/** Position in the chain that a subscription is backfilled from. */
+interface BackfillCursor {
+  blockHeight: number;
+  microblockSequence: number;
+  /**
+   * Chain tip height right before live notifications start being held. Later blocks are delivered by
+   * the held notifications, so backfills stop at this height to not send them twice.
+   */
+  tipHeight: number;
+}
+
+/** Maximum number of blocks behind the chain tip that a subscription can be backfilled from. */
+const MAX_BACKFILL_BLOCKS = 500;
+/** Maximum number of microblocks sent to a backfilled microblock subscription. */
+const MAX_BACKFILL_MICROBLOCKS = 5000;
 
 class SubscriptionManager {
   /**
@@ -52,6 +78,13 @@ class SubscriptionManager {
 
   // Sockets that are responding to ping.
   liveSockets: Set<WebSocket> = new Set();
+
+  /**
+   * Live notifications held back from clients that are being backfilled with missed notifications, so
+   * they're delivered in order once the backfill finishes.
+   */
+  heldNotifications: Map<WebSocket, { holds: number; payloads: string[] }> = new Map();
+
   heartbeatInterval?: NodeJS.Timeout;
   readonly heartbeatIntervalMs = 5_000;
 
@@ -88,6 +121,42 @@ class SubscriptionManager {
     this.liveSockets.delete(client);
   }
 
+  /**
+   * Holds live notifications for the client until the returned function is called.
+   */
+  holdNotifications(client: WebSocket): () => void {
+    let held = this.heldNotifications.get(client);
+    if (!held) {
+      held = { holds: 0, payloads: [] };
+      this.heldNotifications.set(client, held);
+    }
+    const hold = held;
+    hold.holds++;
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      hold.holds--;
+      if (hold.holds === 0 && this.heldNotifications.get(client) === hold) {
+        this.heldNotifications.delete(client);
+        hold.payloads.forEach(payload => client.send(payload));
+      }
+    };
+  }
+
+  notify(clients: Set<WebSocket>, payload: string) {
+    clients.forEach(client => {
+      const held = this.heldNotifications.get(client);
+      if (held) {
+        held.payloads.push(payload);
+      } else {
+        client.send(payload);
+      }
+    });
+  }
+
   startHeartbeat() {
     if (this.heartbeatInterval) {
       return;
@@ -118,6 +187,7 @@ class SubscriptionManager {
   close() {
     this.subscriptions.clear();
     this.liveSockets.clear();
+    this.heldNotifications.clear();
     this.stopHeartbeat();
   }
 }
@@ -145,8 +215,11 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
   const blockSubscriptions = new SubscriptionManager();
   const microblockSubscriptions = new SubscriptionManager();
   const mempoolSubscriptions = new SubscriptionManager();
+  const reorgSubscriptions = new SubscriptionManager();
 
-  function handleClientMessage(client: WebSocket, data: WebSocket.Data) {
+  async function handleClientMessage(client: WebSocket, data: WebSocket.Data) {
+    // Backfills are started once the subscription responses have been sent.
+    const backfills: (() => Promise<void>)[] = [];
     try {
       if (typeof data !== 'string') {
         throw JsonRpcError.parseError(`unexpected data type: ${data.constructor.name}`);
@@ -158,29 +231,31 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
       // Ignore client notifications, spec dictates server should never respond to these.
       rpcReqs = rpcReqs.filter(req => req.type !== 'notification');
 
-      const responses: JsonRpc[] = rpcReqs.map(rpcReq => {
-        switch (rpcReq.type) {
-          case 'request':
-            return handleClientRpcReq(client, rpcReq);
-          case 'error':
-            return jsonRpcError(
-              rpcReq.payload.id,
-              JsonRpcError.invalidRequest('unexpected error msg from client')
-            );
-          case 'success':
-            return jsonRpcError(
-              rpcReq.payload.id,
-              JsonRpcError.invalidRequest('unexpected success msg from client')
-            );
-          case 'invalid':
-            return jsonRpcError(null as any, rpcReq.payload);
-          default:
-            return jsonRpcError(
-              null as any,
-              JsonRpcError.invalidRequest('unexpected msg type from client')
-            );
-        }
-      });
+      const responses: JsonRpc[] = await Promise.all(
+        rpcReqs.map(rpcReq => {
+          switch (rpcReq.type) {
+            case 'request':
+              return handleClientRpcReq(client, rpcReq, backfills);
+            case 'error':
+              return jsonRpcError(
+                rpcReq.payload.id,
+                JsonRpcError.invalidRequest('unexpected error msg from client')
+              );
+            case 'success':
+              return jsonRpcError(
+                rpcReq.payload.id,
+                JsonRpcError.invalidRequest('unexpected success msg from client')
+              );
+            case 'invalid':
+              return jsonRpcError(null as any, rpcReq.payload);
+            default:
+              return jsonRpcError(
+                null as any,
+                JsonRpcError.invalidRequest('unexpected msg type from client')
+              );
+          }
+        })
+      );
 
       if (isBatchRequest) {
         client.send(JSON.stringify(responses));
@@ -195,6 +270,8 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
       } catch (error) {
         // ignore any errors here
       }
+    } finally {
+      backfills.forEach(backfill => void backfill());
     }
   }
 
@@ -203,23 +280,35 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
   }
 
   /** Route supported RPC methods */
-  function handleClientRpcReq(client: WebSocket, req: IParsedObjectRequest): JsonRpc {
-    switch (req.payload.method) {
-      case 'subscribe':
-        return handleClientSubscription(client, req, true);
-      case 'unsubscribe':
-        return handleClientSubscription(client, req, false);
-      default:
-        return jsonRpcError(req.payload.id, JsonRpcError.methodNotFound(null));
+  async function handleClientRpcReq(
+    client: WebSocket,
+    req: IParsedObjectRequest,
+    backfills: (() => Promise<void>)[]
+  ): Promise<JsonRpc> {
+    try {
+      switch (req.payload.method) {
+        case 'subscribe':
+          return await handleClientSubscription(client, req, true, backfills);
+        case 'unsubscribe':
+          return await handleClientSubscription(client, req, false, backfills);
+        default:
+          return jsonRpcError(req.payload.id, JsonRpcError.methodNotFound(null));
+      }
+    } catch (error) {
+      if (error instanceof JsonRpcError) {
+        return jsonRpcError(req.payload.id, error);
+      }
+      throw error;
     }
   }
 
   /** Route supported subscription events */
-  function handleClientSubscription(
+  async function handleClientSubscription(
     client: WebSocket,
     req: IParsedObjectRequest,
-    subscribe: boolean
-  ): JsonRpc {
+    subscribe: boolean,
+    backfills: (() => Promise<void>)[]
+  ): Promise<JsonRpc> {
     const params = req.payload.params as Subscription;
     if (!params || !params.event) {
       return jsonRpcError(
@@ -231,15 +320,17 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
       case 'tx_update':
         return handleTxUpdateSubscription(client, req, params, subscribe);
       case 'address_tx_update':
-        return handleAddressTxUpdateSubscription(client, req, params, subscribe);
+        return handleAddressTxUpdateSubscription(client, req, params, subscribe, backfills);
       case 'address_balance_update':
-        return handleAddressBalanceUpdateSubscription(client, req, params, subscribe);
+        return handleAddressBalanceUpdateSubscription(client, req, params, subscribe, backfills);
       case 'block':
-        return handleBlockUpdateSubscription(client, req, params, subscribe);
+        return handleBlockUpdateSubscription(client, req, params, subscribe, backfills);
       case 'microblock':
-        return handleMicroblockUpdateSubscription(client, req, params, subscribe);
+        return handleMicroblockUpdateSubscription(client, req, params, subscribe, backfills);
       case 'mempool':
         return handleMempoolUpdateSubscription(client, req, params, subscribe);
+      case 'reorg':
+        return handleReorgSubscription(client, req, params, subscribe);
       default:
         return jsonRpcError(
           req.payload.id,
@@ -270,19 +361,29 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
   }
 
   /** Process client request for address tx update notifications */
-  function handleAddressTxUpdateSubscription(
+  async function handleAddressTxUpdateSubscription(
     client: WebSocket,
     req: IParsedObjectRequest,
     params: RpcAddressTxSubscriptionParams,
-    subscribe: boolean
-  ): JsonRpc {
+    subscribe: boolean,
+    backfills: (() => Promise<void>)[]
+  ): Promise<JsonRpc> {
     const address = params.address;
     if (!isValidPrincipal(address)) {
       return jsonRpcError(req.payload.id, JsonRpcError.invalidParams('invalid address'));
     }
     if (subscribe) {
+      const cursor = await resolveBackfillCursor(params);
       addressTxUpdateSubscriptions.addSubscription(client, address);
       prometheus?.subscribe(client, `address-transaction:${address}`);
+      if (cursor) {
+        scheduleBackfill(addressTxUpdateSubscriptions, client, backfills, async () => {
+          for (let height = cursor.blockHeight; height <= cursor.tipHeight; height++) {
+            const payloads = await getAddressTxNotifications(address, height);
+            payloads.forEach(payload => client.send(payload));
+          }
+        });
+      }
     } else {
       addressTxUpdateSubscriptions.removeSubscription(client, address);
       prometheus?.unsubscribe(client, `address-transaction:${address}`);
@@ -290,19 +391,27 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
     return jsonRpcSuccess(req.payload.id, { address: address });
   }
 
-  function handleAddressBalanceUpdateSubscription(
+  async function handleAddressBalanceUpdateSubscription(
     client: WebSocket,
     req: IParsedObjectRequest,
     params: RpcAddressBalanceSubscriptionParams,
-    subscribe: boolean
-  ): JsonRpc {
+    subscribe: boolean,
+    backfills: (() => Promise<void>)[]
+  ): Promise<JsonRpc> {
     const address = params.address;
     if (!isValidPrincipal(address)) {
       return jsonRpcError(req.payload.id, JsonRpcError.invalidParams('invalid address'));
     }
     if (subscribe) {
+      const cursor = await resolveBackfillCursor(params);
       addressBalanceUpdateSubscriptions.addSubscription(client, address);
       prometheus?.subscribe(client, `address-stx-balance:${address}`);
+      if (cursor) {
+        // Balance notifications describe the latest state, so only the current balance is backfilled.
+        scheduleBackfill(addressBalanceUpdateSubscriptions, client, backfills, async () => {
+          client.send(await getAddressBalanceNotification(address));
+        });
+      }
     } else {
       addressBalanceUpdateSubscriptions.removeSubscription(client, address);
       prometheus?.unsubscribe(client, `address-stx-balance:${address}`);
@@ -310,15 +419,27 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
     return jsonRpcSuccess(req.payload.id, { address: address });
   }
 
-  function handleBlockUpdateSubscription(
+  async function handleBlockUpdateSubscription(
     client: WebSocket,
     req: IParsedObjectRequest,
     params: RpcBlockSubscriptionParams,
-    subscribe: boolean
-  ) {
+    subscribe: boolean,
+    backfills: (() => Promise<void>)[]
+  ): Promise<JsonRpc> {
     if (subscribe) {
+      const cursor = await resolveBackfillCursor(params);
       blockSubscriptions.addSubscription(client, params.event);
       prometheus?.subscribe(client, 'block');
+      if (cursor) {
+        scheduleBackfill(blockSubscriptions, client, backfills, async () => {
+          for (let height = cursor.blockHeight; height <= cursor.tipHeight; height++) {
+            const blockQuery = await getBlockFromDataStore({ blockIdentifer: { height }, db });
+            if (blockQuery.found) {
+              client.send(jsonRpcNotification('block', blockQuery.result).serialize());
+            }
+          }
+        });
+      }
     } else {
       blockSubscriptions.removeSubscription(client, params.event);
       prometheus?.unsubscribe(client, 'block');
@@ -326,15 +447,32 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
     return jsonRpcSuccess(req.payload.id, {});
   }
 
-  function handleMicroblockUpdateSubscription(
+  async function handleMicroblockUpdateSubscription(
     client: WebSocket,
     req: IParsedObjectRequest,
     params: RpcMicroblockSubscriptionParams,
-    subscribe: boolean
-  ) {
+    subscribe: boolean,
+    backfills: (() => Promise<void>)[]
+  ): Promise<JsonRpc> {
     if (subscribe) {
+      const cursor = await resolveBackfillCursor(params);
       microblockSubscriptions.addSubscription(client, params.event);
       prometheus?.subscribe(client, 'microblock');
+      if (cursor) {
+        scheduleBackfill(microblockSubscriptions, client, backfills, async () => {
+          const microblockHashes = await db.getMicroblockHashesFrom({
+            blockHeight: cursor.blockHeight,
+            microblockSequence: cursor.microblockSequence,
+            limit: MAX_BACKFILL_MICROBLOCKS,
+          });
+          for (const microblockHash of microblockHashes) {
+            const microblockQuery = await getMicroblockFromDataStore({ microblockHash, db });
+            if (microblockQuery.found) {
+              client.send(jsonRpcNotification('microblock', microblockQuery.result).serialize());
+            }
+          }
+        });
+      }
     } else {
       microblockSubscriptions.removeSubscription(client, params.event);
       prometheus?.unsubscribe(client, 'microblock');
@@ -358,6 +496,88 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
     return jsonRpcSuccess(req.payload.id, {});
   }
 
+  function handleReorgSubscription(
+    client: WebSocket,
+    req: IParsedObjectRequest,
+    params: RpcReorgSubscriptionParams,
+    subscribe: boolean
+  ) {
+    if (subscribe) {
+      reorgSubscriptions.addSubscription(client, params.event);
+      prometheus?.subscribe(client, 'reorg');
+    } else {
+      reorgSubscriptions.removeSubscription(client, params.event);
+      prometheus?.unsubscribe(client, 'reorg');
+    }
+    return jsonRpcSuccess(req.payload.id, {});
+  }
+
+  async function getCurrentBlockHeight(): Promise<number> {
+    const currentHeight = await db.getCurrentBlockHeight();
+    return currentHeight.found ? currentHeight.result : 0;
+  }
+
+  /**
+   * Resolves the position a subscription should be backfilled from, or `undefined` if no backfill was
+   * requested. The chain tip is read last, so the subscription and its hold on live notifications must
+   * be set up right after this resolves, without awaiting anything else.
+   */
+  async function resolveBackfillCursor(
+    params: BackfillParams
+  ): Promise<BackfillCursor | undefined> {
+    let cursor: Omit<BackfillCursor, 'tipHeight'>;
+    if (params.from_block_height !== undefined) {
+      if (!Number.isInteger(params.from_block_height) || params.from_block_height < 0) {
+        throw JsonRpcError.invalidParams('invalid from_block_height');
+      }
+      cursor = { blockHeight: params.from_block_height, microblockSequence: 0 };
+    } else if (params.from_microblock_hash !== undefined) {
+      const microblockHash = normalizeHashString(params.from_microblock_hash);
+      if (!microblockHash) {
+        throw JsonRpcError.invalidParams('invalid from_microblock_hash');
+      }
+      const microblockQuery = await db.getMicroblock({ microblockHash });
+      if (!microblockQuery.found) {
+        throw JsonRpcError.invalidParams('microblock not found');
+      }
+      cursor = {
+        blockHeight: microblockQuery.result.microblock.block_height,
+        microblockSequence: microblockQuery.result.microblock.microblock_sequence,
+      };
+    } else {
+      return undefined;
+    }
+    const tipHeight = await getCurrentBlockHeight();
+    if (tipHeight - cursor.blockHeight > MAX_BACKFILL_BLOCKS) {
+      throw JsonRpcError.invalidParams(
+        `backfill cursor must be at most ${MAX_BACKFILL_BLOCKS} blocks behind the chain tip`
+      );
+    }
+    return { ...cursor, tipHeight };
+  }
+
+  /**
+   * Queues a backfill to start once the subscription response has been sent. Live notifications for the
+   * client are held back until the backfill finishes.
+   */
+  function scheduleBackfill(
+    subscriptions: SubscriptionManager,
+    client: WebSocket,
+    backfills: (() => Promise<void>)[],
+    backfill: () => Promise<void>
+  ) {
+    const release = subscriptions.holdNotifications(client);
+    backfills.push(async () => {
+      try {
+        await backfill();
+      } catch (error) {
+        logError(`error backfilling websocket notifications`, error);
+      } finally {
+        release();
+      }
+    });
+  }
+
   async function processTxUpdate(txId: string) {
     try {
       const subscribers = txUpdateSubscriptions.subscriptions.get(txId);
@@ -395,31 +615,37 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
     }
   }
 
+  /** Returns serialized `address_tx_update` notifications for the address txs in the given block. */
+  async function getAddressTxNotifications(
+    address: string,
+    blockHeight: number
+  ): Promise<string[]> {
+    const dbTxsQuery = await db.getAddressTxsWithAssetTransfers({
+      stxAddress: address,
+      blockHeight: blockHeight,
+      atSingleBlock: true,
+    });
+    if (dbTxsQuery.total == 0) {
+      return [];
+    }
+    return dbTxsQuery.results.map(tx => {
+      const updateNotification: RpcAddressTxNotificationParams = {
+        address: address,
+        tx_id: tx.tx.tx_id,
+        tx_status: getTxStatusString(tx.tx.status),
+        tx_type: getTxTypeString(tx.tx.type_id),
+      };
+      return jsonRpcNotification('address_tx_update', updateNotification).serialize();
+    });
+  }
+
   async function processAddressUpdate(address: string, blockHeight: number) {
     try {
       const subscribers = addressTxUpdateSubscriptions.subscriptions.get(address);
       if (subscribers) {
-        const dbTxsQuery = await db.getAddressTxsWithAssetTransfers({
-          stxAddress: address,
-          blockHeight: blockHeight,
-          atSingleBlock: true,
-        });
-        if (dbTxsQuery.total == 0) {
-          return;
-        }
-        const addressTxs = dbTxsQuery.results;
-        addressTxs.forEach(tx => {
-          const updateNotification: RpcAddressTxNotificationParams = {
-            address: address,
-            tx_id: tx.tx.tx_id,
-            tx_status: getTxStatusString(tx.tx.status),
-            tx_type: getTxTypeString(tx.tx.type_id),
-          };
-          const rpcNotificationPayload = jsonRpcNotification(
-            'address_tx_update',
-            updateNotification
-          ).serialize();
-          subscribers.forEach(client => client.send(rpcNotificationPayload));
+        const rpcNotificationPayloads = await getAddressTxNotifications(address, blockHeight);
+        rpcNotificationPayloads.forEach(rpcNotificationPayload => {
+          addressTxUpdateSubscriptions.notify(subscribers, rpcNotificationPayload);
           prometheus?.sendEvent('address-transaction');
         });
       }
@@ -431,24 +657,26 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
   // Queue to process balance update notifications
   const addrBalanceProcessorQueue = new PQueue({ concurrency: 1 });
 
+  /** Returns a serialized `address_balance_update` notification with the current address balance. */
+  async function getAddressBalanceNotification(address: string): Promise<string> {
+    const balance = await db.getStxBalance({
+      stxAddress: address,
+      includeUnanchored: true,
+    });
+    const balanceNotification: RpcAddressBalanceNotificationParams = {
+      address: address,
+      balance: balance.balance.toString(),
+    };
+    return jsonRpcNotification('address_balance_update', balanceNotification).serialize();
+  }
+
   async function processAddressBalanceUpdate(address: string) {
     const subscribers = addressBalanceUpdateSubscriptions.subscriptions.get(address);
     if (subscribers) {
       await addrBalanceProcessorQueue.add(async () => {
         try {
-          const balance = await db.getStxBalance({
-            stxAddress: address,
-            includeUnanchored: true,
-          });
-          const balanceNotification: RpcAddressBalanceNotificationParams = {
-            address: address,
-            balance: balance.balance.toString(),
-          };
-          const rpcNotificationPayload = jsonRpcNotification(
-            'address_balance_update',
-            balanceNotification
-          ).serialize();
-          subscribers.forEach(client => client.send(rpcNotificationPayload));
+          const rpcNotificationPayload = await getAddressBalanceNotification(address);
+          addressBalanceUpdateSubscriptions.notify(subscribers, rpcNotificationPayload);
           prometheus?.sendEvent('address-stx-balance');
         } catch (error) {
           logError(`error sending websocket stx balance update to ${address}`, error);
@@ -465,7 +693,7 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
         if (blockQuery.found) {
           const block = blockQuery.result;
           const rpcNotificationPayload = jsonRpcNotification('block', block).serialize();
-          subscribers.forEach(client => client.send(rpcNotificationPayload));
+          blockSubscriptions.notify(subscribers, rpcNotificationPayload);
           prometheus?.sendEvent('block');
         }
       }
@@ -485,7 +713,7 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
         if (microblockQuery.found) {
           const microblock = microblockQuery.result;
           const rpcNotificationPayload = jsonRpcNotification('microblock', microblock).serialize();
-          subscribers.forEach(client => client.send(rpcNotificationPayload));
+          microblockSubscriptions.notify(subscribers, rpcNotificationPayload);
           prometheus?.sendEvent('microblock');
         }
       }
@@ -514,6 +742,20 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
     }
   }
 
+  function processReorg(reorg: DbReorg) {
+    try {
+      const subscribers = reorgSubscriptions.subscriptions.get('reorg');
+      if (subscribers) {
+        const reorgNotification: RpcReorgNotificationParams = reorg;
+        const rpcNotificationPayload = jsonRpcNotification('reorg', reorgNotification).serialize();
+        reorgSubscriptions.notify(subscribers, rpcNotificationPayload);
+        prometheus?.sendEvent('reorg');
+      }
+    } catch (error) {
+      logError(`error sending websocket reorg updates`, error);
+    }
+  }
+
   db.addListener('txUpdate', async txId => {
     await processTxUpdate(txId);
     await processMempoolUpdate(txId);
@@ -532,6 +774,10 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
     await processMicroblockUpdate(microblockHash);
   });
 
+  db.addListener('reorg', reorg => {
+    processReorg(reorg);
+  });
+
   wsServer.on('connection', (clientSocket, req) => {
     if (req.headers['x-forwarded-for']) {
       prometheus?.connect(req.headers['x-forwarded-for'] as string);
@@ -539,7 +785,7 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
       prometheus?.connect(req.socket.remoteAddress);
     }
     clientSocket.on('message', data => {
-      handleClientMessage(clientSocket, data);
+      void handleClientMessage(clientSocket, data);
     });
     clientSocket.on('close', (_: WebSocket) => {
       prometheus?.disconnect(clientSocket);
@@ -553,6 +799,7 @@ export function createWsRpcRouter(db: DataStore, server: http.Server): WebSocket
     blockSubscriptions.close();
     microblockSubscriptions.close();
     mempoolSubscriptions.close();
+    reorgSubscriptions.close();
   });
 
   return wsServer;
@@ -13,7 +13,11 @@ import {
   TxPayloadTypeID,
   PostConditionAuthFlag,
 } from 'stacks-encoding-native-js';
-import { AddressTokenOfferingLocked, TransactionType } from '@stacks/stacks-blockchain-api-types';
+import {
+  AddressTokenOfferingLocked,
+  TransactionEventType,
+  TransactionType,
+} from '@stacks/stacks-blockchain-api-types';
 import { getTxSenderAddress } from '../event-stream/reader';
 import { RawTxQueryResult } from './postgres-store';
 import { ChainID, ClarityAbi } from '@stacks/transactions';
@@ -227,6 +231,9 @@ export interface DbMempoolTx extends BaseTx {
 
   /** Only valid for `coinbase` tx types. Hex encoded 32-bytes. */
   coinbase_payload?: Buffer;
+
+  /** Id of the tx that replaced this one, only set for txs dropped by a replacement. */
+  replaced_by_tx_id?: string;
 }
 
 export interface DbMempoolTxId {
@@ -276,6 +283,8 @@ export interface DbSmartContractEvent extends DbEventBase {
   contract_identifier: string;
   topic: string;
   value: Buffer;
+  /** Topic of a tuple-shaped `print` event value, see `getPrintEventTopic`. */
+  print_topic?: string;
 }
 
 export interface DbStxLockEvent extends DbEventBase {
@@ -354,6 +363,18 @@ export interface DbTxWithAssetTransfers {
   }[];
 }
 
+export interface DbFtHolder {
+  asset_identifier: string;
+  address: string;
+  balance: bigint;
+}
+
+export interface DbFtSupply {
+  asset_identifier: string;
+  minted: bigint;
+  burned: bigint;
+}
+
 export interface NftHoldingInfo {
   asset_identifier: string;
   // TODO(perf): use hex string since that is what we already get from deserializing event payloads
@@ -389,6 +410,7 @@ export interface TokenMetadataUpdateInfo {
   queueId: number;
   txId: string;
   contractId: string;
+  tokenIdRange?: DbTokenIdRange;
 }
 
 export type DataStoreEventEmitter = StrictEventEmitter<
@@ -400,6 +422,7 @@ export type DataStoreEventEmitter = StrictEventEmitter<
     addressUpdate: (address: string, blockHeight: number) => void;
     nameUpdate: (info: string) => void;
     tokensUpdate: (contractID: string) => void;
+    reorg: (reorg: DbReorg) => void;
     tokenMetadataUpdateQueued: (queueId: number) => void;
   }
 >;
@@ -465,6 +488,25 @@ export interface DbSearchResultWithMetadata {
   entity_data?: Block | DbMempoolTx | DbTx;
 }
 
+export type DbSearchMatchEntityType =
+  | 'contract_address'
+  | 'bns_name'
+  | 'bns_subdomain'
+  | 'fungible_token'
+  | 'non_fungible_token';
+
+export interface DbSearchMatch {
+  entity_type: DbSearchMatchEntityType;
+  /** Contract ID for contracts and tokens, fully qualified name for BNS names and subdomains */
+  entity_id: string;
+  /** Token name, if any */
+  name?: string;
+  /** Token symbol, if any */
+  symbol?: string;
+  /** Relevance of the match, higher is better */
+  score: number;
+}
+
 export interface DbFtBalance {
   balance: bigint;
   totalSent: bigint;
@@ -484,6 +526,20 @@ export interface DbStxBalance {
   burnchainUnlockHeight: number;
 }
 
+export interface DbNftCount {
+  count: bigint;
+  totalSent: bigint;
+  totalReceived: bigint;
+}
+
+export interface DbPrincipalBalances {
+  stx: DbStxBalance;
+  /** Keyed by asset identifier */
+  fungibleTokens: Map<string, DbFtBalance>;
+  /** Keyed by asset identifier */
+  nonFungibleTokens: Map<string, DbNftCount>;
+}
+
 export interface DbInboundStxTransfer {
   sender: string;
   amount: bigint;
@@ -517,6 +573,52 @@ export interface DbBnsNamespace {
   canonical: boolean;
 }
 
+export type DbAddressActivityType =
+  | 'stx_sent'
+  | 'stx_received'
+  | 'ft_sent'
+  | 'ft_received'
+  | 'nft_sent'
+  | 'nft_received'
+  | 'contract_call'
+  | 'stx_lock'
+  | 'stx_unlock'
+  | 'bns_name_registration'
+  | 'bns_name_transfer';
+
+/** Position of an entry in a principal's activity timeline. Entries are listed by descending position. */
+export interface DbAddressActivityPosition {
+  block_height: number;
+  microblock_sequence: number;
+  /** `-1` for entries that happen before the txs of their block, like STX unlocks. */
+  tx_index: number;
+  /** Event index for entries built from an event, negative for entries built from a tx. */
+  sub_index: number;
+  /** Index of the source the entry was built from, breaks ties between sources. */
+  source_index: number;
+}
+
+export interface DbAddressActivity extends DbAddressActivityPosition {
+  activity_type: DbAddressActivityType;
+  /** Not set for STX unlocks, which aren't caused by a tx. */
+  tx_id?: string;
+  burn_block_time: number;
+  /** Only set for STX, FT and NFT entries. */
+  asset_event_type_id?: DbAssetEventTypeId;
+  asset_identifier?: string;
+  /** STX or FT amount, or the locked amount for stacking entries. */
+  amount?: bigint;
+  /** Serialized Clarity value of NFT entries. */
+  value?: Buffer;
+  sender?: string;
+  recipient?: string;
+  contract_id?: string;
+  function_name?: string;
+  /** BNS name of BNS entries. */
+  name?: string;
+  unlock_height?: number;
+}
+
 export interface DbBnsName {
   id?: number;
   name: string;
@@ -535,6 +637,29 @@ export interface DbBnsName {
   canonical: boolean;
 }
 
+/** An operation on a BNS name, built from the `names` row written for it. */
+export interface DbBnsNameHistoryEntry {
+  name: string;
+  /** BNS contract operation, e.g. `name-register` or `name-transfer`. */
+  operation: string;
+  tx_id: string;
+  tx_index: number;
+  block_height: number;
+  microblock_sequence: number;
+  /** Owner before the operation, not set for the name's first operation. */
+  old_owner?: string;
+  new_owner: string;
+  zonefile_hash: string;
+  expire_block: number;
+}
+
+export interface DbBnsExpiringName {
+  name: string;
+  address: string;
+  namespace_id: string;
+  expire_block: number;
+}
+
 export interface DbBnsSubdomain {
   id?: number;
   name: string;
@@ -591,6 +716,7 @@ export interface DbRawEventRequest {
 
 export type BlockIdentifier =
   | { hash: string }
+  | { indexBlockHash: string }
   | { height: number }
   | { burnBlockHash: string }
   | { burnBlockHeight: number };
@@ -606,6 +732,19 @@ export interface DbNonFungibleTokenMetadata {
   sender_address: string;
 }
 
+/** Metadata of a single SIP-009 NFT. */
+export interface DbNftTokenMetadata {
+  contract_id: string;
+  token_id: bigint;
+  token_uri: string;
+  name: string;
+  description: string;
+  image_uri: string;
+  image_canonical_uri: string;
+  /** `attributes` array of the token's metadata JSON, if any. */
+  attributes?: unknown[];
+}
+
 export interface DbFungibleTokenMetadata {
   token_uri: string;
   name: string;
@@ -619,6 +758,12 @@ export interface DbFungibleTokenMetadata {
   sender_address: string;
 }
 
+/** Inclusive range of NFT token ids. */
+export interface DbTokenIdRange {
+  start: bigint;
+  end: bigint;
+}
+
 export interface DbTokenMetadataQueueEntry {
   queueId: number;
   txId: string;
@@ -627,6 +772,8 @@ export interface DbTokenMetadataQueueEntry {
   blockHeight: number;
   processed: boolean;
   retry_count: number;
+  /** Tokens to process if only some of the contract's NFTs need their metadata refreshed. */
+  tokenIdRange?: DbTokenIdRange;
 }
 
 export interface DbChainTip {
@@ -643,6 +790,151 @@ export interface DbTxGlobalStatus {
   microblock_hash: Buffer;
 }
 
+/** Fee-per-byte percentiles (in micro-STX) sampled from a set of transactions. */
+export interface DbFeeRatePercentiles {
+  count: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+/** Percentiles of a statistic sampled from the pending mempool txs. */
+export interface DbMempoolStatsPercentiles {
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+/** Statistics of the pending (non-pruned) mempool txs of a single tx type, or of every tx type. */
+export interface DbMempoolTxStats {
+  count: number;
+  /** Sum of the serialized byte length of the txs. */
+  total_byte_size: number;
+  fee_rate: DbMempoolStatsPercentiles;
+  /** Seconds elapsed since the txs were received. */
+  age: DbMempoolStatsPercentiles;
+  byte_size: DbMempoolStatsPercentiles;
+}
+
+export interface DbMempoolStats {
+  all: DbMempoolTxStats;
+  /** Stats for each tx type with pending txs. */
+  by_type: Map<DbTxTypeId, DbMempoolTxStats>;
+}
+
+export interface DbFeeRateBlockCost {
+  block_height: number;
+  execution_cost_read_count: number;
+  execution_cost_read_length: number;
+  execution_cost_runtime: number;
+  execution_cost_write_count: number;
+  execution_cost_write_length: number;
+  /** Sum of the serialized byte length of every tx in the block. */
+  tx_total_size: number;
+}
+
+export interface DbFeeRateStats {
+  /** Percentiles for canonical txs confirmed in the most recent blocks. */
+  confirmed: DbFeeRatePercentiles;
+  /** Percentiles for pending (non-pruned) mempool txs. */
+  mempool: DbFeeRatePercentiles;
+  /** Execution costs of the most recent canonical blocks. */
+  blocks: DbFeeRateBlockCost[];
+}
+
+/**
+ * Blocks, microblocks and txs orphaned by a chain reorg.
+ */
+export interface DbReorg {
+  /** Height of the most recent anchor block shared by the orphaned and the new canonical fork. */
+  fork_block_height: number;
+  fork_index_block_hash: string;
+  orphaned_index_block_hashes: string[];
+  orphaned_microblock_hashes: string[];
+  orphaned_tx_ids: string[];
+}
+
+export interface DbTxStreamFilter {
+  senderAddress?: string;
+  txTypeFilter: TransactionType[];
+  /** Matches both the contract deployed by a `smart_contract` tx and the contract called by a `contract_call` tx. */
+  contractId?: string;
+  statusFilter: DbTxStatus[];
+}
+
+/** Position of a confirmed tx, txs are mined in the order of their positions. */
+export interface DbTxPosition {
+  block_height: number;
+  microblock_sequence: number;
+  tx_index: number;
+}
+
+/** PoX parameters required to map burnchain block heights to reward cycles. */
+export interface DbPoxParams {
+  firstBurnchainBlockHeight: number;
+  rewardCycleLength: number;
+}
+
+export interface DbPoxCycle {
+  cycle_number: number;
+  burn_block_start_height: number;
+  /** Inclusive */
+  burn_block_end_height: number;
+  total_stacked: bigint;
+  stacker_count: number;
+  reward_slot_holder_count: number;
+  /** Total burnchain rewards paid out during the cycle, in satoshis. */
+  burnchain_reward_amount: bigint;
+}
+
+export interface DbPoxCycleStacker {
+  locked_address: string;
+  locked_amount: bigint;
+  tx_id: string;
+  block_height: number;
+  burn_block_height: number;
+  unlock_height: number;
+  first_cycle: number;
+  unlock_cycle: number;
+}
+
+export interface DbWebhookFilter {
+  /** Matches txs sent by or involving the principal, and events transferring assets to or from it. */
+  address?: string;
+  /** Matches txs deploying or calling the contract, and events emitted by or for assets of it. */
+  contract_id?: string;
+  event_type?: TransactionEventType;
+  /** Matches `print` events of tuple values with this `topic` or `event` field. */
+  print_topic?: string;
+}
+
+export interface DbWebhook extends DbWebhookFilter {
+  id: number;
+  url: string;
+  /** Key used to sign delivery request bodies with HMAC-SHA256. */
+  secret: string;
+  created_at: number;
+}
+
+export type DbWebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface DbWebhookDelivery {
+  id: number;
+  webhook_id: number;
+  tx_id: string;
+  payload: string;
+  status: DbWebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: number;
+  /** HTTP status of the last delivery attempt, if a response was received. */
+  response_status?: number;
+  error?: string;
+  created_at: number;
+  delivered_at?: number;
+}
+
 export interface DataStore extends DataStoreEventEmitter {
   storeRawEventRequest(eventPath: string, payload: string): Promise<void>;
   getSubdomainResolver(name: { name: string }): Promise<FoundOrNot<string>>;
@@ -660,6 +952,15 @@ export interface DataStore extends DataStoreEventEmitter {
   getMicroblock(args: {
     microblockHash: string;
   }): Promise<FoundOrNot<{ microblock: DbMicroblock; txs: string[] }>>;
+  /**
+   * Returns the hashes of canonical microblocks starting at the given block height and microblock
+   * sequence, in the order they were produced.
+   */
+  getMicroblockHashesFrom(args: {
+    blockHeight: number;
+    microblockSequence: number;
+    limit: number;
+  }): Promise<string[]>;
 
   getUnanchoredTxs(): Promise<{ txs: DbTx[] }>;
 
@@ -705,6 +1006,19 @@ export interface DataStore extends DataStoreEventEmitter {
    */
   getMempoolTxDigest(): Promise<FoundOrNot<{ digest: string }>>;
 
+  /**
+   * Returns fee-per-byte statistics for txs confirmed in the last `blockCount` canonical blocks and
+   * for pending mempool txs, along with the execution costs of those blocks.
+   * @param args - txTypeId: optionally restrict the sampled txs to a single tx type
+   */
+  getFeeRateStats(args: { blockCount: number; txTypeId?: DbTxTypeId }): Promise<DbFeeRateStats>;
+
+  /**
+   * Returns tx counts along with fee, age and byte size percentiles of pending mempool txs, both over
+   * every tx and per tx type.
+   */
+  getMempoolStats(): Promise<DbMempoolStats>;
+
   getDroppedTxs(args: {
     limit: number;
     offset: number;
@@ -717,6 +1031,13 @@ export interface DataStore extends DataStoreEventEmitter {
     includeUnanchored: boolean;
   }): Promise<{ results: DbTx[]; total: number }>;
 
+  /** Returns canonical txs confirmed after the given position, in the order they were mined. */
+  getTxsAfterPosition(args: {
+    position: DbTxPosition;
+    limit: number;
+    filter: DbTxStreamFilter;
+  }): Promise<DbTx[]>;
+
   getTxEvents(args: {
     txId: string;
     indexBlockHash: string;
@@ -744,6 +1065,8 @@ export interface DataStore extends DataStoreEventEmitter {
   getTransactionEvents(args: {
     addressOrTxId: { address: string; txId: undefined } | { address: undefined; txId: string };
     eventTypeFilter: DbEventTypeId[];
+    /** Only return smart contract logs whose print event topic matches, and no other event types */
+    printTopic?: string;
     limit: number;
     offset: number;
   }): Promise<{ results: DbEvent[] }>;
@@ -753,12 +1076,31 @@ export interface DataStore extends DataStoreEventEmitter {
   getSmartContractList(contractIds: string[]): Promise<DbSmartContract[]>;
   getSmartContract(contractId: string): Promise<FoundOrNot<DbSmartContract>>;
 
+  /**
+   * @param printTopic - only return logs whose print event topic, extracted at ingestion, matches
+   */
   getSmartContractEvents(args: {
     contractId: string;
+    printTopic?: string;
     limit: number;
     offset: number;
   }): Promise<FoundOrNot<DbSmartContractEvent[]>>;
 
+  /**
+   * Lists canonical `contract_call` txs sent to a contract, newest first.
+   * @param blockHeight - only txs at or below this block height are returned
+   */
+  getContractCalls(args: {
+    contractId: string;
+    functionName?: string;
+    senderAddress?: string;
+    status?: DbTxStatus[];
+    fromBlockHeight?: number;
+    blockHeight: number;
+    limit: number;
+    offset: number;
+  }): Promise<{ results: DbTx[]; total: number }>;
+
   getSmartContractByTrait(args: {
     trait: ClarityAbi;
     limit: number;
@@ -782,7 +1124,11 @@ export interface DataStore extends DataStoreEventEmitter {
     data: DbBnsSubdomain[]
   ): Promise<void>;
   updateMempoolTxs(args: { mempoolTxs: DbMempoolTx[] }): Promise<void>;
-  dropMempoolTxs(args: { status: DbTxStatus; txIds: string[] }): Promise<void>;
+  /**
+   * Marks mempool txs as dropped.
+   * @param args - newTxId: the tx replacing the dropped ones, if known, for replacement statuses
+   */
+  dropMempoolTxs(args: { status: DbTxStatus; txIds: string[]; newTxId?: string }): Promise<void>;
 
   updateBurnchainRewards(args: {
     burnchainBlockHash: string;
@@ -811,6 +1157,26 @@ export interface DataStore extends DataStoreEventEmitter {
     offset: number;
   }): Promise<{ total: number; slotHolders: DbRewardSlotHolder[] }>;
 
+  /**
+   * Returns every reward cycle up to the one containing the current chain tip, most recent first,
+   * built from canonical `stx_lock_events`, `reward_slot_holders` and `burnchain_rewards` rows.
+   */
+  getPoxCycles(args: {
+    pox: DbPoxParams;
+    limit: number;
+    offset: number;
+  }): Promise<{ results: DbPoxCycle[]; total: number }>;
+  getPoxCycle(args: { pox: DbPoxParams; cycleNumber: number }): Promise<FoundOrNot<DbPoxCycle>>;
+  /**
+   * Returns the addresses with STX locked during the given reward cycle, largest amount first.
+   */
+  getPoxCycleStackers(args: {
+    pox: DbPoxParams;
+    cycleNumber: number;
+    limit: number;
+    offset: number;
+  }): Promise<{ results: DbPoxCycleStacker[]; total: number }>;
+
   getStxBalance(args: { stxAddress: string; includeUnanchored: boolean }): Promise<DbStxBalance>;
   getStxBalanceAtBlock(stxAddress: string, blockHeight: number): Promise<DbStxBalance>;
   getFungibleTokenBalances(args: {
@@ -820,7 +1186,16 @@ export interface DataStore extends DataStoreEventEmitter {
   getNonFungibleTokenCounts(args: {
     stxAddress: string;
     untilBlock: number;
-  }): Promise<Map<string, { count: bigint; totalSent: bigint; totalReceived: bigint }>>;
+  }): Promise<Map<string, DbNftCount>>;
+  /**
+   * Returns the STX, fungible token and non-fungible token balances of a principal as of a block
+   * height. All balances are read from the same snapshot of the db, so they're consistent with each
+   * other even if blocks are written while they're being queried.
+   */
+  getPrincipalBalancesAtBlock(args: {
+    principal: string;
+    blockHeight: number;
+  }): Promise<DbPrincipalBalances>;
 
   getUnlockedStxSupply(
     args:
@@ -842,6 +1217,19 @@ export interface DataStore extends DataStoreEventEmitter {
     offset: number;
   }): Promise<{ results: DbTx[]; total: number }>;
 
+  /**
+   * Returns a page of the activity timeline of a principal: STX, FT and NFT transfers, contract calls,
+   * stacking locks and unlocks and BNS name registrations and transfers, newest first.
+   * @param args - before: only return entries positioned before this one, used to paginate
+   * @returns the page of entries and whether there are older entries
+   */
+  getAddressActivity(args: {
+    principal: string;
+    blockHeight: number;
+    limit: number;
+    before?: DbAddressActivityPosition;
+  }): Promise<{ results: DbAddressActivity[]; hasMore: boolean }>;
+
   getAddressTxsWithAssetTransfers(args: {
     stxAddress: string;
     blockHeight: number;
@@ -876,6 +1264,14 @@ export interface DataStore extends DataStoreEventEmitter {
     detectedMissingNonces: number[];
   }>;
 
+  /**
+   * Returns the nonces shared by more than one pending mempool tx sent or sponsored by an address.
+   * Only one tx per nonce can be mined, the others are eventually dropped.
+   */
+  getAddressMempoolNonceConflicts(args: {
+    stxAddress: string;
+  }): Promise<{ nonce: number; tx_ids: string[] }[]>;
+
   getInboundTransfers(args: {
     stxAddress: string;
     blockHeight: number;
@@ -889,6 +1285,17 @@ export interface DataStore extends DataStoreEventEmitter {
 
   searchPrincipal(args: { principal: string }): Promise<FoundOrNot<DbSearchResult>>;
 
+  /**
+   * Finds contracts, BNS names and tokens of the given entity types by exact, prefix, substring or
+   * fuzzy match of a term, ranked by relevance.
+   */
+  searchTerm(args: {
+    term: string;
+    entityTypes: DbSearchMatchEntityType[];
+    limit: number;
+    offset: number;
+  }): Promise<{ results: DbSearchMatch[]; total: number }>;
+
   insertFaucetRequest(faucetRequest: DbFaucetRequest): Promise<void>;
 
   getRawTx(txId: string): Promise<FoundOrNot<RawTxQueryResult>>;
@@ -934,6 +1341,29 @@ export interface DataStore extends DataStoreEventEmitter {
     includeTxMetadata: boolean;
   }): Promise<{ results: NftEventWithTxMetadata[]; total: number }>;
 
+  /**
+   * Returns the asset identifiers of all fungible tokens defined by a contract that have had events.
+   * @param contractId - Contract principal
+   */
+  getFtAssetIdentifiers(contractId: string): Promise<string[]>;
+
+  /**
+   * Returns the principals holding a positive balance of a fungible token, ranked by balance.
+   * Derived from anchored canonical events.
+   * @param args - Query arguments
+   */
+  getFtHolders(args: {
+    assetIdentifier: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ results: DbFtHolder[]; total: number }>;
+
+  /**
+   * Returns the minted and burned amounts of a fungible token, derived from anchored canonical events.
+   * @param assetIdentifier - Fully qualified asset identifier
+   */
+  getFtSupply(assetIdentifier: string): Promise<FoundOrNot<DbFtSupply>>;
+
   /**
    * @deprecated Use `getNftHoldings` instead.
    */
@@ -980,6 +1410,32 @@ export interface DataStore extends DataStoreEventEmitter {
     name: string;
     includeUnanchored: boolean;
   }): Promise<FoundOrNot<DbBnsZoneFile>>;
+  /**
+   * Lists the operations on a BNS name in chronological order, 100 per page.
+   */
+  getNameHistory(args: {
+    name: string;
+    page: number;
+    includeUnanchored: boolean;
+  }): Promise<{ results: DbBnsNameHistoryEntry[] }>;
+  /**
+   * Lists the names whose latest expiration falls within `withinBlocks` blocks after the chain tip,
+   * soonest first, 100 per page. Revoked names are left out.
+   */
+  getExpiringNames(args: {
+    withinBlocks: number;
+    page: number;
+    includeUnanchored: boolean;
+  }): Promise<{ results: DbBnsExpiringName[] }>;
+  /**
+   * Resolves the primary name of each principal: the name or subdomain it currently owns that it
+   * most recently registered or received.
+   * @returns primary names keyed by principal, principals without any name are left out
+   */
+  getPrimaryNames(args: {
+    principals: string[];
+    includeUnanchored: boolean;
+  }): Promise<Map<string, string>>;
   getNamesByAddressList(args: {
     address: string;
     includeUnanchored: boolean;
@@ -1022,6 +1478,30 @@ export interface DataStore extends DataStoreEventEmitter {
   updateNFtMetadata(nftMetadata: DbNonFungibleTokenMetadata): Promise<number>;
   updateFtMetadata(ftMetadata: DbFungibleTokenMetadata): Promise<number>;
 
+  /**
+   * Inserts or replaces the metadata of a single NFT.
+   */
+  updateNftTokenMetadata(metadata: DbNftTokenMetadata): Promise<void>;
+
+  getNftTokenMetadata(args: {
+    contractId: string;
+    tokenId: bigint;
+  }): Promise<FoundOrNot<DbNftTokenMetadata>>;
+
+  /**
+   * Returns the ids of every canonical NFT minted for the given assets, for assets identified by
+   * `uint` values as required by SIP-009. Sorted in ascending order.
+   * @param assetIdentifiers - fully qualified NFT asset identifiers
+   */
+  getNftMintedTokenIds(assetIdentifiers: string[]): Promise<bigint[]>;
+
+  /**
+   * Returns the metadata of every given NFT that has been processed, in no particular order.
+   */
+  getNftTokenMetadataBatch(
+    tokens: { contractId: string; tokenId: bigint }[]
+  ): Promise<DbNftTokenMetadata[]>;
+
   getFtMetadataList(args: {
     limit: number;
     offset: number;
@@ -1055,6 +1535,73 @@ export interface DataStore extends DataStoreEventEmitter {
     excludingEntries: number[]
   ): Promise<DbTokenMetadataQueueEntry[]>;
 
+  /**
+   * Queues a token contract for its metadata to be processed again, e.g. after its token URI changed.
+   * Returns the pending entry instead if the same refresh is already queued.
+   * @param contractId - SIP-009 or SIP-010 contract
+   * @param tokenIdRange - only refresh these NFTs instead of the whole contract
+   * @returns not found if the contract doesn't exist or isn't a token contract
+   */
+  enqueueTokenMetadataRefresh(args: {
+    contractId: string;
+    tokenIdRange?: DbTokenIdRange;
+  }): Promise<FoundOrNot<DbTokenMetadataQueueEntry>>;
+
+  insertWebhook(webhook: Omit<DbWebhook, 'id'>): Promise<DbWebhook>;
+
+  getWebhook(id: number): Promise<FoundOrNot<DbWebhook>>;
+
+  getWebhooks(args: {
+    limit: number;
+    offset: number;
+  }): Promise<{ results: DbWebhook[]; total: number }>;
+
+  /** Returns every registered webhook, used to match new txs against webhook filters. */
+  getAllWebhooks(): Promise<DbWebhook[]>;
+
+  /**
+   * Deletes a webhook along with its delivery log.
+   * @returns true if the webhook existed
+   */
+  deleteWebhook(id: number): Promise<boolean>;
+
+  /**
+   * Creates pending webhook deliveries. Deliveries for a webhook and tx that already exist are skipped.
+   * @returns the created deliveries
+   */
+  insertWebhookDeliveries(
+    deliveries: Pick<DbWebhookDelivery, 'webhook_id' | 'tx_id' | 'payload' | 'created_at'>[]
+  ): Promise<DbWebhookDelivery[]>;
+
+  getWebhookDeliveries(args: {
+    webhookId: number;
+    limit: number;
+    offset: number;
+  }): Promise<{ results: DbWebhookDelivery[]; total: number }>;
+
+  /**
+   * Returns pending webhook deliveries whose next attempt is due.
+   * @param excludingDeliveries - ids of deliveries that are already being attempted
+   */
+  getDueWebhookDeliveries(args: {
+    now: number;
+    limit: number;
+    excludingDeliveries: number[];
+  }): Promise<DbWebhookDelivery[]>;
+
+  updateWebhookDelivery(
+    delivery: Pick<
+      DbWebhookDelivery,
+      | 'id'
+      | 'status'
+      | 'attempts'
+      | 'next_attempt_at'
+      | 'response_status'
+      | 'error'
+      | 'delivered_at'
+    >
+  ): Promise<void>;
+
   close(): Promise<void>;
 }
 
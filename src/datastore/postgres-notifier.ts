@@ -32,6 +32,13 @@ export type PgTokensNotificationPayload = {
   contractID: string;
 };
 
+export type PgReorgNotificationPayload = {
+  forkBlockHeight: number;
+  forkIndexBlockHash: string;
+  orphanedIndexBlockHashes: string[];
+  orphanedMicroblockHashes: string[];
+};
+
 type PgNotificationPayload =
   | PgBlockNotificationPayload
   | PgMicroblockNotificationPayload
@@ -39,7 +46,8 @@ type PgNotificationPayload =
   | PgAddressNotificationPayload
   | PgTokenMetadataNotificationPayload
   | PgNameNotificationPayload
-  | PgTokensNotificationPayload;
+  | PgTokensNotificationPayload
+  | PgReorgNotificationPayload;
 
 type PgNotification = {
   type: string;
@@ -111,6 +119,10 @@ export class PgNotifier {
     await this.notify({ type: 'tokensUpdate', payload: payload });
   }
 
+  public async sendReorg(payload: PgReorgNotificationPayload) {
+    await this.notify({ type: 'reorg', payload: payload });
+  }
+
   public async close() {
     logger.info(`PgNotifier closing channel: ${this.pgChannelName}`);
     await this.subscriber.unlisten(this.pgChannelName);
@@ -74,6 +74,8 @@ import {
   AddressNftEventIdentifier,
   DbRewardSlotHolder,
   DbBnsName,
+  DbBnsNameHistoryEntry,
+  DbBnsExpiringName,
   DbBnsNamespace,
   DbBnsZoneFile,
   DbBnsSubdomain,
@@ -91,22 +93,48 @@ import {
   BlockIdentifier,
   StxUnlockEvent,
   DbNonFungibleTokenMetadata,
+  DbNftTokenMetadata,
   DbFungibleTokenMetadata,
   DbTokenMetadataQueueEntry,
+  DbTokenIdRange,
   DbSearchResultWithMetadata,
   DbChainTip,
   NftHoldingInfo,
   NftHoldingInfoWithTxMetadata,
+  DbFtHolder,
+  DbFtSupply,
+  DbSearchMatch,
+  DbSearchMatchEntityType,
+  DbNftCount,
+  DbPrincipalBalances,
   NftEventWithTxMetadata,
   DbAssetEventTypeId,
   DbTxGlobalStatus,
   DataStoreAttachmentData,
   DataStoreBnsBlockData,
   DataStoreAttachmentSubdomainData,
+  DbFeeRateStats,
+  DbFeeRatePercentiles,
+  DbMempoolStats,
+  DbAddressActivity,
+  DbAddressActivityPosition,
+  DbAddressActivityType,
+  DbMempoolStatsPercentiles,
+  DbMempoolTxStats,
+  DbFeeRateBlockCost,
+  DbPoxParams,
+  DbPoxCycle,
+  DbPoxCycleStacker,
+  DbTxStreamFilter,
+  DbTxPosition,
+  DbWebhook,
+  DbWebhookDelivery,
+  DbWebhookDeliveryStatus,
 } from './common';
 import {
   AddressTokenOfferingLocked,
   TransactionType,
+  TransactionEventType,
   AddressUnlockSchedule,
   Block,
   MempoolTransactionStatus,
@@ -123,6 +151,7 @@ import {
   PgNotifier,
   PgTokenMetadataNotificationPayload,
   PgTokensNotificationPayload,
+  PgReorgNotificationPayload,
   PgTxNotificationPayload,
 } from './postgres-notifier';
 import * as zoneFileParser from 'zone-file';
@@ -386,7 +415,10 @@ const MEMPOOL_TX_COLUMNS = `
   poison_microblock_header_1, poison_microblock_header_2,
 
   -- coinbase tx columns
-  coinbase_payload
+  coinbase_payload,
+
+  -- replace-by-fee columns
+  replaced_by_tx_id
 `;
 
 const BLOCK_COLUMNS = `
@@ -495,6 +527,57 @@ function countOverColumn(alias: string = 'count'): string {
   return `(COUNT(*) OVER())::INTEGER AS ${alias}`;
 }
 
+/**
+ * Escapes the `LIKE` pattern characters of a string so it's matched literally.
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Shorthand for a search condition on a text column, matching the search term in `$1` (or its
+ * `LIKE`-escaped form in `$2`) as a substring or by trigram word similarity.
+ */
+function searchMatchCondition(column: string): string {
+  return `(${column} ILIKE '%' || $2 || '%' OR $1 <% ${column})`;
+}
+
+/**
+ * Shorthand for the relevance of a search match on a text column: exact matches rank above prefix
+ * matches, which rank above substring matches. Trigram word similarity ranks fuzzy matches and breaks ties.
+ */
+function searchMatchScore(column: string): string {
+  return `(
+    CASE
+      WHEN ${column} ILIKE $2 THEN 3
+      WHEN ${column} ILIKE $2 || '%' THEN 2
+      WHEN ${column} ILIKE '%' || $2 || '%' THEN 1
+      ELSE 0
+    END + word_similarity($1, ${column})
+  )`;
+}
+
+/**
+ * Shorthand for a `pox_locks` CTE that maps every canonical STX lock event to the reward cycles its STX
+ * were locked for. `first_cycle` is inclusive and `unlock_cycle` is exclusive.
+ * @param firstBurnHeightParam - Query parameter holding the first burnchain block height, e.g. `$1`
+ * @param cycleLengthParam - Query parameter holding the reward cycle length, e.g. `$2`
+ * @returns `string` - CTE statement portion
+ */
+function poxLocksCte(firstBurnHeightParam: string, cycleLengthParam: string): string {
+  return `
+    pox_locks AS (
+      SELECT
+        l.locked_address, l.locked_amount, l.tx_id, l.block_height, l.unlock_height, b.burn_block_height,
+        FLOOR((b.burn_block_height - ${firstBurnHeightParam}::integer)::numeric / ${cycleLengthParam}::integer)::integer + 1 AS first_cycle,
+        FLOOR((l.unlock_height - ${firstBurnHeightParam}::integer)::numeric / ${cycleLengthParam}::integer)::integer AS unlock_cycle
+      FROM stx_lock_events AS l
+      INNER JOIN blocks AS b ON b.index_block_hash = l.index_block_hash
+      WHERE l.canonical = true AND l.microblock_canonical = true AND b.canonical = true
+    )
+  `;
+}
+
 interface BlockQueryResult {
   block_hash: Buffer;
   index_block_hash: Buffer;
@@ -574,6 +657,8 @@ interface MempoolTxQueryResult {
   // `coinbase` tx types
   coinbase_payload?: Buffer;
 
+  replaced_by_tx_id: Buffer | null;
+
   // sending abi in case tx is contract call
   abi: unknown | null;
 }
@@ -653,6 +738,31 @@ interface FaucetRequestQueryResult {
   occurred_at: string;
 }
 
+interface WebhookQueryResult {
+  id: number;
+  url: string;
+  secret: string;
+  address: string | null;
+  contract_id: string | null;
+  event_type: string | null;
+  print_topic: string | null;
+  created_at: string;
+}
+
+interface WebhookDeliveryQueryResult {
+  id: number;
+  webhook_id: number;
+  tx_id: Buffer;
+  payload: string;
+  status: string;
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
 interface UpdatedEntities {
   markedCanonical: {
     blocks: number;
@@ -686,6 +796,16 @@ interface UpdatedEntities {
   };
 }
 
+/**
+ * Blocks and microblocks orphaned while processing a chain update, reported with a `reorg` notification.
+ */
+interface ReorgOrphans {
+  /** Most recent anchor block shared by the orphaned and the new canonical fork. */
+  forkBlock?: { blockHeight: number; indexBlockHash: string };
+  indexBlockHashes: string[];
+  microblockHashes: string[];
+}
+
 interface TransferQueryResult {
   sender: string;
   memo: Buffer;
@@ -707,6 +827,17 @@ interface NonFungibleTokenMetadataQueryResult {
   sender_address: string;
 }
 
+interface NftTokenMetadataQueryResult {
+  contract_id: string;
+  token_id: string;
+  token_uri: string;
+  name: string;
+  description: string;
+  image_uri: string;
+  image_canonical_uri: string;
+  attributes: unknown[] | null;
+}
+
 interface FungibleTokenMetadataQueryResult {
   token_uri: string;
   name: string;
@@ -728,6 +859,8 @@ interface DbTokenMetadataQueueEntryQuery {
   block_height: number;
   processed: boolean;
   retry_count: number;
+  token_id_start: string | null;
+  token_id_end: string | null;
 }
 
 interface StxEventQueryResult {
@@ -879,10 +1012,63 @@ export class PgDataStore
           const metadata = notification.payload as PgTokenMetadataNotificationPayload;
           this.emit('tokenMetadataUpdateQueued', metadata.queueId);
           break;
+        case 'reorg':
+          const reorg = notification.payload as PgReorgNotificationPayload;
+          void this.emitReorg(reorg);
+          break;
       }
     });
   }
 
+  /**
+   * Emits a `reorg` event with the txs included in the orphaned blocks and microblocks. Tx ids are looked
+   * up here rather than sent with the notification because they could exceed the `NOTIFY` payload limit.
+   */
+  async emitReorg(payload: PgReorgNotificationPayload) {
+    try {
+      const orphanedTxIds = await this.query(async client => {
+        const result = await client.query<{ tx_id: Buffer }>(
+          `
+          SELECT DISTINCT tx_id
+          FROM txs
+          WHERE (index_block_hash = ANY($1) AND canonical = false)
+            OR (microblock_hash = ANY($2) AND microblock_canonical = false)
+          `,
+          [
+            payload.orphanedIndexBlockHashes.map(hash => hexToBuffer(hash)),
+            payload.orphanedMicroblockHashes.map(hash => hexToBuffer(hash)),
+          ]
+        );
+        return result.rows.map(row => bufferToHexPrefixString(row.tx_id));
+      });
+      this.emit('reorg', {
+        fork_block_height: payload.forkBlockHeight,
+        fork_index_block_hash: payload.forkIndexBlockHash,
+        orphaned_index_block_hashes: payload.orphanedIndexBlockHashes,
+        orphaned_microblock_hashes: payload.orphanedMicroblockHashes,
+        orphaned_tx_ids: orphanedTxIds,
+      });
+    } catch (error) {
+      logError('Error emitting reorg notification', error);
+    }
+  }
+
+  async sendReorgNotification(orphans: ReorgOrphans) {
+    if (
+      !this.notifier ||
+      !orphans.forkBlock ||
+      (orphans.indexBlockHashes.length === 0 && orphans.microblockHashes.length === 0)
+    ) {
+      return;
+    }
+    await this.notifier.sendReorg({
+      forkBlockHeight: orphans.forkBlock.blockHeight,
+      forkIndexBlockHash: orphans.forkBlock.indexBlockHash,
+      orphanedIndexBlockHashes: orphans.indexBlockHashes,
+      orphanedMicroblockHashes: orphans.microblockHashes,
+    });
+  }
+
   /**
    * Creates a postgres pool client connection. If the connection fails due to a transient error, it is retried until successful.
    * You'd expect that the pg lib to handle this, but it doesn't, see https://github.com/brianc/node-postgres/issues/1789
@@ -1189,6 +1375,7 @@ export class PgDataStore
   }
 
   async updateMicroblocksInternal(data: DataStoreMicroblockUpdateData): Promise<void> {
+    const reorgOrphans: ReorgOrphans = { indexBlockHashes: [], microblockHashes: [] };
     await this.queryTx(async client => {
       // Sanity check: ensure incoming microblocks have a `parent_index_block_hash` that matches the API's
       // current known canonical chain tip. We assume this holds true so incoming microblock data is always
@@ -1288,6 +1475,11 @@ export class PgDataStore
           microblocks: orphanedMicroblocks,
         });
         const microOrphanedTxs = microOrphanResult.updatedTxs;
+        reorgOrphans.forkBlock = {
+          blockHeight: chainTip.blockHeight,
+          indexBlockHash: chainTip.indexBlockHash,
+        };
+        reorgOrphans.microblockHashes.push(...orphanedMicroblocks);
         // Restore any micro-orphaned txs into the mempool
         const restoredMempoolTxs = await this.restoreMempoolTxs(
           client,
@@ -1319,13 +1511,15 @@ export class PgDataStore
         await this.emitAddressTxUpdates(txs);
       }
     });
+    await this.sendReorgNotification(reorgOrphans);
   }
 
   async update(data: DataStoreBlockUpdateData): Promise<void> {
     const tokenMetadataQueueEntries: DbTokenMetadataQueueEntry[] = [];
+    const reorgOrphans: ReorgOrphans = { indexBlockHashes: [], microblockHashes: [] };
     await this.queryTx(async client => {
       const chainTip = await this.getChainTip(client, false);
-      await this.handleReorg(client, data.block, chainTip.blockHeight);
+      await this.handleReorg(client, data.block, chainTip.blockHeight, reorgOrphans);
       // If the incoming block is not of greater height than current chain tip, then store data as non-canonical.
       const isCanonical = data.block.block_height > chainTip.blockHeight;
       if (!isCanonical) {
@@ -1432,19 +1626,28 @@ export class PgDataStore
       // When processing an immediately-non-canonical block, do not orphan and possible existing microblocks
       // which may be still considered canonical by the canonical block at this height.
       if (isCanonical) {
-        const { acceptedMicroblockTxs, orphanedMicroblockTxs } = await this.updateMicroCanonical(
-          client,
-          {
-            isCanonical: isCanonical,
-            blockHeight: data.block.block_height,
-            blockHash: data.block.block_hash,
-            indexBlockHash: data.block.index_block_hash,
-            parentIndexBlockHash: data.block.parent_index_block_hash,
-            parentMicroblockHash: data.block.parent_microblock_hash,
-            parentMicroblockSequence: data.block.parent_microblock_sequence,
-            burnBlockTime: data.block.burn_block_time,
-          }
-        );
+        const {
+          acceptedMicroblockTxs,
+          orphanedMicroblockTxs,
+          orphanedMicroblocks,
+        } = await this.updateMicroCanonical(client, {
+          isCanonical: isCanonical,
+          blockHeight: data.block.block_height,
+          blockHash: data.block.block_hash,
+          indexBlockHash: data.block.index_block_hash,
+          parentIndexBlockHash: data.block.parent_index_block_hash,
+          parentMicroblockHash: data.block.parent_microblock_hash,
+          parentMicroblockSequence: data.block.parent_microblock_sequence,
+          burnBlockTime: data.block.burn_block_time,
+        });
+
+        if (orphanedMicroblocks.length > 0) {
+          reorgOrphans.forkBlock = reorgOrphans.forkBlock ?? {
+            blockHeight: data.block.block_height - 1,
+            indexBlockHash: data.block.parent_index_block_hash,
+          };
+          reorgOrphans.microblockHashes.push(...orphanedMicroblocks);
+        }
 
         // Identify any micro-orphaned txs that also didn't make it into this anchor block, and restore them into the mempool
         const orphanedAndMissingTxs = orphanedMicroblockTxs.filter(
@@ -1478,6 +1681,7 @@ export class PgDataStore
           await this.updateTx(client, entry.tx);
           await this.updateBatchStxEvents(client, entry.tx, entry.stxEvents);
           await this.updatePrincipalStxTxs(client, entry.tx, entry.stxEvents);
+          await this.updateContractCall(client, entry.tx);
           await this.updateBatchSmartContractEvent(client, entry.tx, entry.contractLogEvents);
           for (const stxLockEvent of entry.stxLockEvents) {
             await this.updateStxLockEvent(client, entry.tx, stxLockEvent);
@@ -1485,6 +1689,14 @@ export class PgDataStore
           for (const ftEvent of entry.ftEvents) {
             await this.updateFtEvent(client, entry.tx, ftEvent);
           }
+          if (entry.ftEvents.length > 0) {
+            await this.applyFtEventChanges(
+              client,
+              'tx_id = $2 AND index_block_hash = $3',
+              [hexToBuffer(entry.tx.tx_id), hexToBuffer(entry.tx.index_block_hash)],
+              1
+            );
+          }
           for (const nftEvent of entry.nftEvents) {
             await this.updateNftEvent(client, entry.tx, nftEvent);
           }
@@ -1543,6 +1755,7 @@ export class PgDataStore
         await this.notifier.sendTokenMetadata({ queueId: tokenMetadataQueueEntry.queueId });
       }
     }
+    await this.sendReorgNotification(reorgOrphans);
   }
 
   async updateMicroCanonical(
@@ -1688,10 +1901,12 @@ export class PgDataStore
 
       await this.updateBatchStxEvents(client, entry.tx, entry.stxEvents);
       await this.updatePrincipalStxTxs(client, entry.tx, entry.stxEvents);
+      await this.updateContractCall(client, entry.tx);
       await this.updateBatchSmartContractEvent(client, entry.tx, entry.contractLogEvents);
       for (const stxLockEvent of entry.stxLockEvents) {
         await this.updateStxLockEvent(client, entry.tx, stxLockEvent);
       }
+      // Unanchored events are not counted in `ft_balances` until their microblock is accepted
       for (const ftEvent of entry.ftEvents) {
         await this.updateFtEvent(client, entry.tx, ftEvent);
       }
@@ -1785,6 +2000,15 @@ export class PgDataStore
       bufMicroblockHashes,
       updatedMbTxs.map(tx => hexToBuffer(tx.tx_id)),
     ];
+    const ftEventFilter = `microblock_hash = ANY($2)
+      AND (index_block_hash = $3 OR index_block_hash = '\\x'::bytea)
+      AND tx_id = ANY($4)`;
+    const ftEventFilterParams = [
+      bufMicroblockHashes,
+      bufIndexBlockHash,
+      updatedMbTxs.map(tx => hexToBuffer(tx.tx_id)),
+    ];
+    await this.applyFtEventChanges(client, ftEventFilter, ftEventFilterParams, -1);
     for (const associatedTableName of TX_METADATA_TABLES) {
       await client.query(
         `
@@ -1797,6 +2021,7 @@ export class PgDataStore
         updatedAssociatedTableParams
       );
     }
+    await this.applyFtEventChanges(client, ftEventFilter, ftEventFilterParams, 1);
 
     // Update `principal_stx_txs`
     await client.query(
@@ -1808,6 +2033,16 @@ export class PgDataStore
       updatedAssociatedTableParams
     );
 
+    // Update `contract_calls`
+    await client.query(
+      `UPDATE contract_calls
+      SET microblock_canonical = $1, canonical = $2, index_block_hash = $3
+      WHERE microblock_hash = ANY($4)
+      AND (index_block_hash = $3 OR index_block_hash = '\\x'::bytea)
+      AND tx_id = ANY($5)`,
+      updatedAssociatedTableParams
+    );
+
     return { updatedTxs: updatedMbTxs };
   }
 
@@ -1911,6 +2146,27 @@ export class PgDataStore
     });
   }
 
+  async getMicroblockHashesFrom(args: {
+    blockHeight: number;
+    microblockSequence: number;
+    limit: number;
+  }): Promise<string[]> {
+    return await this.query(async client => {
+      const result = await client.query<{ microblock_hash: Buffer }>(
+        `
+        SELECT microblock_hash
+        FROM microblocks
+        WHERE canonical = true AND microblock_canonical = true
+          AND (block_height, microblock_sequence) >= ($1, $2)
+        ORDER BY block_height ASC, microblock_sequence ASC
+        LIMIT $3
+        `,
+        [args.blockHeight, args.microblockSequence, args.limit]
+      );
+      return result.rows.map(row => bufferToHexPrefixString(row.microblock_hash));
+    });
+  }
+
   async getMicroblocks(args: {
     limit: number;
     offset: number;
@@ -2126,6 +2382,35 @@ export class PgDataStore
     });
   }
 
+  async getAddressMempoolNonceConflicts(args: {
+    stxAddress: string;
+  }): Promise<{ nonce: number; tx_ids: string[] }[]> {
+    return await this.query(async client => {
+      const result = await client.query<{ nonce: number; tx_ids: Buffer[] }>(
+        `
+        SELECT nonce, ARRAY_AGG(tx_id ORDER BY fee_rate DESC, receipt_time DESC) AS tx_ids
+        FROM (
+          SELECT nonce, tx_id, fee_rate, receipt_time
+          FROM mempool_txs
+          WHERE sender_address = $1 AND pruned = false
+          UNION ALL
+          SELECT sponsor_nonce AS nonce, tx_id, fee_rate, receipt_time
+          FROM mempool_txs
+          WHERE sponsor_address = $1 AND sponsored = true AND pruned = false
+        ) AS pending
+        GROUP BY nonce
+        HAVING COUNT(*) > 1
+        ORDER BY nonce ASC
+        `,
+        [args.stxAddress]
+      );
+      return result.rows.map(row => ({
+        nonce: row.nonce,
+        tx_ids: row.tx_ids.map(txId => bufferToHexPrefixString(txId)),
+      }));
+    });
+  }
+
   getNameCanonical(txId: string, indexBlockHash: string): Promise<FoundOrNot<boolean>> {
     return this.query(async client => {
       const queryResult = await client.query(
@@ -2423,6 +2708,13 @@ export class PgDataStore
       WHERE tx_id = ANY($3) AND index_block_hash = $1 AND canonical != $2`,
       [indexBlockHash, canonical, txIds.map(tx => hexToBuffer(tx.tx_id))]
     );
+    // Update `contract_calls`
+    await client.query(
+      `UPDATE contract_calls
+      SET canonical = $2
+      WHERE tx_id = ANY($3) AND index_block_hash = $1 AND canonical != $2`,
+      [indexBlockHash, canonical, txIds.map(tx => hexToBuffer(tx.tx_id))]
+    );
 
     const minerRewardResults = await client.query(
       `
@@ -2466,6 +2758,7 @@ export class PgDataStore
       updatedEntities.markedNonCanonical.stxEvents += stxResults.rowCount;
     }
 
+    await this.applyFtEventChanges(client, 'index_block_hash = $2', [indexBlockHash], -1);
     const ftResult = await client.query(
       `
       UPDATE ft_events
@@ -2474,6 +2767,7 @@ export class PgDataStore
       `,
       [indexBlockHash, canonical]
     );
+    await this.applyFtEventChanges(client, 'index_block_hash = $2', [indexBlockHash], 1);
     if (canonical) {
       updatedEntities.markedCanonical.ftEvents += ftResult.rowCount;
     } else {
@@ -2577,7 +2871,8 @@ export class PgDataStore
   async restoreOrphanedChain(
     client: ClientBase,
     indexBlockHash: Buffer,
-    updatedEntities: UpdatedEntities
+    updatedEntities: UpdatedEntities,
+    reorgOrphans?: ReorgOrphans
   ): Promise<UpdatedEntities> {
     const restoredBlockResult = await client.query<BlockQueryResult>(
       `
@@ -2618,6 +2913,7 @@ export class PgDataStore
 
     if (orphanedBlockResult.rowCount > 0) {
       const orphanedBlocks = orphanedBlockResult.rows.map(b => this.parseBlockQueryResult(b));
+      reorgOrphans?.indexBlockHashes.push(...orphanedBlocks.map(b => b.index_block_hash));
       for (const orphanedBlock of orphanedBlocks) {
         const microCanonicalUpdateResult = await this.updateMicroCanonical(client, {
           isCanonical: false,
@@ -2674,6 +2970,7 @@ export class PgDataStore
     updatedEntities.markedCanonical.microblocks += microblocksAccepted.size;
     updatedEntities.markedNonCanonical.microblocks += microblocksOrphaned.size;
 
+    reorgOrphans?.microblockHashes.push(...microblocksOrphaned);
     microblocksOrphaned.forEach(mb => logger.verbose(`Marked microblock as non-canonical: ${mb}`));
     microblocksAccepted.forEach(mb => logger.verbose(`Marked microblock as canonical: ${mb}`));
 
@@ -2714,8 +3011,15 @@ export class PgDataStore
       await this.restoreOrphanedChain(
         client,
         parentResult.rows[0].index_block_hash,
-        updatedEntities
-      );
+        updatedEntities,
+        reorgOrphans
+      );
+    } else if (reorgOrphans) {
+      // The parent of the oldest restored block is on both forks.
+      reorgOrphans.forkBlock = {
+        blockHeight: restoredBlock.block_height - 1,
+        indexBlockHash: restoredBlock.parent_index_block_hash,
+      };
     }
     return updatedEntities;
   }
@@ -2723,7 +3027,8 @@ export class PgDataStore
   async handleReorg(
     client: ClientBase,
     block: DbBlock,
-    chainTipHeight: number
+    chainTipHeight: number,
+    reorgOrphans?: ReorgOrphans
   ): Promise<UpdatedEntities> {
     const updatedEntities: UpdatedEntities = {
       markedCanonical: {
@@ -2793,7 +3098,8 @@ export class PgDataStore
         await this.restoreOrphanedChain(
           client,
           parentResult.rows[0].index_block_hash,
-          updatedEntities
+          updatedEntities,
+          reorgOrphans
         );
         this.logReorgResultInfo(updatedEntities);
       }
@@ -3138,6 +3444,16 @@ export class PgDataStore
         `,
         [blockIdentifer.height]
       );
+    } else if ('indexBlockHash' in blockIdentifer) {
+      result = await client.query<BlockQueryResult>(
+        `
+        SELECT ${BLOCK_COLUMNS}
+        FROM blocks
+        WHERE index_block_hash = $1
+        LIMIT 1
+        `,
+        [hexToBuffer(blockIdentifer.indexBlockHash)]
+      );
     } else if ('burnBlockHash' in blockIdentifer) {
       result = await client.query<BlockQueryResult>(
         `
@@ -3391,6 +3707,183 @@ export class PgDataStore
     });
   }
 
+  /**
+   * Returns the reward cycle that will follow the cycle of the current chain tip, or `-1` if the chain tip
+   * is not yet past the first burnchain block height.
+   */
+  async getUpcomingPoxCycle(client: ClientBase, pox: DbPoxParams): Promise<number> {
+    const currentBlock = await this.getCurrentBlockInternal(client);
+    if (!currentBlock.found) {
+      return -1;
+    }
+    const burnHeight = currentBlock.result.burn_block_height - pox.firstBurnchainBlockHeight;
+    if (burnHeight < 0) {
+      return -1;
+    }
+    return Math.floor(burnHeight / pox.rewardCycleLength) + 1;
+  }
+
+  async queryPoxCycles(
+    client: ClientBase,
+    pox: DbPoxParams,
+    cycleNumbers: number[]
+  ): Promise<DbPoxCycle[]> {
+    const result = await client.query<{
+      cycle_number: number;
+      burn_block_start_height: number;
+      burn_block_end_height: number;
+      total_stacked: string;
+      stacker_count: number;
+      reward_slot_holder_count: number;
+      burnchain_reward_amount: string;
+    }>(
+      `
+      WITH ${poxLocksCte('$2', '$3')},
+      cycles AS (
+        SELECT
+          cycle_number,
+          $2::integer + cycle_number * $3::integer AS burn_block_start_height,
+          $2::integer + (cycle_number + 1) * $3::integer - 1 AS burn_block_end_height
+        FROM UNNEST($1::integer[]) AS cycle_number
+      )
+      SELECT
+        c.cycle_number, c.burn_block_start_height, c.burn_block_end_height,
+        (
+          SELECT COALESCE(SUM(locked_amount), 0)
+          FROM pox_locks
+          WHERE first_cycle <= c.cycle_number AND unlock_cycle > c.cycle_number
+        ) AS total_stacked,
+        (
+          SELECT COUNT(DISTINCT locked_address)
+          FROM pox_locks
+          WHERE first_cycle <= c.cycle_number AND unlock_cycle > c.cycle_number
+        )::integer AS stacker_count,
+        (
+          SELECT COUNT(*)
+          FROM reward_slot_holders
+          WHERE canonical = true
+            AND burn_block_height BETWEEN c.burn_block_start_height AND c.burn_block_end_height
+        )::integer AS reward_slot_holder_count,
+        (
+          SELECT COALESCE(SUM(reward_amount), 0)
+          FROM burnchain_rewards
+          WHERE canonical = true
+            AND burn_block_height BETWEEN c.burn_block_start_height AND c.burn_block_end_height
+        ) AS burnchain_reward_amount
+      FROM cycles AS c
+      ORDER BY c.cycle_number DESC
+      `,
+      [cycleNumbers, pox.firstBurnchainBlockHeight, pox.rewardCycleLength]
+    );
+    return result.rows.map(r => {
+      const cycle: DbPoxCycle = {
+        cycle_number: r.cycle_number,
+        burn_block_start_height: r.burn_block_start_height,
+        burn_block_end_height: r.burn_block_end_height,
+        total_stacked: BigInt(r.total_stacked),
+        stacker_count: r.stacker_count,
+        reward_slot_holder_count: r.reward_slot_holder_count,
+        burnchain_reward_amount: BigInt(r.burnchain_reward_amount),
+      };
+      return cycle;
+    });
+  }
+
+  async getPoxCycles({
+    pox,
+    limit,
+    offset,
+  }: {
+    pox: DbPoxParams;
+    limit: number;
+    offset: number;
+  }): Promise<{ results: DbPoxCycle[]; total: number }> {
+    return await this.queryTx(async client => {
+      const upcomingCycle = await this.getUpcomingPoxCycle(client, pox);
+      const total = upcomingCycle + 1;
+      const cycleNumbers: number[] = [];
+      for (let cycle = upcomingCycle - offset; cycle >= 0 && cycleNumbers.length < limit; cycle--) {
+        cycleNumbers.push(cycle);
+      }
+      if (cycleNumbers.length === 0) {
+        return { results: [], total };
+      }
+      const results = await this.queryPoxCycles(client, pox, cycleNumbers);
+      return { results, total };
+    });
+  }
+
+  async getPoxCycle({
+    pox,
+    cycleNumber,
+  }: {
+    pox: DbPoxParams;
+    cycleNumber: number;
+  }): Promise<FoundOrNot<DbPoxCycle>> {
+    return await this.queryTx(async client => {
+      const upcomingCycle = await this.getUpcomingPoxCycle(client, pox);
+      if (cycleNumber < 0 || cycleNumber > upcomingCycle) {
+        return { found: false } as const;
+      }
+      const [result] = await this.queryPoxCycles(client, pox, [cycleNumber]);
+      return { found: true, result };
+    });
+  }
+
+  async getPoxCycleStackers({
+    pox,
+    cycleNumber,
+    limit,
+    offset,
+  }: {
+    pox: DbPoxParams;
+    cycleNumber: number;
+    limit: number;
+    offset: number;
+  }): Promise<{ results: DbPoxCycleStacker[]; total: number }> {
+    return await this.query(async client => {
+      const result = await client.query<{
+        locked_address: string;
+        locked_amount: string;
+        tx_id: Buffer;
+        block_height: number;
+        burn_block_height: number;
+        unlock_height: number;
+        first_cycle: number;
+        unlock_cycle: number;
+        count: number;
+      }>(
+        `
+        WITH ${poxLocksCte('$2', '$3')}
+        SELECT
+          locked_address, locked_amount, tx_id, block_height, burn_block_height, unlock_height,
+          first_cycle, unlock_cycle, ${countOverColumn()}
+        FROM pox_locks
+        WHERE first_cycle <= $1::integer AND unlock_cycle > $1::integer
+        ORDER BY locked_amount DESC, locked_address ASC
+        LIMIT $4
+        OFFSET $5
+        `,
+        [cycleNumber, pox.firstBurnchainBlockHeight, pox.rewardCycleLength, limit, offset]
+      );
+      const total = result.rows[0]?.count ?? 0;
+      const results = result.rows.map(r => {
+        const stacker: DbPoxCycleStacker = {
+          locked_address: r.locked_address,
+          locked_amount: BigInt(r.locked_amount),
+          tx_id: bufferToHexPrefixString(r.tx_id),
+          block_height: r.block_height,
+          burn_block_height: r.burn_block_height,
+          unlock_height: r.unlock_height,
+          first_cycle: r.first_cycle,
+          unlock_cycle: r.unlock_cycle,
+        };
+        return stacker;
+      });
+      return { results, total };
+    });
+  }
+
   async getTxsFromBlock(
     blockIdentifer: BlockIdentifier,
     limit: number,
@@ -3645,6 +4138,7 @@ export class PgDataStore
 
   async updateMempoolTxs({ mempoolTxs: txs }: { mempoolTxs: DbMempoolTx[] }): Promise<void> {
     const updatedTxs: DbMempoolTx[] = [];
+    const replacedTxIds: string[] = [];
     await this.queryTx(async client => {
       const chainTip = await this.getChainTip(client, false);
       for (const tx of txs) {
@@ -3652,7 +4146,7 @@ export class PgDataStore
           `
           INSERT INTO mempool_txs(
             ${MEMPOOL_TX_COLUMNS}
-          ) values($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27)
+          ) values($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28)
           ON CONFLICT ON CONSTRAINT unique_tx_id
           DO NOTHING
           `,
@@ -3684,6 +4178,7 @@ export class PgDataStore
             tx.poison_microblock_header_1,
             tx.poison_microblock_header_2,
             tx.coinbase_payload,
+            tx.replaced_by_tx_id ? hexToBuffer(tx.replaced_by_tx_id) : null,
           ]
         );
         if (result.rowCount !== 1) {
@@ -3691,6 +4186,24 @@ export class PgDataStore
           logger.warn(errMsg);
         } else {
           updatedTxs.push(tx);
+          // The replacing tx can be received after the drop of the tx it replaces.
+          const replacedTxs = await client.query<{ tx_id: Buffer }>(
+            `
+            UPDATE mempool_txs
+            SET replaced_by_tx_id = $1
+            WHERE sender_address = $2 AND nonce = $3 AND fee_rate < $4
+              AND pruned = true AND status = $5 AND replaced_by_tx_id IS NULL
+            RETURNING tx_id
+            `,
+            [
+              hexToBuffer(tx.tx_id),
+              tx.sender_address,
+              tx.nonce,
+              tx.fee_rate,
+              DbTxStatus.DroppedReplaceByFee,
+            ]
+          );
+          replacedTxIds.push(...replacedTxs.rows.map(r => bufferToHexPrefixString(r.tx_id)));
         }
       }
       await this.refreshMaterializedView(client, 'mempool_digest');
@@ -3698,20 +4211,48 @@ export class PgDataStore
     for (const tx of updatedTxs) {
       await this.notifier?.sendTx({ txId: tx.tx_id });
     }
+    for (const txId of replacedTxIds) {
+      await this.notifier?.sendTx({ txId });
+    }
   }
 
-  async dropMempoolTxs({ status, txIds }: { status: DbTxStatus; txIds: string[] }): Promise<void> {
+  async dropMempoolTxs({
+    status,
+    txIds,
+    newTxId,
+  }: {
+    status: DbTxStatus;
+    txIds: string[];
+    newTxId?: string;
+  }): Promise<void> {
     let updatedTxs: DbMempoolTx[] = [];
     await this.queryTx(async client => {
       const txIdBuffers = txIds.map(txId => hexToBuffer(txId));
+      // Replaced txs are linked to `newTxId` when the node reports it. Otherwise, a tx replaced by fee
+      // is linked to the pending tx with the same sender and nonce that pays a higher fee. That tx may
+      // not be received yet, see `updateMempoolTxs`.
       const updateResults = await client.query<MempoolTxQueryResult>(
         `
-        UPDATE mempool_txs
-        SET pruned = true, status = $2
+        UPDATE mempool_txs AS dropped
+        SET pruned = true, status = $2::smallint, replaced_by_tx_id = CASE
+          WHEN $3::bytea IS NOT NULL THEN $3::bytea
+          WHEN $2::smallint = $4::smallint THEN (
+            SELECT replacing.tx_id
+            FROM mempool_txs AS replacing
+            WHERE replacing.sender_address = dropped.sender_address
+              AND replacing.nonce = dropped.nonce
+              AND replacing.fee_rate > dropped.fee_rate
+              AND replacing.pruned = false
+              AND replacing.tx_id != ALL($1)
+            ORDER BY replacing.fee_rate DESC, replacing.receipt_time DESC
+            LIMIT 1
+          )
+          ELSE NULL
+        END
         WHERE tx_id = ANY($1)
         RETURNING ${MEMPOOL_TX_COLUMNS}
         `,
-        [txIdBuffers, status]
+        [txIdBuffers, status, newTxId ? hexToBuffer(newTxId) : null, DbTxStatus.DroppedReplaceByFee]
       );
       updatedTxs = updateResults.rows.map(r => this.parseMempoolTxQueryResult(r));
       await this.refreshMaterializedView(client, 'mempool_digest');
@@ -3740,6 +4281,9 @@ export class PgDataStore
       origin_hash_mode: result.origin_hash_mode,
       abi: this.parseAbiColumn(result.abi),
     };
+    if (result.replaced_by_tx_id) {
+      tx.replaced_by_tx_id = bufferToHexPrefixString(result.replaced_by_tx_id);
+    }
     this.parseTxTypeSpecificQueryResult(result, tx);
     return tx;
   }
@@ -3843,6 +4387,58 @@ export class PgDataStore
     return microblock;
   }
 
+  parseTokenMetadataQueueEntryQueryResult(
+    result: DbTokenMetadataQueueEntryQuery
+  ): DbTokenMetadataQueueEntry {
+    const entry: DbTokenMetadataQueueEntry = {
+      queueId: result.queue_id,
+      txId: bufferToHexPrefixString(result.tx_id),
+      contractId: result.contract_id,
+      contractAbi: JSON.parse(result.contract_abi),
+      blockHeight: result.block_height,
+      processed: result.processed,
+      retry_count: result.retry_count,
+    };
+    if (result.token_id_start !== null && result.token_id_end !== null) {
+      entry.tokenIdRange = {
+        start: BigInt(result.token_id_start),
+        end: BigInt(result.token_id_end),
+      };
+    }
+    return entry;
+  }
+
+  parseWebhookQueryResult(result: WebhookQueryResult): DbWebhook {
+    const webhook: DbWebhook = {
+      id: result.id,
+      url: result.url,
+      secret: result.secret,
+      address: result.address ?? undefined,
+      contract_id: result.contract_id ?? undefined,
+      event_type: (result.event_type as TransactionEventType | null) ?? undefined,
+      print_topic: result.print_topic ?? undefined,
+      created_at: parseInt(result.created_at),
+    };
+    return webhook;
+  }
+
+  parseWebhookDeliveryQueryResult(result: WebhookDeliveryQueryResult): DbWebhookDelivery {
+    const delivery: DbWebhookDelivery = {
+      id: result.id,
+      webhook_id: result.webhook_id,
+      tx_id: bufferToHexPrefixString(result.tx_id),
+      payload: result.payload,
+      status: result.status as DbWebhookDeliveryStatus,
+      attempts: result.attempts,
+      next_attempt_at: parseInt(result.next_attempt_at),
+      response_status: result.response_status ?? undefined,
+      error: result.error ?? undefined,
+      created_at: parseInt(result.created_at),
+      delivered_at: result.delivered_at !== null ? parseInt(result.delivered_at) : undefined,
+    };
+    return delivery;
+  }
+
   parseFaucetRequestQueryResult(result: FaucetRequestQueryResult): DbFaucetRequest {
     const tx: DbFaucetRequest = {
       currency: result.currency as DbFaucetRequestCurrency,
@@ -4095,25 +4691,168 @@ export class PgDataStore
     });
   }
 
-  async getTx({ txId, includeUnanchored }: { txId: string; includeUnanchored: boolean }) {
-    return this.queryTx(async client => {
-      const maxBlockHeight = await this.getMaxBlockHeight(client, { includeUnanchored });
-      const result = await client.query<ContractTxQueryResult>(
+  async getFeeRateStats({
+    blockCount,
+    txTypeId,
+  }: {
+    blockCount: number;
+    txTypeId?: DbTxTypeId;
+  }): Promise<DbFeeRateStats> {
+    return await this.queryTx(async client => {
+      // Coinbase txs never pay a fee so they are excluded from every sample.
+      const typeFilter =
+        txTypeId !== undefined ? `type_id = ${txTypeId}` : `type_id != ${DbTxTypeId.Coinbase}`;
+      const percentileColumns = `
+        COUNT(*)::integer AS count,
+        COALESCE(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY fee_rate::float8 / octet_length(raw_tx)), 0) AS p25,
+        COALESCE(PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY fee_rate::float8 / octet_length(raw_tx)), 0) AS p50,
+        COALESCE(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY fee_rate::float8 / octet_length(raw_tx)), 0) AS p75,
+        COALESCE(PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY fee_rate::float8 / octet_length(raw_tx)), 0) AS p95
+      `;
+      const blocksQuery = await client.query<{
+        index_block_hash: Buffer;
+        block_height: number;
+        execution_cost_read_count: string;
+        execution_cost_read_length: string;
+        execution_cost_runtime: string;
+        execution_cost_write_count: string;
+        execution_cost_write_length: string;
+        tx_total_size: string;
+      }>(
         `
-        SELECT ${TX_COLUMNS}, ${abiColumn()}
+        SELECT
+          index_block_hash, block_height,
+          execution_cost_read_count, execution_cost_read_length, execution_cost_runtime,
+          execution_cost_write_count, execution_cost_write_length,
+          (
+            SELECT COALESCE(SUM(octet_length(raw_tx)), 0)
+            FROM txs
+            WHERE txs.index_block_hash = blocks.index_block_hash
+              AND canonical = true AND microblock_canonical = true
+          ) AS tx_total_size
+        FROM blocks
+        WHERE canonical = true
+        ORDER BY block_height DESC
+        LIMIT $1
+        `,
+        [blockCount]
+      );
+      const confirmedQuery = await client.query<DbFeeRatePercentiles>(
+        `
+        SELECT ${percentileColumns}
         FROM txs
-        WHERE tx_id = $1 AND block_height <= $2
-        ORDER BY canonical DESC, microblock_canonical DESC, block_height DESC
-        LIMIT 1
+        WHERE canonical = true AND microblock_canonical = true
+          AND index_block_hash = ANY($1)
+          AND octet_length(raw_tx) > 0
+          AND ${typeFilter}
         `,
-        [hexToBuffer(txId), maxBlockHeight]
+        [blocksQuery.rows.map(r => r.index_block_hash)]
       );
-      if (result.rowCount === 0) {
-        return { found: false } as const;
-      }
-      const row = result.rows[0];
-      const tx = this.parseTxQueryResult(row);
-      return { found: true, result: tx };
+      const mempoolQuery = await client.query<DbFeeRatePercentiles>(
+        `
+        SELECT ${percentileColumns}
+        FROM mempool_txs
+        WHERE pruned = false
+          AND octet_length(raw_tx) > 0
+          AND ${typeFilter}
+        `
+      );
+      const blocks = blocksQuery.rows.map(r => {
+        const cost: DbFeeRateBlockCost = {
+          block_height: r.block_height,
+          execution_cost_read_count: Number.parseInt(r.execution_cost_read_count),
+          execution_cost_read_length: Number.parseInt(r.execution_cost_read_length),
+          execution_cost_runtime: Number.parseInt(r.execution_cost_runtime),
+          execution_cost_write_count: Number.parseInt(r.execution_cost_write_count),
+          execution_cost_write_length: Number.parseInt(r.execution_cost_write_length),
+          tx_total_size: Number.parseInt(r.tx_total_size),
+        };
+        return cost;
+      });
+      return {
+        confirmed: confirmedQuery.rows[0],
+        mempool: mempoolQuery.rows[0],
+        blocks,
+      };
+    });
+  }
+
+  async getMempoolStats(): Promise<DbMempoolStats> {
+    return await this.query(async client => {
+      // `ROLLUP` adds a row with a null `type_id` that aggregates every tx type. That row is returned
+      // even when the mempool is empty, in which case the percentiles are null.
+      const result = await client.query<{
+        type_id: DbTxTypeId | null;
+        count: number;
+        total_byte_size: string;
+        fee_rate: number[] | null;
+        age: number[] | null;
+        byte_size: number[] | null;
+      }>(
+        `
+        SELECT
+          type_id,
+          COUNT(*)::integer AS count,
+          COALESCE(SUM(octet_length(raw_tx)), 0) AS total_byte_size,
+          PERCENTILE_CONT(ARRAY[0.25, 0.50, 0.75, 0.95]) WITHIN GROUP (ORDER BY fee_rate::float8) AS fee_rate,
+          PERCENTILE_CONT(ARRAY[0.25, 0.50, 0.75, 0.95]) WITHIN GROUP (ORDER BY now_time - receipt_time) AS age,
+          PERCENTILE_CONT(ARRAY[0.25, 0.50, 0.75, 0.95]) WITHIN GROUP (ORDER BY octet_length(raw_tx)) AS byte_size
+        FROM mempool_txs, (SELECT EXTRACT(EPOCH FROM NOW())::float8 AS now_time) AS now
+        WHERE pruned = false
+        GROUP BY ROLLUP(type_id)
+        `
+      );
+      const parsePercentiles = (values: number[] | null): DbMempoolStatsPercentiles => {
+        const [p25, p50, p75, p95] = values ?? [0, 0, 0, 0];
+        return { p25, p50, p75, p95 };
+      };
+      const stats: DbMempoolStats = {
+        all: {
+          count: 0,
+          total_byte_size: 0,
+          fee_rate: parsePercentiles(null),
+          age: parsePercentiles(null),
+          byte_size: parsePercentiles(null),
+        },
+        by_type: new Map(),
+      };
+      for (const row of result.rows) {
+        const txStats: DbMempoolTxStats = {
+          count: row.count,
+          total_byte_size: Number.parseInt(row.total_byte_size),
+          fee_rate: parsePercentiles(row.fee_rate),
+          age: parsePercentiles(row.age),
+          byte_size: parsePercentiles(row.byte_size),
+        };
+        if (row.type_id === null) {
+          stats.all = txStats;
+        } else {
+          stats.by_type.set(row.type_id, txStats);
+        }
+      }
+      return stats;
+    });
+  }
+
+  async getTx({ txId, includeUnanchored }: { txId: string; includeUnanchored: boolean }) {
+    return this.queryTx(async client => {
+      const maxBlockHeight = await this.getMaxBlockHeight(client, { includeUnanchored });
+      const result = await client.query<ContractTxQueryResult>(
+        `
+        SELECT ${TX_COLUMNS}, ${abiColumn()}
+        FROM txs
+        WHERE tx_id = $1 AND block_height <= $2
+        ORDER BY canonical DESC, microblock_canonical DESC, block_height DESC
+        LIMIT 1
+        `,
+        [hexToBuffer(txId), maxBlockHeight]
+      );
+      if (result.rowCount === 0) {
+        return { found: false } as const;
+      }
+      const row = result.rows[0];
+      const tx = this.parseTxQueryResult(row);
+      return { found: true, result: tx };
     });
   }
 
@@ -4230,6 +4969,59 @@ export class PgDataStore
     });
   }
 
+  async getTxsAfterPosition({
+    position,
+    limit,
+    filter,
+  }: {
+    position: DbTxPosition;
+    limit: number;
+    filter: DbTxStreamFilter;
+  }): Promise<DbTx[]> {
+    const params: unknown[] = [
+      position.block_height,
+      position.microblock_sequence,
+      position.tx_index,
+      limit,
+    ];
+    const conditions: string[] = [];
+    if (filter.senderAddress) {
+      params.push(filter.senderAddress);
+      conditions.push(`sender_address = $${params.length}`);
+    }
+    if (filter.txTypeFilter.length > 0) {
+      params.push(
+        filter.txTypeFilter.map<number>(t => getTxTypeId(t))
+      );
+      conditions.push(`type_id = ANY($${params.length})`);
+    }
+    if (filter.contractId) {
+      params.push(filter.contractId);
+      conditions.push(
+        `(contract_call_contract_id = $${params.length} OR smart_contract_contract_id = $${params.length})`
+      );
+    }
+    if (filter.statusFilter.length > 0) {
+      params.push(filter.statusFilter);
+      conditions.push(`status = ANY($${params.length})`);
+    }
+    return this.query(async client => {
+      const result = await client.query<ContractTxQueryResult>(
+        `
+        SELECT ${TX_COLUMNS}, ${abiColumn()}
+        FROM txs
+        WHERE canonical = true AND microblock_canonical = true
+          AND (block_height, microblock_sequence, tx_index) > ($1, $2, $3)
+          ${conditions.map(c => `AND ${c}`).join(' ')}
+        ORDER BY block_height ASC, microblock_sequence ASC, tx_index ASC
+        LIMIT $4
+        `,
+        params
+      );
+      return result.rows.map(r => this.parseTxQueryResult(r));
+    });
+  }
+
   getTxListEvents(args: {
     txs: {
       txId: string;
@@ -4633,6 +5425,7 @@ export class PgDataStore
   async getTransactionEvents(args: {
     addressOrTxId: { address: string; txId: undefined } | { address: undefined; txId: string };
     eventTypeFilter: DbEventTypeId[];
+    printTopic?: string;
     limit: number;
     offset: number;
   }) {
@@ -4709,7 +5502,8 @@ export class PgDataStore
               value, topic,
               ${DbEventTypeId.SmartContractLog} as event_type_id, 0 as asset_event_type_id
             FROM contract_logs
-            WHERE ${whereClause} AND canonical = true AND microblock_canonical = true`);
+            WHERE ${whereClause} AND canonical = true AND microblock_canonical = true
+            ${args.printTopic !== undefined ? 'AND print_topic = $4' : ''}`);
             break;
           default:
             throw new Error('Unexpected event type');
@@ -4741,7 +5535,12 @@ export class PgDataStore
         value: Buffer;
         event_type_id: number;
         asset_event_type_id: number;
-      }>(queryString, [txIdBuffer ?? args.addressOrTxId.address, args.limit, args.offset]);
+      }>(queryString, [
+        txIdBuffer ?? args.addressOrTxId.address,
+        args.limit,
+        args.offset,
+        ...(args.printTopic !== undefined ? [args.printTopic] : []),
+      ]);
       if (eventsResult.rowCount > 0) {
         events = eventsResult.rows.map(r => {
           const event: DbEvent = {
@@ -4912,6 +5711,46 @@ export class PgDataStore
     }
   }
 
+  /**
+   * Update the `contract_calls` table with a `contract_call` tx, indexed by the contract and
+   * function it called.
+   * @param client - DB client
+   * @param tx - Transaction
+   */
+  async updateContractCall(client: ClientBase, tx: DbTx) {
+    if (
+      tx.type_id !== DbTxTypeId.ContractCall ||
+      !tx.contract_call_contract_id ||
+      !tx.contract_call_function_name
+    ) {
+      return;
+    }
+    await client.query(
+      `
+      INSERT INTO contract_calls
+        (contract_id, function_name, tx_id, sender_address, status,
+          block_height, index_block_hash, microblock_hash, microblock_sequence, tx_index,
+          canonical, microblock_canonical)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      ON CONFLICT ON CONSTRAINT unique_contract_calls_tx_id_index_block_hash_microblock_hash DO NOTHING
+      `,
+      [
+        tx.contract_call_contract_id,
+        tx.contract_call_function_name,
+        hexToBuffer(tx.tx_id),
+        tx.sender_address,
+        tx.status,
+        tx.block_height,
+        hexToBuffer(tx.index_block_hash),
+        hexToBuffer(tx.microblock_hash),
+        tx.microblock_sequence,
+        tx.tx_index,
+        tx.canonical,
+        tx.microblock_canonical,
+      ]
+    );
+  }
+
   async updateBatchZonefiles(
     client: ClientBase,
     data: DataStoreAttachmentSubdomainData[]
@@ -5143,6 +5982,57 @@ export class PgDataStore
     );
   }
 
+  /**
+   * Adds or subtracts the effect of anchored canonical `ft_events` rows to the `ft_balances` and
+   * `ft_supplies` tables. Callers changing the canonical status of events subtract the matching rows
+   * before the change and add them back after it, so only rows that changed status have a net effect.
+   * @param eventFilter - SQL condition selecting the `ft_events` rows, using params from `$2` onward
+   * @param direction - `1` to add the events, `-1` to subtract them
+   */
+  async applyFtEventChanges(
+    client: ClientBase,
+    eventFilter: string,
+    filterParams: any[],
+    direction: 1 | -1
+  ) {
+    await client.query(
+      `
+      WITH ft_changes AS (
+        SELECT asset_identifier, sender, recipient, amount, asset_event_type_id
+        FROM ft_events
+        WHERE canonical = true AND microblock_canonical = true AND index_block_hash != '\\x'::bytea
+        AND (${eventFilter})
+      ),
+      balance_changes AS (
+        INSERT INTO ft_balances (asset_identifier, address, balance)
+        SELECT asset_identifier, address, SUM(change) * $1
+        FROM (
+          SELECT asset_identifier, recipient AS address, amount AS change
+          FROM ft_changes WHERE recipient IS NOT NULL
+          UNION ALL
+          SELECT asset_identifier, sender AS address, -amount AS change
+          FROM ft_changes WHERE sender IS NOT NULL
+        ) AS changes
+        GROUP BY asset_identifier, address
+        ON CONFLICT ON CONSTRAINT ft_balances_pkey
+        DO UPDATE SET balance = ft_balances.balance + EXCLUDED.balance
+      )
+      INSERT INTO ft_supplies (asset_identifier, minted, burned)
+      SELECT
+        asset_identifier,
+        COALESCE(SUM(amount) FILTER (WHERE asset_event_type_id = ${DbAssetEventTypeId.Mint}), 0) * $1,
+        COALESCE(SUM(amount) FILTER (WHERE asset_event_type_id = ${DbAssetEventTypeId.Burn}), 0) * $1
+      FROM ft_changes
+      GROUP BY asset_identifier
+      ON CONFLICT (asset_identifier)
+      DO UPDATE SET
+        minted = ft_supplies.minted + EXCLUDED.minted,
+        burned = ft_supplies.burned + EXCLUDED.burned
+      `,
+      [direction, ...filterParams]
+    );
+  }
+
   async updateNftEvent(client: ClientBase, tx: DbTx, event: DbNftEvent) {
     await client.query(
       `
@@ -5179,7 +6069,7 @@ export class PgDataStore
   ) {
     const batchSize = 500; // (matt) benchmark: 21283 per second (15 seconds)
     for (const eventBatch of batchIterate(events, batchSize)) {
-      const columnCount = 13;
+      const columnCount = 14;
       const insertParams = this.generateParameterizedInsertString({
         rowCount: eventBatch.length,
         columnCount,
@@ -5199,13 +6089,14 @@ export class PgDataStore
           event.canonical,
           event.contract_identifier,
           event.topic,
-          event.value
+          event.value,
+          event.print_topic ?? null
         );
       }
       const insertQueryText = `INSERT INTO contract_logs(
         event_index, tx_id, tx_index, block_height, index_block_hash,
         parent_index_block_hash, microblock_hash, microblock_sequence, microblock_canonical,
-        canonical, contract_identifier, topic, value
+        canonical, contract_identifier, topic, value, print_topic
       ) VALUES ${insertParams}`;
       const insertQueryName = `insert-batch-smart-contract-events_${columnCount}x${eventBatch.length}`;
       const insertQuery: QueryConfig = {
@@ -5226,8 +6117,8 @@ export class PgDataStore
       INSERT INTO contract_logs(
         event_index, tx_id, tx_index, block_height, index_block_hash,
         parent_index_block_hash, microblock_hash, microblock_sequence, microblock_canonical,
-        canonical, contract_identifier, topic, value
-      ) values($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        canonical, contract_identifier, topic, value, print_topic
+      ) values($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
       `,
       [
         event.event_index,
@@ -5243,6 +6134,7 @@ export class PgDataStore
         event.contract_identifier,
         event.topic,
         event.value,
+        event.print_topic ?? null,
       ]
     );
   }
@@ -5260,17 +6152,7 @@ export class PgDataStore
     if (result.rowCount === 0) {
       return { found: false };
     }
-    const row = result.rows[0];
-    const entry: DbTokenMetadataQueueEntry = {
-      queueId: row.queue_id,
-      txId: bufferToHexPrefixString(row.tx_id),
-      contractId: row.contract_id,
-      contractAbi: JSON.parse(row.contract_abi),
-      blockHeight: row.block_height,
-      processed: row.processed,
-      retry_count: row.retry_count,
-    };
-    return { found: true, result: entry };
+    return { found: true, result: this.parseTokenMetadataQueueEntryQueryResult(result.rows[0]) };
   }
 
   async getTokenMetadataQueue(
@@ -5291,19 +6173,7 @@ export class PgDataStore
       );
       return queryResult;
     });
-    const entries = result.rows.map(row => {
-      const entry: DbTokenMetadataQueueEntry = {
-        queueId: row.queue_id,
-        txId: bufferToHexPrefixString(row.tx_id),
-        contractId: row.contract_id,
-        contractAbi: JSON.parse(row.contract_abi),
-        blockHeight: row.block_height,
-        processed: row.processed,
-        retry_count: row.retry_count,
-      };
-      return entry;
-    });
-    return entries;
+    return result.rows.map(row => this.parseTokenMetadataQueueEntryQueryResult(row));
   }
 
   async updateTokenMetadataQueue(
@@ -5313,8 +6183,8 @@ export class PgDataStore
     const queryResult = await client.query<{ queue_id: number }>(
       `
       INSERT INTO token_metadata_queue(
-        tx_id, contract_id, contract_abi, block_height, processed
-      ) values($1, $2, $3, $4, $5)
+        tx_id, contract_id, contract_abi, block_height, processed, token_id_start, token_id_end
+      ) values($1, $2, $3, $4, $5, $6, $7)
       RETURNING queue_id
       `,
       [
@@ -5323,6 +6193,8 @@ export class PgDataStore
         JSON.stringify(entry.contractAbi),
         entry.blockHeight,
         false,
+        entry.tokenIdRange?.start.toString() ?? null,
+        entry.tokenIdRange?.end.toString() ?? null,
       ]
     );
     const result: DbTokenMetadataQueueEntry = {
@@ -5331,6 +6203,76 @@ export class PgDataStore
     };
     return result;
   }
+  async enqueueTokenMetadataRefresh(args: {
+    contractId: string;
+    tokenIdRange?: DbTokenIdRange;
+  }): Promise<FoundOrNot<DbTokenMetadataQueueEntry>> {
+    const result = await this.queryTx(async client => {
+      const contractQuery = await client.query<{
+        tx_id: Buffer;
+        block_height: number;
+        abi: unknown | null;
+      }>(
+        `
+        SELECT tx_id, block_height, abi
+        FROM smart_contracts
+        WHERE contract_id = $1 AND canonical = true AND microblock_canonical = true
+        ORDER BY block_height DESC
+        LIMIT 1
+        `,
+        [args.contractId]
+      );
+      if (contractQuery.rowCount === 0) {
+        return { found: false } as const;
+      }
+      const contract = contractQuery.rows[0];
+      const abi = this.parseAbiColumn(contract.abi);
+      if (!abi || abi === 'null') {
+        return { found: false } as const;
+      }
+      const contractAbi: ClarityAbi = JSON.parse(abi);
+      if (!isProcessableTokenMetadata(contractAbi)) {
+        return { found: false } as const;
+      }
+      const pendingQuery = await client.query<DbTokenMetadataQueueEntryQuery>(
+        `
+        SELECT *
+        FROM token_metadata_queue
+        WHERE contract_id = $1 AND processed = false
+        AND token_id_start IS NOT DISTINCT FROM $2 AND token_id_end IS NOT DISTINCT FROM $3
+        ORDER BY queue_id DESC
+        LIMIT 1
+        `,
+        [
+          args.contractId,
+          args.tokenIdRange?.start.toString() ?? null,
+          args.tokenIdRange?.end.toString() ?? null,
+        ]
+      );
+      if (pendingQuery.rowCount > 0) {
+        const entry = this.parseTokenMetadataQueueEntryQueryResult(pendingQuery.rows[0]);
+        return { found: true, result: entry, queued: false } as const;
+      }
+      const entry = await this.updateTokenMetadataQueue(client, {
+        queueId: -1,
+        txId: bufferToHexPrefixString(contract.tx_id),
+        contractId: args.contractId,
+        contractAbi: contractAbi,
+        blockHeight: contract.block_height,
+        processed: false,
+        retry_count: 0,
+        tokenIdRange: args.tokenIdRange,
+      });
+      return { found: true, result: entry, queued: true } as const;
+    });
+    if (!result.found) {
+      return result;
+    }
+    if (result.queued && this.notifier) {
+      await this.notifier.sendTokenMetadata({ queueId: result.result.queueId });
+    }
+    return { found: true, result: result.result };
+  }
 
   async updateSmartContract(client: ClientBase, tx: DbTx, smartContract: DbSmartContract) {
     await client.query(
@@ -5431,10 +6373,12 @@ export class PgDataStore
 
   async getSmartContractEvents({
     contractId,
+    printTopic,
     limit,
     offset,
   }: {
     contractId: string;
+    printTopic?: string;
     limit: number;
     offset: number;
   }): Promise<FoundOrNot<DbSmartContractEvent[]>> {
@@ -5447,17 +6391,21 @@ export class PgDataStore
         contract_identifier: string;
         topic: string;
         value: Buffer;
+        print_topic: string | null;
       }>(
         `
         SELECT
-          event_index, tx_id, tx_index, block_height, contract_identifier, topic, value
+          event_index, tx_id, tx_index, block_height, contract_identifier, topic, value, print_topic
         FROM contract_logs
         WHERE canonical = true AND microblock_canonical = true AND contract_identifier = $1
+        ${printTopic !== undefined ? 'AND print_topic = $4' : ''}
         ORDER BY block_height DESC, microblock_sequence DESC, tx_index DESC, event_index DESC
         LIMIT $2
         OFFSET $3
         `,
-        [contractId, limit, offset]
+        printTopic !== undefined
+          ? [contractId, limit, offset, printTopic]
+          : [contractId, limit, offset]
       );
       const result = logResults.rows.map(result => {
         const event: DbSmartContractEvent = {
@@ -5470,6 +6418,7 @@ export class PgDataStore
           contract_identifier: result.contract_identifier,
           topic: result.topic,
           value: result.value,
+          print_topic: result.print_topic ?? undefined,
         };
         return event;
       });
@@ -5533,6 +6482,67 @@ export class PgDataStore
     await client.query(`REFRESH MATERIALIZED VIEW ${concurrently} ${viewName}`);
   }
 
+  async getContractCalls(args: {
+    contractId: string;
+    functionName?: string;
+    senderAddress?: string;
+    status?: DbTxStatus[];
+    fromBlockHeight?: number;
+    blockHeight: number;
+    limit: number;
+    offset: number;
+  }): Promise<{ results: DbTx[]; total: number }> {
+    return this.queryTx(async client => {
+      const queryParams: (string | number | number[])[] = [
+        args.contractId,
+        args.blockHeight,
+        args.limit,
+        args.offset,
+      ];
+      const filters: string[] = [];
+      if (args.functionName !== undefined) {
+        queryParams.push(args.functionName);
+        filters.push(`function_name = $${queryParams.length}`);
+      }
+      if (args.senderAddress !== undefined) {
+        queryParams.push(args.senderAddress);
+        filters.push(`sender_address = $${queryParams.length}`);
+      }
+      if (args.status !== undefined && args.status.length > 0) {
+        queryParams.push(args.status);
+        filters.push(`status = ANY($${queryParams.length})`);
+      }
+      if (args.fromBlockHeight !== undefined) {
+        queryParams.push(args.fromBlockHeight);
+        filters.push(`block_height >= $${queryParams.length}`);
+      }
+      const resultQuery = await client.query<ContractTxQueryResult & { count: number }>(
+        // Query the `contract_calls` table first to get the results page we want and then
+        // join against `txs` to get the full transaction objects only for that page.
+        `
+        WITH calls AS (
+          SELECT tx_id, index_block_hash, microblock_hash, ${countOverColumn()}
+          FROM contract_calls
+          WHERE contract_id = $1 AND block_height <= $2
+          ${filters.map(filter => `AND ${filter}`).join(' ')}
+          AND canonical = TRUE AND microblock_canonical = TRUE
+          ORDER BY block_height DESC, microblock_sequence DESC, tx_index DESC
+          LIMIT $3
+          OFFSET $4
+        )
+        SELECT ${txColumns()}, ${abiColumn()}, count
+        FROM calls
+        INNER JOIN txs USING (tx_id, index_block_hash, microblock_hash)
+        ORDER BY block_height DESC, microblock_sequence DESC, tx_index DESC
+        `,
+        queryParams
+      );
+      const count = resultQuery.rowCount > 0 ? resultQuery.rows[0].count : 0;
+      const parsed = resultQuery.rows.map(r => this.parseTxQueryResult(r));
+      return { results: parsed, total: count };
+    });
+  }
+
   async getSmartContractByTrait(args: {
     trait: ClarityAbi;
     limit: number;
@@ -5904,97 +6914,138 @@ export class PgDataStore
     stxAddress: string;
     untilBlock: number;
   }): Promise<Map<string, DbFtBalance>> {
-    return this.queryTx(async client => {
-      const result = await client.query<{
-        asset_identifier: string;
-        credit_total: string | null;
-        debit_total: string | null;
-      }>(
-        `
-        WITH transfers AS (
-          SELECT amount, sender, recipient, asset_identifier
-          FROM ft_events
-          WHERE canonical = true AND microblock_canonical = true
-          AND (sender = $1 OR recipient = $1)
-          AND block_height <= $2
-        ), credit AS (
-          SELECT asset_identifier, sum(amount) as credit_total
-          FROM transfers
-          WHERE recipient = $1
-          GROUP BY asset_identifier
-        ), debit AS (
-          SELECT asset_identifier, sum(amount) as debit_total
-          FROM transfers
-          WHERE sender = $1
-          GROUP BY asset_identifier
-        )
-        SELECT coalesce(credit.asset_identifier, debit.asset_identifier) as asset_identifier, credit_total, debit_total
-        FROM credit FULL JOIN debit USING (asset_identifier)
-        `,
-        [args.stxAddress, args.untilBlock]
-      );
-      // sort by asset name (case-insensitive)
-      const rows = result.rows.sort((r1, r2) =>
-        r1.asset_identifier.localeCompare(r2.asset_identifier)
-      );
-      const assetBalances = new Map<string, DbFtBalance>(
-        rows.map(r => {
-          const totalSent = BigInt(r.debit_total ?? 0);
-          const totalReceived = BigInt(r.credit_total ?? 0);
-          const balance = totalReceived - totalSent;
-          return [r.asset_identifier, { balance, totalSent, totalReceived }];
-        })
-      );
-      return assetBalances;
-    });
+    return this.queryTx(client => this.internalGetFungibleTokenBalances(client, args));
+  }
+
+  async internalGetFungibleTokenBalances(
+    client: ClientBase,
+    args: { stxAddress: string; untilBlock: number }
+  ): Promise<Map<string, DbFtBalance>> {
+    const result = await client.query<{
+      asset_identifier: string;
+      credit_total: string | null;
+      debit_total: string | null;
+    }>(
+      `
+      WITH transfers AS (
+        SELECT amount, sender, recipient, asset_identifier
+        FROM ft_events
+        WHERE canonical = true AND microblock_canonical = true
+        AND (sender = $1 OR recipient = $1)
+        AND block_height <= $2
+      ), credit AS (
+        SELECT asset_identifier, sum(amount) as credit_total
+        FROM transfers
+        WHERE recipient = $1
+        GROUP BY asset_identifier
+      ), debit AS (
+        SELECT asset_identifier, sum(amount) as debit_total
+        FROM transfers
+        WHERE sender = $1
+        GROUP BY asset_identifier
+      )
+      SELECT coalesce(credit.asset_identifier, debit.asset_identifier) as asset_identifier, credit_total, debit_total
+      FROM credit FULL JOIN debit USING (asset_identifier)
+      `,
+      [args.stxAddress, args.untilBlock]
+    );
+    // sort by asset name (case-insensitive)
+    const rows = result.rows.sort((r1, r2) =>
+      r1.asset_identifier.localeCompare(r2.asset_identifier)
+    );
+    const assetBalances = new Map<string, DbFtBalance>(
+      rows.map(r => {
+        const totalSent = BigInt(r.debit_total ?? 0);
+        const totalReceived = BigInt(r.credit_total ?? 0);
+        const balance = totalReceived - totalSent;
+        return [r.asset_identifier, { balance, totalSent, totalReceived }];
+      })
+    );
+    return assetBalances;
   }
 
   async getNonFungibleTokenCounts(args: {
     stxAddress: string;
     untilBlock: number;
-  }): Promise<Map<string, { count: bigint; totalSent: bigint; totalReceived: bigint }>> {
+  }): Promise<Map<string, DbNftCount>> {
+    return this.queryTx(client => this.internalGetNonFungibleTokenCounts(client, args));
+  }
+
+  async internalGetNonFungibleTokenCounts(
+    client: ClientBase,
+    args: { stxAddress: string; untilBlock: number }
+  ): Promise<Map<string, DbNftCount>> {
+    const result = await client.query<{
+      asset_identifier: string;
+      received_total: string | null;
+      sent_total: string | null;
+    }>(
+      `
+      WITH transfers AS (
+        SELECT sender, recipient, asset_identifier
+        FROM nft_events
+        WHERE canonical = true AND microblock_canonical = true
+        AND (sender = $1 OR recipient = $1)
+        AND block_height <= $2
+      ), credit AS (
+        SELECT asset_identifier, COUNT(*) as received_total
+        FROM transfers
+        WHERE recipient = $1
+        GROUP BY asset_identifier
+      ), debit AS (
+        SELECT asset_identifier, COUNT(*) as sent_total
+        FROM transfers
+        WHERE sender = $1
+        GROUP BY asset_identifier
+      )
+      SELECT coalesce(credit.asset_identifier, debit.asset_identifier) as asset_identifier, received_total, sent_total
+      FROM credit FULL JOIN debit USING (asset_identifier)
+      `,
+      [args.stxAddress, args.untilBlock]
+    );
+    // sort by asset name (case-insensitive)
+    const rows = result.rows.sort((r1, r2) =>
+      r1.asset_identifier.localeCompare(r2.asset_identifier)
+    );
+    const assetBalances = new Map(
+      rows.map(r => {
+        const totalSent = BigInt(r.sent_total ?? 0);
+        const totalReceived = BigInt(r.received_total ?? 0);
+        const count = totalReceived - totalSent;
+        return [r.asset_identifier, { count, totalSent, totalReceived }];
+      })
+    );
+    return assetBalances;
+  }
+
+  async getPrincipalBalancesAtBlock(args: {
+    principal: string;
+    blockHeight: number;
+  }): Promise<DbPrincipalBalances> {
     return this.queryTx(async client => {
-      const result = await client.query<{
-        asset_identifier: string;
-        received_total: string | null;
-        sent_total: string | null;
-      }>(
-        `
-        WITH transfers AS (
-          SELECT sender, recipient, asset_identifier
-          FROM nft_events
-          WHERE canonical = true AND microblock_canonical = true
-          AND (sender = $1 OR recipient = $1)
-          AND block_height <= $2
-        ), credit AS (
-          SELECT asset_identifier, COUNT(*) as received_total
-          FROM transfers
-          WHERE recipient = $1
-          GROUP BY asset_identifier
-        ), debit AS (
-          SELECT asset_identifier, COUNT(*) as sent_total
-          FROM transfers
-          WHERE sender = $1
-          GROUP BY asset_identifier
-        )
-        SELECT coalesce(credit.asset_identifier, debit.asset_identifier) as asset_identifier, received_total, sent_total
-        FROM credit FULL JOIN debit USING (asset_identifier)
-        `,
-        [args.stxAddress, args.untilBlock]
-      );
-      // sort by asset name (case-insensitive)
-      const rows = result.rows.sort((r1, r2) =>
-        r1.asset_identifier.localeCompare(r2.asset_identifier)
-      );
-      const assetBalances = new Map(
-        rows.map(r => {
-          const totalSent = BigInt(r.sent_total ?? 0);
-          const totalReceived = BigInt(r.received_total ?? 0);
-          const count = totalReceived - totalSent;
-          return [r.asset_identifier, { count, totalSent, totalReceived }];
-        })
+      // Read every balance from the same snapshot, regardless of blocks written in the meantime
+      await client.query('SET TRANSACTION ISOLATION LEVEL REPEATABLE READ');
+      const chainTip = await this.getChainTip(client);
+      const blockHeightToQuery = Math.min(args.blockHeight, chainTip.blockHeight);
+      const blockQuery = await this.getBlockByHeightInternal(client, blockHeightToQuery);
+      if (!blockQuery.found) {
+        throw new Error(`Could not find block at height: ${args.blockHeight}`);
+      }
+      const stx = await this.internalGetStxBalanceAtBlock(
+        client,
+        args.principal,
+        args.blockHeight,
+        blockQuery.result.burn_block_height
       );
-      return assetBalances;
+      const fungibleTokens = await this.internalGetFungibleTokenBalances(client, {
+        stxAddress: args.principal,
+        untilBlock: args.blockHeight,
+      });
+      const nonFungibleTokens = await this.internalGetNonFungibleTokenCounts(client, {
+        stxAddress: args.principal,
+        untilBlock: args.blockHeight,
+      });
+      return { stx, fungibleTokens, nonFungibleTokens };
     });
   }
 
@@ -6032,11 +7083,244 @@ export class PgDataStore
     });
   }
 
-  async getInformationTxsWithStxTransfers({
-    stxAddress,
-    tx_id,
-  }: {
-    stxAddress: string;
+  async getAddressActivity(args: {
+    principal: string;
+    blockHeight: number;
+    limit: number;
+    before?: DbAddressActivityPosition;
+  }): Promise<{ results: DbAddressActivity[]; hasMore: boolean }> {
+    return this.query(async client => {
+      // Without a cursor, start right after the last block.
+      const before = args.before ?? {
+        block_height: args.blockHeight + 1,
+        microblock_sequence: 0,
+        tx_index: 0,
+        sub_index: 0,
+        source_index: 0,
+      };
+      // Each source is sorted and limited on its own so that its indexes can be used, then merged.
+      // Sources share the column list of the merged result, with NULLs for unused columns. Sources are
+      // ordered by their output position columns since some positions are constants, which ORDER BY
+      // would read as column numbers. The index of the source ends the position, so that entries of
+      // different sources never share one.
+      type ActivitySource = {
+        type: string;
+        columns: Partial<Record<string, string>>;
+        from: string;
+        where: string;
+        position: [string, string, string, string];
+      };
+      const source = (opts: ActivitySource, sourceIndex: number) => {
+        const [blockHeight, microblockSequence, txIndex, subIndex] = opts.position;
+        const columns = {
+          tx_id: 'NULL::bytea',
+          index_block_hash: 'index_block_hash',
+          asset_event_type_id: 'NULL::smallint',
+          asset_identifier: 'NULL::text',
+          amount: 'NULL::numeric',
+          value: 'NULL::bytea',
+          sender: 'NULL::text',
+          recipient: 'NULL::text',
+          contract_id: 'NULL::text',
+          function_name: 'NULL::text',
+          name: 'NULL::text',
+          unlock_height: 'NULL::integer',
+          ...opts.columns,
+        };
+        return `(
+          SELECT
+            ${opts.type}::text AS activity_type,
+            ${blockHeight} AS block_height, ${microblockSequence} AS microblock_sequence,
+            ${txIndex}::integer AS tx_index, ${subIndex}::integer AS sub_index,
+            ${sourceIndex}::integer AS source_index,
+            ${Object.entries(columns)
+              .map(([name, column]) => `${column} AS ${name}`)
+              .join(', ')}
+          FROM ${opts.from}
+          WHERE ${opts.where}
+            AND ${blockHeight} <= $2
+            AND (${blockHeight}, ${microblockSequence}, ${txIndex}, ${subIndex}, ${sourceIndex})
+              < ($3, $4, $5, $6, $7)
+          ORDER BY block_height DESC, microblock_sequence DESC, tx_index DESC, sub_index DESC
+          LIMIT $8
+        )`;
+      };
+      const canonical = 'canonical = TRUE AND microblock_canonical = TRUE';
+      const assetEvent = (
+        table: string,
+        sentType: string,
+        receivedType: string
+      ): ActivitySource => ({
+        type: `CASE WHEN sender = $1 THEN '${sentType}' ELSE '${receivedType}' END`,
+        columns: {
+          tx_id: 'tx_id',
+          asset_event_type_id: 'asset_event_type_id',
+          asset_identifier: table === 'stx_events' ? 'NULL::text' : 'asset_identifier',
+          amount: table === 'nft_events' ? 'NULL::numeric' : 'amount',
+          value: table === 'nft_events' ? 'value' : 'NULL::bytea',
+          sender: 'sender',
+          recipient: 'recipient',
+        },
+        from: table,
+        where: `(sender = $1 OR recipient = $1) AND ${canonical}`,
+        position: ['block_height', 'microblock_sequence', 'tx_index', 'event_index'],
+      });
+      const sources: ActivitySource[] = [
+        assetEvent('stx_events', 'stx_sent', 'stx_received'),
+        assetEvent('ft_events', 'ft_sent', 'ft_received'),
+        assetEvent('nft_events', 'nft_sent', 'nft_received'),
+        {
+          type: `'contract_call'`,
+          columns: {
+            tx_id: 'p.tx_id',
+            index_block_hash: 'p.index_block_hash',
+            contract_id: 't.contract_call_contract_id',
+            function_name: 't.contract_call_function_name',
+          },
+          from: `principal_stx_txs AS p
+            INNER JOIN txs AS t USING (tx_id, index_block_hash, microblock_hash)`,
+          where: `p.principal = $1 AND p.canonical = TRUE AND p.microblock_canonical = TRUE
+            AND t.sender_address = $1 AND t.type_id = ${DbTxTypeId.ContractCall}`,
+          position: ['p.block_height', 'p.microblock_sequence', 'p.tx_index', '-1'],
+        },
+        {
+          type: `'stx_lock'`,
+          columns: {
+            tx_id: 'tx_id',
+            amount: 'locked_amount',
+            unlock_height: 'unlock_height',
+          },
+          from: 'stx_lock_events',
+          where: `locked_address = $1 AND ${canonical}`,
+          position: ['block_height', 'microblock_sequence', 'tx_index', 'event_index'],
+        },
+        // Locked STX are unlocked when the first block at or after the unlock burn block height is
+        // processed, before any of its txs. Stacking extensions and increases lock again while STX are
+        // still locked, so only the last lock before the unlock block ends a locking period.
+        {
+          type: `'stx_unlock'`,
+          columns: {
+            index_block_hash: 'b.index_block_hash',
+            amount: 'l.locked_amount',
+            unlock_height: 'l.unlock_height',
+          },
+          from: `stx_lock_events AS l
+            CROSS JOIN LATERAL (
+              SELECT index_block_hash, block_height
+              FROM blocks
+              WHERE canonical = TRUE AND burn_block_height >= l.unlock_height
+              ORDER BY block_height ASC
+              LIMIT 1
+            ) AS b`,
+          where: `l.locked_address = $1 AND l.canonical = TRUE AND l.microblock_canonical = TRUE
+            AND NOT EXISTS (
+              SELECT 1
+              FROM stx_lock_events AS next_lock
+              WHERE next_lock.locked_address = l.locked_address
+                AND next_lock.canonical = TRUE AND next_lock.microblock_canonical = TRUE
+                AND next_lock.block_height < b.block_height
+                AND (
+                  next_lock.block_height, next_lock.microblock_sequence,
+                  next_lock.tx_index, next_lock.event_index
+                ) > (l.block_height, l.microblock_sequence, l.tx_index, l.event_index)
+            )`,
+          position: ['b.block_height', `${I32_MAX}`, '-1', '-1'],
+        },
+        // Name transfers are sent by the previous owner of the name.
+        {
+          type: `CASE WHEN n.status = 'name-transfer' THEN 'bns_name_transfer' ELSE 'bns_name_registration' END`,
+          columns: {
+            tx_id: 'n.tx_id',
+            index_block_hash: 'n.index_block_hash',
+            sender: `CASE WHEN n.status = 'name-transfer' THEN t.sender_address END`,
+            recipient: 'n.address',
+            name: 'n.name',
+          },
+          from: `names AS n
+            LEFT JOIN txs AS t
+              ON t.tx_id = n.tx_id AND t.index_block_hash = n.index_block_hash
+              AND t.microblock_hash = n.microblock_hash`,
+          where: `n.canonical = TRUE AND n.microblock_canonical = TRUE
+            AND n.status IN ('name-register', 'name-import', 'name-transfer')
+            AND (n.address = $1 OR (n.status = 'name-transfer' AND t.sender_address = $1))`,
+          position: ['n.registered_at', 'n.microblock_sequence', 'n.tx_index', '-2'],
+        },
+      ];
+      const result = await client.query<{
+        activity_type: DbAddressActivityType;
+        block_height: number;
+        microblock_sequence: number;
+        tx_index: number;
+        sub_index: number;
+        source_index: number;
+        tx_id: Buffer | null;
+        burn_block_time: number;
+        asset_event_type_id: number | null;
+        asset_identifier: string | null;
+        amount: string | null;
+        value: Buffer | null;
+        sender: string | null;
+        recipient: string | null;
+        contract_id: string | null;
+        function_name: string | null;
+        name: string | null;
+        unlock_height: number | null;
+      }>(
+        `
+        WITH activity AS (
+          ${sources.map(source).join('\n          UNION ALL\n          ')}
+        )
+        SELECT activity.*, blocks.burn_block_time
+        FROM activity
+        INNER JOIN blocks USING (index_block_hash)
+        ORDER BY
+          activity.block_height DESC, activity.microblock_sequence DESC,
+          activity.tx_index DESC, activity.sub_index DESC, activity.source_index DESC
+        LIMIT $8
+        `,
+        [
+          args.principal,
+          args.blockHeight,
+          before.block_height,
+          before.microblock_sequence,
+          before.tx_index,
+          before.sub_index,
+          before.source_index,
+          args.limit + 1,
+        ]
+      );
+      const results = result.rows.slice(0, args.limit).map(row => {
+        const activity: DbAddressActivity = {
+          activity_type: row.activity_type,
+          block_height: row.block_height,
+          microblock_sequence: row.microblock_sequence,
+          tx_index: row.tx_index,
+          sub_index: row.sub_index,
+          source_index: row.source_index,
+          burn_block_time: row.burn_block_time,
+          tx_id: row.tx_id ? bufferToHexPrefixString(row.tx_id) : undefined,
+          asset_event_type_id: row.asset_event_type_id ?? undefined,
+          asset_identifier: row.asset_identifier ?? undefined,
+          amount: row.amount !== null ? BigInt(row.amount) : undefined,
+          value: row.value ?? undefined,
+          sender: row.sender ?? undefined,
+          recipient: row.recipient ?? undefined,
+          contract_id: row.contract_id ?? undefined,
+          function_name: row.function_name ?? undefined,
+          name: row.name ?? undefined,
+          unlock_height: row.unlock_height ?? undefined,
+        };
+        return activity;
+      });
+      return { results, hasMore: result.rowCount > args.limit };
+    });
+  }
+
+  async getInformationTxsWithStxTransfers({
+    stxAddress,
+    tx_id,
+  }: {
+    stxAddress: string;
     tx_id: string;
   }): Promise<DbTxWithAssetTransfers> {
     return this.query(async client => {
@@ -6557,6 +7841,95 @@ export class PgDataStore
     });
   }
 
+  async searchTerm(args: {
+    term: string;
+    entityTypes: DbSearchMatchEntityType[];
+    limit: number;
+    offset: number;
+  }): Promise<{ results: DbSearchMatch[]; total: number }> {
+    const matchQueries = args.entityTypes.map(entityType => {
+      switch (entityType) {
+        case 'contract_address':
+          return `
+            SELECT
+              'contract_address' AS entity_type, contract_id AS entity_id, NULL AS name, NULL AS symbol,
+              GREATEST(
+                ${searchMatchScore('contract_id')},
+                ${searchMatchScore(`split_part(contract_id, '.', 2)`)}
+              ) AS score
+            FROM smart_contracts
+            WHERE canonical = true AND microblock_canonical = true
+              AND ${searchMatchCondition('contract_id')}`;
+        case 'bns_name':
+          return `
+            SELECT
+              'bns_name' AS entity_type, name AS entity_id, NULL AS name, NULL AS symbol,
+              GREATEST(
+                ${searchMatchScore('name')},
+                ${searchMatchScore(`split_part(name, '.', 1)`)}
+              ) AS score
+            FROM names
+            WHERE canonical = true AND microblock_canonical = true
+              AND ${searchMatchCondition('name')}
+            GROUP BY name`;
+        case 'bns_subdomain':
+          return `
+            SELECT
+              'bns_subdomain' AS entity_type, fully_qualified_subdomain AS entity_id,
+              NULL AS name, NULL AS symbol,
+              ${searchMatchScore('fully_qualified_subdomain')} AS score
+            FROM subdomains
+            WHERE canonical = true AND microblock_canonical = true
+              AND ${searchMatchCondition('fully_qualified_subdomain')}
+            GROUP BY fully_qualified_subdomain`;
+        case 'fungible_token':
+          return `
+            SELECT
+              'fungible_token' AS entity_type, contract_id AS entity_id, name, symbol,
+              GREATEST(${searchMatchScore('name')}, ${searchMatchScore('symbol')}) AS score
+            FROM ft_metadata
+            WHERE ${searchMatchCondition('name')} OR ${searchMatchCondition('symbol')}`;
+        case 'non_fungible_token':
+          return `
+            SELECT
+              'non_fungible_token' AS entity_type, contract_id AS entity_id, name, NULL AS symbol,
+              ${searchMatchScore('name')} AS score
+            FROM nft_metadata
+            WHERE ${searchMatchCondition('name')}`;
+      }
+    });
+    return this.query(async client => {
+      const result = await client.query<{
+        entity_type: DbSearchMatchEntityType;
+        entity_id: string;
+        name: string | null;
+        symbol: string | null;
+        score: number;
+        count: number;
+      }>(
+        `
+        WITH matches AS (${matchQueries.join('\nUNION ALL\n')})
+        SELECT *, ${countOverColumn()}
+        FROM matches
+        ORDER BY score DESC, entity_id
+        LIMIT $3
+        OFFSET $4
+        `,
+        [args.term, escapeLikePattern(args.term), args.limit, args.offset]
+      );
+      return {
+        results: result.rows.map(row => ({
+          entity_type: row.entity_type,
+          entity_id: row.entity_id,
+          name: row.name ?? undefined,
+          symbol: row.symbol ?? undefined,
+          score: row.score,
+        })),
+        total: result.rows.length > 0 ? result.rows[0].count : 0,
+      };
+    });
+  }
+
   async insertFaucetRequest(faucetRequest: DbFaucetRequest) {
     await this.query(async client => {
       try {
@@ -6823,6 +8196,73 @@ export class PgDataStore
     });
   }
 
+  async getFtAssetIdentifiers(contractId: string): Promise<string[]> {
+    return this.query(async client => {
+      const result = await client.query<{ asset_identifier: string }>(
+        `
+        SELECT asset_identifier
+        FROM ft_supplies
+        WHERE asset_identifier LIKE $1
+        ORDER BY asset_identifier
+        `,
+        [`${escapeLikePattern(contractId)}::%`]
+      );
+      return result.rows.map(row => row.asset_identifier);
+    });
+  }
+
+  async getFtHolders(args: {
+    assetIdentifier: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ results: DbFtHolder[]; total: number }> {
+    return this.query(async client => {
+      const result = await client.query<{ address: string; balance: string; count: number }>(
+        `
+        SELECT address, balance, ${countOverColumn()}
+        FROM ft_balances
+        WHERE asset_identifier = $1 AND balance > 0
+        ORDER BY balance DESC, address
+        LIMIT $2
+        OFFSET $3
+        `,
+        [args.assetIdentifier, args.limit, args.offset]
+      );
+      return {
+        results: result.rows.map(row => ({
+          asset_identifier: args.assetIdentifier,
+          address: row.address,
+          balance: BigInt(row.balance),
+        })),
+        total: result.rows.length > 0 ? result.rows[0].count : 0,
+      };
+    });
+  }
+
+  async getFtSupply(assetIdentifier: string): Promise<FoundOrNot<DbFtSupply>> {
+    return this.query(async client => {
+      const result = await client.query<{ minted: string; burned: string }>(
+        `
+        SELECT minted, burned
+        FROM ft_supplies
+        WHERE asset_identifier = $1
+        `,
+        [assetIdentifier]
+      );
+      if (result.rowCount === 0) {
+        return { found: false } as const;
+      }
+      return {
+        found: true,
+        result: {
+          asset_identifier: assetIdentifier,
+          minted: BigInt(result.rows[0].minted),
+          burned: BigInt(result.rows[0].burned),
+        },
+      };
+    });
+  }
+
   async getAddressNFTEvent(args: {
     stxAddress: string;
     limit: number;
@@ -7390,6 +8830,75 @@ export class PgDataStore
     return { found: false } as const;
   }
 
+  async getNameHistory({
+    name,
+    page,
+    includeUnanchored,
+  }: {
+    name: string;
+    page: number;
+    includeUnanchored: boolean;
+  }): Promise<{ results: DbBnsNameHistoryEntry[] }> {
+    const offset = page * 100;
+    const queryResult = await this.queryTx(async client => {
+      const maxBlockHeight = await this.getMaxBlockHeight(client, { includeUnanchored });
+      // The previous owner is looked up over the whole history before paging so that the first
+      // entry of a page also gets one.
+      return await client.query<{
+        name: string;
+        status: string | null;
+        tx_id: Buffer;
+        tx_index: number;
+        registered_at: number;
+        microblock_sequence: number;
+        old_owner: string | null;
+        address: string;
+        zonefile_hash: string;
+        expire_block: number;
+      }>(
+        `
+        WITH history AS (
+          SELECT
+            name, status, tx_id, tx_index, registered_at, microblock_sequence, address,
+            zonefile_hash, expire_block,
+            LAG(address) OVER (
+              ORDER BY registered_at, microblock_sequence, tx_index
+            ) AS old_owner
+          FROM names
+          WHERE name = $1
+            AND registered_at <= $2
+            AND canonical = TRUE
+            AND microblock_canonical = TRUE
+        )
+        SELECT *
+        FROM history
+        ORDER BY registered_at, microblock_sequence, tx_index
+        LIMIT 100
+        OFFSET $3
+        `,
+        [name, maxBlockHeight, offset]
+      );
+    });
+    const results = queryResult.rows.map(row => {
+      const entry: DbBnsNameHistoryEntry = {
+        name: row.name,
+        operation: row.status ?? '',
+        tx_id: bufferToHexPrefixString(row.tx_id),
+        tx_index: row.tx_index,
+        block_height: row.registered_at,
+        microblock_sequence: row.microblock_sequence,
+        new_owner: row.address,
+        zonefile_hash: row.zonefile_hash,
+        expire_block: row.expire_block,
+      };
+      if (row.old_owner !== null) {
+        entry.old_owner = row.old_owner;
+      }
+      return entry;
+    });
+    return { results };
+  }
+
   async getNamesByAddressList({
     address,
     includeUnanchored,
@@ -7480,6 +8989,138 @@ export class PgDataStore
     return { found: false } as const;
   }
 
+  async getExpiringNames({
+    withinBlocks,
+    page,
+    includeUnanchored,
+  }: {
+    withinBlocks: number;
+    page: number;
+    includeUnanchored: boolean;
+  }): Promise<{ results: DbBnsExpiringName[] }> {
+    const offset = page * 100;
+    const queryResult = await this.queryTx(async client => {
+      const maxBlockHeight = await this.getMaxBlockHeight(client, { includeUnanchored });
+      // Only the latest state of each name counts, e.g. a renewal pushes the name out of the window.
+      return await client.query<DbBnsExpiringName>(
+        `
+        WITH candidates AS (
+          SELECT DISTINCT name
+          FROM names
+          WHERE expire_block > $1
+            AND expire_block <= $2
+            AND canonical = TRUE
+            AND microblock_canonical = TRUE
+        ),
+        latest AS (
+          SELECT DISTINCT ON (n.name) n.name, n.address, n.namespace_id, n.expire_block, n.status
+          FROM names AS n
+          INNER JOIN candidates USING (name)
+          WHERE n.registered_at <= $1
+            AND n.canonical = TRUE
+            AND n.microblock_canonical = TRUE
+          ORDER BY n.name, n.registered_at DESC, n.microblock_sequence DESC, n.tx_index DESC
+        )
+        SELECT name, address, namespace_id, expire_block
+        FROM latest
+        WHERE expire_block > $1
+          AND expire_block <= $2
+          AND status IS DISTINCT FROM 'name-revoke'
+        ORDER BY expire_block, name
+        LIMIT 100
+        OFFSET $3
+        `,
+        [maxBlockHeight, maxBlockHeight + withinBlocks, offset]
+      );
+    });
+    return { results: queryResult.rows };
+  }
+
+  async getPrimaryNames({
+    principals,
+    includeUnanchored,
+  }: {
+    principals: string[];
+    includeUnanchored: boolean;
+  }): Promise<Map<string, string>> {
+    if (principals.length === 0) {
+      return new Map();
+    }
+    const queryResult = await this.queryTx(async client => {
+      const maxBlockHeight = await this.getMaxBlockHeight(client, { includeUnanchored });
+      // A name is a candidate if its latest state is owned by the principal. Names are ranked by their
+      // latest registration or transfer to that owner, subdomains (which have no operation status) by
+      // their latest owner change.
+      return await client.query<{ address: string; name: string }>(
+        `
+        WITH name_history AS (
+          SELECT
+            name, address, status, registered_at AS block_height, microblock_sequence, tx_index,
+            ROW_NUMBER() OVER (
+              PARTITION BY name
+              ORDER BY registered_at DESC, microblock_sequence DESC, tx_index DESC
+            ) AS recency
+          FROM names
+          WHERE name IN (SELECT name FROM names WHERE address = ANY($1))
+            AND registered_at <= $2
+            AND canonical = TRUE
+            AND microblock_canonical = TRUE
+        ),
+        name_candidates AS (
+          SELECT DISTINCT ON (h.name)
+            h.name, h.address, h.block_height, h.microblock_sequence, h.tx_index
+          FROM name_history AS h
+          INNER JOIN name_history AS latest ON latest.name = h.name AND latest.recency = 1
+          WHERE latest.address = ANY($1)
+            AND latest.status IS DISTINCT FROM 'name-revoke'
+            AND h.address = latest.address
+            AND h.status IN ('name-import', 'name-register', 'name-transfer')
+          ORDER BY h.name, h.block_height DESC, h.microblock_sequence DESC, h.tx_index DESC
+        ),
+        subdomain_history AS (
+          SELECT
+            fully_qualified_subdomain AS name, owner AS address, block_height, microblock_sequence,
+            tx_index,
+            LAG(owner) OVER (
+              PARTITION BY fully_qualified_subdomain
+              ORDER BY block_height, microblock_sequence, tx_index
+            ) AS prev_owner,
+            ROW_NUMBER() OVER (
+              PARTITION BY fully_qualified_subdomain
+              ORDER BY block_height DESC, microblock_sequence DESC, tx_index DESC
+            ) AS recency
+          FROM subdomains
+          WHERE fully_qualified_subdomain IN (
+              SELECT fully_qualified_subdomain FROM subdomains WHERE owner = ANY($1)
+            )
+            AND block_height <= $2
+            AND canonical = TRUE
+            AND microblock_canonical = TRUE
+        ),
+        subdomain_candidates AS (
+          SELECT DISTINCT ON (h.name)
+            h.name, h.address, h.block_height, h.microblock_sequence, h.tx_index
+          FROM subdomain_history AS h
+          INNER JOIN subdomain_history AS latest ON latest.name = h.name AND latest.recency = 1
+          WHERE latest.address = ANY($1)
+            AND h.address = latest.address
+            AND h.prev_owner IS DISTINCT FROM h.address
+          ORDER BY h.name, h.block_height DESC, h.microblock_sequence DESC, h.tx_index DESC
+        )
+        SELECT DISTINCT ON (address) address, name
+        FROM (
+          SELECT * FROM name_candidates
+          UNION ALL
+          SELECT * FROM subdomain_candidates
+        ) AS candidates
+        ORDER BY address, block_height DESC, microblock_sequence DESC, tx_index DESC, name
+        `,
+        [principals, maxBlockHeight]
+      );
+    });
+    return new Map(queryResult.rows.map(row => [row.address, row.name]));
+  }
+
   async getSubdomainsListInName({
     name,
     includeUnanchored,
@@ -7853,7 +9494,9 @@ export class PgDataStore
       tx_id,
       sender_address,
     } = ftMetadata;
-    const rowCount = await this.query(async client => {
+    const rowCount = await this.queryTx(async client => {
+      // Metadata refreshes replace the previously processed metadata.
+      await client.query(`DELETE FROM ft_metadata WHERE contract_id = $1`, [contract_id]);
       const result = await client.query(
         `
         INSERT INTO ft_metadata(
@@ -7890,7 +9533,9 @@ export class PgDataStore
       tx_id,
       sender_address,
     } = nftMetadata;
-    const rowCount = await this.query(async client => {
+    const rowCount = await this.queryTx(async client => {
+      // Metadata refreshes replace the previously processed metadata.
+      await client.query(`DELETE FROM nft_metadata WHERE contract_id = $1`, [contract_id]);
       const result = await client.query(
         `
         INSERT INTO nft_metadata(
@@ -7914,6 +9559,110 @@ export class PgDataStore
     return rowCount;
   }
 
+  async updateNftTokenMetadata(metadata: DbNftTokenMetadata): Promise<void> {
+    await this.query(async client => {
+      await client.query(
+        `
+        INSERT INTO nft_token_metadata(
+          contract_id, token_id, token_uri, name, description, image_uri, image_canonical_uri, attributes
+        ) VALUES($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT ON CONSTRAINT nft_token_metadata_pkey DO UPDATE SET
+          token_uri = EXCLUDED.token_uri,
+          name = EXCLUDED.name,
+          description = EXCLUDED.description,
+          image_uri = EXCLUDED.image_uri,
+          image_canonical_uri = EXCLUDED.image_canonical_uri,
+          attributes = EXCLUDED.attributes,
+          updated_at = NOW()
+        `,
+        [
+          metadata.contract_id,
+          metadata.token_id.toString(),
+          metadata.token_uri,
+          metadata.name,
+          metadata.description,
+          metadata.image_uri,
+          metadata.image_canonical_uri,
+          metadata.attributes !== undefined ? JSON.stringify(metadata.attributes) : null,
+        ]
+      );
+    });
+    await this.notifier?.sendTokens({ contractID: metadata.contract_id });
+  }
+
+  async getNftTokenMetadata(args: {
+    contractId: string;
+    tokenId: bigint;
+  }): Promise<FoundOrNot<DbNftTokenMetadata>> {
+    const results = await this.getNftTokenMetadataBatch([args]);
+    if (results.length === 0) {
+      return { found: false } as const;
+    }
+    return { found: true, result: results[0] };
+  }
+
+  async getNftTokenMetadataBatch(
+    tokens: { contractId: string; tokenId: bigint }[]
+  ): Promise<DbNftTokenMetadata[]> {
+    if (tokens.length === 0) {
+      return [];
+    }
+    return this.query(async client => {
+      const queryResult = await client.query<NftTokenMetadataQueryResult>(
+        `
+        SELECT m.contract_id, m.token_id, m.token_uri, m.name, m.description, m.image_uri,
+          m.image_canonical_uri, m.attributes
+        FROM nft_token_metadata AS m
+        INNER JOIN UNNEST($1::text[], $2::numeric[]) AS t(contract_id, token_id)
+          ON m.contract_id = t.contract_id AND m.token_id = t.token_id
+        `,
+        [tokens.map(t => t.contractId), tokens.map(t => t.tokenId.toString())]
+      );
+      return queryResult.rows.map(row => this.parseNftTokenMetadataQueryResult(row));
+    });
+  }
+
+  async getNftMintedTokenIds(assetIdentifiers: string[]): Promise<bigint[]> {
+    if (assetIdentifiers.length === 0) {
+      return [];
+    }
+    return this.query(async client => {
+      const queryResult = await client.query<{ value: Buffer }>(
+        `
+        SELECT DISTINCT value
+        FROM nft_events
+        WHERE asset_identifier = ANY($1) AND asset_event_type_id = $2
+        AND canonical = true AND microblock_canonical = true
+        `,
+        [assetIdentifiers, DbAssetEventTypeId.Mint]
+      );
+      const tokenIds: bigint[] = [];
+      for (const row of queryResult.rows) {
+        // Serialized Clarity `uint`: type prefix 0x01 followed by a 16 byte big-endian integer.
+        if (row.value.length === 17 && row.value[0] === 0x01) {
+          tokenIds.push(BigInt(bufferToHexPrefixString(row.value.slice(1))));
+        }
+      }
+      return tokenIds.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    });
+  }
+
+  parseNftTokenMetadataQueryResult(row: NftTokenMetadataQueryResult): DbNftTokenMetadata {
+    const metadata: DbNftTokenMetadata = {
+      contract_id: row.contract_id,
+      token_id: BigInt(row.token_id),
+      token_uri: row.token_uri,
+      name: row.name,
+      description: row.description,
+      image_uri: row.image_uri,
+      image_canonical_uri: row.image_canonical_uri,
+    };
+    if (row.attributes !== null) {
+      metadata.attributes = row.attributes;
+    }
+    return metadata;
+  }
+
   async updateProcessedTokenMetadataQueueEntry(queueId: number): Promise<void> {
     await this.query(async client => {
       await client.query(
@@ -8024,6 +9773,196 @@ export class PgDataStore
     });
   }
 
+  async insertWebhook(webhook: Omit<DbWebhook, 'id'>): Promise<DbWebhook> {
+    return await this.query(async client => {
+      const result = await client.query<WebhookQueryResult>(
+        `
+        INSERT INTO webhooks(
+          url, secret, address, contract_id, event_type, print_topic, created_at
+        ) values($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *
+        `,
+        [
+          webhook.url,
+          webhook.secret,
+          webhook.address ?? null,
+          webhook.contract_id ?? null,
+          webhook.event_type ?? null,
+          webhook.print_topic ?? null,
+          webhook.created_at,
+        ]
+      );
+      return this.parseWebhookQueryResult(result.rows[0]);
+    });
+  }
+
+  async getWebhook(id: number): Promise<FoundOrNot<DbWebhook>> {
+    return await this.query(async client => {
+      const result = await client.query<WebhookQueryResult>(
+        `SELECT * FROM webhooks WHERE id = $1`,
+        [id]
+      );
+      if (result.rowCount === 0) {
+        return { found: false } as const;
+      }
+      return { found: true, result: this.parseWebhookQueryResult(result.rows[0]) };
+    });
+  }
+
+  async getWebhooks({
+    limit,
+    offset,
+  }: {
+    limit: number;
+    offset: number;
+  }): Promise<{ results: DbWebhook[]; total: number }> {
+    return await this.queryTx(async client => {
+      const totalQuery = await client.query<{ count: number }>(
+        `SELECT COUNT(*)::integer FROM webhooks`
+      );
+      const resultQuery = await client.query<WebhookQueryResult>(
+        `
+        SELECT *
+        FROM webhooks
+        ORDER BY id ASC
+        LIMIT $1
+        OFFSET $2
+        `,
+        [limit, offset]
+      );
+      const results = resultQuery.rows.map(r => this.parseWebhookQueryResult(r));
+      return { results, total: totalQuery.rows[0].count };
+    });
+  }
+
+  async getAllWebhooks(): Promise<DbWebhook[]> {
+    return await this.query(async client => {
+      const result = await client.query<WebhookQueryResult>(`SELECT * FROM webhooks`);
+      return result.rows.map(r => this.parseWebhookQueryResult(r));
+    });
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    return await this.query(async client => {
+      const result = await client.query(`DELETE FROM webhooks WHERE id = $1`, [id]);
+      return result.rowCount > 0;
+    });
+  }
+
+  async insertWebhookDeliveries(
+    deliveries: Pick<DbWebhookDelivery, 'webhook_id' | 'tx_id' | 'payload' | 'created_at'>[]
+  ): Promise<DbWebhookDelivery[]> {
+    if (deliveries.length === 0) {
+      return [];
+    }
+    return await this.queryTx(async client => {
+      const results: DbWebhookDelivery[] = [];
+      for (const delivery of deliveries) {
+        const result = await client.query<WebhookDeliveryQueryResult>(
+          `
+          INSERT INTO webhook_deliveries(
+            webhook_id, tx_id, payload, status, attempts, next_attempt_at, created_at
+          ) values($1, $2, $3, 'pending', 0, $4, $4)
+          ON CONFLICT ON CONSTRAINT unique_webhook_id_tx_id DO NOTHING
+          RETURNING *
+          `,
+          [delivery.webhook_id, hexToBuffer(delivery.tx_id), delivery.payload, delivery.created_at]
+        );
+        results.push(...result.rows.map(r => this.parseWebhookDeliveryQueryResult(r)));
+      }
+      return results;
+    });
+  }
+
+  async getWebhookDeliveries({
+    webhookId,
+    limit,
+    offset,
+  }: {
+    webhookId: number;
+    limit: number;
+    offset: number;
+  }): Promise<{ results: DbWebhookDelivery[]; total: number }> {
+    return await this.queryTx(async client => {
+      const totalQuery = await client.query<{ count: number }>(
+        `SELECT COUNT(*)::integer FROM webhook_deliveries WHERE webhook_id = $1`,
+        [webhookId]
+      );
+      const resultQuery = await client.query<WebhookDeliveryQueryResult>(
+        `
+        SELECT *
+        FROM webhook_deliveries
+        WHERE webhook_id = $1
+        ORDER BY id DESC
+        LIMIT $2
+        OFFSET $3
+        `,
+        [webhookId, limit, offset]
+      );
+      const results = resultQuery.rows.map(r => this.parseWebhookDeliveryQueryResult(r));
+      return { results, total: totalQuery.rows[0].count };
+    });
+  }
+
+  async getDueWebhookDeliveries({
+    now,
+    limit,
+    excludingDeliveries,
+  }: {
+    now: number;
+    limit: number;
+    excludingDeliveries: number[];
+  }): Promise<DbWebhookDelivery[]> {
+    return await this.query(async client => {
+      const result = await client.query<WebhookDeliveryQueryResult>(
+        `
+        SELECT *
+        FROM webhook_deliveries
+        WHERE status = 'pending'
+        AND next_attempt_at <= $1
+        AND NOT (id = ANY($2))
+        ORDER BY next_attempt_at ASC, id ASC
+        LIMIT $3
+        `,
+        [now, excludingDeliveries, limit]
+      );
+      return result.rows.map(r => this.parseWebhookDeliveryQueryResult(r));
+    });
+  }
+
+  async updateWebhookDelivery(
+    delivery: Pick<
+      DbWebhookDelivery,
+      | 'id'
+      | 'status'
+      | 'attempts'
+      | 'next_attempt_at'
+      | 'response_status'
+      | 'error'
+      | 'delivered_at'
+    >
+  ): Promise<void> {
+    await this.query(async client => {
+      await client.query(
+        `
+        UPDATE webhook_deliveries
+        SET status = $2, attempts = $3, next_attempt_at = $4, response_status = $5, error = $6,
+          delivered_at = $7
+        WHERE id = $1
+        `,
+        [
+          delivery.id,
+          delivery.status,
+          delivery.attempts,
+          delivery.next_attempt_at,
+          delivery.response_status ?? null,
+          delivery.error ?? null,
+          delivery.delivered_at ?? null,
+        ]
+      );
+    });
+  }
+
   /**
    * Called when a full event import is complete.
    */
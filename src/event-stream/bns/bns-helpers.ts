@@ -8,7 +8,8 @@ import {
 } from '../../event-stream/core-node-message';
 import { getCoreNodeEndpoint } from '../../core-rpc/client';
 import { StacksMainnet, StacksTestnet } from '@stacks/network';
-import { URIType } from 'zone-file/dist/zoneFile';
+import { parseZoneFile } from 'zone-file';
+import { AType, TXTType, URIType } from 'zone-file/dist/zoneFile';
 import { BnsContractIdentifier, printTopic } from './bns-constants';
 import * as crypto from 'crypto';
 import {
@@ -194,6 +195,65 @@ export function parseResolver(uri: URIType[]) {
   return resolver;
 }
 
+/** Typed records of a zonefile, see {@link parseZoneFileRecords}. */
+export interface ZoneFileRecords {
+  uri: URIType[];
+  txt: TXTType[];
+  a: AType[];
+  aaaa: AType[];
+  /** Target of the `_resolver` URI record, if any. */
+  resolver?: string;
+}
+
+/**
+ * Parses a zonefile into the record types used by BNS names. Zonefiles that can't be parsed yield
+ * no records.
+ */
+export function parseZoneFileRecords(zonefile: string): ZoneFileRecords {
+  let parsed: ReturnType<typeof parseZoneFile>;
+  try {
+    parsed = parseZoneFile(zonefile);
+  } catch (error) {
+    parsed = {};
+  }
+  const uri = parsed.uri ?? [];
+  return {
+    uri,
+    txt: (parsed.txt ?? []).map(record => ({
+      ...record,
+      txt: Array.isArray(record.txt) ? record.txt : [record.txt],
+    })),
+    a: parsed.a ?? [],
+    aaaa: parsed.aaaa ?? [],
+    resolver: parseResolver(uri) || undefined,
+  };
+}
+
+/** Profile URL and addresses declared by a name in its zonefile. */
+export interface ZoneFileDeclaredRecords {
+  /** Target of the `_http._tcp` or `_https._tcp` URI record with the lowest priority. */
+  profileUrl?: string;
+  /** Value of the `_btc._addr` TXT record. */
+  btcAddress?: string;
+  /** Value of the `_stx._addr` TXT record. */
+  stxAddress?: string;
+}
+
+export function getZoneFileDeclaredRecords(records: ZoneFileRecords): ZoneFileDeclaredRecords {
+  const profileUri = records.uri
+    .filter(record => record.name === '_http._tcp' || record.name === '_https._tcp')
+    .sort((a, b) => a.priority - b.priority)[0];
+  const findTxt = (name: string) => {
+    const record = records.txt.find(txt => txt.name === name);
+    return record ? ([] as string[]).concat(record.txt).join('') || undefined : undefined;
+  };
+  return {
+    profileUrl: profileUri?.target,
+    btcAddress: findTxt('_btc._addr'),
+    stxAddress: findTxt('_stx._addr'),
+  };
+}
+
 interface ZoneFileTXT {
   owner: string;
   seqn: string;
@@ -235,6 +295,63 @@ export function parseZoneFileTxt(txtEntries: string | string[]) {
   return parsed;
 }
 
+const CLARITY_UINT_MAX = 2n ** 128n - 1n;
+const BNS_VOWEL_CHARS = Buffer.from('aeiouy');
+const BNS_NONALPHA_CHARS = Buffer.from('0123456789-_');
+
+/**
+ * Computes the price of a name the way the BNS contract's `get-name-price` does, from the price
+ * function of its namespace:
+ * `coeff * base ^ buckets[min(15, len - 1)] / max(nonalpha_discount, no_vowel_discount) * 10`, where
+ * each discount only applies to names with non-alpha chars or without vowels, respectively.
+ * @param name - name without its namespace
+ * @returns price in micro-STX, or `undefined` if the contract call would fail
+ */
+export function computeBnsNamePrice(
+  name: string,
+  namespace: Pick<
+    DbBnsNamespace,
+    'base' | 'coeff' | 'buckets' | 'nonalpha_discount' | 'no_vowel_discount'
+  >
+): bigint | undefined {
+  const nameBuff = Buffer.from(name, 'utf8');
+  if (nameBuff.length === 0 || nameBuff.length > 48) {
+    return;
+  }
+  const buckets = namespace.buckets.split(',');
+  const exponent = buckets[Math.min(15, nameBuff.length - 1)];
+  if (exponent === undefined) {
+    return;
+  }
+  const hasVowels = nameBuff.some(char => BNS_VOWEL_CHARS.includes(char));
+  const hasNonAlpha = nameBuff.some(char => BNS_NONALPHA_CHARS.includes(char));
+  const noVowelDiscount = hasVowels ? 1n : BigInt(namespace.no_vowel_discount);
+  const nonAlphaDiscount = hasNonAlpha ? BigInt(namespace.nonalpha_discount) : 1n;
+  const discount = noVowelDiscount > nonAlphaDiscount ? noVowelDiscount : nonAlphaDiscount;
+  // Clarity arithmetic fails on uint overflows and divisions by zero.
+  const base = BigInt(namespace.base);
+  let power = 1n;
+  if (base <= 1n) {
+    power = BigInt(exponent) === 0n ? 1n : base;
+  } else {
+    for (let i = 0n; i < BigInt(exponent); i++) {
+      power *= base;
+      if (power > CLARITY_UINT_MAX) {
+        return;
+      }
+    }
+  }
+  const undiscounted = BigInt(namespace.coeff) * power;
+  if (undiscounted > CLARITY_UINT_MAX || discount === 0n) {
+    return;
+  }
+  const price = (undiscounted / discount) * 10n;
+  if (price > CLARITY_UINT_MAX) {
+    return;
+  }
+  return price;
+}
+
 export function getBnsContractID(chainId: ChainID) {
   const contractId =
     chainId === ChainID.Mainnet ? BnsContractIdentifier.mainnet : BnsContractIdentifier.testnet;
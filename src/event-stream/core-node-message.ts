@@ -274,6 +274,8 @@ export type CoreNodeDropMempoolTxReasonType =
 export interface CoreNodeDropMempoolTxMessage {
   dropped_txids: string[];
   reason: CoreNodeDropMempoolTxReasonType;
+  /** Id of the tx replacing the dropped txs. Only sent by newer nodes, for replacement reasons. */
+  new_txid?: string | null;
 }
 
 export interface CoreNodeAttachmentMessage {
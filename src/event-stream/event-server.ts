@@ -45,6 +45,8 @@ import {
   DataStoreTxEventData,
   DbMicroblock,
   DataStoreAttachmentData,
+  DbTxStatus,
+  DbTokenIdRange,
 } from '../datastore/common';
 import {
   getTxSenderAddress,
@@ -59,15 +61,22 @@ import {
   ClarityValueBuffer,
   ClarityValueStringAscii,
   ClarityValueTuple,
+  ClarityTypeID,
   TxPayloadTypeID,
 } from 'stacks-encoding-native-js';
 import { ChainID } from '@stacks/transactions';
 import { BnsContractIdentifier } from './bns/bns-constants';
+import { getPrintEventTopic } from './print-event-topic';
 import {
   parseNameFromContractEvent,
   parseNameRenewalWithNoZonefileHashFromContractCall,
   parseNamespaceFromContractEvent,
 } from './bns/bns-helpers';
+import {
+  isFtMetadataEnabled,
+  isNftMetadataEnabled,
+  parseTokenMetadataUpdateNotification,
+} from '../token-metadata/helpers';
 
 async function handleRawEventRequest(
   eventPath: string,
@@ -156,7 +165,11 @@ async function handleDroppedMempoolTxsMessage(
 ): Promise<void> {
   logger.verbose(`Received ${msg.dropped_txids.length} dropped mempool txs`);
   const dbTxStatus = getTxDbStatus(msg.reason);
-  await db.dropMempoolTxs({ status: dbTxStatus, txIds: msg.dropped_txids });
+  await db.dropMempoolTxs({
+    status: dbTxStatus,
+    txIds: msg.dropped_txids,
+    newTxId: msg.new_txid ?? undefined,
+  });
 }
 
 async function handleMicroblockMessage(
@@ -312,6 +325,111 @@ async function handleBlockMessage(
   };
 
   await db.update(dbData);
+  await handleTokenMetadataUpdateNotifications(db, dbData.txs);
+  await handleNftMints(db, dbData.txs);
+}
+
+/**
+ * Queues the metadata refreshes requested by SIP-019 `token-metadata-update` notifications. These are
+ * only honored if printed by the token contract itself or by a transaction sent by its deployer.
+ */
+async function handleTokenMetadataUpdateNotifications(
+  db: DataStore,
+  txs: DataStoreTxEventData[]
+): Promise<void> {
+  for (const entry of txs) {
+    if (entry.tx.status !== DbTxStatus.Success) {
+      continue;
+    }
+    for (const event of entry.contractLogEvents) {
+      if (event.topic !== 'print') {
+        continue;
+      }
+      const notification = parseTokenMetadataUpdateNotification(event.value);
+      if (
+        !notification ||
+        (notification.tokenClass === 'ft' && !isFtMetadataEnabled()) ||
+        (notification.tokenClass === 'nft' && !isNftMetadataEnabled())
+      ) {
+        continue;
+      }
+      const [deployer] = notification.contractId.split('.');
+      if (
+        event.contract_identifier !== notification.contractId &&
+        entry.tx.sender_address !== deployer
+      ) {
+        logger.verbose(
+          `Ignoring token metadata update notification for ${notification.contractId} from tx ${entry.tx.tx_id}`
+        );
+        continue;
+      }
+      if (notification.tokenIds && notification.tokenIds.length > 0) {
+        for (const tokenIdRange of getConsecutiveTokenIdRanges(notification.tokenIds)) {
+          await db.enqueueTokenMetadataRefresh({
+            contractId: notification.contractId,
+            tokenIdRange,
+          });
+        }
+      } else {
+        await db.enqueueTokenMetadataRefresh({ contractId: notification.contractId });
+      }
+    }
+  }
+}
+
+/**
+ * Queues the metadata processing of NFTs minted in a block. Consecutive token ids minted for the same
+ * contract are processed by a single queue entry.
+ */
+async function handleNftMints(db: DataStore, txs: DataStoreTxEventData[]): Promise<void> {
+  if (!isNftMetadataEnabled()) {
+    return;
+  }
+  const mintedTokenIds = new Map<string, bigint[]>();
+  for (const entry of txs) {
+    if (entry.tx.status !== DbTxStatus.Success) {
+      continue;
+    }
+    for (const event of entry.nftEvents) {
+      if (event.asset_event_type_id !== DbAssetEventTypeId.Mint) {
+        continue;
+      }
+      // SIP-009 token ids are always `uint`s.
+      const value = decodeClarityValue(event.value);
+      if (value.type_id !== ClarityTypeID.UInt) {
+        continue;
+      }
+      const [contractId] = event.asset_identifier.split('::');
+      const tokenIds = mintedTokenIds.get(contractId) ?? [];
+      tokenIds.push(BigInt(value.value));
+      mintedTokenIds.set(contractId, tokenIds);
+    }
+  }
+  for (const [contractId, tokenIds] of mintedTokenIds) {
+    for (const tokenIdRange of getConsecutiveTokenIdRanges(tokenIds)) {
+      await db.enqueueTokenMetadataRefresh({ contractId, tokenIdRange });
+    }
+  }
+}
+
+/**
+ * Splits a non-empty list of token ids into ranges of consecutive ids, so each range can be
+ * processed by a single queue entry.
+ */
+function getConsecutiveTokenIdRanges(tokenIds: bigint[]): DbTokenIdRange[] {
+  const sortedIds = [...tokenIds].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const ranges: DbTokenIdRange[] = [];
+  let range: DbTokenIdRange = { start: sortedIds[0], end: sortedIds[0] };
+  for (const tokenId of sortedIds.slice(1)) {
+    if (tokenId <= range.end + 1n) {
+      range.end = tokenId;
+    } else {
+      ranges.push(range);
+      range = { start: tokenId, end: tokenId };
+    }
+  }
+  ranges.push(range);
+  return ranges;
 }
 
 function parseDataStoreTxEventData(
@@ -388,6 +506,7 @@ function parseDataStoreTxEventData(
           contract_identifier: event.contract_event.contract_identifier,
           topic: event.contract_event.topic,
           value: hexToBuffer(event.contract_event.raw_value),
+          print_topic: getPrintEventTopic(event.contract_event.raw_value),
         };
         dbTx.contractLogEvents.push(entry);
         // Check if we have new BNS names or namespaces.
@@ -0,0 +1,46 @@
+import { ClarityTypeID, decodeClarityValue } from 'stacks-encoding-native-js';
+
+const PRINT_EVENT_TOPIC_KEYS_ENV_VAR = 'STACKS_API_PRINT_EVENT_TOPIC_KEYS';
+
+/** Tuple keys checked, in order, for the topic of a `print` event unless configured otherwise. */
+const DEFAULT_PRINT_EVENT_TOPIC_KEYS = ['topic', 'event'];
+
+/**
+ * Tuple keys checked, in order, for the topic of a `print` event. Configured with a comma-separated
+ * list in `STACKS_API_PRINT_EVENT_TOPIC_KEYS`.
+ */
+export function getPrintEventTopicKeys(): string[] {
+  const keys = process.env[PRINT_EVENT_TOPIC_KEYS_ENV_VAR]?.split(',')
+    .map(key => key.trim())
+    .filter(key => key.length > 0);
+  return keys && keys.length > 0 ? keys : DEFAULT_PRINT_EVENT_TOPIC_KEYS;
+}
+
+/**
+ * Returns the topic of a tuple-shaped `print` event value, e.g. `"transfer"` for
+ * `(print { event: "transfer", amount: u1 })`.
+ * @param value - serialized Clarity value of the event
+ */
+export function getPrintEventTopic(
+  value: string | Buffer,
+  topicKeys = getPrintEventTopicKeys()
+): string | undefined {
+  try {
+    const decoded = decodeClarityValue(value);
+    if (decoded.type_id !== ClarityTypeID.Tuple) {
+      return undefined;
+    }
+    for (const key of topicKeys) {
+      const topic = decoded.data[key];
+      if (
+        topic?.type_id === ClarityTypeID.StringAscii ||
+        topic?.type_id === ClarityTypeID.StringUtf8
+      ) {
+        return topic.data;
+      }
+    }
+  } catch (error) {
+    // Not a decodable Clarity value
+  }
+  return undefined;
+}
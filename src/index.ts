@@ -26,6 +26,10 @@ import { injectC32addressEncodeCache } from './c32-addr-cache';
 import { exportEventsAsTsv, importEventsFromTsv } from './event-replay/event-replay';
 import { isFtMetadataEnabled, isNftMetadataEnabled } from './token-metadata/helpers';
 import { TokensProcessorQueue } from './token-metadata/tokens-processor-queue';
+import { refreshTokenMetadata } from './token-metadata/refresh-token-metadata';
+import { getTokenImageCache } from './token-metadata/image-cache';
+import { isWebhooksEnabled } from './webhooks/helpers';
+import { WebhookDispatcher } from './webhooks/webhook-dispatcher';
 
 enum StacksApiMode {
   /**
@@ -154,6 +158,10 @@ async function init(): Promise<void> {
         logger.warn('Non-Fungible Token metadata processing is not enabled.');
       }
       if (isFtMetadataEnabled() || isNftMetadataEnabled()) {
+        // Fail early on an invalid image cache configuration.
+        if (getTokenImageCache()) {
+          logger.info('Token image cache is enabled.');
+        }
         const tokenMetadataProcessor = new TokensProcessorQueue(db, configuredChainID);
         registerShutdownConfig({
           name: 'Token Metadata Processor',
@@ -163,6 +171,19 @@ async function init(): Promise<void> {
         // check if db has any non-processed token queues and await them all here
         await tokenMetadataProcessor.drainDbQueue();
       }
+
+      if (isWebhooksEnabled()) {
+        const webhookDispatcher = new WebhookDispatcher(db);
+        registerShutdownConfig({
+          name: 'Webhook Dispatcher',
+          handler: () => webhookDispatcher.close(),
+          forceKillable: true,
+        });
+        // Resume deliveries left pending by a previous run without blocking startup.
+        webhookDispatcher.drainDbQueue().catch(error => {
+          logError(`Error resuming webhook deliveries: ${error}`, error);
+        });
+      }
     }
   }
 
@@ -230,6 +251,7 @@ function getProgramArgs() {
   // TODO: use a more robust arg parsing library that has built-in `--help` functionality
   const parsedOpts = getopts(process.argv.slice(2), {
     boolean: ['overwrite-file', 'wipe-db'],
+    string: ['contract-id', 'token-id-start', 'token-id-end'],
   });
   const args = {
     operand: parsedOpts._[0],
@@ -250,6 +272,14 @@ function getProgramArgs() {
           ['wipe-db']?: boolean;
           ['force']?: boolean;
         };
+      }
+    | {
+        operand: 'refresh-token-metadata';
+        options: {
+          ['contract-id']?: string;
+          ['token-id-start']?: string;
+          ['token-id-end']?: string;
+        };
       };
   return { args, parsedOpts };
 }
@@ -265,6 +295,12 @@ async function handleProgramArgs() {
       args.options['wipe-db'],
       args.options.force
     );
+  } else if (args.operand === 'refresh-token-metadata') {
+    await refreshTokenMetadata(
+      args.options['contract-id'],
+      args.options['token-id-start'],
+      args.options['token-id-end']
+    );
   } else if (parsedOpts._[0]) {
     throw new Error(`Unexpected program argument: ${parsedOpts._[0]}`);
   } else {
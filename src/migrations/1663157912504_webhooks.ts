@@ -0,0 +1,89 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  pgm.createTable('webhooks', {
+    id: {
+      type: 'serial',
+      primaryKey: true,
+    },
+    url: {
+      type: 'string',
+      notNull: true,
+    },
+    secret: {
+      type: 'string',
+      notNull: true,
+    },
+    address: {
+      type: 'string',
+    },
+    contract_id: {
+      type: 'string',
+    },
+    event_type: {
+      type: 'string',
+    },
+    print_topic: {
+      type: 'string',
+    },
+    created_at: {
+      type: 'bigint',
+      notNull: true,
+    },
+  });
+
+  pgm.createTable('webhook_deliveries', {
+    id: {
+      type: 'serial',
+      primaryKey: true,
+    },
+    webhook_id: {
+      type: 'integer',
+      notNull: true,
+      references: 'webhooks',
+      onDelete: 'CASCADE',
+    },
+    tx_id: {
+      type: 'bytea',
+      notNull: true,
+    },
+    /** JSON request body, stored as sent so its signature can be reproduced on retries. */
+    payload: {
+      type: 'string',
+      notNull: true,
+    },
+    status: {
+      type: 'string',
+      notNull: true,
+    },
+    attempts: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    next_attempt_at: {
+      type: 'bigint',
+      notNull: true,
+    },
+    response_status: {
+      type: 'integer',
+    },
+    error: {
+      type: 'string',
+    },
+    created_at: {
+      type: 'bigint',
+      notNull: true,
+    },
+    delivered_at: {
+      type: 'bigint',
+    },
+  });
+
+  pgm.addConstraint('webhook_deliveries', 'unique_webhook_id_tx_id', 'UNIQUE(webhook_id, tx_id)');
+  pgm.createIndex('webhook_deliveries', [{ name: 'webhook_id' }, { name: 'id', sort: 'DESC' }]);
+  pgm.createIndex('webhook_deliveries', ['status', 'next_attempt_at']);
+}
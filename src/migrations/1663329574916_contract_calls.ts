@@ -0,0 +1,107 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  /**
+   * Indexes `contract_call` txs by the contract and function they called, so they can be listed
+   * without scanning every tx sent to the contract principal.
+   */
+  pgm.createTable('contract_calls', {
+    id: {
+      type: 'serial',
+      primaryKey: true,
+    },
+    contract_id: {
+      type: 'string',
+      notNull: true,
+    },
+    function_name: {
+      type: 'string',
+      notNull: true,
+    },
+    tx_id: {
+      type: 'bytea',
+      notNull: true,
+    },
+    sender_address: {
+      type: 'string',
+      notNull: true,
+    },
+    status: {
+      type: 'smallint',
+      notNull: true,
+    },
+    block_height: {
+      type: 'integer',
+      notNull: true,
+    },
+    index_block_hash: {
+      type: 'bytea',
+      notNull: true,
+    },
+    microblock_hash: {
+      type: 'bytea',
+      notNull: true,
+    },
+    microblock_sequence: {
+      type: 'integer',
+      notNull: true,
+    },
+    tx_index: {
+      type: 'smallint',
+      notNull: true,
+    },
+    canonical: {
+      type: 'boolean',
+      notNull: true,
+    },
+    microblock_canonical: {
+      type: 'boolean',
+      notNull: true,
+    },
+  });
+
+  pgm.createIndex('contract_calls', 'tx_id', { method: 'hash' });
+  pgm.createIndex('contract_calls', [
+    'contract_id',
+    'function_name',
+    { name: 'block_height', sort: 'DESC' },
+    { name: 'microblock_sequence', sort: 'DESC' },
+    { name: 'tx_index', sort: 'DESC' },
+  ]);
+  pgm.createIndex('contract_calls', [
+    'contract_id',
+    { name: 'block_height', sort: 'DESC' },
+    { name: 'microblock_sequence', sort: 'DESC' },
+    { name: 'tx_index', sort: 'DESC' },
+  ]);
+
+  pgm.addConstraint(
+    'contract_calls',
+    'unique_contract_calls_tx_id_index_block_hash_microblock_hash',
+    `UNIQUE(tx_id, index_block_hash, microblock_hash)`
+  );
+
+  // Backfill from txs that were ingested before this table existed. Non-canonical txs are copied too
+  // since their rows are kept up to date on re-orgs, same as txs written after this migration.
+  pgm.sql(`
+    INSERT INTO contract_calls
+      (contract_id, function_name, tx_id, sender_address, status,
+        block_height, index_block_hash, microblock_hash, microblock_sequence, tx_index,
+        canonical, microblock_canonical)
+    SELECT
+      contract_call_contract_id, contract_call_function_name, tx_id, sender_address, status,
+      block_height, index_block_hash, microblock_hash, microblock_sequence, tx_index,
+      canonical, microblock_canonical
+    FROM txs
+    WHERE type_id = 2
+      AND contract_call_contract_id IS NOT NULL
+      AND contract_call_function_name IS NOT NULL
+  `);
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropTable('contract_calls');
+}
@@ -0,0 +1,19 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  /**
+   * Topic of tuple-shaped `print` events, e.g. `"transfer"` for `(print { event: "transfer" })`,
+   * extracted during ingestion. Logs ingested before this column was added require an event replay
+   * to be populated.
+   */
+  pgm.addColumn('contract_logs', {
+    print_topic: {
+      type: 'string',
+    },
+  });
+
+  pgm.createIndex('contract_logs', ['contract_identifier', 'print_topic']);
+}
@@ -0,0 +1,81 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  /**
+   * Balance of every principal that has ever held a fungible token, derived from anchored canonical
+   * `ft_events`. Updated incrementally as events are written or change canonical status.
+   */
+  pgm.createTable('ft_balances', {
+    asset_identifier: {
+      type: 'string',
+      notNull: true,
+    },
+    address: {
+      type: 'string',
+      notNull: true,
+    },
+    balance: {
+      type: 'numeric',
+      notNull: true,
+    },
+  });
+  pgm.addConstraint('ft_balances', 'ft_balances_pkey', {
+    primaryKey: ['asset_identifier', 'address'],
+  });
+  pgm.createIndex('ft_balances', ['asset_identifier', { name: 'balance', sort: 'DESC' }]);
+
+  /**
+   * Minted and burned amounts of every fungible token, maintained the same way as `ft_balances`.
+   */
+  pgm.createTable('ft_supplies', {
+    asset_identifier: {
+      type: 'string',
+      primaryKey: true,
+    },
+    minted: {
+      type: 'numeric',
+      notNull: true,
+    },
+    burned: {
+      type: 'numeric',
+      notNull: true,
+    },
+  });
+
+  // Backfill from events that were ingested before these tables existed.
+  pgm.sql(`
+    WITH ft_changes AS (
+      SELECT asset_identifier, sender, recipient, amount
+      FROM ft_events
+      WHERE canonical = true AND microblock_canonical = true AND index_block_hash != '\\x'::bytea
+    )
+    INSERT INTO ft_balances (asset_identifier, address, balance)
+    SELECT asset_identifier, address, SUM(change)
+    FROM (
+      SELECT asset_identifier, recipient AS address, amount AS change
+      FROM ft_changes WHERE recipient IS NOT NULL
+      UNION ALL
+      SELECT asset_identifier, sender AS address, -amount AS change
+      FROM ft_changes WHERE sender IS NOT NULL
+    ) AS balance_changes
+    GROUP BY asset_identifier, address
+  `);
+  pgm.sql(`
+    INSERT INTO ft_supplies (asset_identifier, minted, burned)
+    SELECT
+      asset_identifier,
+      COALESCE(SUM(amount) FILTER (WHERE asset_event_type_id = 2), 0),
+      COALESCE(SUM(amount) FILTER (WHERE asset_event_type_id = 3), 0)
+    FROM ft_events
+    WHERE canonical = true AND microblock_canonical = true AND index_block_hash != '\\x'::bytea
+    GROUP BY asset_identifier
+  `);
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropTable('ft_supplies');
+  pgm.dropTable('ft_balances');
+}
@@ -0,0 +1,37 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  /**
+   * Trigram indexes back the prefix, substring and fuzzy matching of `/extended/v1/search`, which
+   * compares search terms against contract IDs, BNS names and token metadata.
+   */
+  pgm.createExtension('pg_trgm', { ifNotExists: true });
+
+  pgm.createIndex('smart_contracts', [{ name: 'contract_id', opclass: 'gin_trgm_ops' }], {
+    name: 'smart_contracts_contract_id_trgm_index',
+    method: 'gin',
+  });
+  pgm.createIndex('names', [{ name: 'name', opclass: 'gin_trgm_ops' }], {
+    name: 'names_name_trgm_index',
+    method: 'gin',
+  });
+  pgm.createIndex('subdomains', [{ name: 'fully_qualified_subdomain', opclass: 'gin_trgm_ops' }], {
+    name: 'subdomains_fully_qualified_subdomain_trgm_index',
+    method: 'gin',
+  });
+  pgm.createIndex('ft_metadata', [{ name: 'name', opclass: 'gin_trgm_ops' }], {
+    name: 'ft_metadata_name_trgm_index',
+    method: 'gin',
+  });
+  pgm.createIndex('ft_metadata', [{ name: 'symbol', opclass: 'gin_trgm_ops' }], {
+    name: 'ft_metadata_symbol_trgm_index',
+    method: 'gin',
+  });
+  pgm.createIndex('nft_metadata', [{ name: 'name', opclass: 'gin_trgm_ops' }], {
+    name: 'nft_metadata_name_trgm_index',
+    method: 'gin',
+  });
+}
@@ -0,0 +1,22 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  /**
+   * Inclusive range of NFT token ids to process, set by metadata refresh requests that only target some
+   * tokens of a contract. `NULL` means every token.
+   */
+  pgm.addColumns('token_metadata_queue', {
+    token_id_start: {
+      type: 'numeric',
+    },
+    token_id_end: {
+      type: 'numeric',
+    },
+  });
+  pgm.createIndex('token_metadata_queue', ['contract_id'], {
+    where: 'processed = false',
+  });
+}
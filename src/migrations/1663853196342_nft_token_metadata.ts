@@ -0,0 +1,52 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  /**
+   * Metadata of individual SIP-009 NFTs, resolved from the `get-token-uri` of each token id. Contract level
+   * metadata is still kept in `nft_metadata`.
+   */
+  pgm.createTable('nft_token_metadata', {
+    contract_id: {
+      type: 'string',
+      notNull: true,
+    },
+    token_id: {
+      type: 'numeric',
+      notNull: true,
+    },
+    token_uri: {
+      type: 'string',
+      notNull: true,
+    },
+    name: {
+      type: 'string',
+      notNull: true,
+    },
+    description: {
+      type: 'string',
+      notNull: true,
+    },
+    image_uri: {
+      type: 'string',
+      notNull: true,
+    },
+    image_canonical_uri: {
+      type: 'string',
+      notNull: true,
+    },
+    attributes: {
+      type: 'jsonb',
+    },
+    updated_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('(now())'),
+    },
+  });
+  pgm.addConstraint('nft_token_metadata', 'nft_token_metadata_pkey', {
+    primaryKey: ['contract_id', 'token_id'],
+  });
+}
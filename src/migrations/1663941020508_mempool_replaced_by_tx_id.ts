@@ -0,0 +1,18 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  /**
+   * Id of the tx that replaced this one, for txs dropped with a `ReplaceByFee` or `ReplaceAcrossFork`
+   * reason. `NULL` while the replacing tx is unknown.
+   */
+  pgm.addColumns('mempool_txs', {
+    replaced_by_tx_id: {
+      type: 'bytea',
+    },
+  });
+  // Replaced txs are linked to the pending txs with the same sender and nonce.
+  pgm.createIndex('mempool_txs', ['sender_address', 'nonce']);
+}
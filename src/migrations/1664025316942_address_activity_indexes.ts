@@ -0,0 +1,12 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  /**
+   * The activity timeline of a principal includes the BNS names it registered or received, looked up
+   * by owner address.
+   */
+  pgm.createIndex('names', 'address', { method: 'hash' });
+}
@@ -0,0 +1,11 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  /**
+   * Names owned by an address, and the primary name resolved for it, include the subdomains it owns.
+   */
+  pgm.createIndex('subdomains', 'owner', { method: 'hash' });
+}
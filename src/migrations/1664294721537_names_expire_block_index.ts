@@ -0,0 +1,11 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  /**
+   * Names about to expire are looked up by the expiration block of their rows.
+   */
+  pgm.createIndex('names', 'expire_block');
+}
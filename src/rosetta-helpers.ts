@@ -15,6 +15,7 @@ import {
   emptyMessageSignature,
   isSingleSig,
   makeSigHashPreSign,
+  MEMO_MAX_LENGTH_BYTES,
   MessageSignature,
   parseRecoverableSignature,
   PayloadType,
@@ -118,6 +119,14 @@ export function parseTransactionMemo(tx: BaseTx): string | null {
   return null;
 }
 
+/**
+ * Checks that a memo fits in a transfer: STX transfer memos and SIP-010 `(optional (buff 34))` memos
+ * are both limited to 34 bytes.
+ */
+export function isValidTransferMemo(memo: string): boolean {
+  return Buffer.byteLength(memo, 'utf8') <= MEMO_MAX_LENGTH_BYTES;
+}
+
 export async function getOperations(
   tx: DbTx | DbMempoolTx | BaseTx,
   db: DataStore,
@@ -365,17 +374,14 @@ function makeFtBurnOperation(
 ): RosettaOperation {
   const burn: RosettaOperation = {
     operation_identifier: { index: index },
-    type: getAssetEventTypeString(ftEvent.asset_event_type_id),
+    type: RosettaOperationType.FtBurn,
     status: getTxStatus(baseTx.status),
     account: {
       address: unwrapOptional(ftEvent.sender, () => 'Unexpected nullish sender_address'),
     },
     amount: {
       value: (0n - unwrapOptional(ftEvent.amount, () => 'Unexpected nullish amount')).toString(10),
-      currency: {
-        decimals: ftMetadata.decimals,
-        symbol: ftMetadata.symbol,
-      },
+      currency: getFtCurrencyMetadata(ftEvent.asset_identifier, ftMetadata),
     },
   };
 
@@ -409,7 +415,7 @@ function makeFtMintOperation(
 ): RosettaOperation {
   const mint: RosettaOperation = {
     operation_identifier: { index: index },
-    type: getAssetEventTypeString(ftEvent.asset_event_type_id),
+    type: RosettaOperationType.FtMint,
     status: getTxStatus(baseTx.status),
     account: {
       address: unwrapOptional(ftEvent.recipient, () => 'Unexpected nullish sender_address'),
@@ -419,10 +425,7 @@ function makeFtMintOperation(
         ftEvent.amount,
         () => 'Unexpected nullish token_transfer_amount'
       ).toString(10),
-      currency: {
-        decimals: ftMetadata.decimals,
-        symbol: ftMetadata.symbol,
-      },
+      currency: getFtCurrencyMetadata(ftEvent.asset_identifier, ftMetadata),
     },
   };
 
@@ -461,7 +464,7 @@ function makeFtSenderOperation(
 ): RosettaOperation {
   const sender: RosettaOperation = {
     operation_identifier: { index: index },
-    type: 'token_transfer',
+    type: RosettaOperationType.FtTransfer,
     status: getTxStatus(tx.status),
     account: {
       address: unwrapOptional(ftEvent.sender, () => 'Unexpected nullish sender_address'),
@@ -470,10 +473,7 @@ function makeFtSenderOperation(
       value: (
         0n - unwrapOptional(ftEvent.amount, () => 'Unexpected nullish token_transfer_amount')
       ).toString(10),
-      currency: {
-        decimals: ftMetadata.decimals,
-        symbol: ftMetadata.symbol,
-      },
+      currency: getFtCurrencyMetadata(ftEvent.asset_identifier, ftMetadata),
     },
     coin_change: {
       coin_action: CoinAction.CoinSpent,
@@ -521,7 +521,7 @@ function makeFtReceiverOperation(
   const receiver: RosettaOperation = {
     operation_identifier: { index: index },
     related_operations: [{ index: index - 1 }],
-    type: 'token_transfer',
+    type: RosettaOperationType.FtTransfer,
     status: getTxStatus(tx.status),
     account: {
       address: unwrapOptional(
@@ -534,10 +534,7 @@ function makeFtReceiverOperation(
         ftEvent.amount,
         () => 'Unexpected nullish token_transfer_amount'
       ).toString(10),
-      currency: {
-        decimals: ftMetadata.decimals,
-        symbol: ftMetadata.symbol,
-      },
+      currency: getFtCurrencyMetadata(ftEvent.asset_identifier, ftMetadata),
     },
     coin_change: {
       coin_action: CoinAction.CoinCreated,
@@ -668,6 +665,24 @@ export function getOptionsFromOperations(operations: RosettaOperation[]): Rosett
           }
         }
         break;
+      case RosettaOperationType.FtTransfer:
+        if (operation.amount) {
+          const assetIdentifier = operation.amount.currency.metadata?.asset_identifier;
+          if (typeof assetIdentifier !== 'string') {
+            return null;
+          }
+          options.asset_identifier = assetIdentifier;
+          if (BigInt(operation.amount.value) < 0) {
+            options.sender_address = operation.account?.address;
+            options.type = operation.type;
+          } else {
+            options.token_transfer_recipient_address = operation.account?.address;
+            options.amount = operation.amount.value;
+            options.symbol = operation.amount.currency.symbol;
+            options.decimals = operation.amount.currency.decimals;
+          }
+        }
+        break;
       case RosettaOperationType.StackStx:
         if (operation.amount && BigInt(operation.amount.value) > 0) {
           return null;
@@ -906,6 +921,10 @@ function parseStackStxArgs(contract: ContractCallTransaction): RosettaStakeContr
 
 export function isSymbolSupported(operations: RosettaOperation[]): boolean {
   for (const operation of operations) {
+    // Fungible token currencies are validated against the token metadata instead
+    if (operation.type === RosettaOperationType.FtTransfer) {
+      continue;
+    }
     if (operation.amount?.currency.symbol !== RosettaConstants.symbol) {
       return false;
     }
@@ -916,6 +935,9 @@ export function isSymbolSupported(operations: RosettaOperation[]): boolean {
 
 export function isDecimalsSupported(operations: RosettaOperation[]): boolean {
   for (const operation of operations) {
+    if (operation.type === RosettaOperationType.FtTransfer) {
+      continue;
+    }
     if (operation.amount?.currency.decimals !== RosettaConstants.decimals) {
       return false;
     }
@@ -933,6 +955,25 @@ function getStxCurrencyMetadata(): RosettaCurrency {
   return currency;
 }
 
+/**
+ * Currency of a SIP-010 fungible token. Its metadata carries the asset identifier so that tokens with
+ * the same symbol can be told apart.
+ */
+export function getFtCurrencyMetadata(
+  assetIdentifier: string,
+  ftMetadata: { symbol: string; decimals: number }
+): RosettaCurrency {
+  const currency: RosettaCurrency = {
+    decimals: ftMetadata.decimals,
+    symbol: ftMetadata.symbol,
+    metadata: {
+      asset_identifier: assetIdentifier,
+    },
+  };
+
+  return currency;
+}
+
 export function rawTxToStacksTransaction(raw_tx: string): StacksTransaction {
   const buffer = hexToBuffer(raw_tx);
   const transaction: StacksTransaction = deserializeTransaction(BufferReader.fromBuffer(buffer));
@@ -160,12 +160,14 @@ interface TestTxArgs {
   contract_call_function_name?: string;
   contract_call_function_args?: Buffer;
   abi?: string;
+  execution_cost_runtime?: number;
   fee_rate?: bigint;
   index_block_hash?: string;
   microblock_hash?: string;
   microblock_sequence?: number;
   parent_index_block_hash?: string;
   raw_result?: string;
+  raw_tx?: Buffer;
   sender_address?: string;
   smart_contract_contract_id?: string;
   smart_contract_source_code?: string;
@@ -191,7 +193,7 @@ function testTx(args?: TestTxArgs): DataStoreTxEventData {
       tx_index: args?.tx_index ?? 0,
       anchor_mode: 3,
       nonce: args?.nonce ?? 0,
-      raw_tx: Buffer.alloc(0),
+      raw_tx: args?.raw_tx ?? Buffer.alloc(0),
       index_block_hash: args?.index_block_hash ?? INDEX_BLOCK_HASH,
       block_hash: args?.block_hash ?? BLOCK_HASH,
       block_height: args?.block_height ?? BLOCK_HEIGHT,
@@ -221,7 +223,7 @@ function testTx(args?: TestTxArgs): DataStoreTxEventData {
       smart_contract_source_code: args?.smart_contract_source_code,
       execution_cost_read_count: 0,
       execution_cost_read_length: 0,
-      execution_cost_runtime: 0,
+      execution_cost_runtime: args?.execution_cost_runtime ?? 0,
       execution_cost_write_count: 0,
       execution_cost_write_length: 0,
       contract_call_contract_id: args?.contract_call_contract_id,
@@ -244,7 +246,9 @@ interface TestMempoolTxArgs {
   contract_call_contract_id?: string;
   contract_call_function_args?: Buffer;
   contract_call_function_name?: string;
+  fee_rate?: bigint;
   pruned?: boolean;
+  raw_tx?: Buffer;
   sender_address?: string;
   smart_contract_contract_id?: string;
   status?: DbTxStatus;
@@ -265,12 +269,12 @@ export function testMempoolTx(args?: TestMempoolTxArgs): DbMempoolTx {
     tx_id: args?.tx_id ?? TX_ID,
     anchor_mode: 3,
     nonce: args?.nonce ?? 0,
-    raw_tx: Buffer.from('test-raw-tx'),
+    raw_tx: args?.raw_tx ?? Buffer.from('test-raw-tx'),
     type_id: args?.type_id ?? DbTxTypeId.TokenTransfer,
     receipt_time: (new Date().getTime() / 1000) | 0,
     status: args?.status ?? DbTxStatus.Pending,
     post_conditions: Buffer.from([0x01, 0xf5]),
-    fee_rate: 1234n,
+    fee_rate: args?.fee_rate ?? 1234n,
     sponsored: false,
     sponsor_address: undefined,
     origin_hash_mode: 1,
@@ -390,6 +394,8 @@ interface TestSmartContractLogEventArgs {
   contract_identifier?: string;
   event_index?: number;
   tx_index?: number;
+  value?: Buffer;
+  print_topic?: string;
 }
 
 /**
@@ -407,7 +413,8 @@ function testSmartContractLogEvent(args?: TestSmartContractLogEventArgs): DbSmar
     event_type: DbEventTypeId.SmartContractLog,
     contract_identifier: args?.contract_identifier ?? CONTRACT_ID,
     topic: 'some-topic',
-    value: serializeCV(bufferCVFromString('some val')),
+    value: args?.value ?? serializeCV(bufferCVFromString('some val')),
+    print_topic: args?.print_topic,
   };
 }
 
@@ -783,6 +790,16 @@ export class TestMicroblockStreamBuilder {
     return this;
   }
 
+  addTxFtEvent(args?: TestFtEventArgs): TestMicroblockStreamBuilder {
+    const defaultArgs: TestFtEventArgs = {
+      tx_id: this.txData.tx.tx_id,
+      tx_index: this.txIndex,
+      event_index: ++this.eventIndex,
+    };
+    this.txData.ftEvents.push(testFtEvent({ ...defaultArgs, ...args }));
+    return this;
+  }
+
   addTxNftEvent(args?: TestNftEventArgs): TestMicroblockStreamBuilder {
     const defaultArgs: TestNftEventArgs = {
       tx_id: this.txData.tx.tx_id,
@@ -147,6 +147,30 @@ describe('BNS API tests', () => {
     expect(result.namespaces[0]).toBe('abc');
   });
 
+  test('Success: namespace details', async () => {
+    const query1 = await supertest(api.server).get(`/v1/namespaces/abc`);
+    expect(query1.status).toBe(200);
+    expect(query1.body).toStrictEqual({
+      namespace_id: 'abc',
+      address: 'ST2ZRX0K27GW0SP3GJCEMHD95TQGJMKB7G9Y0X1MH',
+      status: 'ready',
+      launched_at: 14,
+      reveal_block: 6,
+      ready_block: 1,
+      lifetime: 1,
+      price_function: {
+        base: '1',
+        coeff: '1',
+        buckets: [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
+        nonalpha_discount: 1,
+        no_vowel_discount: 1,
+      },
+      tx_id: '',
+    });
+    const query2 = await supertest(api.server).get(`/v1/namespaces/def`);
+    expect(query2.status).toBe(404);
+  });
+
   test('Success: fetching names from namespace', async () => {
     const query1 = await supertest(api.server).get(`/v1/namespaces/abc/names`);
     expect(query1.status).toBe(200);
@@ -206,10 +230,34 @@ describe('BNS API tests', () => {
   });
 
   test('Success: name price', async () => {
+    // Computed from the `abc` namespace price function: 1 * 1 ^ 1 / 1 * 10
     const query1 = await supertest(api.server).get(`/v2/prices/names/test.abc`);
     expect(query1.status).toBe(200);
     expect(query1.type).toBe('application/json');
-    expect(JSON.parse(query1.text).amount).toBe('6');
+    expect(JSON.parse(query1.text).amount).toBe('10');
+    const query2 = await supertest(api.server).get(`/v2/prices/names/test.def`);
+    expect(query2.status).toBe(400);
+  });
+
+  test('Success: batch name prices', async () => {
+    const query1 = await supertest(api.server)
+      .post(`/v2/prices/names`)
+      .send({ names: ['test.abc', 'test.def'] });
+    expect(query1.status).toBe(200);
+    expect(query1.body).toStrictEqual({
+      prices: [
+        { name: 'test.abc', units: 'STX', amount: '10' },
+        { name: 'test.def', units: 'STX', amount: null },
+      ],
+    });
+    const query2 = await supertest(api.server)
+      .post(`/v2/prices/names`)
+      .send({ names: ['test.abc', 'withoutdot'] });
+    expect(query2.status).toBe(400);
+    const query3 = await supertest(api.server)
+      .post(`/v2/prices/names`)
+      .send({ names: new Array(101).fill('test.abc') });
+    expect(query3.status).toBe(400);
   });
 
   test('Success:  validate namespace price schema', async () => {
@@ -692,6 +740,65 @@ describe('BNS API tests', () => {
     expect(query2.type).toBe('application/json');
   });
 
+  test('zonefile records are parsed', async () => {
+    const name = 'records-test.btc';
+    const zonefile =
+      '$ORIGIN records-test.btc\n$TTL 3600\n_http._tcp IN URI 10 1 "https://gaia.blockstack.org/hub/1J3PUxY5uDShUnHRrMyU6yKtoHEUPhKULs/profile.json"\n_resolver IN URI 10 1 "https://registrar.blockstack.org"\n_stx._addr IN TXT "SP3BK1NNSWN719Z6KDW05RBGVS940YCN6X84STYPR"\n@ IN A 127.0.0.1\n';
+    const block = new TestBlockBuilder({
+      block_height: 2,
+      index_block_hash: '0x02',
+      parent_index_block_hash: '0x1234'
+    })
+      .addTx({ tx_id: '0x22' })
+      .addTxBnsName({
+        name: name,
+        address: 'SP3BK1NNSWN719Z6KDW05RBGVS940YCN6X84STYPR',
+        namespace_id: 'btc',
+        zonefile: zonefile,
+        zonefile_hash: 'zonefileHash',
+      })
+      .build();
+    await db.update(block);
+
+    const query1 = await supertest(api.server).get(`/v1/names/${name}/zonefile?parsed=true`);
+    expect(query1.status).toBe(200);
+    expect(query1.body).toStrictEqual({
+      zonefile: zonefile,
+      records: {
+        uri: [
+          {
+            name: '_http._tcp',
+            priority: 10,
+            weight: 1,
+            target: 'https://gaia.blockstack.org/hub/1J3PUxY5uDShUnHRrMyU6yKtoHEUPhKULs/profile.json',
+          },
+          {
+            name: '_resolver',
+            priority: 10,
+            weight: 1,
+            target: 'https://registrar.blockstack.org',
+          },
+        ],
+        txt: [{ name: '_stx._addr', txt: ['SP3BK1NNSWN719Z6KDW05RBGVS940YCN6X84STYPR'] }],
+        a: [{ name: '@', ip: '127.0.0.1' }],
+        aaaa: [],
+        resolver: 'https://registrar.blockstack.org',
+      },
+    });
+
+    const query2 = await supertest(api.server).get(`/v1/names/${name}/records`);
+    expect(query2.status).toBe(200);
+    expect(query2.body).toStrictEqual({
+      profile_url:
+        'https://gaia.blockstack.org/hub/1J3PUxY5uDShUnHRrMyU6yKtoHEUPhKULs/profile.json',
+      btc_address: null,
+      stx_address: 'SP3BK1NNSWN719Z6KDW05RBGVS940YCN6X84STYPR',
+    });
+
+    const query3 = await supertest(api.server).get(`/v1/names/missing.btc/records`);
+    expect(query3.status).toBe(404);
+  });
+
   test('Fail get zonefile by name - invalid name', async () => {
     const query1 = await supertest(api.server).get(`/v1/names/invalidName/zonefile`);
     expect(query1.status).toBe(404);
@@ -930,6 +1037,241 @@ describe('BNS API tests', () => {
     expect(query.body.last_txid).toEqual('0xf111');
   })
 
+  test('name history lists every operation with its owners', async () => {
+    const name = 'history.btc';
+    const addr1 = 'SP3BK1NNSWN719Z6KDW05RBGVS940YCN6X84STYPR';
+    const addr2 = 'SP2JWXVBMB0DW53KC1PJ80VC7T6N2ZQDBGCDJDMNR';
+
+    const block2 = new TestBlockBuilder({
+      block_height: 2,
+      index_block_hash: '0x02',
+      parent_index_block_hash: '0x1234'
+    })
+      .addTx({ tx_id: '0x1111' })
+      .addTxBnsName({
+        name: name,
+        namespace_id: 'btc',
+        status: 'name-register',
+        address: addr1,
+        zonefile_hash: 'b100a68235244b012854a95f9114695679002af9',
+      })
+      .build();
+    await db.update(block2);
+
+    const block3 = new TestBlockBuilder({
+      block_height: 3,
+      index_block_hash: '0x03',
+      parent_index_block_hash: '0x02'
+    })
+      .addTx({ tx_id: '0x2222' })
+      .addTxBnsName({
+        name: name,
+        namespace_id: 'btc',
+        status: 'name-transfer',
+        address: addr2,
+        zonefile_hash: 'b100a68235244b012854a95f9114695679002af9',
+      })
+      .build();
+    await db.update(block3);
+
+    const query1 = await supertest(api.server).get(`/v1/names/${name}/history`);
+    expect(query1.status).toBe(200);
+    expect(query1.type).toBe('application/json');
+    expect(query1.body).toEqual([
+      {
+        operation: 'name-register',
+        tx_id: '0x1111',
+        block_height: 2,
+        old_owner: null,
+        new_owner: addr1,
+        zonefile_hash: 'b100a68235244b012854a95f9114695679002af9',
+        expire_block: expect.any(Number),
+      },
+      {
+        operation: 'name-transfer',
+        tx_id: '0x2222',
+        block_height: 3,
+        old_owner: addr1,
+        new_owner: addr2,
+        zonefile_hash: 'b100a68235244b012854a95f9114695679002af9',
+        expire_block: query1.body[0].expire_block,
+      },
+    ]);
+
+    const query2 = await supertest(api.server).get(`/v1/names/${name}/history?page=1`);
+    expect(query2.status).toBe(400);
+    const query3 = await supertest(api.server).get(`/v1/names/missing.btc/history`);
+    expect(query3.status).toBe(404);
+    const query4 = await supertest(api.server).get(`/v1/names/sub.${name}/history`);
+    expect(query4.status).toBe(400);
+  });
+
+  test('primary name is the most recently registered or received name', async () => {
+    const addr1 = 'SP3BK1NNSWN719Z6KDW05RBGVS940YCN6X84STYPR';
+    const addr2 = 'SP2JWXVBMB0DW53KC1PJ80VC7T6N2ZQDBGCDJDMNR';
+    const addr3 = 'SP2619TX0ZEZQ9A4QMS29WH1HKA86413NZHDZ2Z04';
+
+    const block2 = new TestBlockBuilder({
+      block_height: 2,
+      index_block_hash: '0x02',
+      parent_index_block_hash: '0x1234'
+    })
+      .addTx({ tx_id: '0x1111' })
+      .addTxBnsName({ name: 'first.btc', namespace_id: 'btc', address: addr1 })
+      .addTx({ tx_id: '0x1112' })
+      .addTxBnsName({ name: 'other.btc', namespace_id: 'btc', address: addr2 })
+      .build();
+    await db.update(block2);
+
+    const block3 = new TestBlockBuilder({
+      block_height: 3,
+      index_block_hash: '0x03',
+      parent_index_block_hash: '0x02'
+    })
+      .addTx({ tx_id: '0x2222' })
+      .addTxBnsName({ name: 'second.btc', namespace_id: 'btc', address: addr1 })
+      .build();
+    await db.update(block3);
+
+    const query1 = await supertest(api.server).get(`/v1/addresses/stacks/${addr1}/primary_name`);
+    expect(query1.status).toBe(200);
+    expect(query1.body).toStrictEqual({ name: 'second.btc' });
+
+    // Renewals don't change the primary name, transfers do.
+    const block4 = new TestBlockBuilder({
+      block_height: 4,
+      index_block_hash: '0x04',
+      parent_index_block_hash: '0x03'
+    })
+      .addTx({ tx_id: '0x3333' })
+      .addTxBnsName({
+        name: 'first.btc',
+        namespace_id: 'btc',
+        address: addr1,
+        status: 'name-renewal',
+      })
+      .addTx({ tx_id: '0x3334' })
+      .addTxBnsName({
+        name: 'other.btc',
+        namespace_id: 'btc',
+        address: addr1,
+        status: 'name-transfer',
+      })
+      .build();
+    await db.update(block4);
+    const subdomain: DbBnsSubdomain = {
+      namespace_id: 'btc',
+      name: 'first.btc',
+      fully_qualified_subdomain: 'sub.first.btc',
+      resolver: 'https://registrar.blockstack.org',
+      owner: addr3,
+      zonefile: 'test',
+      zonefile_hash: 'test-hash',
+      zonefile_offset: 0,
+      parent_zonefile_hash: 'p-test-hash',
+      parent_zonefile_index: 0,
+      block_height: 4,
+      tx_index: 0,
+      tx_id: '0x3333',
+      canonical: true,
+    };
+    await db.resolveBnsSubdomains(
+      {
+        index_block_hash: '0x04',
+        parent_index_block_hash: '0x03',
+        microblock_hash: '',
+        microblock_sequence: I32_MAX,
+        microblock_canonical: true,
+      },
+      [subdomain]
+    );
+
+    const query2 = await supertest(api.server).get(`/v1/addresses/stacks/${addr1}/primary_name`);
+    expect(query2.status).toBe(200);
+    expect(query2.body).toStrictEqual({ name: 'other.btc' });
+    const query3 = await supertest(api.server).get(`/v1/addresses/stacks/${addr2}/primary_name`);
+    expect(query3.status).toBe(200);
+    expect(query3.body).toStrictEqual({ name: null });
+
+    const query4 = await supertest(api.server)
+      .post(`/v1/addresses/stacks/primary_names`)
+      .send({ addresses: [addr1, addr2, addr3] });
+    expect(query4.status).toBe(200);
+    expect(query4.body).toStrictEqual({
+      names: {
+        [addr1]: 'other.btc',
+        [addr2]: null,
+        [addr3]: 'sub.first.btc',
+      },
+    });
+
+    const query5 = await supertest(api.server)
+      .post(`/v1/addresses/stacks/primary_names`)
+      .send({ addresses: [addr1, 'invalid'] });
+    expect(query5.status).toBe(400);
+    const query6 = await supertest(api.server)
+      .post(`/v1/addresses/stacks/primary_names`)
+      .send({ addresses: new Array(301).fill(addr1) });
+    expect(query6.status).toBe(400);
+    const query7 = await supertest(api.server)
+      .post(`/v1/addresses/stacks/primary_names`)
+      .send({ addresses: [addr1, 42, { address: addr2 }] });
+    expect(query7.status).toBe(400);
+    const query8 = await supertest(api.server).get(`/v1/addresses/invalid/${addr1}/primary_name`);
+    expect(query8.status).toBe(404);
+  });
+
+  test('expiring names are listed by expiration', async () => {
+    const address = 'SP3BK1NNSWN719Z6KDW05RBGVS940YCN6X84STYPR';
+    const block2 = new TestBlockBuilder({
+      block_height: 2,
+      index_block_hash: '0x02',
+      parent_index_block_hash: '0x1234'
+    })
+      .addTx({ tx_id: '0x1111' })
+      .addTxBnsName({ name: 'soon.btc', namespace_id: 'btc', address, expire_block: 10 })
+      .addTx({ tx_id: '0x1112' })
+      .addTxBnsName({ name: 'later.btc', namespace_id: 'btc', address, expire_block: 500 })
+      .addTx({ tx_id: '0x1113' })
+      .addTxBnsName({ name: 'renewed.btc', namespace_id: 'btc', address, expire_block: 20 })
+      .build();
+    await db.update(block2);
+    const block3 = new TestBlockBuilder({
+      block_height: 3,
+      index_block_hash: '0x03',
+      parent_index_block_hash: '0x02'
+    })
+      .addTx({ tx_id: '0x2222' })
+      .addTxBnsName({
+        name: 'renewed.btc',
+        namespace_id: 'btc',
+        address,
+        expire_block: 1000,
+        status: 'name-renewal',
+      })
+      .build();
+    await db.update(block3);
+
+    const query1 = await supertest(api.server).get(`/v1/names/expiring?within_blocks=100`);
+    expect(query1.status).toBe(200);
+    expect(query1.body).toStrictEqual([
+      { name: 'soon.btc', address, namespace_id: 'btc', expire_block: 10 },
+      {
+        name: 'xyz.abc',
+        address: 'ST5RRX0K27GW0SP3GJCEMHD95TQGJMKB7G9Y0X1ZA',
+        namespace_id: 'abc',
+        expire_block: 14,
+      },
+    ]);
+    const query2 = await supertest(api.server).get(`/v1/names/expiring?within_blocks=5`);
+    expect(query2.status).toBe(200);
+    expect(query2.body).toStrictEqual([]);
+    const query3 = await supertest(api.server).get(`/v1/names/expiring?within_blocks=100&page=1`);
+    expect(query3.status).toBe(400);
+    const query4 = await supertest(api.server).get(`/v1/names/expiring`);
+    expect(query4.status).toBe(400);
+  });
+
   afterEach(async () => {
     await api.terminate();
     client.release();
@@ -1,6 +1,9 @@
 import {
+  computeBnsNamePrice,
+  getZoneFileDeclaredRecords,
   parseNamespaceRawValue,
   parseNameRawValue,
+  parseZoneFileRecords,
   parseZoneFileTxt,
 } from '../event-stream/bns/bns-helpers';
 import * as zoneFileParser from 'zone-file';
@@ -92,4 +95,56 @@ describe('BNS helper tests', () => {
     expect(zoneFileTxt.parts).toBe('1');
     expect(zoneFileTxt.seqn).toBe('0');
   });
+
+  test('Parse zonefile records', () => {
+    const zonefile = `$ORIGIN muneeb.btc
+      $TTL 3600
+      _https._tcp	IN	URI	20	1	"https://backup.example.com/profile.json"
+      _http._tcp	IN	URI	10	1	"https://gaia.blockstack.org/hub/1J3PUxY5uDShUnHRrMyU6yKtoHEUPhKULs/profile.json"
+      _resolver	IN	URI	10	1	"http://localhost:3000"
+      _btc._addr	IN	TXT	"1J3PUxY5uDShUnHRrMyU6yKtoHEUPhKULs"
+      @	IN	A	127.0.0.1
+      @	IN	AAAA	::1
+      `;
+    const records = parseZoneFileRecords(zonefile);
+    expect(records.uri.length).toBe(3);
+    expect(records.txt).toEqual([
+      { name: '_btc._addr', txt: ['1J3PUxY5uDShUnHRrMyU6yKtoHEUPhKULs'] },
+    ]);
+    expect(records.a).toEqual([{ name: '@', ip: '127.0.0.1' }]);
+    expect(records.aaaa).toEqual([{ name: '@', ip: '::1' }]);
+    expect(records.resolver).toBe('http://localhost:3000');
+    expect(getZoneFileDeclaredRecords(records)).toEqual({
+      profileUrl:
+        'https://gaia.blockstack.org/hub/1J3PUxY5uDShUnHRrMyU6yKtoHEUPhKULs/profile.json',
+      btcAddress: '1J3PUxY5uDShUnHRrMyU6yKtoHEUPhKULs',
+      stxAddress: undefined,
+    });
+
+    const empty = parseZoneFileRecords('test-zone-file');
+    expect(empty).toEqual({ uri: [], txt: [], a: [], aaaa: [], resolver: undefined });
+  });
+
+  test('Compute name price', () => {
+    const namespace = {
+      base: 4n,
+      coeff: 250n,
+      buckets: '6,5,4,3,2,1,0,0,0,0,0,0,0,0,0,0',
+      nonalpha_discount: 2,
+      no_vowel_discount: 5,
+    };
+    expect(computeBnsNamePrice('muneeb', namespace)).toBe(10000n);
+    expect(computeBnsNamePrice('a', namespace)).toBe(10240000n);
+    // No vowels
+    expect(computeBnsNamePrice('bcd', namespace)).toBe(128000n);
+    // No vowels and non-alpha chars, the largest discount applies
+    expect(computeBnsNamePrice('bc-1', namespace)).toBe(32000n);
+    expect(computeBnsNamePrice('muneeb2', namespace)).toBe(1250n);
+    // Names longer than 16 chars use the last bucket
+    expect(computeBnsNamePrice('averyveryverylongname', namespace)).toBe(2500n);
+    expect(computeBnsNamePrice('', namespace)).toBeUndefined();
+    // Overflows
+    const hugeBase = { ...namespace, base: 2n ** 64n, buckets: '3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3' };
+    expect(computeBnsNamePrice('muneeb', hugeBase)).toBeUndefined();
+  });
 });
@@ -90,7 +90,10 @@ describe('/account tests', () => {
       {
         currency: {
           decimals: 0,
-          symbol: 'NYC'
+          symbol: 'NYC',
+          metadata: {
+            asset_identifier: 'SP2H8PY27SEZ03MWRKS5XABZYQN17ETGQS3527SA5.newyorkcitycoin-token::newyorkcitycoin'
+          }
         },
         value: '7500'
       }
@@ -169,6 +169,10 @@ describe('/block tests', () => {
         currency: {
           decimals: 0,
           symbol: 'NYC',
+          metadata: {
+            asset_identifier:
+              'SP2H8PY27SEZ03MWRKS5XABZYQN17ETGQS3527SA5.newyorkcitycoin-token::newyorkcitycoin',
+          },
         },
         value: '-7500',
       },
@@ -182,7 +186,7 @@ describe('/block tests', () => {
         index: 1,
       },
       status: 'success',
-      type: 'token_transfer',
+      type: 'ft_transfer',
     });
     expect(result1.operations[2]).toEqual({
       account: {
@@ -192,6 +196,10 @@ describe('/block tests', () => {
         currency: {
           decimals: 0,
           symbol: 'NYC',
+          metadata: {
+            asset_identifier:
+              'SP2H8PY27SEZ03MWRKS5XABZYQN17ETGQS3527SA5.newyorkcitycoin-token::newyorkcitycoin',
+          },
         },
         value: '7500',
       },
@@ -210,7 +218,7 @@ describe('/block tests', () => {
         },
       ],
       status: 'success',
-      type: 'token_transfer',
+      type: 'ft_transfer',
     });
 
     // FT burn
@@ -248,6 +256,10 @@ describe('/block tests', () => {
         currency: {
           decimals: 0,
           symbol: 'NYC',
+          metadata: {
+            asset_identifier:
+              'SP2H8PY27SEZ03MWRKS5XABZYQN17ETGQS3527SA5.newyorkcitycoin-token::newyorkcitycoin',
+          },
         },
         value: '-100',
       },
@@ -255,7 +267,7 @@ describe('/block tests', () => {
         index: 1,
       },
       status: 'success',
-      type: 'burn',
+      type: 'ft_burn',
     });
 
     // FT mint
@@ -293,6 +305,10 @@ describe('/block tests', () => {
         currency: {
           decimals: 0,
           symbol: 'NYC',
+          metadata: {
+            asset_identifier:
+              'SP2H8PY27SEZ03MWRKS5XABZYQN17ETGQS3527SA5.newyorkcitycoin-token::newyorkcitycoin',
+          },
         },
         value: '500',
       },
@@ -300,7 +316,7 @@ describe('/block tests', () => {
         index: 1,
       },
       status: 'success',
-      type: 'mint',
+      type: 'ft_mint',
     });
 
     // FT mint without metadata [mode=error]
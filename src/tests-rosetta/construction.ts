@@ -5,15 +5,19 @@ import { ApiServer, startApiServer } from '../api/init';
 import * as supertest from 'supertest';
 import { startEventServer } from '../event-stream/event-server';
 import { Server } from 'net';
-import { DbTx, DbTxStatus } from '../datastore/common';
+import { DbFungibleTokenMetadata, DbTx, DbTxStatus } from '../datastore/common';
 import * as assert from 'assert';
 import {
   AnchorMode,
   AuthType,
   bufferCV,
+  bufferCVFromString,
   ChainID,
+  createAssetInfo,
   createStacksPrivateKey,
+  FungibleConditionCode,
   getPublicKey,
+  makeStandardFungiblePostCondition,
   makeSTXTokenTransfer,
   makeUnsignedContractCall,
   makeUnsignedSTXTokenTransfer,
@@ -120,6 +124,49 @@ describe('Rosetta API', () => {
 
   /* rosetta construction api tests below */
 
+  const ftContractId = 'ST27W5M8BRKA7C5MZE2R1S1F4XTPHFWFRNHA9M04Y.newyorkcitycoin-token';
+  const ftAssetIdentifier = `${ftContractId}::newyorkcitycoin`;
+
+  async function declareFtMetadata() {
+    const ftMetadata: DbFungibleTokenMetadata = {
+      token_uri: 'https://cdn.citycoins.co/metadata/newyorkcitycoin.json',
+      name: 'newyorkcitycoin',
+      description: 'A CityCoin for New York City',
+      image_uri: '',
+      image_canonical_uri: '',
+      symbol: 'NYC',
+      decimals: 0,
+      tx_id: '0x9c8ddc44fcfdfc67af5425c4174833fc5814627936d573fe38fc29a46ba746e6',
+      sender_address: 'ST27W5M8BRKA7C5MZE2R1S1F4XTPHFWFRNHA9M04Y',
+      contract_id: ftContractId,
+    };
+    await db.updateFtMetadata(ftMetadata);
+  }
+
+  function makeFtTransferOperations(sender: string, recipient: string, amount: string) {
+    const currency = {
+      symbol: 'NYC',
+      decimals: 0,
+      metadata: { asset_identifier: ftAssetIdentifier },
+    };
+    return [
+      {
+        operation_identifier: { index: 1, network_index: 0 },
+        related_operations: [],
+        type: 'ft_transfer',
+        account: { address: sender, metadata: {} },
+        amount: { value: '-' + amount, currency, metadata: {} },
+      },
+      {
+        operation_identifier: { index: 2, network_index: 0 },
+        related_operations: [],
+        type: 'ft_transfer',
+        account: { address: recipient, metadata: {} },
+        amount: { value: amount, currency, metadata: {} },
+      },
+    ];
+  }
+
   test('construction/derive', async () => {
     const request: RosettaConstructionDeriveRequest = {
       network_identifier: {
@@ -357,6 +404,59 @@ describe('Rosetta API', () => {
     expect(JSON.parse(result2.text)).toEqual(expectedResponse2);
   });
 
+  test('construction/preprocess - ft_transfer', async () => {
+    await declareFtMetadata();
+    const sender = 'STB44HYPYAT2BB2QE513NSP81HTMYWBJP02HPGK6';
+    const recipient = 'STDE7Y8HV3RX8VBM2TZVWJTS7ZA1XB0SSC3NEVH0';
+    const request: RosettaConstructionPreprocessRequest = {
+      network_identifier: {
+        blockchain: RosettaConstants.blockchain,
+        network: getRosettaNetworkName(ChainID.Testnet),
+      },
+      operations: makeFtTransferOperations(sender, recipient, '7500'),
+      metadata: {
+        memo: 'SAMPLE MEMO',
+      },
+    };
+
+    const result = await supertest(api.server)
+      .post(`/rosetta/v1/construction/preprocess`)
+      .send(request);
+    expect(result.status).toBe(200);
+    expect(result.type).toBe('application/json');
+    const response: RosettaConstructionPreprocessResponse = JSON.parse(result.text);
+    expect(response.options).toEqual({
+      sender_address: sender,
+      type: 'ft_transfer',
+      token_transfer_recipient_address: recipient,
+      amount: '7500',
+      symbol: 'NYC',
+      decimals: 0,
+      asset_identifier: ftAssetIdentifier,
+      memo: 'SAMPLE MEMO',
+      size: expect.any(Number),
+    });
+    expect(response.required_public_keys).toEqual([{ address: sender }]);
+
+    // Currency must match the token metadata
+    const wrongDecimals = makeFtTransferOperations(sender, recipient, '7500');
+    wrongDecimals.forEach(op => (op.amount.currency.decimals = 6));
+    const result2 = await supertest(api.server)
+      .post(`/rosetta/v1/construction/preprocess`)
+      .send({ ...request, operations: wrongDecimals });
+    expect(result2.status).toBe(400);
+    expect(JSON.parse(result2.text)).toEqual(
+      RosettaErrors[RosettaErrorsTypes.invalidCurrencyDecimals]
+    );
+
+    // SIP-010 memos are `(optional (buff 34))`
+    const result3 = await supertest(api.server)
+      .post(`/rosetta/v1/construction/preprocess`)
+      .send({ ...request, metadata: { memo: 'M'.repeat(35) } });
+    expect(result3.status).toBe(400);
+    expect(JSON.parse(result3.text)).toEqual(RosettaErrors[RosettaErrorsTypes.invalidMemo]);
+  });
+
   test('construction/metadata - success', async () => {
     const request: RosettaConstructionMetadataRequest = {
       network_identifier: {
@@ -1128,6 +1228,98 @@ describe('Rosetta API', () => {
     expect(JSON.parse(result.text)).toEqual(expectedResponse);
   });
 
+  test('payloads single sign - ft_transfer', async () => {
+    const publicKey = publicKeyToString(pubKeyfromPrivKey(testnetKeys[0].secretKey));
+    const sender = testnetKeys[0].stacksAddress;
+    const recipient = testnetKeys[1].stacksAddress;
+    const fee = '270';
+
+    const request: RosettaConstructionPayloadsRequest = {
+      network_identifier: {
+        blockchain: 'stacks',
+        network: 'testnet',
+      },
+      operations: [
+        {
+          operation_identifier: { index: 0, network_index: 0 },
+          related_operations: [],
+          type: 'fee',
+          account: { address: sender, metadata: {} },
+          amount: {
+            value: '-' + fee,
+            currency: { symbol: 'STX', decimals: 6 },
+            metadata: {},
+          },
+        },
+        ...makeFtTransferOperations(sender, recipient, '7500'),
+      ],
+      metadata: {
+        account_sequence: 0,
+        memo: 'SAMPLE MEMO',
+      },
+      public_keys: [
+        {
+          hex_bytes: publicKey,
+          curve_type: 'secp256k1',
+        },
+      ],
+    };
+
+    const [contractAddress, contractName] = ftContractId.split('.');
+    const ftTransferOptions: UnsignedContractCallOptions = {
+      contractAddress,
+      contractName,
+      functionName: 'transfer',
+      publicKey,
+      functionArgs: [
+        uintCV('7500'),
+        standardPrincipalCV(sender),
+        standardPrincipalCV(recipient),
+        someCV(bufferCVFromString('SAMPLE MEMO')),
+      ],
+      postConditions: [
+        makeStandardFungiblePostCondition(
+          sender,
+          FungibleConditionCode.Equal,
+          '7500',
+          createAssetInfo(contractAddress, contractName, 'newyorkcitycoin')
+        ),
+      ],
+      validateWithAbi: false,
+      network: getStacksNetwork(),
+      fee: new BN(fee),
+      nonce: new BN(0),
+      anchorMode: AnchorMode.Any,
+    };
+    const transaction = await makeUnsignedContractCall(ftTransferOptions);
+    const unsignedTransaction = transaction.serialize();
+    const signer = new TransactionSigner(transaction);
+    const prehash = makeSigHashPreSign(signer.sigHash, AuthType.Standard, new BN(fee), new BN(0));
+
+    const result = await supertest(api.server)
+      .post(`/rosetta/v1/construction/payloads`)
+      .send(request);
+    expect(result.status).toBe(200);
+    expect(result.type).toBe('application/json');
+    expect(JSON.parse(result.text)).toEqual({
+      unsigned_transaction: '0x' + unsignedTransaction.toString('hex'),
+      payloads: [
+        {
+          address: sender,
+          account_identifier: { address: sender },
+          hex_bytes: prehash,
+          signature_type: 'ecdsa_recovery',
+        },
+      ],
+    });
+
+    const longMemo = await supertest(api.server)
+      .post(`/rosetta/v1/construction/payloads`)
+      .send({ ...request, metadata: { ...request.metadata, memo: 'M'.repeat(35) } });
+    expect(longMemo.status).toBe(400);
+    expect(JSON.parse(longMemo.text)).toEqual(RosettaErrors[RosettaErrorsTypes.invalidMemo]);
+  });
+
   test('payloads public key not added', async () => {
     const request: RosettaConstructionPayloadsRequest = {
       network_identifier: {
@@ -0,0 +1,154 @@
+import * as supertest from 'supertest';
+import * as nock from 'nock';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChainID } from '@stacks/transactions';
+import { ApiServer, startApiServer } from '../api/init';
+import { cycleMigrations, PgDataStore, runMigrations } from '../datastore/postgres-store';
+import { TokenImageCache, TokenImageRejectedError } from '../token-metadata/image-cache';
+import { LocalImageStorage, S3ImageStorage } from '../token-metadata/image-storage';
+
+const PNG_IMAGE = Buffer.from(
+  '89504e470d0a1a0a0000000d49484452000000010000000108060000001f15c4890000000d4944415478da63f8cfc0f01f0005000201e5273de60000000049454e44ae426082',
+  'hex'
+);
+const IMAGE_KEY = '9e2c1d37dbcb0f8ec7ba6e8e7e2d1d4b7a4c2cde2bff3fdc7a7e1a3b9f9e1c5d.png';
+
+describe('token image cache', () => {
+  let db: PgDataStore;
+  let api: ApiServer;
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    process.env.PG_DATABASE = 'postgres';
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'image-cache-'));
+    process.env['STACKS_API_IMAGE_CACHE_STORAGE'] = 'local';
+    process.env['STACKS_API_IMAGE_CACHE_DIR'] = cacheDir;
+    process.env['STACKS_API_IMAGE_CACHE_PUBLIC_URL'] = 'https://api.example.com/';
+    await cycleMigrations();
+    db = await PgDataStore.connect({ usageName: 'tests', withNotifier: false });
+    api = await startApiServer({ datastore: db, chainId: ChainID.Testnet, httpLogLevel: 'silly' });
+    nock.cleanAll();
+  });
+
+  test('images are cached and served', async () => {
+    nock('http://images.example.com')
+      .get('/explorer.png')
+      .reply(200, PNG_IMAGE, { 'Content-Type': 'image/png' });
+    const cache = new TokenImageCache({
+      storage: new LocalImageStorage(cacheDir),
+      publicUrl: 'https://api.example.com/',
+    });
+    const url = await cache.cacheImage('http://images.example.com/explorer.png');
+    const key = path.basename(url);
+    expect(key).toMatch(/^[0-9a-f]{64}\.png$/);
+    expect(url).toBe(`https://api.example.com/extended/v1/tokens/images/${key}`);
+    expect(fs.readFileSync(path.join(cacheDir, key))).toEqual(PNG_IMAGE);
+
+    const image = await supertest(api.server).get(`/extended/v1/tokens/images/${key}`);
+    expect(image.status).toBe(200);
+    expect(image.headers['content-type']).toBe('image/png');
+    expect(image.headers['cache-control']).toBe('public, max-age=31536000, immutable');
+    expect(image.body).toEqual(PNG_IMAGE);
+
+    const notFound = await supertest(api.server).get(`/extended/v1/tokens/images/${IMAGE_KEY}`);
+    expect(notFound.status).toBe(404);
+    const invalidKey = await supertest(api.server).get(`/extended/v1/tokens/images/..%2F.env`);
+    expect(invalidKey.status).toBe(404);
+  });
+
+  test('data URL images are cached', async () => {
+    const cache = new TokenImageCache({
+      storage: new LocalImageStorage(cacheDir),
+      publicUrl: 'https://api.example.com',
+    });
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg"><circle r="1"/></svg>';
+    const url = await cache.cacheImage(`data:image/svg+xml,${encodeURIComponent(svg)}`);
+    expect(url).toMatch(/\.svg$/);
+    const image = await supertest(api.server).get(new URL(url).pathname);
+    expect(image.status).toBe(200);
+    expect(image.headers['content-type']).toBe('image/svg+xml');
+    expect(image.headers['content-security-policy']).toContain("default-src 'none'");
+  });
+
+  test('images breaking limits are rejected', async () => {
+    const cache = new TokenImageCache({
+      storage: new LocalImageStorage(cacheDir),
+      publicUrl: 'https://api.example.com',
+      maxBytes: 50,
+    });
+    nock('http://images.example.com')
+      .get('/large.png')
+      .reply(200, PNG_IMAGE, { 'Content-Type': 'image/png' });
+    await expect(cache.cacheImage('http://images.example.com/large.png')).rejects.toThrow(
+      TokenImageRejectedError
+    );
+    nock('http://images.example.com')
+      .get('/page.png')
+      .reply(200, '<html></html>', { 'Content-Type': 'text/html' });
+    await expect(cache.cacheImage('http://images.example.com/page.png')).rejects.toThrow(
+      TokenImageRejectedError
+    );
+    nock('http://images.example.com')
+      .get('/unknown.png')
+      .reply(200, 'not an image', { 'Content-Type': 'image/png' });
+    await expect(cache.cacheImage('http://images.example.com/unknown.png')).rejects.toThrow(
+      TokenImageRejectedError
+    );
+    nock('http://images.example.com').get('/missing.png').reply(404);
+    await expect(cache.cacheImage('http://images.example.com/missing.png')).rejects.toThrow(
+      TokenImageRejectedError
+    );
+    // Unavailable hosts are not rejections, they can be retried.
+    nock('http://images.example.com').get('/unavailable.png').reply(503);
+    await expect(
+      cache.cacheImage('http://images.example.com/unavailable.png')
+    ).rejects.not.toBeInstanceOf(TokenImageRejectedError);
+    nock('http://images.example.com').get('/offline.png').replyWithError({ code: 'ECONNREFUSED' });
+    await expect(
+      cache.cacheImage('http://images.example.com/offline.png')
+    ).rejects.not.toBeInstanceOf(TokenImageRejectedError);
+    expect(fs.readdirSync(cacheDir)).toEqual([]);
+  });
+
+  test('s3 storage signs requests', async () => {
+    const storage = new S3ImageStorage({
+      bucket: 'token-images',
+      region: 'us-east-1',
+      accessKeyId: 'AKIDEXAMPLE',
+      secretAccessKey: 'secret',
+      endpoint: 'http://localhost:9000',
+    });
+    let authorization: string | undefined;
+    nock('http://localhost:9000')
+      .put(`/token-images/${IMAGE_KEY}`)
+      .reply(function () {
+        // Recorded request headers are arrays at runtime even though nock types them as strings.
+        const header: string | string[] = this.req.headers['authorization'];
+        authorization = Array.isArray(header) ? header[0] : header;
+        return [200, ''];
+      });
+    await storage.put(IMAGE_KEY, PNG_IMAGE, 'image/png');
+    expect(authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/us-east-1\/s3\/aws4_request, SignedHeaders=cache-control;content-type;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+    );
+
+    nock('http://localhost:9000')
+      .get(`/token-images/${IMAGE_KEY}`)
+      .reply(200, PNG_IMAGE, { 'Content-Type': 'image/png' });
+    expect(await storage.get(IMAGE_KEY)).toEqual({ data: PNG_IMAGE, contentType: 'image/png' });
+    nock('http://localhost:9000').get(`/token-images/${IMAGE_KEY}`).reply(404);
+    expect(await storage.get(IMAGE_KEY)).toBeUndefined();
+  });
+
+  afterEach(async () => {
+    delete process.env['STACKS_API_IMAGE_CACHE_STORAGE'];
+    delete process.env['STACKS_API_IMAGE_CACHE_DIR'];
+    delete process.env['STACKS_API_IMAGE_CACHE_PUBLIC_URL'];
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+    await api.terminate();
+    await db?.close();
+    await runMigrations(undefined, 'down');
+  });
+});
@@ -0,0 +1,334 @@
+import * as supertest from 'supertest';
+import * as nock from 'nock';
+import {
+  ChainID,
+  ClarityAbi,
+  contractPrincipalCV,
+  cvToHex,
+  listCV,
+  serializeCV,
+  stringAsciiCV,
+  stringUtf8CV,
+  tupleCV,
+  uintCV,
+} from '@stacks/transactions';
+import { PoolClient } from 'pg';
+import { TestBlockBuilder } from '../test-utils/test-builders';
+import { ApiServer, startApiServer } from '../api/init';
+import { cycleMigrations, PgDataStore, runMigrations } from '../datastore/postgres-store';
+import { DbTxTypeId } from '../datastore/common';
+import { parseTokenMetadataUpdateNotification } from '../token-metadata/helpers';
+import { TokensContractHandler } from '../token-metadata/tokens-contract-handler';
+
+const NFT_CONTRACT_ABI: ClarityAbi = {
+  maps: [],
+  functions: [
+    {
+      access: 'read_only',
+      args: [],
+      name: 'get-last-token-id',
+      outputs: { type: { response: { ok: 'uint128', error: 'uint128' } } },
+    },
+    {
+      access: 'read_only',
+      args: [{ name: 'id', type: 'uint128' }],
+      name: 'get-token-uri',
+      outputs: {
+        type: {
+          response: { ok: { optional: { 'string-ascii': { length: 256 } } }, error: 'uint128' },
+        },
+      },
+    },
+    {
+      access: 'read_only',
+      args: [{ name: 'id', type: 'uint128' }],
+      name: 'get-owner',
+      outputs: { type: { response: { ok: { optional: 'principal' }, error: 'uint128' } } },
+    },
+    {
+      access: 'public',
+      args: [
+        { name: 'id', type: 'uint128' },
+        { name: 'sender', type: 'principal' },
+        { name: 'recipient', type: 'principal' },
+      ],
+      name: 'transfer',
+      outputs: { type: { response: { ok: 'bool', error: 'uint128' } } },
+    },
+  ],
+  variables: [],
+  fungible_tokens: [],
+  non_fungible_tokens: [{ name: 'beeple', type: 'uint128' }],
+};
+
+describe('token metadata refresh', () => {
+  let db: PgDataStore;
+  let client: PoolClient;
+  let api: ApiServer;
+
+  const contractId = 'SP176ZMV706NZGDDX8VSQRGMB7QN33BBDVZ6BMNHD.project-indigo-act1';
+  const authToken = 'test-refresh-token';
+
+  beforeEach(async () => {
+    process.env.PG_DATABASE = 'postgres';
+    process.env['STACKS_API_ENABLE_FT_METADATA'] = '1';
+    process.env['STACKS_API_ENABLE_NFT_METADATA'] = '1';
+    process.env['STACKS_API_TOKEN_METADATA_REFRESH_AUTH_TOKEN'] = authToken;
+    await cycleMigrations();
+    db = await PgDataStore.connect({ usageName: 'tests', withNotifier: false });
+    client = await db.pool.connect();
+    api = await startApiServer({ datastore: db, chainId: ChainID.Testnet, httpLogLevel: 'silly' });
+
+    const block = new TestBlockBuilder({ block_height: 1, index_block_hash: '0x01' })
+      .addTx({
+        tx_id: '0x1f1f',
+        type_id: DbTxTypeId.SmartContract,
+        smart_contract_contract_id: contractId,
+        smart_contract_source_code: '(source)',
+      })
+      .addTxSmartContract({
+        contract_id: contractId,
+        contract_source: '(source)',
+        abi: JSON.stringify(NFT_CONTRACT_ABI),
+      })
+      .build();
+    await db.update(block);
+  });
+
+  test('refresh requires auth token', async () => {
+    const noAuth = await supertest(api.server).post(
+      `/extended/v1/tokens/${contractId}/metadata/refresh`
+    );
+    expect(noAuth.status).toBe(401);
+    const badAuth = await supertest(api.server)
+      .post(`/extended/v1/tokens/${contractId}/metadata/refresh`)
+      .set('Authorization', 'Bearer wrong-token');
+    expect(badAuth.status).toBe(401);
+  });
+
+  test('refresh re-queues processed contracts', async () => {
+    const refresh = (body?: Record<string, string>) =>
+      supertest(api.server)
+        .post(`/extended/v1/tokens/${contractId}/metadata/refresh`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(body);
+
+    // The entry queued on deployment is still pending.
+    const pending = await refresh();
+    expect(pending.status).toBe(202);
+    expect(pending.body).toEqual({ queue_id: 1, contract_id: contractId });
+
+    await db.updateProcessedTokenMetadataQueueEntry(1);
+    const requeued = await refresh();
+    expect(requeued.status).toBe(202);
+    expect(requeued.body).toEqual({ queue_id: 2, contract_id: contractId });
+
+    const range = await refresh({ token_id_start: '5', token_id_end: '10' });
+    expect(range.status).toBe(202);
+    expect(range.body).toEqual({
+      queue_id: 3,
+      contract_id: contractId,
+      token_id_start: '5',
+      token_id_end: '10',
+    });
+    const sameRange = await refresh({ token_id_start: '5', token_id_end: '10' });
+    expect(sameRange.body.queue_id).toBe(3);
+    const entry = await db.getTokenMetadataQueueEntry(3);
+    expect(entry.result?.tokenIdRange).toEqual({ start: 5n, end: 10n });
+    expect(entry.result?.processed).toBe(false);
+
+    const invalidRange = await refresh({ token_id_start: '10', token_id_end: '5' });
+    expect(invalidRange.status).toBe(400);
+    const partialRange = await refresh({ token_id_start: '10' });
+    expect(partialRange.status).toBe(400);
+  });
+
+  test('refresh replaces processed metadata', async () => {
+    const processContract = async (queueId: number, name: string) => {
+      nock('http://127.0.0.1:20443')
+        .post(
+          '/v2/contracts/call-read/SP176ZMV706NZGDDX8VSQRGMB7QN33BBDVZ6BMNHD/project-indigo-act1/get-token-uri'
+        )
+        .reply(200, { okay: true, result: cvToHex(stringUtf8CV('http://indigo.com/nft.json')) });
+      nock('http://indigo.com').get('/nft.json').reply(200, { name, description: name });
+      const handler = new TokensContractHandler({
+        contractId: contractId,
+        smartContractAbi: NFT_CONTRACT_ABI,
+        datastore: db,
+        chainId: ChainID.Testnet,
+        txId: '0x1f1f',
+        dbQueueId: queueId,
+      });
+      await handler.start();
+    };
+
+    await processContract(1, 'Indigo');
+    const initial = await supertest(api.server).get(
+      `/extended/v1/tokens/${contractId}/nft/metadata`
+    );
+    expect(initial.status).toBe(200);
+    expect(initial.body.name).toBe('Indigo');
+
+    const refresh = await supertest(api.server)
+      .post(`/extended/v1/tokens/${contractId}/metadata/refresh`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(refresh.status).toBe(202);
+    expect(refresh.body.queue_id).toBe(2);
+
+    await processContract(2, 'Indigo Act 1');
+    const refreshed = await supertest(api.server).get(
+      `/extended/v1/tokens/${contractId}/nft/metadata`
+    );
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.body.name).toBe('Indigo Act 1');
+    expect(refreshed.body.description).toBe('Indigo Act 1');
+  });
+
+  test('refresh of unknown contracts', async () => {
+    const unknown = await supertest(api.server)
+      .post(`/extended/v1/tokens/SP176ZMV706NZGDDX8VSQRGMB7QN33BBDVZ6BMNHD.other/metadata/refresh`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(unknown.status).toBe(404);
+    const invalid = await supertest(api.server)
+      .post(`/extended/v1/tokens/invalid-contract/metadata/refresh`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(invalid.status).toBe(400);
+  });
+
+  test('range refresh processes the metadata of each token', async () => {
+    process.env['STACKS_CORE_RPC_PORT'] = '20443';
+    nock.cleanAll();
+    nock('http://127.0.0.1:20443')
+      .post(
+        '/v2/contracts/call-read/SP176ZMV706NZGDDX8VSQRGMB7QN33BBDVZ6BMNHD/project-indigo-act1/get-token-uri'
+      )
+      .times(2)
+      .reply(200, { okay: true, result: cvToHex(stringUtf8CV('http://indigo.com/{id}.json')) });
+    nock('http://indigo.com')
+      .get('/5.json')
+      .reply(200, {
+        name: 'Indigo #5',
+        description: 'Fifth',
+        image: 'http://indigo.com/5.png',
+        attributes: [{ trait_type: 'Color', value: 'Blue' }],
+      });
+    nock('http://indigo.com').get('/6.json').reply(200, { name: 'Indigo #6' });
+
+    const handler = new TokensContractHandler({
+      contractId: contractId,
+      smartContractAbi: NFT_CONTRACT_ABI,
+      datastore: db,
+      chainId: ChainID.Testnet,
+      txId: '0x1f1f',
+      dbQueueId: 1,
+      tokenIdRange: { start: 5n, end: 6n },
+    });
+    await handler.start();
+    const entry = await db.getTokenMetadataQueueEntry(1);
+    expect(entry.result?.processed).toBe(true);
+
+    const token5 = await db.getNftTokenMetadata({ contractId, tokenId: 5n });
+    expect(token5.result).toEqual({
+      contract_id: contractId,
+      token_id: 5n,
+      token_uri: 'http://indigo.com/5.json',
+      name: 'Indigo #5',
+      description: 'Fifth',
+      image_uri: 'http://indigo.com/5.png',
+      image_canonical_uri: 'http://indigo.com/5.png',
+      attributes: [{ trait_type: 'Color', value: 'Blue' }],
+    });
+    const token6 = await db.getNftTokenMetadata({ contractId, tokenId: 6n });
+    expect(token6.result?.name).toBe('Indigo #6');
+    expect(token6.result?.attributes).toBeUndefined();
+    // Range refreshes leave the contract level metadata untouched.
+    expect((await db.getNftMetadata(contractId)).found).toBe(false);
+  });
+
+  test('token failures do not fail the range refresh', async () => {
+    process.env['STACKS_CORE_RPC_PORT'] = '20443';
+    const tokenUriPath =
+      '/v2/contracts/call-read/SP176ZMV706NZGDDX8VSQRGMB7QN33BBDVZ6BMNHD/project-indigo-act1/get-token-uri';
+    const tokenUriResult = {
+      okay: true,
+      result: cvToHex(stringUtf8CV('http://indigo.com/{id}.json')),
+    };
+    nock('http://127.0.0.1:20443')
+      .post(tokenUriPath)
+      .reply(200, tokenUriResult)
+      .post(tokenUriPath)
+      .reply(500, 'node error')
+      .post(tokenUriPath)
+      .reply(200, tokenUriResult);
+    nock('http://indigo.com').get('/5.json').reply(200, { name: 'Indigo #5' });
+    nock('http://indigo.com').get('/7.json').reply(200, { name: 'Indigo #7' });
+
+    const handler = new TokensContractHandler({
+      contractId: contractId,
+      smartContractAbi: NFT_CONTRACT_ABI,
+      datastore: db,
+      chainId: ChainID.Testnet,
+      txId: '0x1f1f',
+      dbQueueId: 1,
+      tokenIdRange: { start: 5n, end: 7n },
+    });
+    await handler.start();
+    const entry = await db.getTokenMetadataQueueEntry(1);
+    expect(entry.result?.processed).toBe(true);
+    expect(entry.result?.retry_count).toBe(0);
+
+    const token5 = await db.getNftTokenMetadata({ contractId, tokenId: 5n });
+    expect(token5.result?.name).toBe('Indigo #5');
+    const token6 = await db.getNftTokenMetadata({ contractId, tokenId: 6n });
+    expect(token6.found).toBe(false);
+    const token7 = await db.getNftTokenMetadata({ contractId, tokenId: 7n });
+    expect(token7.result?.name).toBe('Indigo #7');
+  });
+
+  test('parse SIP-019 notifications', () => {
+    const notification = (payload: Parameters<typeof tupleCV>[0]) =>
+      serializeCV(
+        tupleCV({
+          notification: stringAsciiCV('token-metadata-update'),
+          payload: tupleCV(payload),
+        })
+      );
+    expect(
+      parseTokenMetadataUpdateNotification(
+        notification({
+          'token-class': stringAsciiCV('nft'),
+          'contract-id': contractPrincipalCV(contractId.split('.')[0], 'project-indigo-act1'),
+          'token-ids': listCV([uintCV(3), uintCV(1)]),
+        })
+      )
+    ).toEqual({ tokenClass: 'nft', contractId, tokenIds: [3n, 1n] });
+    expect(
+      parseTokenMetadataUpdateNotification(
+        notification({
+          'token-class': stringAsciiCV('ft'),
+          'contract-id': contractPrincipalCV(contractId.split('.')[0], 'project-indigo-act1'),
+        })
+      )
+    ).toEqual({ tokenClass: 'ft', contractId });
+    expect(
+      parseTokenMetadataUpdateNotification(
+        notification({
+          'token-class': stringAsciiCV('sft'),
+          'contract-id': contractPrincipalCV(contractId.split('.')[0], 'project-indigo-act1'),
+        })
+      )
+    ).toBeUndefined();
+    expect(
+      parseTokenMetadataUpdateNotification(serializeCV(stringAsciiCV('transfer')))
+    ).toBeUndefined();
+  });
+
+  afterEach(async () => {
+    delete process.env['STACKS_API_TOKEN_METADATA_REFRESH_AUTH_TOKEN'];
+    nock.cleanAll();
+    await api.terminate();
+    client.release();
+    await db?.close();
+    await runMigrations(undefined, 'down');
+  });
+});
@@ -0,0 +1,234 @@
+import * as supertest from 'supertest';
+import { ChainID, serializeCV, uintCV } from '@stacks/transactions';
+import { startApiServer, ApiServer } from '../api/init';
+import { PgDataStore, cycleMigrations, runMigrations } from '../datastore/postgres-store';
+import { TestBlockBuilder } from '../test-utils/test-builders';
+import { DbAssetEventTypeId, DbTxTypeId } from '../datastore/common';
+import { AddressActivityListResponse } from '@stacks/stacks-blockchain-api-types';
+
+describe('address activity tests', () => {
+  let db: PgDataStore;
+  let api: ApiServer;
+
+  beforeEach(async () => {
+    process.env.PG_DATABASE = 'postgres';
+    await cycleMigrations();
+    db = await PgDataStore.connect({ usageName: 'tests', withNotifier: false });
+    api = await startApiServer({ datastore: db, chainId: ChainID.Testnet, httpLogLevel: 'silly' });
+  });
+
+  test('activity timeline', async () => {
+    const principal = 'ST3J8EVYHVKH6XXPD61EE8XEHW4Y2K83861225AB1';
+    const other = 'ST1HB64MAJ1MBV4CQ80GF01DZS4T1DSMX20ADCRA4';
+    const contractId = 'ST27W5M8BRKA7C5MZE2R1S1F4XTPHFWFRNHA9M04Y.hello-world';
+    const block1 = new TestBlockBuilder({
+      block_height: 1,
+      block_hash: '0x01',
+      index_block_hash: '0x01',
+      burn_block_height: 100,
+      burn_block_time: 1000,
+    })
+      .addTx({
+        tx_id: '0x0101',
+        sender_address: principal,
+        type_id: DbTxTypeId.ContractCall,
+        contract_call_contract_id: contractId,
+        contract_call_function_name: 'stack',
+      })
+      .addTxStxLockEvent({ locked_address: principal, unlock_height: 102, tx_index: 0 })
+      .addTxFtEvent({ sender: contractId, recipient: principal, amount: 25n })
+      .addTxStxEvent({ sender: principal, recipient: contractId, amount: 10n })
+      .build();
+    await db.update(block1);
+    const block2 = new TestBlockBuilder({
+      block_height: 2,
+      block_hash: '0x02',
+      index_block_hash: '0x02',
+      parent_index_block_hash: '0x01',
+      burn_block_height: 101,
+      burn_block_time: 2000,
+    })
+      .addTx({ tx_id: '0x0201', sender_address: principal })
+      .addTxBnsName({ name: 'principal.btc', address: principal, status: 'name-register' })
+      .addTx({ tx_id: '0x0202', sender_address: principal })
+      .addTxBnsName({ name: 'gift.btc', address: other, status: 'name-transfer' })
+      .build();
+    await db.update(block2);
+    const block3 = new TestBlockBuilder({
+      block_height: 3,
+      block_hash: '0x03',
+      index_block_hash: '0x03',
+      parent_index_block_hash: '0x02',
+      burn_block_height: 102,
+      burn_block_time: 3000,
+    }).build();
+    await db.update(block3);
+    const block4 = new TestBlockBuilder({
+      block_height: 4,
+      block_hash: '0x04',
+      index_block_hash: '0x04',
+      parent_index_block_hash: '0x03',
+      burn_block_height: 103,
+      burn_block_time: 4000,
+    })
+      .addTx({ tx_id: '0x0401', sender_address: other })
+      .addTxNftEvent({
+        asset_event_type_id: DbAssetEventTypeId.Mint,
+        recipient: principal,
+        value: serializeCV(uintCV(5)),
+      })
+      .build();
+    await db.update(block4);
+
+    const page1 = await supertest(api.server).get(
+      `/extended/v1/address/${principal}/activity?limit=3`
+    );
+    expect(page1.status).toBe(200);
+    const activity1: AddressActivityListResponse = page1.body;
+    expect(activity1.results).toEqual([
+      {
+        activity_type: 'nft_received',
+        tx_id: '0x0401',
+        block_height: 4,
+        burn_block_time: 4000,
+        burn_block_time_iso: '1970-01-01T01:06:40.000Z',
+        asset_event_type: 'mint',
+        asset_identifier: 'SP3D6PV2ACBPEKYJTCMH7HEN02KP87QSP8KTEH335.Candies::candy',
+        value: { hex: '0x0100000000000000000000000000000005', repr: 'u5' },
+        recipient: principal,
+      },
+      {
+        activity_type: 'stx_unlock',
+        block_height: 3,
+        burn_block_time: 3000,
+        burn_block_time_iso: '1970-01-01T00:50:00.000Z',
+        locked_amount: '500',
+        unlock_height: 102,
+      },
+      {
+        activity_type: 'bns_name_transfer',
+        tx_id: '0x0202',
+        block_height: 2,
+        burn_block_time: 2000,
+        burn_block_time_iso: '1970-01-01T00:33:20.000Z',
+        name: 'gift.btc',
+        sender: principal,
+        recipient: other,
+      },
+    ]);
+    expect(activity1.next_cursor).toBe('2:0:1:-2:6');
+
+    const page2 = await supertest(api.server).get(
+      `/extended/v1/address/${principal}/activity?limit=3&cursor=${activity1.next_cursor}`
+    );
+    expect(page2.status).toBe(200);
+    const activity2: AddressActivityListResponse = page2.body;
+    expect(activity2.results.map(r => r.activity_type)).toEqual([
+      'bns_name_registration',
+      'stx_sent',
+      'ft_received',
+    ]);
+    expect(activity2.results[1]).toEqual({
+      activity_type: 'stx_sent',
+      tx_id: '0x0101',
+      block_height: 1,
+      burn_block_time: 1000,
+      burn_block_time_iso: '1970-01-01T00:16:40.000Z',
+      asset_event_type: 'transfer',
+      amount: '10',
+      sender: principal,
+      recipient: contractId,
+    });
+
+    const page3 = await supertest(api.server).get(
+      `/extended/v1/address/${principal}/activity?limit=3&cursor=${activity2.next_cursor}`
+    );
+    expect(page3.status).toBe(200);
+    const activity3: AddressActivityListResponse = page3.body;
+    expect(activity3.results.map(r => r.activity_type)).toEqual(['stx_lock', 'contract_call']);
+    expect(activity3.results[1]).toEqual({
+      activity_type: 'contract_call',
+      tx_id: '0x0101',
+      block_height: 1,
+      burn_block_time: 1000,
+      burn_block_time_iso: '1970-01-01T00:16:40.000Z',
+      contract_id: contractId,
+      function_name: 'stack',
+    });
+    expect(activity3.next_cursor).toBeNull();
+
+    // The other party of a transfer sees it as received.
+    const otherActivity = await supertest(api.server).get(`/extended/v1/address/${other}/activity`);
+    const otherResults: AddressActivityListResponse['results'] = otherActivity.body.results;
+    expect(otherResults.map(r => r.activity_type)).toEqual(['bns_name_transfer']);
+
+    const invalidCursor = await supertest(api.server).get(
+      `/extended/v1/address/${principal}/activity?cursor=abc`
+    );
+    expect(invalidCursor.status).toBe(400);
+  });
+
+  test('stx unlocks of extended and increased locks', async () => {
+    const principal = 'ST3J8EVYHVKH6XXPD61EE8XEHW4Y2K83861225AB1';
+    // Stacks, increases and extends the lock, then stacks again after it unlocks.
+    const locks = [
+      { burn_block_height: 100, locked_amount: 500, unlock_height: 103 },
+      { burn_block_height: 101, locked_amount: 800, unlock_height: 103 },
+      { burn_block_height: 102, locked_amount: 800, unlock_height: 105 },
+      { burn_block_height: 103 },
+      { burn_block_height: 105 },
+      { burn_block_height: 106, locked_amount: 300, unlock_height: 108 },
+    ];
+    for (const [i, lock] of locks.entries()) {
+      const blockHeight = i + 1;
+      const builder = new TestBlockBuilder({
+        block_height: blockHeight,
+        block_hash: `0x0${blockHeight}`,
+        index_block_hash: `0x0${blockHeight}`,
+        parent_index_block_hash: `0x0${blockHeight - 1}`,
+        burn_block_height: lock.burn_block_height,
+      }).addTx({ tx_id: `0x0${blockHeight}01`, sender_address: principal });
+      if (lock.unlock_height) {
+        builder.addTxStxLockEvent({
+          locked_address: principal,
+          locked_amount: lock.locked_amount,
+          unlock_height: lock.unlock_height,
+        });
+      }
+      await db.update(builder.build());
+    }
+
+    const activity = await supertest(api.server).get(`/extended/v1/address/${principal}/activity`);
+    expect(activity.status).toBe(200);
+    const results: AddressActivityListResponse['results'] = activity.body.results;
+    expect(results.map(r => [r.activity_type, r.block_height])).toEqual([
+      ['stx_lock', 6],
+      ['stx_unlock', 5],
+      ['stx_lock', 3],
+      ['stx_lock', 2],
+      ['stx_lock', 1],
+    ]);
+    expect(results[1]).toEqual(
+      expect.objectContaining({ locked_amount: '800', unlock_height: 105 })
+    );
+
+    // Paging one entry at a time visits every entry once.
+    const paged: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: supertest.Response = await supertest(api.server).get(
+        `/extended/v1/address/${principal}/activity?limit=1${cursor ? `&cursor=${cursor}` : ''}`
+      );
+      const pageBody: AddressActivityListResponse = page.body;
+      paged.push(...pageBody.results.map(r => `${r.activity_type}:${r.block_height}`));
+      cursor = pageBody.next_cursor ?? null;
+    } while (cursor);
+    expect(paged).toEqual(results.map(r => `${r.activity_type}:${r.block_height}`));
+  });
+
+  afterEach(async () => {
+    await api.terminate();
+    await db?.close();
+    await runMigrations(undefined, 'down');
+  });
+});
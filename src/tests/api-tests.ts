@@ -22,6 +22,10 @@ import {
   AddressVersion,
   bufferCV,
   serializeCV,
+  noneCV,
+  responseOkCV,
+  tupleCV,
+  listCV,
 } from '@stacks/transactions';
 import * as BN from 'bn.js';
 import { createClarityValueArray } from '../stacks-encoding-helpers';
@@ -55,7 +59,16 @@ import { PgDataStore, cycleMigrations, runMigrations } from '../datastore/postgr
 import { PoolClient } from 'pg';
 import { bufferToHexPrefixString, I32_MAX, microStxToStx, STACKS_DECIMAL_PLACES } from '../helpers';
 import { FEE_RATE } from './../api/routes/fee-rate';
-import { Block, FeeRateRequest } from 'docs/generated';
+import { getPrintEventTopic } from '../event-stream/print-event-topic';
+import {
+  AddressBalanceResponse,
+  Block,
+  ContractCallTransaction,
+  FeeRateRequest,
+  SearchMatchList,
+  TermMatchesSearchResult,
+  TransactionResults,
+} from 'docs/generated';
 import {
   TestBlockBuilder,
   testMempoolTx,
@@ -3598,6 +3611,82 @@ describe('api tests', () => {
     expect(JSON.parse(searchResult13.text)).toEqual(expectedResp13);
   });
 
+  test('search by name', async () => {
+    const block1 = new TestBlockBuilder({ block_height: 1, index_block_hash: '0x01' })
+      .addTx({ tx_id: '0x1101' })
+      .addTxSmartContract({ contract_id: 'SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9.alex-vault' })
+      .addTx({ tx_id: '0x1102' })
+      .addTxSmartContract({ contract_id: 'SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9.swap-helper' })
+      .addTx({ tx_id: '0x1103' })
+      .addTxBnsName({ name: 'alex.btc', namespace_id: 'btc' })
+      .build();
+    await db.update(block1);
+    await db.updateFtMetadata({
+      token_uri: 'https://alexlab.co/token.json',
+      name: 'Alexandria Token',
+      description: '',
+      symbol: 'ALXD',
+      decimals: 8,
+      image_uri: '',
+      image_canonical_uri: '',
+      contract_id: 'SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9.age000-governance-token',
+      tx_id: '0x1104',
+      sender_address: 'SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9',
+    });
+
+    const search = async (query: string) => {
+      const result = await supertest(api.server).get(`/extended/v1/search?${query}`);
+      expect(result.status).toBe(200);
+      const body: SearchMatchList = result.body;
+      return body;
+    };
+
+    // Exact matches rank above whole-word prefix matches, which rank above partial-word prefix matches
+    const alexMatches = await search('term=alex');
+    expect(alexMatches.total).toBe(3);
+    expect(alexMatches.results.map(match => [match.entity_type, match.entity_id])).toEqual([
+      ['bns_name', 'alex.btc'],
+      ['contract_address', 'SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9.alex-vault'],
+      ['fungible_token', 'SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9.age000-governance-token'],
+    ]);
+    expect(alexMatches.results[2]).toEqual(
+      expect.objectContaining({ name: 'Alexandria Token', symbol: 'ALXD' })
+    );
+
+    // Type filter and pagination
+    const contractMatches = await search('term=alex&type=contract_address&type=bns_name&limit=1');
+    expect(contractMatches.total).toBe(2);
+    expect(contractMatches.results.map(match => match.entity_id)).toEqual(['alex.btc']);
+
+    // Substring and fuzzy matches
+    expect((await search('term=helper')).results.map(match => match.entity_id)).toEqual([
+      'SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9.swap-helper',
+    ]);
+    expect((await search('term=swap-helpr')).results.map(match => match.entity_id)).toEqual([
+      'SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9.swap-helper',
+    ]);
+    expect((await search('term=zzzz')).total).toBe(0);
+
+    // Search by id falls back to name matches for terms that aren't hashes or principals
+    const idSearch = await supertest(api.server).get(`/extended/v1/search/alex`);
+    expect(idSearch.status).toBe(200);
+    const idSearchResult: TermMatchesSearchResult = idSearch.body;
+    expect(idSearchResult.found).toBe(true);
+    expect(idSearchResult.result.entity_type).toBe('term_matches');
+    expect(idSearchResult.result.total).toBe(3);
+    expect(idSearchResult.result.matches.map(match => match.entity_id)).toEqual(
+      alexMatches.results.map(match => match.entity_id)
+    );
+    const idSearchNotFound = await supertest(api.server).get(`/extended/v1/search/zzzz`);
+    expect(idSearchNotFound.status).toBe(404);
+    expect(idSearchNotFound.body.result).toEqual({ entity_type: 'invalid_term' });
+
+    const shortTerm = await supertest(api.server).get(`/extended/v1/search?term=a`);
+    expect(shortTerm.status).toBe(400);
+    const invalidType = await supertest(api.server).get(`/extended/v1/search?term=alex&type=tx`);
+    expect(invalidType.status).toBe(400);
+  });
+
   test('address transaction transfers', async () => {
     const testAddr1 = 'ST3J8EVYHVKH6XXPD61EE8XEHW4Y2K83861225AB1';
     const testAddr2 = 'ST1HB64MAJ1MBV4CQ80GF01DZS4T1DSMX20ADCRA4';
@@ -4211,6 +4300,87 @@ describe('api tests', () => {
     expect(JSON.parse(fetch2.text)).toEqual(expected2);
   });
 
+  test('address balances until index block hash', async () => {
+    const addr = 'ST3DWSXBPYDB484QXFTR81K4AWG4ZB5XZNFF3H70C';
+    const ftId = 'SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9.token::tkn';
+    const block1 = new TestBlockBuilder({
+      block_height: 1,
+      block_hash: '0x11',
+      index_block_hash: '0x01',
+    })
+      .addTx({ tx_id: '0x1101' })
+      .addTxStxEvent({
+        sender: 'ST5F760KN84TZK3VTZCTVFYCVXQBEVKNV9M7H2CW',
+        recipient: addr,
+        amount: 1000n,
+      })
+      .addTxFtEvent({
+        asset_identifier: ftId,
+        asset_event_type_id: DbAssetEventTypeId.Mint,
+        recipient: addr,
+        amount: 100n,
+      })
+      .build();
+    await db.update(block1);
+    const block2 = new TestBlockBuilder({
+      block_height: 2,
+      block_hash: '0x12',
+      index_block_hash: '0x02',
+      parent_index_block_hash: '0x01',
+    })
+      .addTx({ tx_id: '0x1201' })
+      .addTxFtEvent({
+        asset_identifier: ftId,
+        sender: addr,
+        recipient: 'ST5F760KN84TZK3VTZCTVFYCVXQBEVKNV9M7H2CW',
+        amount: 40n,
+      })
+      .build();
+    await db.update(block2);
+    const block3 = new TestBlockBuilder({
+      block_height: 3,
+      block_hash: '0x13',
+      index_block_hash: '0x03',
+      parent_index_block_hash: '0x02',
+    }).build();
+    await db.update(block3);
+    // Fork at height 2 which is not part of the canonical chain
+    const block2b = new TestBlockBuilder({
+      block_height: 2,
+      block_hash: '0x12bb',
+      index_block_hash: '0x02bb',
+      parent_index_block_hash: '0x01',
+    }).build();
+    await db.update(block2b);
+
+    const getBalances = async (untilBlock: string) => {
+      const result = await supertest(api.server).get(
+        `/extended/v1/address/${addr}/balances?until_block=${untilBlock}`
+      );
+      expect(result.status).toBe(200);
+      const body: AddressBalanceResponse = result.body;
+      return body;
+    };
+
+    const byIndexBlockHash = await getBalances('0x01');
+    expect(byIndexBlockHash.stx.balance).toBe('1000');
+    expect(byIndexBlockHash.fungible_tokens?.[ftId]?.balance).toBe('100');
+    const byBlockHash = await getBalances('0x11');
+    expect(byBlockHash).toEqual(byIndexBlockHash);
+    const latest = await getBalances('0x03');
+    expect(latest.stx.balance).toBe('1000');
+    expect(latest.fungible_tokens?.[ftId]?.balance).toBe('60');
+
+    const nonCanonical = await supertest(api.server).get(
+      `/extended/v1/address/${addr}/balances?until_block=0x02bb`
+    );
+    expect(nonCanonical.status).toBe(404);
+    const notFound = await supertest(api.server).get(
+      `/extended/v1/address/${addr}/balances?until_block=0x99`
+    );
+    expect(notFound.status).toBe(404);
+  });
+
   test('address nonce', async () => {
     const testAddr1 = 'ST3DWSXBPYDB484QXFTR81K4AWG4ZB5XZNFF3H70C';
     const testAddr2 = 'ST5F760KN84TZK3VTZCTVFYCVXQBEVKNV9M7H2CW';
@@ -5780,6 +5950,261 @@ describe('api tests', () => {
     });
   });
 
+  test('decode clarity values to json', async () => {
+    const contractId = 'ST27W5M8BRKA7C5MZE2R1S1F4XTPHFWFRNHA9M04Y.hello-world';
+    const contractAbi: ClarityAbi = {
+      maps: [],
+      functions: [
+        {
+          args: [
+            { type: 'uint128', name: 'amount' },
+            { type: { optional: { buffer: { length: 34 } } }, name: 'memo' },
+          ],
+          name: 'mint',
+          access: 'public',
+          outputs: { type: { response: { ok: 'uint128', error: 'int128' } } },
+        },
+      ],
+      variables: [],
+      fungible_tokens: [],
+      non_fungible_tokens: [{ name: 'badge', type: 'uint128' }],
+    };
+    const block = new TestBlockBuilder({ block_height: 1, index_block_hash: '0x01' })
+      .addTx({
+        tx_id: '0x1101',
+        type_id: DbTxTypeId.SmartContract,
+        smart_contract_contract_id: contractId,
+        smart_contract_source_code: '(some-contract-src)',
+      })
+      .addTxSmartContract({ contract_id: contractId, abi: JSON.stringify(contractAbi) })
+      .addTx({
+        tx_id: '0x1102',
+        type_id: DbTxTypeId.ContractCall,
+        contract_call_contract_id: contractId,
+        contract_call_function_name: 'mint',
+        contract_call_function_args: createClarityValueArray(uintCV(10), noneCV()),
+        raw_result: bufferToHexPrefixString(serializeCV(responseOkCV(uintCV(1)))),
+      })
+      .addTxContractLogEvent({
+        contract_identifier: contractId,
+        value: serializeCV(
+          tupleCV({ event: stringAsciiCV('mint'), ids: listCV([uintCV(5)]), memo: noneCV() })
+        ),
+      })
+      .addTxNftEvent({
+        asset_event_type_id: DbAssetEventTypeId.Mint,
+        asset_identifier: `${contractId}::badge`,
+        value: serializeCV(uintCV(5)),
+        recipient: 'ST27W5M8BRKA7C5MZE2R1S1F4XTPHFWFRNHA9M04Y',
+      })
+      .build();
+    await db.update(block);
+
+    const expectedLogValue = {
+      type: '(tuple (event (string-ascii 4)) (ids (list 1 uint)) (memo (optional UnknownType)))',
+      value: {
+        event: { type: '(string-ascii 4)', value: 'mint' },
+        ids: { type: '(list 1 uint)', value: [{ type: 'uint', value: '5' }] },
+        memo: { type: '(optional UnknownType)', value: null },
+      },
+    };
+
+    const txResult = await supertest(api.server).get('/extended/v1/tx/0x1102?decode=json');
+    expect(txResult.status).toBe(200);
+    const tx: ContractCallTransaction = txResult.body;
+    // Argument and result types come from the contract ABI.
+    expect(tx.contract_call.function_args?.map(arg => arg.decoded)).toEqual([
+      { type: 'uint', value: '10' },
+      { type: '(optional (buff 34))', value: null },
+    ]);
+    expect(tx.tx_result.decoded).toEqual({
+      type: '(response uint int)',
+      success: true,
+      value: { type: 'uint', value: '1' },
+    });
+    const [logEvent, nftEvent] = tx.events;
+    assert(logEvent.event_type === 'smart_contract_log');
+    expect(logEvent.contract_log.value.decoded).toEqual(expectedLogValue);
+    assert(nftEvent.event_type === 'non_fungible_token_asset');
+    expect(nftEvent.asset.value.decoded).toEqual({ type: 'uint', value: '5' });
+
+    const undecodedTxResult = await supertest(api.server).get('/extended/v1/tx/0x1102');
+    expect(undecodedTxResult.status).toBe(200);
+    expect(undecodedTxResult.body.tx_result).not.toHaveProperty('decoded');
+    expect(undecodedTxResult.body.events[0].contract_log.value).not.toHaveProperty('decoded');
+
+    const eventsResult = await supertest(api.server).get(
+      `/extended/v1/contract/${contractId}/events?decode=json`
+    );
+    expect(eventsResult.status).toBe(200);
+    expect(eventsResult.body.results[0].contract_log.value.decoded).toEqual(expectedLogValue);
+
+    const invalidDecode = await supertest(api.server).get('/extended/v1/tx/0x1102?decode=xml');
+    expect(invalidDecode.status).toBe(400);
+  });
+
+  test('list contract calls', async () => {
+    const contractId = 'ST27W5M8BRKA7C5MZE2R1S1F4XTPHFWFRNHA9M04Y.hello-world';
+    const sender1 = 'ST3J8EVYHVKH6XXPD61EE8XEHW4Y2K83861225AB1';
+    const sender2 = 'STB44HYPYAT2BB2QE513NSP81HTMYWBJP02HPGK6';
+    const contractCall = (txId: string, functionName: string, sender: string) => ({
+      tx_id: txId,
+      type_id: DbTxTypeId.ContractCall,
+      contract_call_contract_id: contractId,
+      contract_call_function_name: functionName,
+      contract_call_function_args: createClarityValueArray(uintCV(1)),
+      sender_address: sender,
+    });
+    const block1 = new TestBlockBuilder({ block_height: 1, index_block_hash: '0x01' })
+      .addTx(contractCall('0x1101', 'mint', sender1))
+      .addTx({ ...contractCall('0x1102', 'transfer', sender1), status: DbTxStatus.AbortByResponse })
+      .addTx(contractCall('0x1103', 'transfer', sender2))
+      .build();
+    await db.update(block1);
+    const block2 = new TestBlockBuilder({
+      block_height: 2,
+      index_block_hash: '0x02',
+      parent_index_block_hash: '0x01',
+    })
+      .addTx(contractCall('0x1201', 'transfer', sender1))
+      .build();
+    await db.update(block2);
+
+    const getCallTxIds = async (query: string) => {
+      const result = await supertest(api.server).get(
+        `/extended/v1/contract/${contractId}/calls${query}`
+      );
+      expect(result.status).toBe(200);
+      const body: TransactionResults = result.body;
+      return { total: body.total, txIds: body.results.map(tx => tx.tx_id) };
+    };
+
+    expect(await getCallTxIds('')).toEqual({
+      total: 4,
+      txIds: ['0x1201', '0x1103', '0x1102', '0x1101'],
+    });
+    expect(await getCallTxIds('?function_name=transfer&limit=2&offset=1')).toEqual({
+      total: 3,
+      txIds: ['0x1103', '0x1102'],
+    });
+    expect(await getCallTxIds(`?function_name=transfer&sender_address=${sender1}`)).toEqual({
+      total: 2,
+      txIds: ['0x1201', '0x1102'],
+    });
+    expect(await getCallTxIds('?status=success&function_name=transfer')).toEqual({
+      total: 2,
+      txIds: ['0x1201', '0x1103'],
+    });
+    expect(await getCallTxIds('?status=abort_by_response&status=abort_by_post_condition')).toEqual({
+      total: 1,
+      txIds: ['0x1102'],
+    });
+    expect(await getCallTxIds('?from_block_height=2')).toEqual({ total: 1, txIds: ['0x1201'] });
+    expect(await getCallTxIds('?to_block_height=1&function_name=mint')).toEqual({
+      total: 1,
+      txIds: ['0x1101'],
+    });
+
+    const invalidStatus = await supertest(api.server).get(
+      `/extended/v1/contract/${contractId}/calls?status=pending`
+    );
+    expect(invalidStatus.status).toBe(400);
+    const invalidContract = await supertest(api.server).get(
+      `/extended/v1/contract/${sender1}/calls`
+    );
+    expect(invalidContract.status).toBe(400);
+
+    // Calls in orphaned blocks are no longer listed.
+    const block2b = new TestBlockBuilder({
+      block_height: 2,
+      index_block_hash: '0x2b',
+      parent_index_block_hash: '0x01',
+    }).build();
+    await db.update(block2b);
+    const block3b = new TestBlockBuilder({
+      block_height: 3,
+      index_block_hash: '0x3b',
+      parent_index_block_hash: '0x2b',
+    }).build();
+    await db.update(block3b);
+    expect(await getCallTxIds('?function_name=transfer')).toEqual({
+      total: 2,
+      txIds: ['0x1103', '0x1102'],
+    });
+  });
+
+  test('filter contract log events by print topic', async () => {
+    const contractId = 'ST27W5M8BRKA7C5MZE2R1S1F4XTPHFWFRNHA9M04Y.hello-world';
+    const printLog = (value: Buffer) => ({
+      contract_identifier: contractId,
+      value,
+      print_topic: getPrintEventTopic(value),
+    });
+    const transferEvent = serializeCV(
+      tupleCV({ event: stringAsciiCV('transfer'), amount: uintCV(10) })
+    );
+    const mintEvent = serializeCV(tupleCV({ topic: stringAsciiCV('mint'), amount: uintCV(5) }));
+    const block1 = new TestBlockBuilder({ block_height: 1, index_block_hash: '0x01' })
+      .addTx({ tx_id: '0x1101' })
+      .addTxContractLogEvent(printLog(transferEvent))
+      .addTxContractLogEvent(printLog(mintEvent))
+      .addTxContractLogEvent(printLog(serializeCV(stringAsciiCV('transfer'))))
+      .addTxStxEvent({ sender: contractId })
+      .addTx({ tx_id: '0x1102' })
+      .addTxContractLogEvent(printLog(transferEvent))
+      .build();
+    await db.update(block1);
+    expect(block1.txs[0].contractLogEvents.map(event => event.print_topic)).toEqual([
+      'transfer',
+      'mint',
+      undefined,
+    ]);
+
+    const contractEvents = await supertest(api.server).get(
+      `/extended/v1/contract/${contractId}/events?topic=transfer`
+    );
+    expect(contractEvents.status).toBe(200);
+    expect(
+      contractEvents.body.results.map((event: { tx_id: string; event_index: number }) => [
+        event.tx_id,
+        event.event_index,
+      ])
+    ).toEqual([
+      ['0x1102', 0],
+      ['0x1101', 0],
+    ]);
+    const noEvents = await supertest(api.server).get(
+      `/extended/v1/contract/${contractId}/events?topic=burn`
+    );
+    expect(noEvents.status).toBe(200);
+    expect(noEvents.body.results).toEqual([]);
+
+    // Only smart contract logs are returned when filtering address events by topic
+    const addressEvents = await supertest(api.server).get(
+      `/extended/v1/tx/events?address=${contractId}&topic=mint`
+    );
+    expect(addressEvents.status).toBe(200);
+    expect(addressEvents.body.events).toHaveLength(1);
+    expect(addressEvents.body.events[0].event_type).toBe('smart_contract_log');
+    expect(addressEvents.body.events[0].contract_log.value.hex).toBe(
+      bufferToHexPrefixString(mintEvent)
+    );
+    const txEvents = await supertest(api.server).get(
+      `/extended/v1/tx/events?tx_id=0x1101&topic=transfer`
+    );
+    expect(txEvents.status).toBe(200);
+    expect(txEvents.body.events).toHaveLength(1);
+
+    const invalidType = await supertest(api.server).get(
+      `/extended/v1/tx/events?address=${contractId}&topic=mint&type=stx_asset`
+    );
+    expect(invalidType.status).toBe(400);
+    const emptyTopic = await supertest(api.server).get(
+      `/extended/v1/contract/${contractId}/events?topic=`
+    );
+    expect(emptyTopic.status).toBe(400);
+  });
+
   test('get contract by ID', async () => {
     const block1: DbBlock = {
       block_hash: '0x1234',
@@ -9312,6 +9737,8 @@ describe('api tests', () => {
           },
         },
       ],
+      nonce_conflicts: [],
+      detected_missing_nonces: [],
     };
     expect(result.status).toBe(200);
     expect(result.type).toBe('application/json');
@@ -9634,12 +10061,77 @@ describe('api tests', () => {
 
   test('Get fee rate', async () => {
     const request: FeeRateRequest = {
-      transaction: '0x5e9f3933e358df6a73fec0d47ce3e1062c20812c129f5294e6f37a8d27c051d9',
+      transaction:
+        '0x80800000000400bf8e82623c380cd870931d48b525d5e12a4d6782000000000000000000000000000000b4000067f483737dbafac6cdeaec7b13fcab1596119087c3372e169f639c709b4d732c01b03d4435a6dbca22e92a094297a3026b1774ac1ca4dc8957609a9460561a6203020000000000051a62b0e91cc557e583c3d1f9dfe468ace76d2f037400000000000003e800000000000000000000000000000000000000000000000000000000000000000000',
     };
     const result = await supertest(api.server).post('/extended/v1/fee_rate').send(request);
     expect(result.status).toBe(200);
     expect(result.type).toBe('application/json');
-    expect(result.body.fee_rate).toBe(FEE_RATE);
+    expect(result.body).toEqual({
+      fee_rate: FEE_RATE,
+      tx_type: 'token_transfer',
+      estimated_len: 180,
+      fee_rates: { low: FEE_RATE, medium: FEE_RATE, high: FEE_RATE },
+      fees: { low: FEE_RATE * 180, medium: FEE_RATE * 180, high: FEE_RATE * 180 },
+    });
+
+    const invalidTx = await supertest(api.server)
+      .post('/extended/v1/fee_rate')
+      .send({ transaction: '0x5e9f3933e358df6a73fec0d47ce3e1062c20812c129f5294e6f37a8d27c051d9' });
+    expect(invalidTx.status).toBe(400);
+
+    const missingLen = await supertest(api.server)
+      .post('/extended/v1/fee_rate')
+      .send({ tx_type: 'token_transfer' });
+    expect(missingLen.status).toBe(400);
+  });
+
+  test('Get fee rate estimations from recent txs', async () => {
+    const block = new TestBlockBuilder({
+      block_height: 1,
+      index_block_hash: '0x01',
+    })
+      .addTx({
+        tx_id: '0x1101',
+        type_id: DbTxTypeId.TokenTransfer,
+        fee_rate: 1000n,
+        raw_tx: Buffer.alloc(100),
+      })
+      .addTx({
+        tx_id: '0x1102',
+        type_id: DbTxTypeId.TokenTransfer,
+        fee_rate: 3000n,
+        raw_tx: Buffer.alloc(100),
+      })
+      .addTx({
+        tx_id: '0x1103',
+        type_id: DbTxTypeId.ContractCall,
+        contract_call_contract_id: 'ST27W5M8BRKA7C5MZE2R1S1F4XTPHFWFRNHA9M04Y.hello-world',
+        contract_call_function_name: 'mint',
+        fee_rate: 90000n,
+        execution_cost_runtime: 5_000_000_000,
+        raw_tx: Buffer.alloc(100),
+      })
+      .build();
+    await db.update(block);
+    const mempoolTx = testMempoolTx({
+      tx_id: '0x1201',
+      type_id: DbTxTypeId.TokenTransfer,
+      fee_rate: 2000n,
+      raw_tx: Buffer.alloc(100),
+    });
+    await db.updateMempoolTxs({ mempoolTxs: [mempoolTx] });
+
+    const request: FeeRateRequest = { estimated_len: 180, tx_type: 'token_transfer' };
+    const result = await supertest(api.server).post('/extended/v1/fee_rate').send(request);
+    expect(result.status).toBe(200);
+    expect(result.body).toEqual({
+      fee_rate: 20,
+      tx_type: 'token_transfer',
+      estimated_len: 180,
+      fee_rates: { low: 18, medium: 20, high: 23 },
+      fees: { low: 3240, medium: 3600, high: 4140 },
+    });
   });
 
   test('Block execution cost', async () => {
@@ -1,8 +1,15 @@
+import * as supertest from 'supertest';
 import { ChainID } from '@stacks/transactions';
 import { startApiServer, ApiServer } from '../api/init';
 import { PgDataStore, cycleMigrations, runMigrations } from '../datastore/postgres-store';
 import { PoolClient } from 'pg';
 import { TestBlockBuilder, testMempoolTx } from '../test-utils/test-builders';
+import { DbTxStatus, DbTxTypeId } from '../datastore/common';
+import {
+  AddressMempoolTransactionListResponse,
+  MempoolTransaction,
+  MempoolTransactionStatsResponse,
+} from '@stacks/stacks-blockchain-api-types';
 
 describe('mempool tests', () => {
   let db: PgDataStore;
@@ -46,6 +53,120 @@ describe('mempool tests', () => {
     expect(txIds).toEqual(['0x03', '0x04', '0x05']);
   });
 
+  test('mempool stats', async () => {
+    const emptyResult = await supertest(api.server).get('/extended/v1/tx/mempool/stats');
+    expect(emptyResult.status).toBe(200);
+    const emptyStats: MempoolTransactionStatsResponse = emptyResult.body;
+    expect(emptyStats.tx_count).toBe(0);
+    expect(emptyStats.tx_total_byte_size).toBe(0);
+    expect(emptyStats.tx_fee_rates.all).toEqual({ p25: 0, p50: 0, p75: 0, p95: 0 });
+
+    const mempoolTxs = [100n, 200n, 300n, 400n].map((fee_rate, i) =>
+      testMempoolTx({ tx_id: `0x0${i}`, fee_rate, raw_tx: Buffer.alloc(10) })
+    );
+    mempoolTxs.push(
+      testMempoolTx({
+        tx_id: '0x10',
+        type_id: DbTxTypeId.ContractCall,
+        fee_rate: 1000n,
+        raw_tx: Buffer.alloc(20),
+      }),
+      // Pruned txs are no longer pending and are left out of the stats.
+      testMempoolTx({ tx_id: '0x20', fee_rate: 5000n, pruned: true })
+    );
+    await db.updateMempoolTxs({ mempoolTxs });
+
+    const result = await supertest(api.server).get('/extended/v1/tx/mempool/stats');
+    expect(result.status).toBe(200);
+    expect(result.headers['etag']).toBeTruthy();
+    const stats: MempoolTransactionStatsResponse = result.body;
+    expect(stats.tx_count).toBe(5);
+    expect(stats.tx_type_counts).toEqual({
+      token_transfer: 4,
+      smart_contract: 0,
+      contract_call: 1,
+      poison_microblock: 0,
+    });
+    expect(stats.tx_total_byte_size).toBe(60);
+    expect(stats.tx_fee_rates.token_transfer).toEqual({ p25: 175, p50: 250, p75: 325, p95: 385 });
+    expect(stats.tx_fee_rates.contract_call).toEqual({
+      p25: 1000,
+      p50: 1000,
+      p75: 1000,
+      p95: 1000,
+    });
+    expect(stats.tx_fee_rates.smart_contract).toEqual({ p25: 0, p50: 0, p75: 0, p95: 0 });
+    expect(stats.tx_fee_rates.all.p50).toBe(300);
+    expect(stats.tx_byte_sizes.all).toEqual({ p25: 10, p50: 10, p75: 10, p95: 18 });
+    expect(stats.tx_ages.all.p50).toBeGreaterThanOrEqual(0);
+
+    const cachedResult = await supertest(api.server)
+      .get('/extended/v1/tx/mempool/stats')
+      .set('If-None-Match', result.headers['etag']);
+    expect(cachedResult.status).toBe(304);
+  });
+
+  test('replaced txs are linked to their replacement', async () => {
+    const sender = 'SP466FNC0P7JWTNM2R9T199QRZN1MYEDTAR0KP27';
+    const block = new TestBlockBuilder({ block_height: 1, index_block_hash: '0x01' })
+      .addTx({ tx_id: '0x1000', sender_address: sender, nonce: 0 })
+      .build();
+    await db.update(block);
+    await db.updateMempoolTxs({
+      mempoolTxs: [
+        testMempoolTx({ tx_id: '0x01', sender_address: sender, nonce: 1, fee_rate: 100n }),
+        testMempoolTx({ tx_id: '0x02', sender_address: sender, nonce: 1, fee_rate: 200n }),
+        testMempoolTx({ tx_id: '0x03', sender_address: sender, nonce: 3, fee_rate: 100n }),
+      ],
+    });
+
+    // Both txs with nonce 1 are pending and nonce 2 is missing.
+    const addressResult = await supertest(api.server).get(`/extended/v1/address/${sender}/mempool`);
+    expect(addressResult.status).toBe(200);
+    const addressTxs: AddressMempoolTransactionListResponse = addressResult.body;
+    expect(addressTxs.nonce_conflicts).toEqual([{ nonce: 1, tx_ids: ['0x02', '0x01'] }]);
+    expect(addressTxs.detected_missing_nonces).toEqual([2]);
+
+    // Replacement found from the pending tx with the same nonce and a higher fee.
+    await db.dropMempoolTxs({ status: DbTxStatus.DroppedReplaceByFee, txIds: ['0x01'] });
+    const replaced1 = await supertest(api.server).get('/extended/v1/tx/0x01');
+    expect(replaced1.body.tx_status).toBe('dropped_replace_by_fee');
+    expect(replaced1.body.replaced_by_tx_id).toBe('0x02');
+    const replacing = await supertest(api.server).get('/extended/v1/tx/0x02');
+    expect((replacing.body as MempoolTransaction).replaced_by_tx_id).toBeUndefined();
+    const conflictsResult = await supertest(api.server).get(
+      `/extended/v1/address/${sender}/mempool`
+    );
+    expect(conflictsResult.body.nonce_conflicts).toEqual([]);
+
+    // Replacement received after the drop.
+    await db.dropMempoolTxs({ status: DbTxStatus.DroppedReplaceByFee, txIds: ['0x03'] });
+    const replaced2 = await supertest(api.server).get('/extended/v1/tx/0x03');
+    expect(replaced2.body.replaced_by_tx_id).toBeUndefined();
+    await db.updateMempoolTxs({
+      mempoolTxs: [
+        testMempoolTx({ tx_id: '0x04', sender_address: sender, nonce: 3, fee_rate: 300n }),
+      ],
+    });
+    const replaced3 = await supertest(api.server).get('/extended/v1/tx/0x03');
+    expect(replaced3.body.replaced_by_tx_id).toBe('0x04');
+
+    // Replacement reported by the node.
+    await db.dropMempoolTxs({
+      status: DbTxStatus.DroppedReplaceAcrossFork,
+      txIds: ['0x04'],
+      newTxId: '0x05',
+    });
+    const replaced4 = await supertest(api.server).get('/extended/v1/tx/0x04');
+    expect(replaced4.body.tx_status).toBe('dropped_replace_across_fork');
+    expect(replaced4.body.replaced_by_tx_id).toBe('0x05');
+
+    // Other drop reasons are not replacements.
+    await db.dropMempoolTxs({ status: DbTxStatus.DroppedTooExpensive, txIds: ['0x02'] });
+    const dropped = await supertest(api.server).get('/extended/v1/tx/0x02');
+    expect(dropped.body.replaced_by_tx_id).toBeUndefined();
+  });
+
   afterEach(async () => {
     await api.terminate();
     client.release();
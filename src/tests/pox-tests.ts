@@ -0,0 +1,112 @@
+import * as supertest from 'supertest';
+import { ChainID } from '@stacks/transactions';
+import { startApiServer, ApiServer } from '../api/init';
+import { PgDataStore, cycleMigrations, runMigrations } from '../datastore/postgres-store';
+import { PoolClient } from 'pg';
+import { TestBlockBuilder } from '../test-utils/test-builders';
+import { DbPoxParams } from '../datastore/common';
+
+describe('pox tests', () => {
+  let db: PgDataStore;
+  let client: PoolClient;
+  let api: ApiServer;
+
+  const pox: DbPoxParams = { firstBurnchainBlockHeight: 100, rewardCycleLength: 10 };
+
+  beforeEach(async () => {
+    process.env.PG_DATABASE = 'postgres';
+    await cycleMigrations();
+    db = await PgDataStore.connect({ usageName: 'tests', withNotifier: false });
+    client = await db.pool.connect();
+    api = await startApiServer({ datastore: db, chainId: ChainID.Testnet, httpLogLevel: 'silly' });
+  });
+
+  test('reward cycles and stackers', async () => {
+    // Burn block 105 is in cycle 0, so these STX are locked starting with cycle 1.
+    const block1 = new TestBlockBuilder({
+      block_height: 1,
+      index_block_hash: '0x01',
+      burn_block_height: 105,
+    })
+      .addTx({ tx_id: '0x1101' })
+      .addTxStxLockEvent({ locked_address: 'addr-a', locked_amount: 1000, unlock_height: 140 })
+      .addTx({ tx_id: '0x1102' })
+      .addTxStxLockEvent({ locked_address: 'addr-b', locked_amount: 500, unlock_height: 120 })
+      .build();
+    await db.update(block1);
+    // Burn block 125 is in cycle 2, so these STX are locked starting with cycle 3.
+    const block2 = new TestBlockBuilder({
+      block_height: 2,
+      index_block_hash: '0x02',
+      parent_index_block_hash: '0x01',
+      burn_block_height: 125,
+    })
+      .addTx({ tx_id: '0x1201' })
+      .addTxStxLockEvent({ locked_address: 'addr-c', locked_amount: 2000, unlock_height: 150 })
+      .build();
+    await db.update(block2);
+
+    const cycles = await db.getPoxCycles({ pox, limit: 20, offset: 0 });
+    expect(cycles.total).toBe(4);
+    expect(cycles.results.map(c => [c.cycle_number, c.total_stacked, c.stacker_count])).toEqual([
+      [3, 3000n, 2],
+      [2, 1000n, 1],
+      [1, 1500n, 2],
+      [0, 0n, 0],
+    ]);
+    expect(cycles.results[0].burn_block_start_height).toBe(130);
+    expect(cycles.results[0].burn_block_end_height).toBe(139);
+
+    const paged = await db.getPoxCycles({ pox, limit: 2, offset: 1 });
+    expect(paged.total).toBe(4);
+    expect(paged.results.map(c => c.cycle_number)).toEqual([2, 1]);
+
+    const cycle1 = await db.getPoxCycle({ pox, cycleNumber: 1 });
+    expect(cycle1.found).toBe(true);
+    expect(cycle1.result?.total_stacked).toBe(1500n);
+    const cycle4 = await db.getPoxCycle({ pox, cycleNumber: 4 });
+    expect(cycle4.found).toBe(false);
+
+    const stackers = await db.getPoxCycleStackers({ pox, cycleNumber: 3, limit: 10, offset: 0 });
+    expect(stackers.total).toBe(2);
+    expect(stackers.results).toEqual([
+      {
+        locked_address: 'addr-c',
+        locked_amount: 2000n,
+        tx_id: '0x1201',
+        block_height: 2,
+        burn_block_height: 125,
+        unlock_height: 150,
+        first_cycle: 3,
+        unlock_cycle: 5,
+      },
+      {
+        locked_address: 'addr-a',
+        locked_amount: 1000n,
+        tx_id: '0x1101',
+        block_height: 1,
+        burn_block_height: 105,
+        unlock_height: 140,
+        first_cycle: 1,
+        unlock_cycle: 4,
+      },
+    ]);
+    const noStackers = await db.getPoxCycleStackers({ pox, cycleNumber: 0, limit: 10, offset: 0 });
+    expect(noStackers.total).toBe(0);
+    expect(noStackers.results).toEqual([]);
+  });
+
+  test('invalid reward cycle number', async () => {
+    const result = await supertest(api.server).get(`/extended/v1/pox/cycles/abc`);
+    expect(result.status).toBe(400);
+    const stackers = await supertest(api.server).get(`/extended/v1/pox/cycles/-1/stackers`);
+    expect(stackers.status).toBe(400);
+  });
+
+  afterEach(async () => {
+    await api.terminate();
+    client.release();
+    await db?.close();
+    await runMigrations(undefined, 'down');
+  });
+});
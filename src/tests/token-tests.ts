@@ -1,11 +1,16 @@
 import * as supertest from 'supertest';
-import { ChainID } from '@stacks/transactions';
+import { ChainID, serializeCV, uintCV } from '@stacks/transactions';
 import { PoolClient } from 'pg';
 import { ApiServer, startApiServer } from '../api/init';
 import { cycleMigrations, PgDataStore, runMigrations } from '../datastore/postgres-store';
 import { TestBlockBuilder, TestMicroblockStreamBuilder } from '../test-utils/test-builders';
 import { DbAssetEventTypeId } from '../datastore/common';
 import { hexToBuffer } from '../helpers';
+import {
+  FungibleTokenHolderList,
+  FungibleTokenSupply,
+  NonFungibleTokenHoldingsList,
+} from 'docs/generated';
 
 describe('/extended/v1/tokens tests', () => {
   let db: PgDataStore;
@@ -1008,6 +1013,231 @@ describe('/extended/v1/tokens tests', () => {
     expect(result11.results[1].value.hex).toEqual('0x01000000000000000000000000000009ca');
   });
 
+  test('/ft/holders and /ft/supply', async () => {
+    const addr1 = 'SP3BK1NNSWN719Z6KDW05RBGVS940YCN6X84STYPR';
+    const addr2 = 'SP466FNC0P7JWTNM2R9T199QRZN1MYEDTAR0KP27';
+    const addr3 = 'SP2X0TZ59D5SZ8ACQ6YMCHHNR2ZN51Z32E2CJ173';
+    const contractId = 'SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9.age000-governance-token';
+    const assetId = `${contractId}::alex`;
+    const getHolders = async (token: string) => {
+      const request = await supertest(api.server).get(`/extended/v1/tokens/ft/${token}/holders`);
+      expect(request.status).toBe(200);
+      const result: FungibleTokenHolderList = request.body;
+      return result;
+    };
+    const getSupply = async (token: string) => {
+      const request = await supertest(api.server).get(`/extended/v1/tokens/ft/${token}/supply`);
+      expect(request.status).toBe(200);
+      const result: FungibleTokenSupply = request.body;
+      return result;
+    };
+
+    const block1 = new TestBlockBuilder({ block_height: 1, index_block_hash: '0x01' })
+      .addTx({ tx_id: '0x1001' })
+      .addTxFtEvent({
+        asset_identifier: assetId,
+        asset_event_type_id: DbAssetEventTypeId.Mint,
+        recipient: addr1,
+        amount: 1000n,
+      })
+      .addTxFtEvent({
+        asset_identifier: assetId,
+        asset_event_type_id: DbAssetEventTypeId.Mint,
+        recipient: addr2,
+        amount: 500n,
+      })
+      .build();
+    await db.update(block1);
+    const block2 = new TestBlockBuilder({
+      block_height: 2,
+      index_block_hash: '0x02',
+      parent_index_block_hash: '0x01',
+    })
+      .addTx({ tx_id: '0x1002' })
+      .addTxFtEvent({
+        asset_identifier: assetId,
+        asset_event_type_id: DbAssetEventTypeId.Transfer,
+        sender: addr1,
+        recipient: addr3,
+        amount: 700n,
+      })
+      .addTxFtEvent({
+        asset_identifier: assetId,
+        asset_event_type_id: DbAssetEventTypeId.Burn,
+        sender: addr2,
+        amount: 500n,
+      })
+      .build();
+    await db.update(block2);
+
+    // Holders with a zero balance are not listed
+    expect(await getHolders(contractId)).toEqual({
+      asset_identifier: assetId,
+      limit: 50,
+      offset: 0,
+      total: 2,
+      results: [
+        { address: addr3, balance: '700' },
+        { address: addr1, balance: '300' },
+      ],
+    });
+    expect(await getSupply(assetId)).toEqual({
+      asset_identifier: assetId,
+      minted: '1500',
+      burned: '500',
+      circulating_supply: '1000',
+    });
+
+    // Unanchored transfers are only counted once their microblock is accepted
+    const microblock1 = new TestMicroblockStreamBuilder()
+      .addMicroblock({ microblock_hash: '0x11', parent_index_block_hash: '0x02' })
+      .addTx({ tx_id: '0x1011' })
+      .addTxFtEvent({
+        asset_identifier: assetId,
+        asset_event_type_id: DbAssetEventTypeId.Transfer,
+        sender: addr3,
+        recipient: addr2,
+        amount: 200n,
+      })
+      .build();
+    await db.updateMicroblocks(microblock1);
+    expect((await getHolders(contractId)).total).toEqual(2);
+    const block3 = new TestBlockBuilder({
+      block_height: 3,
+      index_block_hash: '0x03',
+      parent_index_block_hash: '0x02',
+      parent_microblock_hash: '0x11',
+    })
+      .addTx({ tx_id: '0x1003' })
+      .build();
+    await db.update(block3);
+    expect((await getHolders(contractId)).results).toEqual([
+      { address: addr3, balance: '500' },
+      { address: addr1, balance: '300' },
+      { address: addr2, balance: '200' },
+    ]);
+
+    // Re-org of blocks 2 and 3 reverts their events
+    const block2b = new TestBlockBuilder({
+      block_height: 2,
+      index_block_hash: '0x02bb',
+      parent_index_block_hash: '0x01',
+    })
+      .addTx({ tx_id: '0x1102' })
+      .build();
+    await db.update(block2b);
+    const block3b = new TestBlockBuilder({
+      block_height: 3,
+      index_block_hash: '0x03bb',
+      parent_index_block_hash: '0x02bb',
+    })
+      .addTx({ tx_id: '0x1103' })
+      .build();
+    await db.update(block3b);
+    const block4b = new TestBlockBuilder({
+      block_height: 4,
+      index_block_hash: '0x04bb',
+      parent_index_block_hash: '0x03bb',
+    })
+      .addTx({ tx_id: '0x1104' })
+      .build();
+    await db.update(block4b);
+    expect((await getHolders(assetId)).results).toEqual([
+      { address: addr1, balance: '1000' },
+      { address: addr2, balance: '500' },
+    ]);
+    expect(await getSupply(contractId)).toEqual({
+      asset_identifier: assetId,
+      minted: '1500',
+      burned: '0',
+      circulating_supply: '1500',
+    });
+
+    const unknownToken = await supertest(api.server).get(
+      `/extended/v1/tokens/ft/${contractId}::other/supply`
+    );
+    expect(unknownToken.status).toBe(404);
+    const invalidContract = await supertest(api.server).get(
+      `/extended/v1/tokens/ft/invalid-contract/holders`
+    );
+    expect(invalidContract.status).toBe(400);
+  });
+
+  test('nft token metadata', async () => {
+    process.env['STACKS_API_ENABLE_NFT_METADATA'] = '1';
+    const addr1 = 'SP3BK1NNSWN719Z6KDW05RBGVS940YCN6X84STYPR';
+    const contractId = 'SP2X0TZ59D5SZ8ACQ6YMCHHNR2ZN51Z32E2CJ173.the-explorer-guild';
+    const assetId = `${contractId}::The-Explorer-Guild`;
+
+    const block1 = new TestBlockBuilder({ block_height: 1, index_block_hash: '0x01' })
+      .addTx({ tx_id: '0x5454' })
+      .addTxNftEvent({
+        asset_identifier: assetId,
+        asset_event_type_id: DbAssetEventTypeId.Mint,
+        recipient: addr1,
+        value: serializeCV(uintCV(1)),
+      })
+      .addTxNftEvent({
+        asset_identifier: assetId,
+        asset_event_type_id: DbAssetEventTypeId.Mint,
+        recipient: addr1,
+        value: serializeCV(uintCV(2)),
+      })
+      .build();
+    await db.update(block1);
+    await db.updateNftTokenMetadata({
+      contract_id: contractId,
+      token_id: 1n,
+      token_uri: 'ipfs://explorer/1.json',
+      name: 'Explorer #1',
+      description: 'An explorer',
+      image_uri: 'https://ipfs.io/explorer/1.png',
+      image_canonical_uri: 'ipfs://explorer/1.png',
+      attributes: [{ trait_type: 'Hat', value: 'Explorer' }],
+    });
+    expect(await db.getNftMintedTokenIds([assetId])).toEqual([1n, 2n]);
+
+    const metadata = await supertest(api.server).get(
+      `/extended/v1/tokens/nft/${contractId}/1/metadata`
+    );
+    expect(metadata.status).toBe(200);
+    expect(metadata.body).toEqual({
+      contract_id: contractId,
+      token_id: '1',
+      token_uri: 'ipfs://explorer/1.json',
+      name: 'Explorer #1',
+      description: 'An explorer',
+      image_uri: 'https://ipfs.io/explorer/1.png',
+      image_canonical_uri: 'ipfs://explorer/1.png',
+      attributes: [{ trait_type: 'Hat', value: 'Explorer' }],
+    });
+    const notProcessed = await supertest(api.server).get(
+      `/extended/v1/tokens/nft/${contractId}/2/metadata`
+    );
+    expect(notProcessed.status).toBe(404);
+    const invalidId = await supertest(api.server).get(
+      `/extended/v1/tokens/nft/${contractId}/abc/metadata`
+    );
+    expect(invalidId.status).toBe(400);
+
+    const holdings = await supertest(api.server).get(
+      `/extended/v1/tokens/nft/holdings?principal=${addr1}&with_metadata=true`
+    );
+    expect(holdings.status).toBe(200);
+    const holdingsList: NonFungibleTokenHoldingsList = holdings.body;
+    expect(holdingsList.total).toBe(2);
+    const holding1 = holdingsList.results.find(r => r.value.repr === 'u1');
+    const holding2 = holdingsList.results.find(r => r.value.repr === 'u2');
+    expect(holding1?.metadata).toEqual(metadata.body);
+    expect(holding2?.metadata).toBeUndefined();
+
+    const withoutMetadata = await supertest(api.server).get(
+      `/extended/v1/tokens/nft/holdings?principal=${addr1}`
+    );
+    expect(withoutMetadata.body.results[0].metadata).toBeUndefined();
+    delete process.env['STACKS_API_ENABLE_NFT_METADATA'];
+  });
+
   afterEach(async () => {
     await api.terminate();
     client.release();
@@ -9,6 +9,7 @@ import * as path from 'path';
 import * as os from 'os';
 import * as nock from 'nock';
 import { DbBlock } from 'src/datastore/common';
+import { TestBlockBuilder } from '../test-utils/test-builders';
 
 describe('v2-proxy tests', () => {
   let db: PgDataStore;
@@ -107,6 +108,86 @@ describe('v2-proxy tests', () => {
     );
   });
 
+  test('read-only call cache', async () => {
+    const primaryProxyEndpoint = 'proxy-stacks-node:12345';
+    await useWithCleanup(
+      () => {
+        const restoreEnvVars = withEnvVars(
+          ['STACKS_CORE_PROXY_HOST', primaryProxyEndpoint.split(':')[0]],
+          ['STACKS_CORE_PROXY_PORT', primaryProxyEndpoint.split(':')[1]]
+        );
+        return [, () => restoreEnvVars()] as const;
+      },
+      async () => {
+        const apiServer = await startApiServer({
+          datastore: db,
+          chainId: ChainID.Mainnet,
+          httpLogLevel: 'debug',
+        });
+        return [apiServer, apiServer.terminate] as const;
+      },
+      async (_, api) => {
+        const block1 = new TestBlockBuilder({
+          block_height: 1,
+          block_hash: '0x11',
+          index_block_hash: '0xaa',
+        }).build();
+        await db.update(block1);
+
+        const callPath =
+          '/v2/contracts/call-read/SP000000000000000000002Q6VF78/pox/get-stacker-info';
+        const callRequest = {
+          sender: 'SP000000000000000000002Q6VF78',
+          arguments: ['0x0516a13dce8114be0f707f97f8a4cd2c1bdc8e3ef6ab'],
+        };
+        const stubbedResponse = { okay: true, result: '0x09' };
+        nock(`http://${primaryProxyEndpoint}`)
+          .post(callPath, callRequest)
+          .once()
+          .reply(200, stubbedResponse);
+
+        // The second identical call is served from the cache without reaching the node.
+        const call1 = await supertest(api.server).post(callPath).send(callRequest);
+        expect(call1.status).toBe(200);
+        expect(call1.body).toEqual(stubbedResponse);
+        const call2 = await supertest(api.server).post(callPath).send(callRequest);
+        expect(call2.status).toBe(200);
+        expect(call2.body).toEqual(stubbedResponse);
+
+        // Different arguments are not served from the cache.
+        const otherRequest = {
+          ...callRequest,
+          arguments: ['0x0100000000000000000000000000000001'],
+        };
+        nock(`http://${primaryProxyEndpoint}`)
+          .post(callPath, otherRequest)
+          .once()
+          .reply(200, { okay: true, result: '0x0a' });
+        const call3 = await supertest(api.server).post(callPath).send(otherRequest);
+        expect(call3.status).toBe(200);
+        expect(call3.body).toEqual({ okay: true, result: '0x0a' });
+
+        // A new block invalidates cached responses.
+        const block2 = new TestBlockBuilder({
+          block_height: 2,
+          block_hash: '0x12',
+          index_block_hash: '0xbb',
+          parent_index_block_hash: '0xaa',
+        }).build();
+        await db.update(block2);
+        const updatedResponse = { okay: true, result: '0x0a0100000000000000000000000000000064' };
+        nock(`http://${primaryProxyEndpoint}`)
+          .post(callPath, callRequest)
+          .once()
+          .reply(200, updatedResponse);
+        const call4 = await supertest(api.server).post(callPath).send(callRequest);
+        expect(call4.status).toBe(200);
+        expect(call4.body).toEqual(updatedResponse);
+        expect(nock.isDone()).toBe(true);
+      }
+    );
+  });
+
   afterEach(async () => {
     client.release();
     await db?.close();
@@ -0,0 +1,221 @@
+import * as supertest from 'supertest';
+import * as http from 'http';
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import { ChainID, serializeCV, stringAsciiCV, tupleCV, uintCV } from '@stacks/transactions';
+import { PoolClient } from 'pg';
+import { startApiServer, ApiServer } from '../api/init';
+import { PgDataStore, cycleMigrations, runMigrations } from '../datastore/postgres-store';
+import { TestBlockBuilder } from '../test-utils/test-builders';
+import { waiter, Waiter } from '../helpers';
+import { WebhookDispatcher, WebhookPayload } from '../webhooks/webhook-dispatcher';
+import { signWebhookPayload } from '../webhooks/helpers';
+import {
+  WebhookCreateResponse,
+  WebhookDeliveryListResponse,
+  WebhookListResponse,
+} from '@stacks/stacks-blockchain-api-types';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('webhook tests', () => {
+  const authToken = 'test-webhook-token';
+  const senderAddress = 'ST3J8EVYHVKH6XXPD61EE8XEHW4Y2K83861225AB1';
+  const contractId = 'ST27W5M8BRKA7C5MZE2R1S1F4XTPHFWFRNHA9M04Y.hello-world';
+
+  let db: PgDataStore;
+  let client: PoolClient;
+  let api: ApiServer;
+  let dispatcher: WebhookDispatcher;
+  let receiver: http.Server;
+  let receiverUrl: string;
+  let receiverStatus: number;
+  let received: ReceivedRequest[];
+  let requestWaiter: Waiter<void>;
+
+  beforeEach(async () => {
+    process.env.PG_DATABASE = 'postgres';
+    process.env.STACKS_API_ENABLE_WEBHOOKS = '1';
+    process.env.STACKS_API_WEBHOOK_AUTH_TOKEN = authToken;
+    await cycleMigrations();
+    db = await PgDataStore.connect({ usageName: 'tests' });
+    client = await db.pool.connect();
+    api = await startApiServer({ datastore: db, chainId: ChainID.Testnet, httpLogLevel: 'silly' });
+    dispatcher = new WebhookDispatcher(db);
+
+    receiverStatus = 200;
+    received = [];
+    requestWaiter = waiter();
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(receiverStatus).end();
+        requestWaiter.finish();
+      });
+    });
+    receiver.listen(0, '127.0.0.1');
+    await once(receiver, 'listening');
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+  });
+
+  const registerWebhook = async (filter: Record<string, string>) => {
+    const result = await supertest(api.server)
+      .post('/extended/v1/webhooks')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ url: receiverUrl, ...filter });
+    expect(result.status).toBe(201);
+    return result.body as WebhookCreateResponse;
+  };
+
+  const getDeliveries = async (webhookId: number) => {
+    const result = await supertest(api.server)
+      .get(`/extended/v1/webhooks/${webhookId}/deliveries`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(result.status).toBe(200);
+    return result.body as WebhookDeliveryListResponse;
+  };
+
+  test('webhook registration', async () => {
+    const unauthorized = await supertest(api.server)
+      .post('/extended/v1/webhooks')
+      .send({ url: receiverUrl, address: senderAddress });
+    expect(unauthorized.status).toBe(401);
+    const wrongToken = await supertest(api.server)
+      .get('/extended/v1/webhooks')
+      .set('Authorization', 'Bearer nope');
+    expect(wrongToken.status).toBe(401);
+
+    const noFilter = await supertest(api.server)
+      .post('/extended/v1/webhooks')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ url: receiverUrl });
+    expect(noFilter.status).toBe(400);
+    const invalidUrl = await supertest(api.server)
+      .post('/extended/v1/webhooks')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ url: 'ftp://example.com', address: senderAddress });
+    expect(invalidUrl.status).toBe(400);
+    const invalidEventType = await supertest(api.server)
+      .post('/extended/v1/webhooks')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ url: receiverUrl, event_type: 'stx_burn' });
+    expect(invalidEventType.status).toBe(400);
+
+    const webhook = await registerWebhook({ address: senderAddress });
+    expect(webhook).toEqual({
+      id: expect.any(Number),
+      url: receiverUrl,
+      address: senderAddress,
+      secret: expect.stringMatching(/^[0-9a-f]{64}$/),
+      created_at: expect.any(String),
+    });
+
+    const list = await supertest(api.server)
+      .get('/extended/v1/webhooks')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(list.status).toBe(200);
+    const listBody: WebhookListResponse = list.body;
+    expect(listBody.total).toBe(1);
+    expect(listBody.results[0].id).toBe(webhook.id);
+    expect(listBody.results[0]).not.toHaveProperty('secret');
+
+    const deleted = await supertest(api.server)
+      .delete(`/extended/v1/webhooks/${webhook.id}`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(deleted.status).toBe(204);
+    const notFound = await supertest(api.server)
+      .get(`/extended/v1/webhooks/${webhook.id}`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(notFound.status).toBe(404);
+  });
+
+  test('webhook delivery', async () => {
+    const webhook = await registerWebhook({ contract_id: contractId, print_topic: 'transfer' });
+
+    const block = new TestBlockBuilder({ block_height: 1, index_block_hash: '0x01' })
+      .addTx({ tx_id: '0x1101', sender_address: senderAddress })
+      .addTx({ tx_id: '0x1102', contract_call_contract_id: contractId })
+      .addTxContractLogEvent({
+        contract_identifier: contractId,
+        value: serializeCV(tupleCV({ event: stringAsciiCV('mint'), amount: uintCV(1) })),
+      })
+      .addTxContractLogEvent({
+        contract_identifier: contractId,
+        value: serializeCV(tupleCV({ event: stringAsciiCV('transfer'), amount: uintCV(5) })),
+      })
+      .build();
+    await db.update(block);
+
+    await requestWaiter;
+    expect(received).toHaveLength(1);
+    const request = received[0];
+    const timestamp = parseInt(request.headers['x-webhook-timestamp'] as string);
+    expect(request.headers['x-webhook-signature']).toBe(
+      signWebhookPayload(webhook.secret, timestamp, request.body)
+    );
+    expect(request.headers['x-webhook-id']).toBe(webhook.id.toString());
+    const payload: WebhookPayload = JSON.parse(request.body);
+    expect(payload.webhook_id).toBe(webhook.id);
+    expect(payload.tx.tx_id).toBe('0x1102');
+    // Only the print event with a matching topic is delivered.
+    expect(payload.events).toHaveLength(1);
+    expect(payload.events[0].event_type).toBe('smart_contract_log');
+
+    await dispatcher.queue.onIdle();
+    const deliveries = await getDeliveries(webhook.id);
+    expect(deliveries.total).toBe(1);
+    expect(deliveries.results[0]).toEqual(
+      expect.objectContaining({
+        id: parseInt(request.headers['x-webhook-delivery-id'] as string),
+        tx_id: '0x1102',
+        status: 'delivered',
+        attempts: 1,
+        response_status: 200,
+      })
+    );
+  });
+
+  test('webhook delivery retry', async () => {
+    receiverStatus = 503;
+    const webhook = await registerWebhook({ address: senderAddress });
+
+    const block = new TestBlockBuilder({ block_height: 1, index_block_hash: '0x01' })
+      .addTx({ tx_id: '0x1101', sender_address: senderAddress })
+      .build();
+    await db.update(block);
+
+    await requestWaiter;
+    await dispatcher.queue.onIdle();
+    const deliveries = await getDeliveries(webhook.id);
+    expect(deliveries.total).toBe(1);
+    expect(deliveries.results[0]).toEqual(
+      expect.objectContaining({
+        tx_id: '0x1101',
+        status: 'pending',
+        attempts: 1,
+        response_status: 503,
+        error: 'Response 503: Service Unavailable',
+        next_attempt_at: expect.any(String),
+      })
+    );
+    expect(new Date(deliveries.results[0].next_attempt_at as string).getTime()).toBeGreaterThan(
+      Date.now()
+    );
+  });
+
+  afterEach(async () => {
+    dispatcher.close();
+    receiver.close();
+    await api.terminate();
+    client.release();
+    await db?.close();
+    await runMigrations(undefined, 'down');
+    delete process.env.STACKS_API_ENABLE_WEBHOOKS;
+    delete process.env.STACKS_API_WEBHOOK_AUTH_TOKEN;
+  });
+});
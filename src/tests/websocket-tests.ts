@@ -2,7 +2,7 @@ import * as WebSocket from 'ws';
 import { startApiServer, ApiServer } from '../api/init';
 import { PgDataStore, cycleMigrations, runMigrations } from '../datastore/postgres-store';
 import { DbTxTypeId, DbTxStatus } from '../datastore/common';
-import { waiter, Waiter } from '../helpers';
+import { I32_MAX, waiter, Waiter } from '../helpers';
 import { PoolClient } from 'pg';
 import { once } from 'events';
 import { RpcWebSocketClient } from 'rpc-websocket-client';
@@ -21,6 +21,9 @@ import {
   Block,
   RpcMicroblockSubscriptionParams,
   Microblock,
+  Transaction,
+  RpcReorgSubscriptionParams,
+  RpcReorgNotificationParams,
 } from '@stacks/stacks-blockchain-api-types';
 import { connectWebSocketClient } from '../../client/src';
 import { ChainID } from '@stacks/transactions';
@@ -140,6 +143,109 @@ describe('websocket notifications', () => {
     }
   });
 
+  test('tx stream - websocket protocol with filters and resume', async () => {
+    const sender = 'STB44HYPYAT2BB2QE513NSP81HTMYWBJP02HPGK6';
+    const block1 = new TestBlockBuilder({ block_height: 1, index_block_hash: '0x01' })
+      .addTx({ tx_id: '0x1101', sender_address: sender })
+      .addTx({ tx_id: '0x1102' })
+      .build();
+    await db.update(block1);
+
+    const addr = apiServer.address;
+    const wsAddress = `ws://${addr}/extended/v1/tx/stream?protocol=websocket&sender=${sender}&last_event_id=0:0:0`;
+    const socket = new WebSocket(wsAddress);
+    const updates: { event: string; id?: string; data: MempoolTransaction | Transaction }[] = [];
+    const updateWaiters: Waiter<void>[] = [waiter(), waiter()];
+    socket.on('message', data => {
+      updates.push(JSON.parse(data.toString()));
+      updateWaiters[updates.length - 1]?.finish();
+    });
+    await once(socket, 'open');
+
+    try {
+      // Missed tx from block 1 is replayed.
+      await updateWaiters[0];
+      expect(updates[0]).toEqual(
+        expect.objectContaining({
+          event: 'tx',
+          id: '1:0:0',
+          data: expect.objectContaining({ tx_id: '0x1101' }),
+        })
+      );
+
+      const block2 = new TestBlockBuilder({
+        block_height: 2,
+        index_block_hash: '0x02',
+        parent_index_block_hash: '0x01',
+      })
+        .addTx({ tx_id: '0x1201' })
+        .addTx({ tx_id: '0x1202', sender_address: sender })
+        .build();
+      await db.update(block2);
+
+      // Only the live tx from the filtered sender is streamed.
+      await updateWaiters[1];
+      expect(updates[1]).toEqual(
+        expect.objectContaining({
+          event: 'tx',
+          id: '2:0:1',
+          data: expect.objectContaining({ tx_id: '0x1202' }),
+        })
+      );
+      expect(updates.map(u => u.data.tx_id)).toEqual(['0x1101', '0x1202']);
+    } finally {
+      socket.terminate();
+    }
+  });
+
+  test('tx stream - replay resumes right after a tx position', async () => {
+    const block1 = new TestBlockBuilder({ block_height: 1, index_block_hash: '0x01' })
+      .addTx({ tx_id: '0x1101' })
+      .build();
+    await db.update(block1);
+    // Txs streamed in a microblock come before the txs of their anchor block.
+    const block2 = new TestBlockBuilder({
+      block_height: 2,
+      index_block_hash: '0x02',
+      parent_index_block_hash: '0x01',
+    })
+      .addTx({ tx_id: '0x1201', microblock_sequence: 0, tx_index: 0 })
+      .addTx({ tx_id: '0x1202', microblock_sequence: 0, tx_index: 1 })
+      .addTx({ tx_id: '0x1203', microblock_sequence: I32_MAX, tx_index: 0 })
+      .build();
+    await db.update(block2);
+
+    const getReplayTxIds = async (position: string, limit: number) => {
+      const [block_height, microblock_sequence, tx_index] = position.split(':').map(Number);
+      const txs = await db.getTxsAfterPosition({
+        position: { block_height, microblock_sequence, tx_index },
+        limit,
+        filter: { txTypeFilter: [], statusFilter: [] },
+      });
+      return txs.map(tx => tx.tx_id);
+    };
+    expect(await getReplayTxIds('0:0:0', 2)).toEqual(['0x1101', '0x1201']);
+    expect(await getReplayTxIds('2:0:0', 10)).toEqual(['0x1202', '0x1203']);
+    expect(await getReplayTxIds('2:0:1', 10)).toEqual(['0x1203']);
+    expect(await getReplayTxIds(`2:${I32_MAX}:0`, 10)).toEqual([]);
+  });
+
+  test('tx stream - invalid filters', async () => {
+    const addr = apiServer.address;
+    const socket = new WebSocket(
+      `ws://${addr}/extended/v1/tx/stream?protocol=websocket&type=bogus`
+    );
+    const [error] = await once(socket, 'error');
+    expect((error as Error).message).toContain('400');
+
+    // Resume ids are tx positions rather than block heights.
+    const resumeSocket = new WebSocket(
+      `ws://${addr}/extended/v1/tx/stream?protocol=websocket&last_event_id=1`
+    );
+    const [resumeError] = await once(resumeSocket, 'error');
+    expect((resumeError as Error).message).toContain('400');
+  });
+
   test('websocket rpc - block updates', async () => {
     const addr = apiServer.address;
     const wsAddress = `ws://${addr}/extended/v1/ws`;
@@ -179,6 +285,170 @@ describe('websocket notifications', () => {
     }
   });
 
+  test('websocket rpc - block subscription backfill', async () => {
+    for (let height = 1; height <= 3; height++) {
+      const block = new TestBlockBuilder({
+        block_height: height,
+        block_hash: `0x0${height}`,
+        index_block_hash: `0x1${height}`,
+        parent_index_block_hash: `0x1${height - 1}`,
+      })
+        .addTx({ tx_id: `0x110${height}` })
+        .build();
+      await db.update(block);
+    }
+
+    const addr = apiServer.address;
+    const wsAddress = `ws://${addr}/extended/v1/ws`;
+    const socket = new WebSocket(wsAddress);
+
+    await once(socket, 'open');
+    const client = new RpcWebSocketClient();
+    client.changeSocket(socket);
+    client.listenMessages();
+
+    const blocks: Block[] = [];
+    const updateWaiters: Waiter<void>[] = [waiter(), waiter()];
+    client.onNotification.push(msg => {
+      if (msg.method === 'block') {
+        blocks.push(msg.params);
+        if (blocks.length === 3) {
+          updateWaiters[0].finish();
+        } else if (blocks.length === 4) {
+          updateWaiters[1].finish();
+        }
+      }
+    });
+
+    // Blocks stored after the subscription starts are delivered live, even if they're stored before
+    // the backfill runs.
+    const block4Stored = waiter();
+    const getCurrentBlockHeight = db.getCurrentBlockHeight.bind(db);
+    let currentHeightCalls = 0;
+    const currentHeightSpy = jest
+      .spyOn(db, 'getCurrentBlockHeight')
+      .mockImplementation(async () => {
+        if (currentHeightCalls++ > 0) {
+          await block4Stored;
+        }
+        return getCurrentBlockHeight();
+      });
+
+    try {
+      const subParams: RpcBlockSubscriptionParams = { event: 'block', from_block_height: 2 };
+      const subResult = await client.call('subscribe', subParams);
+      expect(subResult).toEqual({});
+
+      const block4 = new TestBlockBuilder({
+        block_height: 4,
+        block_hash: '0x04',
+        index_block_hash: '0x14',
+        parent_index_block_hash: '0x13',
+      })
+        .addTx({ tx_id: '0x1104' })
+        .build();
+      await db.update(block4);
+      block4Stored.finish();
+
+      // Missed blocks are backfilled before live blocks are delivered.
+      await updateWaiters[0];
+      expect(blocks.map(b => b.height)).toEqual([2, 3, 4]);
+
+      // Live blocks aren't sent again by the backfill.
+      const block5 = new TestBlockBuilder({
+        block_height: 5,
+        block_hash: '0x05',
+        index_block_hash: '0x15',
+        parent_index_block_hash: '0x14',
+      })
+        .addTx({ tx_id: '0x1105' })
+        .build();
+      await db.update(block5);
+      await updateWaiters[1];
+      expect(blocks.map(b => b.height)).toEqual([2, 3, 4, 5]);
+
+      await expect(
+        client.call('subscribe', { event: 'block', from_microblock_hash: '0xffff' })
+      ).rejects.toEqual(expect.objectContaining({ message: 'Invalid params' }));
+    } finally {
+      currentHeightSpy.mockRestore();
+      socket.terminate();
+    }
+  });
+
+  test('websocket rpc - reorg notifications', async () => {
+    const block1 = new TestBlockBuilder({
+      block_height: 1,
+      block_hash: '0x01',
+      index_block_hash: '0x11',
+    })
+      .addTx({ tx_id: '0x1101' })
+      .build();
+    await db.update(block1);
+    const block2 = new TestBlockBuilder({
+      block_height: 2,
+      block_hash: '0x02',
+      index_block_hash: '0x12',
+      parent_index_block_hash: '0x11',
+    })
+      .addTx({ tx_id: '0x1102' })
+      .build();
+    await db.update(block2);
+
+    const addr = apiServer.address;
+    const wsAddress = `ws://${addr}/extended/v1/ws`;
+    const socket = new WebSocket(wsAddress);
+
+    await once(socket, 'open');
+    const client = new RpcWebSocketClient();
+    client.changeSocket(socket);
+    client.listenMessages();
+
+    const updateWaiter: Waiter<RpcReorgNotificationParams> = waiter();
+    client.onNotification.push(msg => {
+      if (msg.method === 'reorg') {
+        updateWaiter.finish(msg.params);
+      }
+    });
+
+    try {
+      const subParams: RpcReorgSubscriptionParams = { event: 'reorg' };
+      const subResult = await client.call('subscribe', subParams);
+      expect(subResult).toEqual({});
+
+      // Block 2b is stored as non-canonical, then block 3b makes its fork the canonical chain.
+      const block2b = new TestBlockBuilder({
+        block_height: 2,
+        block_hash: '0x22',
+        index_block_hash: '0x22',
+        parent_index_block_hash: '0x11',
+      })
+        .addTx({ tx_id: '0x2202' })
+        .build();
+      await db.update(block2b);
+      const block3b = new TestBlockBuilder({
+        block_height: 3,
+        block_hash: '0x23',
+        index_block_hash: '0x23',
+        parent_index_block_hash: '0x22',
+      })
+        .addTx({ tx_id: '0x2203' })
+        .build();
+      await db.update(block3b);
+
+      const result = await updateWaiter;
+      expect(result).toEqual({
+        fork_block_height: 1,
+        fork_index_block_hash: '0x11',
+        orphaned_index_block_hashes: ['0x12'],
+        orphaned_microblock_hashes: [],
+        orphaned_tx_ids: ['0x1102'],
+      });
+    } finally {
+      socket.terminate();
+    }
+  });
+
   test('websocket rpc - microblock updates', async () => {
     const addr = apiServer.address;
     const wsAddress = `ws://${addr}/extended/v1/ws`;
@@ -5,7 +5,9 @@ import {
   TokenMetadataProcessingMode,
 } from './tokens-contract-handler';
 import fetch from 'node-fetch';
+import { ClarityTypeID, ClarityValue, decodeClarityValue } from 'stacks-encoding-native-js';
 import { parseArgBoolean } from '../helpers';
+import { DbTokenIdRange } from '../datastore/common';
 
 export function isFtMetadataEnabled() {
   const opt = process.env['STACKS_API_ENABLE_FT_METADATA']?.toLowerCase().trim();
@@ -38,6 +40,14 @@ export function getTokenMetadataFetchTimeoutMs() {
   return parseInt(opt);
 }
 
+/**
+ * Bearer token required to request token metadata refreshes through the API. The refresh endpoint is
+ * disabled if not set.
+ */
+export function getTokenMetadataRefreshAuthToken(): string | undefined {
+  return process.env['STACKS_API_TOKEN_METADATA_REFRESH_AUTH_TOKEN']?.trim() || undefined;
+}
+
 /**
  * Determines the token metadata error handling mode based on .env values.
  * @returns TokenMetadataMode
@@ -261,3 +271,88 @@ export async function performFetch<Type>(
     throw new Error(`Error parsing response from ${url} as JSON: ${error}`);
   }
 }
+
+/**
+ * Parses an inclusive range of NFT token ids given as decimal strings.
+ * @returns `undefined` if neither bound is given
+ * @throws if only one bound is given, a bound isn't an unsigned integer or the range is empty
+ */
+export function parseTokenIdRange(start?: string, end?: string): DbTokenIdRange | undefined {
+  if (start === undefined && end === undefined) {
+    return undefined;
+  }
+  if (start === undefined || end === undefined) {
+    throw new Error('Both the start and the end of a token id range are required');
+  }
+  if (!/^\d+$/.test(start) || !/^\d+$/.test(end)) {
+    throw new Error(`Invalid token id range: ${start} to ${end}`);
+  }
+  const range: DbTokenIdRange = { start: BigInt(start), end: BigInt(end) };
+  if (range.start > range.end) {
+    throw new Error(`Token id range start ${start} is greater than its end ${end}`);
+  }
+  return range;
+}
+
+export interface TokenMetadataUpdateNotification {
+  tokenClass: 'ft' | 'nft';
+  contractId: string;
+  /** Specific NFTs whose metadata changed, if not every token of the contract. */
+  tokenIds?: bigint[];
+}
+
+function getTupleEntry(value: ClarityValue, key: string): ClarityValue | undefined {
+  return value.type_id === ClarityTypeID.Tuple ? value.data[key] : undefined;
+}
+
+/**
+ * Parses a SIP-019 token metadata update notification printed by a contract, e.g.
+ * `(print { notification: "token-metadata-update", payload: { token-class: "nft", contract-id: .my-nft, token-ids: (list u1 u2) } })`.
+ * @param value - serialized Clarity value of the `print` event
+ * @returns `undefined` if the value isn't a well-formed notification
+ */
+export function parseTokenMetadataUpdateNotification(
+  value: string | Buffer
+): TokenMetadataUpdateNotification | undefined {
+  let decoded: ClarityValue;
+  try {
+    decoded = decodeClarityValue(value);
+  } catch (error) {
+    return undefined;
+  }
+  const notification = getTupleEntry(decoded, 'notification');
+  if (
+    notification?.type_id !== ClarityTypeID.StringAscii ||
+    notification.data !== 'token-metadata-update'
+  ) {
+    return undefined;
+  }
+  const payload = getTupleEntry(decoded, 'payload');
+  if (!payload) {
+    return undefined;
+  }
+  const tokenClass = getTupleEntry(payload, 'token-class');
+  const contractId = getTupleEntry(payload, 'contract-id');
+  if (
+    tokenClass?.type_id !== ClarityTypeID.StringAscii ||
+    (tokenClass.data !== 'ft' && tokenClass.data !== 'nft') ||
+    contractId?.type_id !== ClarityTypeID.PrincipalContract
+  ) {
+    return undefined;
+  }
+  const result: TokenMetadataUpdateNotification = {
+    tokenClass: tokenClass.data,
+    contractId: `${contractId.address}.${contractId.contract_name}`,
+  };
+  const tokenIds = getTupleEntry(payload, 'token-ids');
+  if (tokenClass.data === 'nft' && tokenIds?.type_id === ClarityTypeID.List) {
+    result.tokenIds = [];
+    for (const tokenId of tokenIds.list) {
+      if (tokenId.type_id !== ClarityTypeID.UInt) {
+        return undefined;
+      }
+      result.tokenIds.push(BigInt(tokenId.value));
+    }
+  }
+  return result;
+}
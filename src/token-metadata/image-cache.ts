@@ -0,0 +1,210 @@
+import * as crypto from 'crypto';
+import fetch from 'node-fetch';
+import { parseDataUrl } from '../helpers';
+import { getTokenMetadataFetchTimeoutMs } from './helpers';
+import { ImageStorage, LocalImageStorage, S3ImageStorage } from './image-storage';
+
+/** Path, relative to the API root, that cached images are served from. */
+export const TOKEN_IMAGES_PATH = '/extended/v1/tokens/images';
+
+const DEFAULT_IMAGE_MAX_BYTES = 5_000_000;
+
+/**
+ * An image that can't be cached because it breaks the configured limits, isn't a supported image format
+ * or its host answered with a client error. Retrying won't help, so token metadata keeps the original
+ * image URL instead.
+ */
+export class TokenImageRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.message = message;
+    this.name = this.constructor.name;
+  }
+}
+
+interface ImageFormat {
+  extension: string;
+  contentType: string;
+  matches: (data: Buffer) => boolean;
+}
+
+/** Supported image formats, detected from the image content rather than the declared content type. */
+const IMAGE_FORMATS: ImageFormat[] = [
+  {
+    extension: 'png',
+    contentType: 'image/png',
+    matches: data => data.slice(0, 8).equals(Buffer.from('89504e470d0a1a0a', 'hex')),
+  },
+  {
+    extension: 'jpg',
+    contentType: 'image/jpeg',
+    matches: data => data.slice(0, 3).equals(Buffer.from('ffd8ff', 'hex')),
+  },
+  {
+    extension: 'gif',
+    contentType: 'image/gif',
+    matches: data => ['GIF87a', 'GIF89a'].includes(data.slice(0, 6).toString('latin1')),
+  },
+  {
+    extension: 'webp',
+    contentType: 'image/webp',
+    matches: data =>
+      data.slice(0, 4).toString('latin1') === 'RIFF' &&
+      data.slice(8, 12).toString('latin1') === 'WEBP',
+  },
+  {
+    extension: 'svg',
+    contentType: 'image/svg+xml',
+    matches: data =>
+      /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE[^>]*>\s*)?<svg[\s>]/i.test(
+        data.slice(0, 1024).toString('utf8')
+      ),
+  },
+];
+
+/** Cached image keys: the sha256 of the image content and the extension of its format. */
+const IMAGE_KEY_REGEX = /^[0-9a-f]{64}\.(png|jpg|gif|webp|svg)$/;
+
+export function isValidTokenImageKey(key: string): boolean {
+  return IMAGE_KEY_REGEX.test(key);
+}
+
+/**
+ * Downloads token images and stores them in an {@link ImageStorage}, so that they can be served by the
+ * API instead of the often slow or short-lived hosts picked by token contracts. Images are normalized to
+ * a content-addressed key and a content type detected from their content, but their content is stored as
+ * downloaded: resizing or re-encoding images is out of scope.
+ */
+export class TokenImageCache {
+  readonly storage: ImageStorage;
+  private readonly publicUrl: string;
+  private readonly maxBytes: number;
+
+  /**
+   * @param publicUrl - base URL of the API serving the cached images
+   */
+  constructor(args: { storage: ImageStorage; publicUrl: string; maxBytes?: number }) {
+    this.storage = args.storage;
+    this.publicUrl = args.publicUrl.replace(/\/+$/, '');
+    this.maxBytes = args.maxBytes ?? DEFAULT_IMAGE_MAX_BYTES;
+  }
+
+  /**
+   * Downloads and stores an image.
+   * @param imgUrl - http(s) or data URL of the image
+   * @returns URL the cached image is served from
+   * @throws {@link TokenImageRejectedError} if the image is too large, not in a supported format or
+   * its host answered with a 4xx status. Other errors, e.g. network errors or 5xx statuses, can be
+   * retried.
+   */
+  async cacheImage(imgUrl: string): Promise<string> {
+    const data = await this.download(imgUrl);
+    const format = IMAGE_FORMATS.find(f => f.matches(data));
+    if (!format) {
+      throw new TokenImageRejectedError(`Unsupported image format at ${imgUrl}`);
+    }
+    const key = `${crypto.createHash('sha256').update(data).digest('hex')}.${format.extension}`;
+    await this.storage.put(key, data, format.contentType);
+    return `${this.publicUrl}${TOKEN_IMAGES_PATH}/${key}`;
+  }
+
+  private async download(imgUrl: string): Promise<Buffer> {
+    let data: Buffer;
+    if (imgUrl.startsWith('data:')) {
+      const dataUrl = parseDataUrl(imgUrl);
+      if (!dataUrl) {
+        throw new TokenImageRejectedError(`Image data URL could not be parsed`);
+      }
+      try {
+        data = dataUrl.base64
+          ? Buffer.from(dataUrl.data, 'base64')
+          : Buffer.from(decodeURIComponent(dataUrl.data), 'utf8');
+      } catch (error) {
+        throw new TokenImageRejectedError(`Image data URL could not be decoded: ${error}`);
+      }
+    } else {
+      const response = await fetch(imgUrl, {
+        timeout: getTokenMetadataFetchTimeoutMs(),
+        // Read one byte past the limit so that oversized images are rejected below.
+        size: this.maxBytes + 1,
+      });
+      if (!response.ok) {
+        const message = `Response ${response.status}: ${response.statusText} fetching ${imgUrl}`;
+        if (response.status >= 400 && response.status < 500) {
+          throw new TokenImageRejectedError(message);
+        }
+        throw new Error(message);
+      }
+      const contentType = response.headers.get('content-type')?.toLowerCase();
+      // Some hosts don't declare a content type for images, those are validated by their content only.
+      if (
+        contentType &&
+        !contentType.startsWith('image/') &&
+        !contentType.startsWith('application/octet-stream')
+      ) {
+        throw new TokenImageRejectedError(`Unexpected content type ${contentType} at ${imgUrl}`);
+      }
+      try {
+        data = await response.buffer();
+      } catch (error: any) {
+        if (error.type === 'max-size') {
+          throw new TokenImageRejectedError(`Image at ${imgUrl} exceeds ${this.maxBytes} bytes`);
+        }
+        throw error;
+      }
+    }
+    if (data.length > this.maxBytes) {
+      throw new TokenImageRejectedError(`Image at ${imgUrl} exceeds ${this.maxBytes} bytes`);
+    }
+    return data;
+  }
+}
+
+/**
+ * Creates the token image cache configured with the `STACKS_API_IMAGE_CACHE_*` env vars.
+ * @returns `undefined` if no storage backend is configured
+ */
+export function getTokenImageCache(): TokenImageCache | undefined {
+  const storageType = process.env['STACKS_API_IMAGE_CACHE_STORAGE']?.toLowerCase().trim();
+  if (!storageType) {
+    return undefined;
+  }
+  const publicUrl = process.env['STACKS_API_IMAGE_CACHE_PUBLIC_URL']?.trim();
+  if (!publicUrl) {
+    throw new Error(
+      `STACKS_API_IMAGE_CACHE_PUBLIC_URL must be set when the image cache is enabled`
+    );
+  }
+  let storage: ImageStorage;
+  if (storageType === 'local') {
+    const directory = process.env['STACKS_API_IMAGE_CACHE_DIR']?.trim();
+    if (!directory) {
+      throw new Error(`STACKS_API_IMAGE_CACHE_DIR must be set for the local image cache storage`);
+    }
+    storage = new LocalImageStorage(directory);
+  } else if (storageType === 's3') {
+    const bucket = process.env['STACKS_API_IMAGE_CACHE_S3_BUCKET']?.trim();
+    const accessKeyId = process.env['STACKS_API_IMAGE_CACHE_S3_ACCESS_KEY_ID']?.trim();
+    const secretAccessKey = process.env['STACKS_API_IMAGE_CACHE_S3_SECRET_ACCESS_KEY']?.trim();
+    if (!bucket || !accessKeyId || !secretAccessKey) {
+      throw new Error(
+        `STACKS_API_IMAGE_CACHE_S3_BUCKET, STACKS_API_IMAGE_CACHE_S3_ACCESS_KEY_ID and STACKS_API_IMAGE_CACHE_S3_SECRET_ACCESS_KEY must be set for the s3 image cache storage`
+      );
+    }
+    storage = new S3ImageStorage({
+      bucket,
+      accessKeyId,
+      secretAccessKey,
+      region: process.env['STACKS_API_IMAGE_CACHE_S3_REGION']?.trim() || 'us-east-1',
+      endpoint: process.env['STACKS_API_IMAGE_CACHE_S3_ENDPOINT']?.trim() || undefined,
+    });
+  } else {
+    throw new Error(`Unsupported STACKS_API_IMAGE_CACHE_STORAGE: ${storageType}`);
+  }
+  const maxBytes = process.env['STACKS_API_IMAGE_CACHE_MAX_BYTES'];
+  return new TokenImageCache({
+    storage,
+    publicUrl,
+    maxBytes: maxBytes ? parseInt(maxBytes) : undefined,
+  });
+}
@@ -0,0 +1,173 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import fetch from 'node-fetch';
+
+/**
+ * Object storage for cached token images. Keys are unique per image content, so stored objects never
+ * change.
+ */
+export interface ImageStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** @returns `undefined` if no object is stored at the key */
+  get(key: string): Promise<{ data: Buffer; contentType: string } | undefined>;
+}
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+};
+
+/**
+ * Stores images as files in a local directory. Their content type is derived from the key extension.
+ */
+export class LocalImageStorage implements ImageStorage {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = path.join(this.directory, key);
+    if (fs.existsSync(filePath)) {
+      return;
+    }
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    // Write to a temporary file first so that readers never see partially written images.
+    const tmpPath = `${filePath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.promises.writeFile(tmpPath, data);
+    await fs.promises.rename(tmpPath, filePath);
+  }
+
+  async get(key: string): Promise<{ data: Buffer; contentType: string } | undefined> {
+    const contentType = CONTENT_TYPES_BY_EXTENSION[path.extname(key)];
+    if (!contentType) {
+      return undefined;
+    }
+    try {
+      const data = await fs.promises.readFile(path.join(this.directory, key));
+      return { data, contentType };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
+
+export interface S3ImageStorageConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /**
+   * Endpoint of an S3-compatible service, e.g. `http://localhost:9000`. Objects are then addressed with
+   * path-style URLs. Defaults to AWS S3 with virtual-hosted-style URLs.
+   */
+  endpoint?: string;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmacSha256(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Stores images in an S3-compatible bucket, authenticating requests with AWS Signature Version 4.
+ */
+export class S3ImageStorage implements ImageStorage {
+  private readonly config: S3ImageStorageConfig;
+
+  constructor(config: S3ImageStorageConfig) {
+    this.config = config;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, data, {
+      'content-type': contentType,
+      'cache-control': 'public, max-age=31536000, immutable',
+    });
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${key} failed with ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<{ data: Buffer; contentType: string } | undefined> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      return undefined;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 GET ${key} failed with ${response.status}: ${await response.text()}`);
+    }
+    return {
+      data: await response.buffer(),
+      contentType: response.headers.get('content-type') ?? 'application/octet-stream',
+    };
+  }
+
+  private getObjectUrl(key: string): URL {
+    const { endpoint, bucket, region } = this.config;
+    if (endpoint) {
+      return new URL(`${endpoint.replace(/\/+$/, '')}/${bucket}/${encodeURIComponent(key)}`);
+    }
+    return new URL(`https://${bucket}.s3.${region}.amazonaws.com/${encodeURIComponent(key)}`);
+  }
+
+  private request(
+    method: 'GET' | 'PUT',
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ) {
+    const url = this.getObjectUrl(key);
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': sha256Hex(body ?? ''),
+      'x-amz-date': new Date().toISOString().replace(/[:-]|\.\d{3}/g, ''),
+    };
+    headers['authorization'] = this.sign(method, url, headers);
+    return fetch(url.toString(), { method, headers, body });
+  }
+
+  /**
+   * Computes the `Authorization` header of a request.
+   * See https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-header-based-auth.html
+   */
+  private sign(method: string, url: URL, headers: Record<string, string>): string {
+    const amzDate = headers['x-amz-date'];
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.config.region}/s3/aws4_request`;
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...signedHeaderNames.map(name => `${name}:${headers[name].trim()}`),
+      '',
+      signedHeaderNames.join(';'),
+      headers['x-amz-content-sha256'],
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join(
+      '\n'
+    );
+    let signingKey = hmacSha256(`AWS4${this.config.secretAccessKey}`, date);
+    for (const part of [this.config.region, 's3', 'aws4_request']) {
+      signingKey = hmacSha256(signingKey, part);
+    }
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+    return (
+      `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`
+    );
+  }
+}
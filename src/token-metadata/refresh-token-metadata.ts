@@ -0,0 +1,40 @@
+import { PgDataStore } from '../datastore/postgres-store';
+import { isValidPrincipal } from '../helpers';
+import { parseTokenIdRange } from './helpers';
+
+/**
+ * Queues the token metadata of a contract to be processed again by the API instance that runs the
+ * token metadata processor.
+ * @param contractId - ID of the token contract
+ * @param tokenIdStart - First NFT id of an inclusive range to refresh, if not refreshing every token
+ * @param tokenIdEnd - Last NFT id of an inclusive range to refresh, if not refreshing every token
+ */
+export async function refreshTokenMetadata(
+  contractId?: string,
+  tokenIdStart?: string,
+  tokenIdEnd?: string
+): Promise<void> {
+  if (!contractId) {
+    throw new Error(`A contract ID should be specified with the --contract-id option`);
+  }
+  if (!contractId.includes('.') || !isValidPrincipal(contractId)) {
+    throw new Error(`Invalid contract ID: ${contractId}`);
+  }
+  // Empty options are treated as not given.
+  const tokenIdRange = parseTokenIdRange(tokenIdStart || undefined, tokenIdEnd || undefined);
+  const db = await PgDataStore.connect({
+    usageName: 'refresh-token-metadata',
+    skipMigrations: true,
+  });
+  try {
+    const entry = await db.enqueueTokenMetadataRefresh({ contractId, tokenIdRange });
+    if (!entry.found) {
+      throw new Error(`No token contract found for ${contractId}`);
+    }
+    console.log(
+      `Token metadata refresh queued for ${contractId}: queue ID ${entry.result.queueId}`
+    );
+  } finally {
+    await db.close();
+  }
+}
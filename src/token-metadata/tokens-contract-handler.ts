@@ -2,7 +2,9 @@ import * as child_process from 'child_process';
 import {
   DataStore,
   DbFungibleTokenMetadata,
+  DbNftTokenMetadata,
   DbNonFungibleTokenMetadata,
+  DbTokenIdRange,
 } from '../datastore/common';
 import {
   ChainID,
@@ -27,6 +29,7 @@ import {
   performFetch,
 } from './helpers';
 import { ReadOnlyContractCallResponse, StacksCoreRpcClient } from '../core-rpc/client';
+import { getTokenImageCache, TokenImageRejectedError } from './image-cache';
 import { FetchError } from 'node-fetch';
 
 /**
@@ -43,6 +46,12 @@ const METADATA_MAX_IMMEDIATE_RETRY_COUNT = 5;
 
 const PUBLIC_IPFS = 'https://ipfs.io';
 
+/**
+ * The max number of NFTs processed by a single queue entry, so that a huge token id range can't stall
+ * the processing of every other contract.
+ */
+const NFT_MAX_TOKENS_PER_QUEUE_ENTRY = 10_000;
+
 export enum TokenMetadataProcessingMode {
   /** If a recoverable processing error occurs, we'll try again until the max retry attempt is reached. See `.env` */
   default,
@@ -72,6 +81,7 @@ interface NftTokenMetadata {
   name: string;
   imageUri: string;
   description: string;
+  attributes?: unknown;
 }
 
 interface FtTokenMetadata {
@@ -87,6 +97,8 @@ interface TokenHandlerArgs {
   chainId: ChainID;
   txId: string;
   dbQueueId: number;
+  /** NFTs to process, if a refresh only targets some tokens of the contract. */
+  tokenIdRange?: DbTokenIdRange;
 }
 
 /**
@@ -99,11 +111,13 @@ export class TokensContractHandler {
   readonly contractId: string;
   readonly txId: string;
   readonly dbQueueId: number;
+  readonly tokenIdRange?: DbTokenIdRange;
   private readonly db: DataStore;
   private readonly randomPrivKey = makeRandomPrivKey();
   private readonly chainId: ChainID;
   private readonly address: string;
   private readonly tokenKind: 'ft' | 'nft';
+  private readonly nftAssetNames: string[];
   private readonly nodeRpcClient: StacksCoreRpcClient;
 
   constructor(args: TokenHandlerArgs) {
@@ -113,6 +127,8 @@ export class TokensContractHandler {
     this.chainId = args.chainId;
     this.txId = args.txId;
     this.dbQueueId = args.dbQueueId;
+    this.tokenIdRange = args.tokenIdRange;
+    this.nftAssetNames = args.smartContractAbi.non_fungible_tokens.map(nft => nft.name);
     this.nodeRpcClient = new StacksCoreRpcClient();
 
     this.address = getAddressFromPrivateKey(
@@ -229,9 +245,45 @@ export class TokensContractHandler {
   }
 
   /**
-   * fetch Non Fungible contract metadata
+   * fetch Non Fungible contract metadata, and the metadata of each of its minted tokens
    */
   private async handleNftContract() {
+    // Refreshes of specific tokens leave the contract level metadata untouched.
+    if (!this.tokenIdRange) {
+      await this.handleNftContractMetadata();
+    }
+    let tokenIds: bigint[];
+    if (this.tokenIdRange) {
+      const { start, end } = this.tokenIdRange;
+      tokenIds = [];
+      // Stops one past the limit so that truncated ranges are reported below.
+      for (let id = start; id <= end && tokenIds.length <= NFT_MAX_TOKENS_PER_QUEUE_ENTRY; id++) {
+        tokenIds.push(id);
+      }
+    } else {
+      tokenIds = await this.db.getNftMintedTokenIds(
+        this.nftAssetNames.map(name => `${this.contractId}::${name}`)
+      );
+    }
+    if (tokenIds.length > NFT_MAX_TOKENS_PER_QUEUE_ENTRY) {
+      logger.warn(
+        `[token-metadata] only processing the first ${NFT_MAX_TOKENS_PER_QUEUE_ENTRY} nfts of ${this.contractId}`
+      );
+      tokenIds = tokenIds.slice(0, NFT_MAX_TOKENS_PER_QUEUE_ENTRY);
+    }
+    // A failure in a single token shouldn't retry or abort the processing of the whole contract.
+    for (const tokenId of tokenIds) {
+      try {
+        await this.handleNftToken(tokenId);
+      } catch (error) {
+        logger.warn(
+          `[token-metadata] error processing metadata of nft ${tokenId} of ${this.contractId}: ${error}`
+        );
+      }
+    }
+  }
+
+  private async handleNftContractMetadata() {
     // TODO: This is incorrectly attempting to fetch the metadata for a specific
     // NFT and applying it to the entire NFT type/contract. A new SIP needs created
     // to define how generic metadata for an NFT type/contract should be retrieved.
@@ -240,25 +292,11 @@ export class TokensContractHandler {
 
     // TODO: this should instead use the SIP-012 draft https://github.com/stacksgov/sips/pull/18
     // function `(get-nft-meta () (response (optional {name: (string-uft8 30), image: (string-ascii 255)}) uint))`
-
-    let metadata: NftTokenMetadata | undefined;
     const contractCallUri = await this.readStringFromContract('get-token-uri', [uintCV(0)]);
-    if (contractCallUri) {
-      try {
-        metadata = await this.getMetadataFromUri<NftTokenMetadata>(contractCallUri);
-        metadata = this.patchTokenMetadataImageUri(metadata);
-      } catch (error) {
-        // An unavailable external service failed to provide reasonable data (images, etc.).
-        // We will ignore these and fill out the remaining SIP-compliant metadata.
-        logger.warn(
-          `[token-metadata] nft metadata fetch error while processing ${this.contractId}: ${error}`
-        );
-      }
-    }
+    let metadata: NftTokenMetadata | undefined;
     let imgUrl: string | undefined;
-    if (metadata?.imageUri) {
-      const normalizedUrl = this.getImageUrl(metadata.imageUri);
-      imgUrl = await this.processImageUrl(normalizedUrl);
+    if (contractCallUri) {
+      ({ metadata, imgUrl } = await this.resolveNftMetadata(contractCallUri));
     }
 
     const nonFungibleTokenMetadata: DbNonFungibleTokenMetadata = {
@@ -274,6 +312,57 @@ export class TokensContractHandler {
     await this.db.updateNFtMetadata(nonFungibleTokenMetadata);
   }
 
+  /**
+   * fetch the metadata of a single NFT. Tokens without a URI, e.g. because they don't exist, are skipped.
+   */
+  private async handleNftToken(tokenId: bigint) {
+    const contractCallUri = await this.readStringFromContract('get-token-uri', [uintCV(tokenId)]);
+    if (!contractCallUri) {
+      return;
+    }
+    // Many contracts return a single URI template for every token.
+    const tokenUri = contractCallUri.replace(/\{id\}/g, tokenId.toString());
+    const { metadata, imgUrl } = await this.resolveNftMetadata(tokenUri);
+    const tokenMetadata: DbNftTokenMetadata = {
+      contract_id: this.contractId,
+      token_id: tokenId,
+      token_uri: tokenUri,
+      name: metadata?.name ?? '',
+      description: metadata?.description ?? '',
+      image_uri: imgUrl ?? '',
+      image_canonical_uri: metadata?.imageUri ?? '',
+    };
+    if (Array.isArray(metadata?.attributes)) {
+      tokenMetadata.attributes = metadata?.attributes;
+    }
+    await this.db.updateNftTokenMetadata(tokenMetadata);
+  }
+
+  /**
+   * Fetches the NFT metadata JSON at a token URI and processes its image.
+   */
+  private async resolveNftMetadata(
+    tokenUri: string
+  ): Promise<{ metadata?: NftTokenMetadata; imgUrl?: string }> {
+    let metadata: NftTokenMetadata | undefined;
+    try {
+      metadata = await this.getMetadataFromUri<NftTokenMetadata>(tokenUri);
+      metadata = this.patchTokenMetadataImageUri(metadata);
+    } catch (error) {
+      // An unavailable external service failed to provide reasonable data (images, etc.).
+      // We will ignore these and fill out the remaining SIP-compliant metadata.
+      logger.warn(
+        `[token-metadata] nft metadata fetch error while processing ${this.contractId}: ${error}`
+      );
+    }
+    let imgUrl: string | undefined;
+    if (metadata?.imageUri) {
+      const normalizedUrl = this.getImageUrl(metadata.imageUri);
+      imgUrl = await this.processImageUrl(normalizedUrl);
+    }
+    return { metadata, imgUrl };
+  }
+
   /**
    * Token metadata schema for 'image uri' is not well defined or adhered to.
    * This function looks for a handful of possible properties that could be used to
@@ -300,13 +389,27 @@ export class TokensContractHandler {
   }
 
   /**
-   * If an external image processor script is configured, then it will process the given image URL for the purpose
+   * If the built-in image cache is configured, the image is stored in it and the URL it's served from is
+   * returned. Images that the cache rejects keep their original URL.
+   * Otherwise, if an external image processor script is configured, then it will process the given image URL for the purpose
    * of caching on a CDN (or whatever else it may be created to do). The script is expected to return a new URL
    * for the image.
    * If the script is not configured, then the original URL is returned immediately.
    * If a data-uri is passed, it is also immediately returned without being passed to the script.
    */
   private async processImageUrl(imgUrl: string): Promise<string> {
+    const imageCache = getTokenImageCache();
+    if (imageCache) {
+      try {
+        return await imageCache.cacheImage(imgUrl);
+      } catch (error) {
+        if (error instanceof TokenImageRejectedError) {
+          logger.warn(`[token-metadata] image not cached for ${this.contractId}: ${error.message}`);
+          return imgUrl;
+        }
+        throw new RetryableTokenMetadataError(`Error caching image ${imgUrl}: ${error}`);
+      }
+    }
     const imageCacheProcessor = process.env['STACKS_API_IMAGE_CACHE_PROCESSOR'];
     if (!imageCacheProcessor) {
       return imgUrl;
@@ -122,6 +122,7 @@ export class TokensProcessorQueue {
       chainId: this.chainId,
       txId: queueEntry.txId,
       dbQueueId: queueEntry.queueId,
+      tokenIdRange: queueEntry.tokenIdRange,
     });
 
     void this.queue
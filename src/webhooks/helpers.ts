@@ -0,0 +1,112 @@
+import * as crypto from 'crypto';
+import { Transaction, TransactionEvent } from '@stacks/stacks-blockchain-api-types';
+import { DbWebhookFilter } from '../datastore/common';
+import { getPrintEventTopic } from '../event-stream/print-event-topic';
+
+export function isWebhooksEnabled() {
+  const opt = process.env['STACKS_API_ENABLE_WEBHOOKS']?.toLowerCase().trim();
+  return opt === '1' || opt === 'true';
+}
+
+/**
+ * Bearer token required to manage webhook registrations through the `/extended/v1/webhooks` endpoints.
+ */
+export function getWebhookAuthToken(): string | undefined {
+  return process.env['STACKS_API_WEBHOOK_AUTH_TOKEN']?.trim() || undefined;
+}
+
+/**
+ * Signs a webhook request body. Receivers verify deliveries by computing the same HMAC-SHA256 over the
+ * `X-Webhook-Timestamp` header value and the raw body, joined with a `.`.
+ * @returns signature sent in the `X-Webhook-Signature` header
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const hmac = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${hmac}`;
+}
+
+function txMatchesAddress(tx: Transaction, address: string): boolean {
+  switch (tx.tx_type) {
+    case 'token_transfer':
+      return tx.sender_address === address || tx.token_transfer.recipient_address === address;
+    case 'contract_call':
+      return tx.sender_address === address || tx.contract_call.contract_id === address;
+    case 'smart_contract':
+      return tx.sender_address === address || tx.smart_contract.contract_id === address;
+    default:
+      return tx.sender_address === address;
+  }
+}
+
+function txMatchesContract(tx: Transaction, contractId: string): boolean {
+  switch (tx.tx_type) {
+    case 'contract_call':
+      return tx.contract_call.contract_id === contractId;
+    case 'smart_contract':
+      return tx.smart_contract.contract_id === contractId;
+    default:
+      return false;
+  }
+}
+
+function eventMatchesAddress(event: TransactionEvent, address: string): boolean {
+  switch (event.event_type) {
+    case 'smart_contract_log':
+      return event.contract_log.contract_id === address;
+    case 'stx_lock':
+      return event.stx_lock_event.locked_address === address;
+    case 'stx_asset':
+    case 'fungible_token_asset':
+    case 'non_fungible_token_asset':
+      return event.asset.sender === address || event.asset.recipient === address;
+  }
+}
+
+function eventMatchesContract(event: TransactionEvent, contractId: string): boolean {
+  switch (event.event_type) {
+    case 'smart_contract_log':
+      return event.contract_log.contract_id === contractId;
+    case 'fungible_token_asset':
+    case 'non_fungible_token_asset':
+      return event.asset.asset_id.split('::')[0] === contractId;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Matches a confirmed tx against a webhook filter. Every field set in the filter must match.
+ * @returns the tx events to deliver, or `undefined` if the tx doesn't match. When the filter has an
+ * `event_type` or `print_topic`, only the matching events are returned.
+ */
+export function getWebhookFilterMatch(
+  filter: DbWebhookFilter,
+  tx: Transaction,
+  events: TransactionEvent[]
+): TransactionEvent[] | undefined {
+  const addressMatches = (event?: TransactionEvent) =>
+    !filter.address ||
+    txMatchesAddress(tx, filter.address) ||
+    (event ? eventMatchesAddress(event, filter.address) : false);
+  const contractMatches = (event?: TransactionEvent) =>
+    !filter.contract_id ||
+    txMatchesContract(tx, filter.contract_id) ||
+    (event ? eventMatchesContract(event, filter.contract_id) : false);
+
+  if (filter.event_type || filter.print_topic) {
+    const matchingEvents = events.filter(
+      event =>
+        (!filter.event_type || event.event_type === filter.event_type) &&
+        (!filter.print_topic ||
+          (event.event_type === 'smart_contract_log' &&
+            getPrintEventTopic(event.contract_log.value.hex) === filter.print_topic)) &&
+        addressMatches(event) &&
+        contractMatches(event)
+    );
+    return matchingEvents.length > 0 ? matchingEvents : undefined;
+  }
+  const matches =
+    (addressMatches() || events.some(event => addressMatches(event))) &&
+    (contractMatches() || events.some(event => contractMatches(event)));
+  return matches ? events : undefined;
+}
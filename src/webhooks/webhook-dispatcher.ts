@@ -0,0 +1,217 @@
+import fetch from 'node-fetch';
+import PQueue from 'p-queue';
+import { Transaction } from '@stacks/stacks-blockchain-api-types';
+import { DataStore, DbWebhookDelivery } from '../datastore/common';
+import { getTxFromDataStore } from '../api/controllers/db-controller';
+import { logError, logger } from '../helpers';
+import { getWebhookFilterMatch, signWebhookPayload } from './helpers';
+
+/** Maximum number of webhook requests that can be in flight at the same time. */
+const WEBHOOK_DELIVERY_CONCURRENCY_LIMIT = 5;
+
+/** Delivery attempts made before a delivery is marked as failed. */
+const WEBHOOK_MAX_ATTEMPTS = 8;
+
+/** Delay before the first retry, doubled after every failed attempt. */
+const WEBHOOK_RETRY_BASE_DELAY_MS = 10_000;
+
+const WEBHOOK_REQUEST_TIMEOUT_MS = 10_000;
+
+/** Maximum number of tx events matched against webhook filters and included in a delivery. */
+const WEBHOOK_MAX_TX_EVENTS = 500;
+
+export interface WebhookPayload {
+  webhook_id: number;
+  tx: Transaction;
+  events: Transaction['events'];
+}
+
+/**
+ * Creates deliveries for confirmed txs matching registered webhooks and POSTs them to the webhook URLs.
+ * Failed deliveries are retried with exponential backoff.
+ */
+export class WebhookDispatcher {
+  readonly queue: PQueue;
+  readonly db: DataStore;
+
+  /** Ids of the deliveries currently queued for an attempt. */
+  readonly queuedDeliveries: Set<number> = new Set();
+
+  readonly onTxUpdate: (txId: string) => void;
+  readonly onBlockUpdate: (blockHash: string) => void;
+
+  private readonly retryTimers: Set<NodeJS.Timeout> = new Set();
+
+  constructor(db: DataStore) {
+    this.db = db;
+    this.queue = new PQueue({ concurrency: WEBHOOK_DELIVERY_CONCURRENCY_LIMIT });
+    this.onTxUpdate = txId => {
+      this.txNotificationHandler(txId).catch(error => {
+        logError(`[webhooks] error creating deliveries for tx ${txId}`, error);
+      });
+    };
+    this.db.on('txUpdate', this.onTxUpdate);
+    this.onBlockUpdate = () => {
+      // Every block, check if there are due deliveries left over from a previous run.
+      this.drainDbQueue().catch(error => {
+        logError(`[webhooks] error checking pending deliveries`, error);
+      });
+    };
+    this.db.on('blockUpdate', this.onBlockUpdate);
+  }
+
+  close() {
+    this.db.off('txUpdate', this.onTxUpdate);
+    this.db.off('blockUpdate', this.onBlockUpdate);
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+    this.queue.pause();
+    this.queue.clear();
+  }
+
+  async drainDbQueue(): Promise<void> {
+    let deliveries: DbWebhookDelivery[] = [];
+    do {
+      if (this.queue.isPaused) {
+        return;
+      }
+      deliveries = await this.db.getDueWebhookDeliveries({
+        now: Date.now(),
+        limit: WEBHOOK_DELIVERY_CONCURRENCY_LIMIT,
+        excludingDeliveries: [...this.queuedDeliveries],
+      });
+      deliveries.forEach(delivery => this.queueDelivery(delivery));
+      await this.queue.onIdle();
+    } while (deliveries.length > 0);
+  }
+
+  async txNotificationHandler(txId: string) {
+    if (this.queue.isPaused) {
+      return;
+    }
+    // Only txs confirmed in an anchor block or microblock are delivered, mempool txs are not found here.
+    const txQuery = await getTxFromDataStore(this.db, {
+      txId,
+      includeUnanchored: true,
+      eventLimit: WEBHOOK_MAX_TX_EVENTS,
+      eventOffset: 0,
+    });
+    if (!txQuery.found || !txQuery.result.canonical || !txQuery.result.microblock_canonical) {
+      return;
+    }
+    const tx = txQuery.result;
+    const webhooks = await this.db.getAllWebhooks();
+    const now = Date.now();
+    const newDeliveries: Pick<
+      DbWebhookDelivery,
+      'webhook_id' | 'tx_id' | 'payload' | 'created_at'
+    >[] = [];
+    for (const webhook of webhooks) {
+      const events = getWebhookFilterMatch(webhook, tx, tx.events);
+      if (events) {
+        const payload: WebhookPayload = { webhook_id: webhook.id, tx, events };
+        newDeliveries.push({
+          webhook_id: webhook.id,
+          tx_id: tx.tx_id,
+          payload: JSON.stringify(payload),
+          created_at: now,
+        });
+      }
+    }
+    const deliveries = await this.db.insertWebhookDeliveries(newDeliveries);
+    deliveries.forEach(delivery => this.queueDelivery(delivery));
+  }
+
+  queueDelivery(delivery: DbWebhookDelivery) {
+    if (this.queuedDeliveries.has(delivery.id) || this.queue.isPaused) {
+      return;
+    }
+    this.queuedDeliveries.add(delivery.id);
+    void this.queue
+      .add(() => this.attemptDelivery(delivery))
+      .catch(error => {
+        logError(`[webhooks] error attempting delivery ${delivery.id}`, error);
+      })
+      .finally(() => {
+        this.queuedDeliveries.delete(delivery.id);
+      });
+  }
+
+  async attemptDelivery(delivery: DbWebhookDelivery) {
+    const webhookQuery = await this.db.getWebhook(delivery.webhook_id);
+    if (!webhookQuery.found) {
+      // The webhook was deleted along with its deliveries.
+      return;
+    }
+    const webhook = webhookQuery.result;
+    const attempts = delivery.attempts + 1;
+    const timestamp = Math.round(Date.now() / 1000);
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        body: delivery.payload,
+        timeout: WEBHOOK_REQUEST_TIMEOUT_MS,
+        redirect: 'manual',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': webhook.id.toString(),
+          'X-Webhook-Delivery-Id': delivery.id.toString(),
+          'X-Webhook-Timestamp': timestamp.toString(),
+          'X-Webhook-Signature': signWebhookPayload(webhook.secret, timestamp, delivery.payload),
+        },
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `Response ${response.status}: ${response.statusText}`;
+      }
+    } catch (fetchError) {
+      error = `${fetchError}`;
+    }
+
+    if (error === undefined) {
+      await this.db.updateWebhookDelivery({
+        id: delivery.id,
+        status: 'delivered',
+        attempts,
+        next_attempt_at: delivery.next_attempt_at,
+        response_status: responseStatus,
+        delivered_at: Date.now(),
+      });
+      logger.verbose(`[webhooks] delivered tx ${delivery.tx_id} to webhook ${webhook.id}`);
+      return;
+    }
+    const failed = attempts >= WEBHOOK_MAX_ATTEMPTS;
+    const retryDelay = WEBHOOK_RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+    await this.db.updateWebhookDelivery({
+      id: delivery.id,
+      status: failed ? 'failed' : 'pending',
+      attempts,
+      next_attempt_at: failed ? delivery.next_attempt_at : Date.now() + retryDelay,
+      response_status: responseStatus,
+      error,
+    });
+    if (failed) {
+      logger.warn(
+        `[webhooks] giving up delivering tx ${delivery.tx_id} to webhook ${webhook.id} after ${attempts} attempts: ${error}`
+      );
+    } else {
+      this.scheduleRetry(retryDelay);
+    }
+  }
+
+  private scheduleRetry(delayMs: number) {
+    if (this.queue.isPaused) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(timer);
+      this.drainDbQueue().catch(error => {
+        logError(`[webhooks] error retrying pending deliveries`, error);
+      });
+    }, delayMs);
+    timer.unref();
+    this.retryTimers.add(timer);
+  }
+}